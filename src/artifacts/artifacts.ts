@@ -0,0 +1,280 @@
+import { randomUUID } from "node:crypto";
+import { promises as fs } from "node:fs";
+import path from "node:path";
+import { z } from "zod";
+
+import { ToolResultFactory, type Tool } from "../base/tool";
+
+/**
+ * Name of the built-in tool that pages through stored artifacts
+ */
+export const READ_ARTIFACT_TOOL_NAME = "read_artifact";
+
+/**
+ * Characters returned per `read_artifact` call when no result limit is configured
+ */
+export const DEFAULT_ARTIFACT_PAGE_CHARS = 4000;
+
+/**
+ * Characters of an offloaded result shown to the model next to the artifact id
+ */
+export const DEFAULT_ARTIFACT_PREVIEW_CHARS = 500;
+
+/**
+ * Schema for a stored tool result
+ */
+export const ArtifactSchema = z.object({
+  id: z.string(),
+  toolName: z.string(),
+  /**
+   * Serialized tool output
+   */
+  content: z.string(),
+  sessionId: z.string().optional(),
+  createdAt: z.number(),
+});
+
+export type Artifact = z.infer<typeof ArtifactSchema>;
+
+/**
+ * What the model sees instead of a result that was offloaded to an artifact
+ */
+export interface ArtifactReference {
+  artifactId: string;
+  totalChars: number;
+  preview: string;
+  note: string;
+}
+
+/**
+ * One page of an artifact returned by the `read_artifact` tool
+ */
+export interface ArtifactPage {
+  artifactId: string;
+  offset: number;
+  content: string;
+  totalChars: number;
+  /**
+   * Offset of the next page, or null when the end was reached
+   */
+  nextOffset: number | null;
+}
+
+/**
+ * Storage backend for tool results too large to include in prompts
+ */
+export interface ArtifactStore {
+  /**
+   * Persist an artifact, replacing any artifact with the same id
+   *
+   * @param artifact - Artifact to store
+   */
+  save(artifact: Artifact): Promise<void>;
+
+  /**
+   * Load an artifact
+   *
+   * @param id - Artifact identifier
+   * @returns The artifact, or null if none exists
+   */
+  load(id: string): Promise<Artifact | null>;
+
+  /**
+   * Delete an artifact
+   *
+   * @param id - Artifact identifier
+   * @returns True if an artifact was deleted, false if none existed
+   */
+  delete(id: string): Promise<boolean>;
+}
+
+/**
+ * Create an artifact for a tool output
+ *
+ * @param toolName - Tool that produced the output
+ * @param content - Serialized output
+ * @param sessionId - Session of the run that produced it
+ * @returns Artifact with a fresh id
+ */
+export const createArtifact = (
+  toolName: string,
+  content: string,
+  sessionId?: string,
+): Artifact => ({
+  id: `artifact_${randomUUID()}`,
+  toolName,
+  content,
+  ...(sessionId && { sessionId }),
+  createdAt: Date.now(),
+});
+
+/**
+ * In-memory artifact store
+ */
+export class InMemoryArtifactStore implements ArtifactStore {
+  private readonly store = new Map<string, Artifact>();
+
+  async save(artifact: Artifact): Promise<void> {
+    this.store.set(artifact.id, { ...artifact });
+  }
+
+  async load(id: string): Promise<Artifact | null> {
+    const artifact = this.store.get(id);
+    return artifact ? { ...artifact } : null;
+  }
+
+  async delete(id: string): Promise<boolean> {
+    return this.store.delete(id);
+  }
+
+  /**
+   * Number of stored artifacts
+   */
+  get size(): number {
+    return this.store.size;
+  }
+}
+
+/**
+ * Filesystem artifact store.
+ * Writes one JSON file per artifact into the configured directory.
+ */
+export class FileArtifactStore implements ArtifactStore {
+  private readonly directory: string;
+
+  constructor(directory: string) {
+    this.directory = path.resolve(directory);
+  }
+
+  async save(artifact: Artifact): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+    await fs.writeFile(
+      this.filePath(artifact.id),
+      JSON.stringify(artifact),
+      "utf8",
+    );
+  }
+
+  async load(id: string): Promise<Artifact | null> {
+    let contents: string;
+    try {
+      contents = await fs.readFile(this.filePath(id), "utf8");
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return null;
+      }
+      throw error;
+    }
+
+    return ArtifactSchema.parse(JSON.parse(contents));
+  }
+
+  async delete(id: string): Promise<boolean> {
+    try {
+      await fs.unlink(this.filePath(id));
+      return true;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  private filePath(id: string): string {
+    return path.join(this.directory, `${encodeURIComponent(id)}.json`);
+  }
+}
+
+/**
+ * Reference shown to the model for an offloaded result
+ *
+ * @param artifact - Stored artifact
+ * @param previewChars - Characters of the content to include as a preview
+ * @returns Summary with the artifact id
+ */
+export const createArtifactReference = (
+  artifact: Artifact,
+  previewChars: number = DEFAULT_ARTIFACT_PREVIEW_CHARS,
+): ArtifactReference => ({
+  artifactId: artifact.id,
+  totalChars: artifact.content.length,
+  preview: artifact.content.slice(0, previewChars),
+  note: `The full result of "${artifact.toolName}" (${artifact.content.length} chars) was stored as an artifact. Call ${READ_ARTIFACT_TOOL_NAME} with this artifactId to read it in pages.`,
+});
+
+const ReadArtifactInputSchema = z.object({
+  artifactId: z.string().describe("Artifact id from an offloaded tool result"),
+  offset: z
+    .number()
+    .int()
+    .min(0)
+    .optional()
+    .describe("Character offset to start reading from (default: 0)"),
+  length: z
+    .number()
+    .int()
+    .positive()
+    .optional()
+    .describe("Number of characters to read (default and maximum: one page)"),
+});
+
+/**
+ * Built-in tool reading stored artifacts one page at a time
+ *
+ * @param store - Artifact store holding offloaded results
+ * @param options - Page size in characters
+ * @returns The `read_artifact` tool
+ */
+export const createReadArtifactTool = (
+  store: ArtifactStore,
+  options: { pageChars?: number } = {},
+): Tool<z.infer<typeof ReadArtifactInputSchema>, ArtifactPage> => {
+  const pageChars = options.pageChars ?? DEFAULT_ARTIFACT_PAGE_CHARS;
+
+  return {
+    name: READ_ARTIFACT_TOOL_NAME,
+    description: `Read a page of a tool result that was too large to show in full. Returns up to ${pageChars} characters starting at offset, plus the offset of the next page.`,
+    schema: ReadArtifactInputSchema,
+    metadata: { builtIn: true },
+    execute: async (input) => {
+      const artifact = await store.load(input.artifactId);
+      if (!artifact) {
+        return ToolResultFactory.failure(
+          READ_ARTIFACT_TOOL_NAME,
+          new Error(`Artifact "${input.artifactId}" not found`),
+        );
+      }
+
+      const offset = input.offset ?? 0;
+      const end = Math.min(
+        artifact.content.length,
+        offset + Math.min(input.length ?? pageChars, pageChars),
+      );
+      return ToolResultFactory.success(READ_ARTIFACT_TOOL_NAME, {
+        artifactId: artifact.id,
+        offset,
+        content: artifact.content.slice(offset, end),
+        totalChars: artifact.content.length,
+        nextOffset: end < artifact.content.length ? end : null,
+      });
+    },
+  };
+};
+
+/**
+ * Factory function to create a new in-memory artifact store
+ *
+ * @returns New InMemoryArtifactStore instance
+ */
+export const createInMemoryArtifactStore = (): InMemoryArtifactStore =>
+  new InMemoryArtifactStore();
+
+/**
+ * Factory function to create a new filesystem artifact store
+ *
+ * @param directory - Directory the artifact files are written to
+ * @returns New FileArtifactStore instance
+ */
+export const createFileArtifactStore = (directory: string): FileArtifactStore =>
+  new FileArtifactStore(directory);
@@ -1,14 +1,37 @@
 import { randomUUID } from "node:crypto";
 import type { ZodType } from "zod";
 
-import type { AgentContext, Usage } from "./context";
+import {
+  toolRequiresApproval,
+  type ApprovalDecision,
+  type ApprovalHandler,
+} from "./approval";
+import {
+  DEFAULT_BUDGET_WARNING_THRESHOLDS,
+  measureBudget,
+  type BudgetConfig,
+} from "./budget";
+import {
+  AgentContext,
+  type ConversationTurn,
+  type StopReason,
+  type Usage,
+} from "./context";
+import {
+  AgentAbortedError,
+  BudgetExceededError,
+  isAgentAbortedError,
+} from "./errors";
 import {
   HookEvents,
   HookManager,
   type HookEventName,
   type HookHandler,
 } from "./hooks";
+import { buildAgentRunResult, type AgentRunResult } from "./run-result";
+import { AgentSession, type AgentSessionOptions } from "./session";
 import type {
+  MaybePromise,
   Tool,
   ToolExecutionContext,
   ToolResult,
@@ -23,8 +46,45 @@ import {
   generateAgentFlowDiagram,
   type VisualizationOptions,
 } from "./visualization";
+import {
+  createArtifact,
+  createArtifactReference,
+  createReadArtifactTool,
+  DEFAULT_ARTIFACT_PAGE_CHARS,
+  DEFAULT_ARTIFACT_PREVIEW_CHARS,
+  READ_ARTIFACT_TOOL_NAME,
+  type ArtifactStore,
+} from "../artifacts/artifacts";
+import {
+  InMemoryToolCache,
+  toolCacheKey,
+  type ToolCache,
+  type ToolCacheEntry,
+} from "../cache/tool-cache";
+import {
+  createCheckpoint,
+  type AgentCheckpoint,
+  type CheckpointStore,
+} from "../checkpoint/checkpoint";
 import type { Memory } from "../memory/memory";
 import { InMemoryStore } from "../memory/memory";
+import { matchesToolPattern, Semaphore } from "../utils/concurrency";
+import { CHARS_PER_TOKEN, truncateText } from "../utils/tokens";
+import { ToolRunner, type ToolAttempt } from "../utils/tool-runner";
+
+/**
+ * Tightest of a character and a token limit, in characters
+ */
+const resultCharLimit = (
+  maxChars: number | undefined,
+  maxTokens: number | undefined,
+): number | undefined => {
+  const limits = [
+    maxChars,
+    maxTokens === undefined ? undefined : maxTokens * CHARS_PER_TOKEN,
+  ].filter((limit): limit is number => limit !== undefined);
+  return limits.length > 0 ? Math.min(...limits) : undefined;
+};
 
 //Default model:
 export const DEFAULT_MODEL = "gcp/gemini-flash-latest";
@@ -118,6 +178,32 @@ export interface BaseAgentConfig<TInput, TOutput> {
    */
   memory?: Memory;
 
+  /**
+   * Checkpoint store written after every completed iteration.
+   * Enables {@link BaseAgent.resume} to continue a run after a crash.
+   */
+  checkpointStore?: CheckpointStore;
+
+  /**
+   * Handler deciding on tool calls from tools marked with `requiresApproval`.
+   * Without a handler, gated tool calls suspend the run (see {@link AgentSuspendedError}).
+   */
+  approvalHandler?: ApprovalHandler;
+
+  /**
+   * What to do when `maxIterations` is reached before the task completes (default: "throw").
+   * - `throw`: reject the run
+   * - `finalize`: generate a best-effort final result from the history so far
+   * - callback: its return value becomes the run's result
+   */
+  onMaxIterations?: MaxIterationsPolicy<TInput, TOutput>;
+
+  /**
+   * Token, cost, request and wall-clock limits for each run.
+   * Usage propagated from agent-as-tool calls counts towards the limits.
+   */
+  budget?: BudgetConfig;
+
   /**
    * Execute tool calls in parallel when the LLM returns multiple tool calls
    * in a single response. When false (default), tools execute sequentially.
@@ -125,6 +211,49 @@ export interface BaseAgentConfig<TInput, TOutput> {
    */
   parallelToolExecution?: boolean;
 
+  /**
+   * Maximum number of tool calls running at the same time (default: unbounded).
+   * Shared by concurrent runs of the agent.
+   */
+  maxToolConcurrency?: number;
+
+  /**
+   * Concurrency limits for groups of tools, keyed by group name or tool name
+   * pattern (`*` matches any characters), e.g. `{ "github:*": 2 }`.
+   * Shared by concurrent runs of the agent.
+   */
+  toolConcurrencyGroups?: Record<string, number>;
+
+  /**
+   * Largest tool result, in characters, included in prompts. Larger results are
+   * offloaded to `artifactStore` when one is configured, otherwise truncated.
+   * Tools can override it with their own `maxResultChars`.
+   */
+  maxResultChars?: number;
+
+  /**
+   * Largest tool result, in estimated tokens, included in prompts (see `maxResultChars`)
+   */
+  maxResultTokens?: number;
+
+  /**
+   * Store for tool results over the result size limits.
+   * Registers the built-in `read_artifact` tool so the model can page through them.
+   */
+  artifactStore?: ArtifactStore;
+
+  /**
+   * Cache for results of tools with a `cache` policy
+   * (default: an in-memory LRU cache owned by the agent)
+   */
+  toolCache?: ToolCache;
+
+  /**
+   * Default timeout in milliseconds for tool calls.
+   * A tool's own `timeoutMs` takes precedence; without either, tool calls are not timed out.
+   */
+  toolTimeoutMs?: number;
+
   /**
    * Additional metadata for the agent
    */
@@ -136,6 +265,99 @@ export interface BaseAgentConfig<TInput, TOutput> {
   opperConfig?: OpperClientConfig;
 }
 
+/**
+ * Per-run options accepted by {@link BaseAgent.run} and {@link BaseAgent.process}
+ */
+export interface RunOptions {
+  /**
+   * Optional parent span ID for tracing
+   */
+  parentSpanId?: string;
+
+  /**
+   * Abort signal used to cancel the run. The signal is forwarded to LLM calls
+   * and to every tool through {@link ToolExecutionContext.signal}.
+   */
+  signal?: AbortSignal;
+
+  /**
+   * Session ID for the run (defaults to a random UUID).
+   * Checkpoints are keyed by this ID, so pass it when you plan to resume the run.
+   */
+  sessionId?: string;
+
+  /**
+   * Earlier turns of a conversation, shown to the model alongside the new input.
+   * {@link AgentSession} manages this for multi-turn chats.
+   */
+  conversation?: ConversationTurn[];
+}
+
+/**
+ * Result of {@link BaseAgent.run}
+ */
+export interface RunResult<TOutput> {
+  result: TOutput;
+  usage: Usage;
+  /**
+   * Why the run ended: `completed`, or `max_iterations` / `budget` for best-effort results
+   */
+  stopReason: StopReason;
+}
+
+/**
+ * Custom handling for runs that reach `maxIterations`.
+ * The returned value becomes the run's result; throw to fail the run.
+ */
+export type MaxIterationsHandler<TInput, TOutput> = (details: {
+  input: TInput;
+  context: AgentContext;
+}) => MaybePromise<TOutput>;
+
+export type MaxIterationsPolicy<TInput, TOutput> =
+  "throw" | "finalize" | MaxIterationsHandler<TInput, TOutput>;
+
+/**
+ * Options accepted by {@link BaseAgent.resume}, {@link BaseAgent.resumeFrom}
+ * and their detailed variants
+ */
+export interface ResumeOptions extends Omit<
+  RunOptions,
+  "sessionId" | "conversation"
+> {
+  /**
+   * Decisions for tool calls the run was suspended on, keyed by tool call ID
+   */
+  approvals?: Record<string, ApprovalDecision>;
+}
+
+/**
+ * Options for {@link BaseAgent.executeProcess}
+ */
+export interface ExecuteProcessOptions extends RunOptions {
+  /**
+   * Checkpoint to resume from instead of starting a fresh context
+   */
+  checkpoint?: AgentCheckpoint;
+
+  /**
+   * Approval decisions supplied when resuming a suspended run
+   */
+  approvals?: Record<string, ApprovalDecision>;
+}
+
+/**
+ * Options for {@link BaseAgent.executeTool}
+ */
+export interface ExecuteToolOptions {
+  signal?: AbortSignal;
+  spanId?: string;
+  /**
+   * Approval decision already obtained for this call (skips the approval handler)
+   */
+  approval?: ApprovalDecision;
+}
+
 /**
  * Opper client configuration
  */
@@ -214,16 +436,84 @@ export abstract class BaseAgent<TInput = unknown, TOutput = unknown> {
    */
   public readonly parallelToolExecution: boolean;
 
+  /**
+   * Maximum number of tool calls running at the same time
+   */
+  public readonly maxToolConcurrency: number | undefined;
+
+  /**
+   * Concurrency limits per tool group or tool name pattern
+   */
+  public readonly toolConcurrencyGroups: Readonly<Record<string, number>>;
+
+  /**
+   * Semaphores enforcing `maxToolConcurrency` and `toolConcurrencyGroups`
+   */
+  private readonly toolLimiters: {
+    global: Semaphore | null;
+    groups: Map<string, Semaphore>;
+  };
+
+  /**
+   * Largest tool result in characters included in prompts
+   */
+  public readonly maxResultChars: number | undefined;
+
+  /**
+   * Largest tool result in estimated tokens included in prompts
+   */
+  public readonly maxResultTokens: number | undefined;
+
+  /**
+   * Store for oversized tool results (null if results are truncated instead)
+   */
+  public readonly artifactStore: ArtifactStore | null;
+
+  /**
+   * Cache for results of tools with a `cache` policy
+   */
+  public readonly toolCache: ToolCache;
+
+  /**
+   * Default timeout for tool calls without their own `timeoutMs`
+   */
+  public readonly toolTimeoutMs: number | undefined;
+
   /**
    * Memory instance for persistent storage (null if disabled or initialization failed)
    */
   public readonly memory: Memory | null;
 
+  /**
+   * Checkpoint store for resumable runs (null if checkpointing is disabled)
+   */
+  public readonly checkpointStore: CheckpointStore | null;
+
   /**
    * Agent metadata
    */
   public readonly metadata: Record<string, unknown>;
 
+  /**
+   * Handler for tool calls that require approval
+   */
+  protected readonly approvalHandler: ApprovalHandler | undefined;
+
+  /**
+   * Policy applied when a run reaches `maxIterations`
+   */
+  protected readonly onMaxIterations: MaxIterationsPolicy<TInput, TOutput>;
+
+  /**
+   * Resource limits applied to each run
+   */
+  protected readonly budget: BudgetConfig | undefined;
+
+  /**
+   * Budget warnings already emitted per run, keyed by `limit:threshold`
+   */
+  private readonly budgetWarnings = new WeakMap<AgentContext, Set<string>>();
+
   /**
    * Hook manager for lifecycle events
    */
@@ -252,6 +542,17 @@ export abstract class BaseAgent<TInput = unknown, TOutput = unknown> {
     Array<Tool<unknown, unknown>>
   >;
 
+  /**
+   * Runs currently using the provider tools; providers are set up by the first
+   * and torn down by the last, so concurrent runs share them
+   */
+  private providerUsers = 0;
+
+  /**
+   * Pending provider setup or teardown, so the two never overlap
+   */
+  private providerTransition: Promise<void> = Promise.resolve();
+
   /**
    * Opper client configuration
    */
@@ -272,6 +573,17 @@ export abstract class BaseAgent<TInput = unknown, TOutput = unknown> {
    * @param config.enableStreaming - Enable Opper streaming APIs for LLM calls (default: false)
    * @param config.enableMemory - Enable memory subsystem (default: false)
    * @param config.memory - Custom memory implementation (defaults to InMemoryStore if enableMemory is true)
+   * @param config.checkpointStore - Checkpoint store written after every iteration (enables resume)
+   * @param config.approvalHandler - Handler deciding on tool calls that require approval
+   * @param config.onMaxIterations - Policy when maxIterations is reached: "throw" (default), "finalize" or a callback
+   * @param config.budget - Token, cost, request and wall-clock limits for each run
+   * @param config.maxToolConcurrency - Maximum number of tool calls running at the same time
+   * @param config.toolConcurrencyGroups - Concurrency limits per tool group or tool name pattern
+   * @param config.maxResultChars - Largest tool result in characters included in prompts
+   * @param config.maxResultTokens - Largest tool result in estimated tokens included in prompts
+   * @param config.artifactStore - Store for oversized tool results (enables the `read_artifact` tool)
+   * @param config.toolCache - Cache for results of tools with a `cache` policy
+   * @param config.toolTimeoutMs - Default timeout for tool calls without their own `timeoutMs`
    * @param config.metadata - Additional metadata for the agent
    * @param config.opperConfig - Opper API configuration containing apiKey and baseUrl
    * @param config.onStreamStart - Handler invoked when a streaming call starts
@@ -290,6 +602,29 @@ export abstract class BaseAgent<TInput = unknown, TOutput = unknown> {
     this.enableMemory = config.enableMemory ?? false;
     this.enableStreaming = config.enableStreaming ?? false;
     this.parallelToolExecution = config.parallelToolExecution ?? false;
+    this.toolTimeoutMs = config.toolTimeoutMs;
+    this.maxToolConcurrency = config.maxToolConcurrency;
+    this.toolConcurrencyGroups = { ...(config.toolConcurrencyGroups ?? {}) };
+    this.toolLimiters = {
+      global:
+        config.maxToolConcurrency !== undefined
+          ? new Semaphore(config.maxToolConcurrency)
+          : null,
+      groups: new Map(
+        Object.entries(this.toolConcurrencyGroups).map(([group, limit]) => [
+          group,
+          new Semaphore(limit),
+        ]),
+      ),
+    };
+    this.maxResultChars = config.maxResultChars;
+    this.maxResultTokens = config.maxResultTokens;
+    this.artifactStore = config.artifactStore ?? null;
+    this.toolCache = config.toolCache ?? new InMemoryToolCache();
+    this.checkpointStore = config.checkpointStore ?? null;
+    this.approvalHandler = config.approvalHandler;
+    this.onMaxIterations = config.onMaxIterations ?? "throw";
+    this.budget = config.budget;
     this.metadata = { ...(config.metadata ?? {}) };
 
     this.hooks = new HookManager();
@@ -325,6 +660,16 @@ export abstract class BaseAgent<TInput = unknown, TOutput = unknown> {
     if (config.tools) {
       this.registerTools(config.tools);
     }
+
+    if (this.artifactStore) {
+      this.addTool(
+        createReadArtifactTool(this.artifactStore, {
+          pageChars:
+            resultCharLimit(this.maxResultChars, this.maxResultTokens) ??
+            DEFAULT_ARTIFACT_PAGE_CHARS,
+        }),
+      );
+    }
   }
 
   /**
@@ -362,11 +707,17 @@ export abstract class BaseAgent<TInput = unknown, TOutput = unknown> {
    * Consider using {@link run} instead, which returns both result and usage statistics.
    *
    * @param input - Input to process
-   * @param parentSpanId - Optional parent span ID for tracing
+   * @param options - Parent span ID for tracing, or run options (parent span ID, abort signal, session ID)
    * @returns Processed output
    */
-  public async process(input: TInput, parentSpanId?: string): Promise<TOutput> {
-    const { result } = await this.executeProcess(input, parentSpanId);
+  public async process(
+    input: TInput,
+    options?: string | RunOptions,
+  ): Promise<TOutput> {
+    const { result } = await this.executeProcess(
+      input,
+      normalizeRunOptions(options),
+    );
     return result;
   }
 
@@ -375,37 +726,231 @@ export abstract class BaseAgent<TInput = unknown, TOutput = unknown> {
    * This is the recommended method for agent execution.
    *
    * @param input - Input to process
-   * @param parentSpanId - Optional parent span ID for tracing
+   * @param options - Parent span ID for tracing, or run options (parent span ID, abort signal, session ID)
    * @returns Object containing the result and usage statistics
+   * @throws {AgentAbortedError} When the run is cancelled through `options.signal`
    */
   public async run(
     input: TInput,
-    parentSpanId?: string,
-  ): Promise<{ result: TOutput; usage: Usage }> {
-    return this.executeProcess(input, parentSpanId);
+    options?: string | RunOptions,
+  ): Promise<RunResult<TOutput>> {
+    return this.executeProcess(input, normalizeRunOptions(options));
+  }
+
+  /**
+   * Process input and return a detailed, JSON-serializable record of the run:
+   * result, usage, stop reason, root span ID, per-iteration reasoning,
+   * execution cycles, tool call records and per-phase timings.
+   *
+   * @param input - Input to process
+   * @param options - Parent span ID for tracing, or run options (parent span ID, abort signal, session ID)
+   * @returns Detailed run result (validate stored copies with {@link AgentRunResultSchema})
+   * @throws {AgentAbortedError} When the run is cancelled through `options.signal`
+   */
+  public async runDetailed(
+    input: TInput,
+    options?: string | RunOptions,
+  ): Promise<AgentRunResult<TOutput>> {
+    const { result, context } = await this.executeRun(
+      input,
+      normalizeRunOptions(options),
+    );
+    return buildAgentRunResult(context, result);
+  }
+
+  /**
+   * Start a multi-turn conversation with this agent.
+   * Each `session.send()` sees the previous turns of the conversation.
+   *
+   * @param options - Session ID, history window and history token budget
+   * @returns New conversation session
+   */
+  public createSession(
+    options: AgentSessionOptions = {},
+  ): AgentSession<TInput, TOutput> {
+    return new AgentSession(this, options);
+  }
+
+  /**
+   * Continue a conversation persisted with `session.toJSON()`
+   *
+   * @param state - Serialized session state
+   * @param options - History window and history token budget
+   * @returns The restored session
+   */
+  public restoreSession(
+    state: unknown,
+    options: Omit<AgentSessionOptions, "sessionId"> = {},
+  ): AgentSession<TInput, TOutput> {
+    return AgentSession.fromJSON(this, state, options);
+  }
+
+  /**
+   * Resume a checkpointed run from the iteration after its last completed one.
+   * Requires a {@link CheckpointStore} to be configured.
+   *
+   * @param sessionId - Session ID of the interrupted run
+   * @param options - Run options for the resumed run (abort signal, parent span ID, approvals)
+   * @returns Object containing the result and usage statistics (including usage from before the interruption)
+   */
+  public async resume(
+    sessionId: string,
+    options: ResumeOptions = {},
+  ): Promise<RunResult<TOutput>> {
+    return this.resumeFrom(await this.loadCheckpoint(sessionId), options);
+  }
+
+  /**
+   * Resume a run from a checkpoint object, e.g. the one carried by an
+   * {@link AgentSuspendedError}. Pending approvals are answered through `options.approvals`.
+   *
+   * @param checkpoint - Checkpoint of the interrupted or suspended run
+   * @param options - Run options for the resumed run (abort signal, parent span ID, approvals)
+   * @returns Object containing the result and usage statistics
+   */
+  public async resumeFrom(
+    checkpoint: AgentCheckpoint,
+    options: ResumeOptions = {},
+  ): Promise<RunResult<TOutput>> {
+    this.assertOwnCheckpoint(checkpoint);
+    return this.executeProcess(checkpoint.snapshot.goal as TInput, {
+      ...options,
+      checkpoint,
+    });
+  }
+
+  /**
+   * Like {@link resume}, but returns the detailed record of {@link runDetailed},
+   * covering the iterations from before the interruption as well.
+   *
+   * @param sessionId - Session ID of the interrupted run
+   * @param options - Run options for the resumed run (abort signal, parent span ID, approvals)
+   * @returns Detailed run result
+   */
+  public async resumeDetailed(
+    sessionId: string,
+    options: ResumeOptions = {},
+  ): Promise<AgentRunResult<TOutput>> {
+    return this.resumeFromDetailed(
+      await this.loadCheckpoint(sessionId),
+      options,
+    );
+  }
+
+  /**
+   * Like {@link resumeFrom}, but returns the detailed record of {@link runDetailed},
+   * covering the iterations from before the suspension as well.
+   *
+   * @param checkpoint - Checkpoint of the interrupted or suspended run
+   * @param options - Run options for the resumed run (abort signal, parent span ID, approvals)
+   * @returns Detailed run result
+   */
+  public async resumeFromDetailed(
+    checkpoint: AgentCheckpoint,
+    options: ResumeOptions = {},
+  ): Promise<AgentRunResult<TOutput>> {
+    this.assertOwnCheckpoint(checkpoint);
+    const { result, context } = await this.executeRun(
+      checkpoint.snapshot.goal as TInput,
+      { ...options, checkpoint },
+    );
+    return buildAgentRunResult(context, result);
+  }
+
+  private async loadCheckpoint(sessionId: string): Promise<AgentCheckpoint> {
+    if (!this.checkpointStore) {
+      throw new Error(
+        `[${this.name}] Cannot resume session "${sessionId}": no checkpointStore configured`,
+      );
+    }
+
+    const checkpoint = await this.checkpointStore.load(sessionId);
+    if (!checkpoint) {
+      throw new Error(
+        `[${this.name}] No checkpoint found for session "${sessionId}"`,
+      );
+    }
+    return checkpoint;
+  }
+
+  private assertOwnCheckpoint(checkpoint: AgentCheckpoint): void {
+    if (checkpoint.agentName !== this.name) {
+      throw new Error(
+        `[${this.name}] Checkpoint for session "${checkpoint.sessionId}" belongs to agent "${checkpoint.agentName}"`,
+      );
+    }
   }
 
   /**
    * Internal method that executes the process and returns both result and usage.
-   * This is the core implementation shared by process() and run().
+   * This is the core implementation shared by process(), run() and resume().
    *
    * @param input - Input to process
-   * @param parentSpanId - Optional parent span ID for tracing
+   * @param options - Run options (parent span ID, abort signal, session ID, checkpoint and approvals to resume with)
    * @returns Object containing the result and usage statistics
    */
   protected async executeProcess(
     input: TInput,
-    parentSpanId?: string,
-  ): Promise<{ result: TOutput; usage: Usage }> {
-    // Validate input if schema provided
-    const validatedInput = this.inputSchema
-      ? this.inputSchema.parse(input)
-      : input;
+    options: ExecuteProcessOptions = {},
+  ): Promise<RunResult<TOutput>> {
+    const { result, context } = await this.executeRun(input, options);
+    return {
+      result,
+      usage: context.usage,
+      stopReason: context.stopReason ?? "completed",
+    };
+  }
 
-    // Initialize context
-    const context = await this.initializeContext(validatedInput, parentSpanId);
+  /**
+   * Execute a run and return its validated output together with the finished context
+   *
+   * @param input - Input to process
+   * @param options - Run options (parent span ID, abort signal, session ID, checkpoint and approvals to resume with)
+   * @returns The validated output and the context of the run
+   */
+  private async executeRun(
+    input: TInput,
+    options: ExecuteProcessOptions,
+  ): Promise<{ result: TOutput; context: AgentContext }> {
+    let validatedInput: TInput;
+    let context: AgentContext;
+
+    if (options.checkpoint) {
+      // Checkpointed goals were validated when the run first started
+      validatedInput = input;
+      context = AgentContext.fromSnapshot(options.checkpoint.snapshot);
+      if (options.parentSpanId) {
+        context.parentSpanId = options.parentSpanId;
+      }
+      if (options.approvals && context.pendingApproval) {
+        context.pendingApproval.resolutions = {
+          ...context.pendingApproval.resolutions,
+          ...options.approvals,
+        };
+      }
+    } else {
+      // Validate input if schema provided
+      validatedInput = this.inputSchema ? this.inputSchema.parse(input) : input;
+
+      // Initialize context
+      context = await this.initializeContext(
+        validatedInput,
+        options.parentSpanId,
+        options.sessionId,
+      );
+      if (options.conversation) {
+        context.conversation = [...options.conversation];
+      }
+    }
+    if (options.signal) {
+      context.signal = options.signal;
+    }
 
+    let providersActive = false;
     try {
+      this.throwIfAborted(context);
+
+      providersActive = true;
       await this.activateToolProviders();
 
       // Trigger agent:start hook
@@ -428,8 +973,16 @@ export abstract class BaseAgent<TInput = unknown, TOutput = unknown> {
       // Clean up breakdown if only parent agent (no nested agents)
       context.cleanupBreakdownIfOnlyParent(this.name);
 
-      return { result: validatedOutput, usage: context.usage };
-    } catch (error) {
+      // Completed runs have nothing left to resume
+      await this.clearCheckpoint(context);
+
+      return { result: validatedOutput, context };
+    } catch (caught) {
+      // Surface cancellation as a typed error regardless of where it was observed
+      const error = context.signal?.aborted
+        ? this.createAbortError(context, caught)
+        : caught;
+
       // Trigger agent:end hook (error)
       await this.triggerHook(HookEvents.AgentEnd, {
         context,
@@ -438,12 +991,169 @@ export abstract class BaseAgent<TInput = unknown, TOutput = unknown> {
 
       throw error;
     } finally {
-      await this.deactivateToolProviders();
+      if (providersActive) {
+        await this.deactivateToolProviders();
+      }
       // Teardown context
       await this.teardownContext(context);
     }
   }
 
+  /**
+   * Persist the current context to the checkpoint store, if one is configured.
+   * Failures are logged and swallowed so checkpointing never breaks a run.
+   *
+   * @param context - Agent execution context
+   */
+  protected async saveCheckpoint(context: AgentContext): Promise<void> {
+    if (!this.checkpointStore) {
+      return;
+    }
+
+    try {
+      await this.checkpointStore.save(createCheckpoint(context.snapshot()));
+    } catch (error) {
+      console.warn(
+        `[${this.name}] Failed to save checkpoint for session "${context.sessionId}":`,
+        error,
+      );
+    }
+  }
+
+  private async clearCheckpoint(context: AgentContext): Promise<void> {
+    if (!this.checkpointStore) {
+      return;
+    }
+
+    try {
+      await this.checkpointStore.delete(context.sessionId);
+    } catch (error) {
+      console.warn(
+        `[${this.name}] Failed to delete checkpoint for session "${context.sessionId}":`,
+        error,
+      );
+    }
+  }
+
+  /**
+   * Add usage to the context and check it against the budget.
+   * Agent loops should record all LLM and nested-agent usage through this method.
+   *
+   * @param context - Agent execution context
+   * @param source - Source of the usage (agent or tool name)
+   * @param usage - Usage to add
+   */
+  protected async recordUsage(
+    context: AgentContext,
+    source: string,
+    usage: Usage,
+  ): Promise<void> {
+    context.updateUsageWithSource(source, usage);
+    await this.checkBudget(context);
+  }
+
+  /**
+   * Measure the run against its budget, firing `budget:warning` hooks for newly
+   * crossed thresholds and recording the first exhausted limit on the context.
+   *
+   * @param context - Agent execution context
+   */
+  protected async checkBudget(context: AgentContext): Promise<void> {
+    if (!this.budget) {
+      return;
+    }
+
+    const thresholds = this.budget.warnAt ?? DEFAULT_BUDGET_WARNING_THRESHOLDS;
+    const fired = this.budgetWarnings.get(context) ?? new Set<string>();
+    this.budgetWarnings.set(context, fired);
+
+    const measurements = measureBudget(
+      this.budget,
+      context.usage,
+      context.elapsedMs(),
+    );
+
+    for (const measurement of measurements) {
+      for (const threshold of thresholds) {
+        const key = `${measurement.limit}:${threshold}`;
+        if (fired.has(key) || measurement.value < measurement.max * threshold) {
+          continue;
+        }
+        fired.add(key);
+        await this.triggerHook(HookEvents.BudgetWarning, {
+          context,
+          ...measurement,
+          threshold,
+        });
+      }
+
+      if (!context.budgetExceeded && measurement.value >= measurement.max) {
+        context.budgetExceeded = measurement;
+      }
+    }
+  }
+
+  /**
+   * Check whether the run has exhausted its budget. Agent loops call this
+   * between steps. Throws {@link BudgetExceededError} when `onExceeded` is
+   * `throw`; returns true when the loop should stop and finalize instead.
+   *
+   * @param context - Agent execution context
+   * @returns True if the loop should stop and generate a best-effort result
+   */
+  protected async budgetExhausted(context: AgentContext): Promise<boolean> {
+    await this.checkBudget(context);
+
+    const exceeded = context.budgetExceeded;
+    if (!exceeded) {
+      return false;
+    }
+
+    context.stopReason = "budget";
+    if (this.budget?.onExceeded === "finalize") {
+      return true;
+    }
+
+    context.cleanupBreakdownIfOnlyParent(this.name);
+    throw new BudgetExceededError(this.name, exceeded, context.usage);
+  }
+
+  /**
+   * Throw an {@link AgentAbortedError} if the run's abort signal has fired.
+   * Agent loops call this between steps so cancellation stops the run promptly.
+   *
+   * @param context - Agent execution context
+   */
+  protected throwIfAborted(context: AgentContext): void {
+    if (context.signal?.aborted) {
+      throw this.createAbortError(context);
+    }
+  }
+
+  /**
+   * Build the typed cancellation error for a run, reusing an existing one when present.
+   *
+   * @param context - Agent execution context
+   * @param cause - Error observed when the cancellation was detected
+   * @returns Cancellation error carrying the partial usage
+   */
+  protected createAbortError(
+    context: AgentContext,
+    cause?: unknown,
+  ): AgentAbortedError {
+    context.stopReason = "aborted";
+    if (isAgentAbortedError(cause) && cause.agentName === this.name) {
+      return cause;
+    }
+
+    context.cleanupBreakdownIfOnlyParent(this.name);
+    return new AgentAbortedError(
+      this.name,
+      context.usage,
+      context.signal?.reason ?? cause,
+    );
+  }
+
   /**
    * Abstract method implementing the agent's main loop logic.
    * Must be implemented by concrete agent classes.
@@ -463,14 +1173,17 @@ export abstract class BaseAgent<TInput = unknown, TOutput = unknown> {
    *
    * @param input - Agent input
    * @param parentSpanId - Optional parent span ID
+   * @param sessionId - Optional session ID (defaults to a random UUID)
    * @returns Initialized context
    */
   protected async initializeContext(
     input: TInput,
     parentSpanId?: string,
+    sessionId?: string,
   ): Promise<AgentContext> {
-    const context = new (await import("./context")).AgentContext({
+    const context = new AgentContext({
       agentName: this.name,
+      ...(sessionId && { sessionId }),
       parentSpanId: parentSpanId ?? null,
       goal: input,
       metadata: { ...this.metadata },
@@ -500,6 +1213,13 @@ export abstract class BaseAgent<TInput = unknown, TOutput = unknown> {
   ): void {
     const coerced = coerceToolDefinition(tool);
 
+    const group = coerced.concurrencyGroup;
+    if (group !== undefined && !this.toolLimiters.groups.has(group)) {
+      throw new Error(
+        `Tool "${coerced.name}" uses concurrency group "${group}", which is not configured in toolConcurrencyGroups`,
+      );
+    }
+
     if (this.tools.has(coerced.name)) {
       console.warn(
         `[${this.name}] Tool "${coerced.name}" already registered. Overwriting existing definition.`,
@@ -550,6 +1270,30 @@ export abstract class BaseAgent<TInput = unknown, TOutput = unknown> {
     this.toolProviders.add(provider);
   }
 
+  /**
+   * Replace the tools an active tool provider supplied, e.g. after the source
+   * of its tools changed during a run. Ignored when the provider is not active.
+   *
+   * @param provider - Registered tool provider
+   * @param tools - Tools now supplied by the provider
+   */
+  public updateProviderTools(
+    provider: ToolProvider,
+    tools: Array<Tool<unknown, unknown>>,
+  ): void {
+    const previous = this.providerToolRegistry.get(provider);
+    if (!previous) {
+      return;
+    }
+
+    this.unregisterProviderTools(previous);
+    const normalizedTools = tools.map((tool) => coerceToolDefinition(tool));
+    this.providerToolRegistry.set(provider, normalizedTools);
+    for (const tool of normalizedTools) {
+      this.tools.set(tool.name, tool);
+    }
+  }
+
   /**
    * Convert this agent into a tool that can be used by other agents.
    * When used as a tool, the nested agent's usage statistics are propagated
@@ -583,13 +1327,20 @@ export abstract class BaseAgent<TInput = unknown, TOutput = unknown> {
             executionContext.agentContext.parentSpanId ??
             undefined;
           // Use run() to get both result and usage statistics
-          const { result, usage } = await this.run(input, parentSpanId);
+          const { result, usage } = await this.run(input, {
+            ...(parentSpanId && { parentSpanId }),
+            ...(executionContext.signal && {
+              signal: executionContext.signal,
+            }),
+          });
           // Include usage in the tool result for parent agent aggregation
           return ToolResultFactory.success(tool.name, result, { usage });
         } catch (error) {
           return ToolResultFactory.failure(
             tool.name,
             error instanceof Error ? error : new Error(String(error)),
+            // Cancelled nested runs still report the usage they accrued
+            isAgentAbortedError(error) ? { usage: error.usage } : {},
           );
         }
       },
@@ -598,6 +1349,33 @@ export abstract class BaseAgent<TInput = unknown, TOutput = unknown> {
     return tool;
   }
 
+  /**
+   * Call a registered tool outside of a run, going through the same approval,
+   * hooks, cache, timeout, retry and concurrency limits as calls made by the model.
+   *
+   * @param toolName - Name of the registered tool
+   * @param input - Tool input
+   * @param options - Optional execution options (signal, approval decision)
+   * @returns Tool execution result
+   */
+  public async callTool(
+    toolName: string,
+    input: unknown,
+    options: ExecuteToolOptions = {},
+  ): Promise<ToolResult<unknown>> {
+    const context = new AgentContext({
+      agentName: this.name,
+      metadata: { ...this.metadata },
+      ...(options.signal && { signal: options.signal }),
+    });
+
+    return this.withToolConcurrency(
+      toolName,
+      () => this.executeTool(toolName, input, context, options),
+      options.signal,
+    );
+  }
+
   /**
    * Register a hook handler for a specific event.
    *
@@ -674,20 +1452,137 @@ export abstract class BaseAgent<TInput = unknown, TOutput = unknown> {
     }
   }
 
+  /**
+   * Obtain an approval decision for a tool call, if the tool requires one.
+   * Without an approval handler the decision is `suspend`.
+   *
+   * @param tool - Tool being invoked
+   * @param input - Call arguments
+   * @param context - Agent context
+   * @param toolCallId - Identifier of the call
+   * @returns The decision, or null when the tool does not require approval
+   */
+  protected async requestApproval(
+    tool: Tool<unknown, unknown>,
+    input: unknown,
+    context: AgentContext,
+    toolCallId: string,
+  ): Promise<ApprovalDecision | null> {
+    if (!(await toolRequiresApproval(tool, input, context))) {
+      return null;
+    }
+
+    if (!this.approvalHandler) {
+      return { action: "suspend" };
+    }
+
+    return this.approvalHandler({
+      tool,
+      toolName: tool.name,
+      toolCallId,
+      arguments: input,
+      context,
+    });
+  }
+
+  /**
+   * Apply the result size limits to a tool output before it is shown to the model.
+   * Oversized outputs are stored in the artifact store and replaced by a reference
+   * with a preview, or truncated with a marker when no store is configured.
+   *
+   * @param toolName - Tool that produced the output
+   * @param output - Tool output
+   * @param context - Agent context of the run
+   * @returns The output, an artifact reference, or the truncated serialized output
+   */
+  protected async limitToolOutput(
+    toolName: string,
+    output: unknown,
+    context: AgentContext,
+  ): Promise<unknown> {
+    // Artifact pages are already bounded by the page size
+    if (this.artifactStore && toolName === READ_ARTIFACT_TOOL_NAME) {
+      return output;
+    }
+
+    const tool = this.tools.get(toolName);
+    const maxChars = resultCharLimit(
+      tool?.maxResultChars ?? this.maxResultChars,
+      tool?.maxResultTokens ?? this.maxResultTokens,
+    );
+    if (maxChars === undefined) {
+      return output;
+    }
+
+    const text =
+      typeof output === "string"
+        ? output
+        : (JSON.stringify(output) ?? String(output));
+    if (text.length <= maxChars) {
+      return output;
+    }
+
+    if (!this.artifactStore) {
+      return truncateText(text, maxChars);
+    }
+
+    const artifact = createArtifact(toolName, text, context.sessionId);
+    await this.artifactStore.save(artifact);
+    return createArtifactReference(
+      artifact,
+      Math.min(maxChars, DEFAULT_ARTIFACT_PREVIEW_CHARS),
+    );
+  }
+
+  /**
+   * Run a task once the tool's concurrency group and the agent-wide tool
+   * concurrency limit have a free slot.
+   *
+   * @param toolName - Name of the tool about to run
+   * @param task - Work to run within the limits
+   * @param signal - Stops waiting for a slot when aborted
+   * @returns Result of the task
+   */
+  protected async withToolConcurrency<T>(
+    toolName: string,
+    task: () => Promise<T>,
+    signal?: AbortSignal,
+  ): Promise<T> {
+    const tool = this.tools.get(toolName);
+    const groupKey =
+      tool?.concurrencyGroup ??
+      Object.keys(this.toolConcurrencyGroups).find((pattern) =>
+        matchesToolPattern(pattern, toolName),
+      );
+    const group =
+      groupKey !== undefined
+        ? this.toolLimiters.groups.get(groupKey)
+        : undefined;
+
+    // Group slots are taken first so blocked calls do not hold agent-wide slots
+    const releaseGroup = await group?.acquire(signal);
+    try {
+      const global = this.toolLimiters.global;
+      return await (global ? global.run(task, signal) : task());
+    } finally {
+      releaseGroup?.();
+    }
+  }
+
   /**
    * Execute a tool with proper context, hooks, and error handling.
    *
    * @param toolName - Name of tool to execute
    * @param input - Tool input
    * @param context - Agent context
-   * @param options - Optional execution options (signal, span ID)
+   * @param options - Optional execution options (signal, span ID, approval decision)
    * @returns Tool execution result
    */
   protected async executeTool(
     toolName: string,
-    input: unknown,
+    requestedInput: unknown,
     context: AgentContext,
-    options?: { signal?: AbortSignal; spanId?: string },
+    options?: ExecuteToolOptions,
   ): Promise<ToolResult<unknown>> {
     const toolCallId = randomUUID();
     const tool = this.tools.get(toolName);
@@ -703,7 +1598,7 @@ export abstract class BaseAgent<TInput = unknown, TOutput = unknown> {
       context.recordToolCall({
         id: toolCallId,
         toolName,
-        input,
+        input: requestedInput,
         success: false,
         error:
           failure.error instanceof Error
@@ -724,14 +1619,65 @@ export abstract class BaseAgent<TInput = unknown, TOutput = unknown> {
       return failure;
     }
 
+    // Gate the call on a human decision when the tool requires approval
+    const approval =
+      options?.approval ??
+      (await this.requestApproval(tool, requestedInput, context, toolCallId));
+    const approvalMetadata: Record<string, unknown> = approval
+      ? { approval: approval.action }
+      : {};
+
+    if (
+      approval &&
+      approval.action !== "approve" &&
+      approval.action !== "edit"
+    ) {
+      const reason =
+        approval.action === "reject"
+          ? approval.reason
+          : "Tool call requires approval but no decision was provided";
+      return this.failToolCall(
+        tool,
+        requestedInput,
+        context,
+        toolCallId,
+        new Error(
+          `Tool call "${tool.name}" was rejected${reason ? `: ${reason}` : ""}`,
+        ),
+        approvalMetadata,
+      );
+    }
+
+    let requested = requestedInput;
+    if (approval?.action === "edit") {
+      requested = approval.arguments;
+      approvalMetadata["originalInput"] = requestedInput;
+    }
+
+    // Invalid arguments go back to the model as a failure listing each issue
+    const validation = ToolRunner.validateInput(tool, requested);
+    if (!validation.success) {
+      return this.failToolCall(
+        tool,
+        requested,
+        context,
+        toolCallId,
+        validation.error,
+        { ...approvalMetadata, validationIssues: validation.error.issues },
+      );
+    }
+    const input = validation.data;
+
+    const signal = options?.signal ?? context.signal;
     const executionContext: ToolExecutionContext = {
       agentContext: context,
-      ...(options?.signal && { signal: options.signal }),
+      ...(signal && { signal }),
       ...(options?.spanId && { spanId: options.spanId }),
       metadata: {},
     };
 
     const startedAt = Date.now();
+    let attempts: ToolAttempt[] = [];
 
     try {
       // Trigger before-tool hook
@@ -742,17 +1688,88 @@ export abstract class BaseAgent<TInput = unknown, TOutput = unknown> {
         toolCallId,
       });
 
-      // Execute the tool
-      const result = await tool.execute(input, executionContext);
+      // Identical calls of cacheable tools are served from the tool cache
+      const cacheKey = tool.cache
+        ? toolCacheKey(tool.name, input, tool.cache.key)
+        : undefined;
+      const cached =
+        cacheKey !== undefined ? await this.readToolCache(cacheKey) : null;
+      if (cacheKey !== undefined && cached) {
+        const result = ToolResultFactory.success(tool.name, cached.output, {
+          startedAt,
+          metadata: { cached: true, toolCallId },
+        });
+        const record = context.recordToolCall({
+          id: toolCallId,
+          toolName: tool.name,
+          input,
+          output: await this.limitToolOutput(tool.name, cached.output, context),
+          success: true,
+          startedAt,
+          finishedAt: result.finishedAt,
+          metadata: {
+            ...approvalMetadata,
+            cached: true,
+            cacheKey,
+            cachedAt: cached.createdAt,
+          },
+        });
+
+        await this.triggerHook(HookEvents.AfterTool, {
+          context,
+          tool,
+          result,
+          record,
+          cached: true,
+        });
+
+        return result;
+      }
+
+      // Execute the tool, bounded by its timeout and the run's abort signal,
+      // retrying failed attempts according to its retry policy
+      const timeoutMs = tool.timeoutMs ?? this.toolTimeoutMs;
+      const execution = await ToolRunner.invokeWithRetry(
+        tool,
+        input,
+        executionContext,
+        {
+          ...(signal && { signal }),
+          ...(timeoutMs !== undefined && { timeoutMs }),
+          onRetry: (retry) =>
+            this.triggerHook(HookEvents.ToolRetry, {
+              context,
+              tool,
+              toolCallId,
+              ...retry,
+            }),
+        },
+      );
+      const result: ToolResult<unknown> = {
+        ...execution.result,
+        metadata: { ...execution.result.metadata, toolCallId },
+      };
+      attempts = execution.attempts;
+
+      if (
+        cacheKey !== undefined &&
+        result.success &&
+        (tool.cache?.cacheable?.(result.output, input) ?? true)
+      ) {
+        await this.writeToolCache(cacheKey, result.output, tool.cache?.ttlMs);
+      }
 
       const finishedAt = Date.now();
 
-      // Record the tool call
+      // Record the tool call, with oversized outputs truncated or offloaded
+      // as they are shown to the model
       const record = context.recordToolCall({
         id: toolCallId,
         toolName: tool.name,
         input,
-        ...(result.success && { output: result.output }),
+        ...(result.success && {
+          output: await this.limitToolOutput(tool.name, result.output, context),
+        }),
         success: result.success,
         ...(!result.success && {
           error:
@@ -762,7 +1779,7 @@ export abstract class BaseAgent<TInput = unknown, TOutput = unknown> {
         }),
         startedAt,
         finishedAt,
-        metadata: {},
+        metadata: { ...approvalMetadata, ...(tool.retry && { attempts }) },
       });
 
       // Trigger tool-error hook for returned failures (not just thrown exceptions)
@@ -806,7 +1823,7 @@ export abstract class BaseAgent<TInput = unknown, TOutput = unknown> {
             : String(failure.error),
         startedAt,
         finishedAt: failure.finishedAt,
-        metadata: {},
+        metadata: { ...approvalMetadata, ...(tool.retry && { attempts }) },
       });
 
       // Trigger tool-error hook
@@ -830,6 +1847,87 @@ export abstract class BaseAgent<TInput = unknown, TOutput = unknown> {
     }
   }
 
+  /**
+   * Read a cached tool result. Cache failures count as misses so they never fail the call.
+   */
+  private async readToolCache(key: string): Promise<ToolCacheEntry | null> {
+    try {
+      return await this.toolCache.get(key);
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Cache a successful tool result, ignoring cache failures
+   */
+  private async writeToolCache(
+    key: string,
+    output: unknown,
+    ttlMs: number | undefined,
+  ): Promise<void> {
+    const createdAt = Date.now();
+    try {
+      await this.toolCache.set(key, {
+        output,
+        createdAt,
+        expiresAt: ttlMs !== undefined ? createdAt + ttlMs : null,
+      });
+    } catch {
+      // The result is still returned; the next identical call runs the tool again
+    }
+  }
+
+  /**
+   * Record a tool call that fails without running the tool (rejected or invalid)
+   */
+  private async failToolCall(
+    tool: Tool<unknown, unknown>,
+    input: unknown,
+    context: AgentContext,
+    toolCallId: string,
+    error: Error,
+    metadata: Record<string, unknown>,
+  ): Promise<ToolResult<unknown>> {
+    const timestamp = Date.now();
+    const failure = ToolResultFactory.failure(tool.name, error, {
+      startedAt: timestamp,
+      finishedAt: timestamp,
+      metadata,
+    });
+
+    const record = context.recordToolCall({
+      id: toolCallId,
+      toolName: tool.name,
+      input,
+      success: false,
+      error:
+        failure.error instanceof Error
+          ? failure.error.message
+          : String(failure.error),
+      startedAt: timestamp,
+      finishedAt: timestamp,
+      metadata: { ...metadata },
+    });
+
+    await this.triggerHook(HookEvents.ToolError, {
+      context,
+      tool,
+      toolName: tool.name,
+      error: failure.error,
+      toolCallId,
+    });
+
+    await this.triggerHook(HookEvents.AfterTool, {
+      context,
+      tool,
+      result: failure,
+      record,
+    });
+
+    return failure;
+  }
+
   private registerTools(
     entries: Array<Tool<unknown, unknown> | ToolProvider>,
   ): void {
@@ -845,6 +1943,26 @@ export abstract class BaseAgent<TInput = unknown, TOutput = unknown> {
   }
 
   private async activateToolProviders(): Promise<void> {
+    this.providerUsers += 1;
+    if (this.providerUsers === 1) {
+      this.providerTransition = this.providerTransition.then(() =>
+        this.setupToolProviders(),
+      );
+    }
+    await this.providerTransition;
+  }
+
+  private async deactivateToolProviders(): Promise<void> {
+    this.providerUsers -= 1;
+    if (this.providerUsers === 0) {
+      this.providerTransition = this.providerTransition.then(() =>
+        this.teardownToolProviders(),
+      );
+    }
+    await this.providerTransition;
+  }
+
+  private async setupToolProviders(): Promise<void> {
     const activationPromises = Array.from(this.toolProviders)
       .filter((provider) => !this.providerToolRegistry.has(provider))
       .map(async (provider) => {
@@ -858,6 +1976,12 @@ export abstract class BaseAgent<TInput = unknown, TOutput = unknown> {
           this.providerToolRegistry.set(provider, normalizedTools);
 
           for (const tool of normalizedTools) {
+            const group = tool.concurrencyGroup;
+            if (group !== undefined && !this.toolLimiters.groups.has(group)) {
+              console.warn(
+                `[${this.name}] Tool "${tool.name}" from provider uses unconfigured concurrency group "${group}" and runs without a group limit.`,
+              );
+            }
             if (this.tools.has(tool.name)) {
               console.warn(
                 `[${this.name}] Tool "${tool.name}" from provider overwrites existing tool.`,
@@ -876,19 +2000,26 @@ export abstract class BaseAgent<TInput = unknown, TOutput = unknown> {
     await Promise.allSettled(activationPromises);
   }
 
-  private async deactivateToolProviders(): Promise<void> {
+  /**
+   * Remove provider tools, restoring base tools they had overwritten
+   */
+  private unregisterProviderTools(tools: Array<Tool<unknown, unknown>>): void {
+    for (const tool of tools) {
+      this.tools.delete(tool.name);
+
+      const baseTool = this.baseTools.get(tool.name);
+      if (baseTool) {
+        this.tools.set(tool.name, baseTool);
+      }
+    }
+  }
+
+  private async teardownToolProviders(): Promise<void> {
     const teardownEntries = Array.from(this.providerToolRegistry.entries());
     this.providerToolRegistry.clear();
 
     const teardownPromises = teardownEntries.map(async ([provider, tools]) => {
-      for (const tool of tools) {
-        this.tools.delete(tool.name);
-
-        const baseTool = this.baseTools.get(tool.name);
-        if (baseTool) {
-          this.tools.set(tool.name, baseTool);
-        }
-      }
+      this.unregisterProviderTools(tools);
 
       try {
         await provider.teardown();
@@ -928,3 +2059,6 @@ export abstract class BaseAgent<TInput = unknown, TOutput = unknown> {
     return generateAgentFlowDiagram(this, options);
   }
 }
+
+const normalizeRunOptions = (options?: string | RunOptions): RunOptions =>
+  typeof options === "string" ? { parentSpanId: options } : (options ?? {});
@@ -0,0 +1,103 @@
+import { z } from "zod";
+
+import type { AgentContext } from "./context";
+import type { MaybePromise, Tool } from "./tool";
+
+/**
+ * Decision returned by an approval handler for a gated tool call
+ */
+export const ApprovalDecisionSchema = z.discriminatedUnion("action", [
+  z.object({ action: z.literal("approve") }),
+  z.object({ action: z.literal("reject"), reason: z.string().optional() }),
+  z.object({ action: z.literal("edit"), arguments: z.unknown() }),
+  z.object({ action: z.literal("suspend") }),
+]);
+
+export type ApprovalDecision = z.infer<typeof ApprovalDecisionSchema>;
+
+/**
+ * Tool call waiting for a human decision
+ */
+export const PendingApprovalSchema = z.object({
+  toolCallId: z.string(),
+  toolName: z.string(),
+  arguments: z.unknown(),
+});
+
+export type PendingApproval = z.infer<typeof PendingApprovalSchema>;
+
+/**
+ * Serializable state of a run suspended while waiting for approvals.
+ * Stored on the context (and therefore in checkpoints) so the run can resume
+ * by executing the already-decided tool calls instead of thinking again.
+ */
+export const PendingApprovalStateSchema = z.object({
+  /**
+   * Iteration the suspended decision belongs to
+   */
+  iteration: z.number().int().nonnegative(),
+
+  /**
+   * The think-step decision whose tool calls are awaiting approval
+   */
+  decision: z.record(z.string(), z.unknown()),
+
+  /**
+   * Tool calls that still need a decision
+   */
+  pending: z.array(PendingApprovalSchema),
+
+  /**
+   * Decisions already made, keyed by tool call ID
+   */
+  resolutions: z.record(z.string(), ApprovalDecisionSchema).default({}),
+});
+
+export type PendingApprovalState = z.infer<typeof PendingApprovalStateSchema>;
+
+/**
+ * Request passed to an {@link ApprovalHandler}
+ */
+export interface ApprovalRequest {
+  tool: Tool<unknown, unknown>;
+  toolName: string;
+  toolCallId: string;
+  arguments: unknown;
+  context: AgentContext;
+}
+
+/**
+ * Decide whether a gated tool call may run.
+ * Return `approve`, `reject` (with an optional reason fed back to the model),
+ * `edit` (run with replacement arguments), or `suspend` to pause the run until
+ * a decision is supplied through `agent.resumeFrom()` / `agent.resume()`.
+ */
+export type ApprovalHandler = (
+  request: ApprovalRequest,
+) => MaybePromise<ApprovalDecision>;
+
+/**
+ * Whether a tool call needs approval. A predicate receives the call arguments and context.
+ */
+export type ToolApprovalRequirement<TInput> =
+  boolean | ((input: TInput, context: AgentContext) => MaybePromise<boolean>);
+
+/**
+ * Evaluate a tool's `requiresApproval` setting for a specific call
+ *
+ * @param tool - Tool being invoked
+ * @param input - Call arguments
+ * @param context - Agent execution context
+ * @returns True if the call must be approved before it runs
+ */
+export const toolRequiresApproval = async (
+  tool: Tool<unknown, unknown>,
+  input: unknown,
+  context: AgentContext,
+): Promise<boolean> => {
+  const requirement = tool.requiresApproval;
+  if (typeof requirement === "function") {
+    return Boolean(await requirement(input, context));
+  }
+  return requirement === true;
+};
@@ -0,0 +1,85 @@
+import type { Usage } from "./context";
+
+/**
+ * Resource limits for a single agent run
+ */
+export interface BudgetConfig {
+  /**
+   * Maximum total tokens (input + output), including nested agents
+   */
+  maxTotalTokens?: number;
+
+  /**
+   * Maximum total cost in USD, including nested agents
+   */
+  maxCostUsd?: number;
+
+  /**
+   * Maximum number of LLM requests, including nested agents
+   */
+  maxRequests?: number;
+
+  /**
+   * Maximum wall-clock time for the run in milliseconds. Time a checkpointed
+   * run spends suspended, before it is resumed, does not count.
+   */
+  maxWallClockMs?: number;
+
+  /**
+   * Fractions of each limit at which a `budget:warning` hook fires (default: [0.8])
+   */
+  warnAt?: number[];
+
+  /**
+   * What happens when a limit is reached (default: "throw")
+   * - `throw`: reject the run with {@link BudgetExceededError}
+   * - `finalize`: stop the loop and generate a best-effort final result from the work so far
+   */
+  onExceeded?: "throw" | "finalize";
+}
+
+/**
+ * Name of a budget limit
+ */
+export type BudgetLimit =
+  "totalTokens" | "costUsd" | "requests" | "wallClockMs";
+
+/**
+ * Current value of a limit compared to its configured maximum
+ */
+export interface BudgetMeasurement {
+  limit: BudgetLimit;
+  value: number;
+  max: number;
+}
+
+/**
+ * Fractions of each limit at which `budget:warning` fires when `warnAt` is not set
+ */
+export const DEFAULT_BUDGET_WARNING_THRESHOLDS = [0.8];
+
+/**
+ * Measure usage against every configured limit.
+ * A limit counts as exceeded once its value reaches the maximum.
+ *
+ * @param budget - Budget configuration
+ * @param usage - Accumulated usage of the run
+ * @param elapsedMs - Time since the run started
+ * @returns One measurement per configured limit
+ */
+export function measureBudget(
+  budget: BudgetConfig,
+  usage: Usage,
+  elapsedMs: number,
+): BudgetMeasurement[] {
+  const limits: Array<[BudgetLimit, number | undefined, number]> = [
+    ["totalTokens", budget.maxTotalTokens, usage.totalTokens],
+    ["costUsd", budget.maxCostUsd, usage.cost.total],
+    ["requests", budget.maxRequests, usage.requests],
+    ["wallClockMs", budget.maxWallClockMs, elapsedMs],
+  ];
+
+  return limits.flatMap(([limit, max, value]) =>
+    max === undefined ? [] : [{ limit, value, max }],
+  );
+}
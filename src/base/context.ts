@@ -1,6 +1,8 @@
 import { randomUUID } from "node:crypto";
 import { z } from "zod";
 
+import type { PendingApprovalState } from "./approval";
+import type { BudgetMeasurement } from "./budget";
 import { ToolCallRecordSchema, type ToolCallRecord } from "./tool";
 
 /**
@@ -33,7 +35,12 @@ export const UsageSchema = BaseUsageSchema.extend({
    * Optional breakdown of usage by source (agent name).
    * Only present when nested agents are used.
    */
-  breakdown: z.record(z.string(), z.lazy(() => BaseUsageSchema)).optional(),
+  breakdown: z
+    .record(
+      z.string(),
+      z.lazy(() => BaseUsageSchema),
+    )
+    .optional(),
 });
 
 export type Usage = z.infer<typeof UsageSchema>;
@@ -100,12 +107,93 @@ export interface ExecutionCycle {
   timestamp: number;
 }
 
+/**
+ * Condensed record of a tool action taken while answering a conversation turn
+ */
+export const ConversationActionSchema = z.object({
+  tool: z.string(),
+  success: z.boolean(),
+});
+
+/**
+ * A completed turn of a multi-turn conversation: the user message, the final
+ * answer and a condensed view of the actions the agent took to produce it
+ */
+export const ConversationTurnSchema = z.object({
+  input: z.unknown(),
+  output: z.unknown(),
+  actions: z.array(ConversationActionSchema).default([]),
+  timestamp: z.number().default(() => Date.now()),
+});
+
+export type ConversationAction = z.infer<typeof ConversationActionSchema>;
+
+export type ConversationTurn = z.infer<typeof ConversationTurnSchema>;
+
+/**
+ * Running summary of execution cycles compacted out of the prompt history
+ */
+export const HistorySummarySchema = z.object({
+  text: z.string(),
+  /**
+   * Last iteration covered by the summary
+   */
+  throughIteration: z.number().int().nonnegative(),
+});
+
+export type HistorySummary = z.infer<typeof HistorySummarySchema>;
+
+/**
+ * Why an agent run ended
+ */
+export const StopReasonSchema = z.enum([
+  "completed",
+  "max_iterations",
+  "budget",
+  "aborted",
+]);
+
+export type StopReason = z.infer<typeof StopReasonSchema>;
+
+/**
+ * Timed phase of the agent loop
+ */
+export const RunPhaseSchema = z.enum(["think", "tools", "final_result"]);
+
+export type RunPhase = z.infer<typeof RunPhaseSchema>;
+
+/**
+ * Wall-clock duration of one phase of a run
+ */
+export const PhaseTimingSchema = z.object({
+  phase: RunPhaseSchema,
+  iteration: z.number().int().nonnegative(),
+  startedAt: z.number(),
+  durationMs: z.number().nonnegative(),
+});
+
+export type PhaseTiming = z.infer<typeof PhaseTimingSchema>;
+
+/**
+ * Reasoning and user-facing status message produced by one think step
+ */
+export const IterationThoughtSchema = z.object({
+  iteration: z.number().int().nonnegative(),
+  reasoning: z.string(),
+  userMessage: z.string().nullable(),
+});
+
+export type IterationThought = z.infer<typeof IterationThoughtSchema>;
+
 export interface AgentContextOptions {
   agentName: string;
   sessionId?: string;
   parentSpanId?: string | null;
   goal?: unknown;
   metadata?: Record<string, unknown>;
+  signal?: AbortSignal;
+  startedAt?: number;
+  conversation?: ConversationTurn[];
 }
 
 export interface AgentContextSnapshot {
@@ -120,6 +208,15 @@ export interface AgentContextSnapshot {
   metadata: Record<string, unknown>;
   startedAt: number;
   updatedAt: number;
+  /**
+   * Time the run has spent executing, excluding time suspended between processes
+   */
+  activeMs?: number;
+  pendingApproval?: PendingApprovalState | null;
+  conversation?: ConversationTurn[];
+  historySummary?: HistorySummary | null;
+  thoughts?: IterationThought[];
+  phaseTimings?: PhaseTiming[];
 }
 
 export interface IterationSummary {
@@ -164,6 +261,61 @@ export class AgentContext {
 
   public pendingSpanUpdates: PendingSpanUpdate[] = [];
 
+  /**
+   * Tool calls awaiting human approval while the run is suspended
+   */
+  public pendingApproval: PendingApprovalState | null = null;
+
+  /**
+   * First budget limit the run exhausted, if any
+   */
+  public budgetExceeded: BudgetMeasurement | null = null;
+
+  /**
+   * Why the run ended (set by the agent loop, null while running)
+   */
+  public stopReason: StopReason | null = null;
+
+  /**
+   * Abort signal for the current run, shared with LLM calls and tools
+   */
+  public signal?: AbortSignal;
+
+  /**
+   * Earlier turns of the conversation this run belongs to (see AgentSession)
+   */
+  public conversation: ConversationTurn[];
+
+  /**
+   * Summary of older cycles when history compaction by summarization is enabled
+   */
+  public historySummary: HistorySummary | null = null;
+
+  /**
+   * ID of the span wrapping this agent's execution, once created
+   */
+  public rootSpanId: string | null = null;
+
+  /**
+   * Wall-clock timings of the think, tool and final-result phases, in order
+   */
+  public readonly phaseTimings: PhaseTiming[] = [];
+
+  /**
+   * Reasoning of every think step, including the one that produced the final result
+   */
+  public readonly thoughts: IterationThought[] = [];
+
+  /**
+   * Active time carried over from before the run was checkpointed
+   */
+  private activeMsBefore = 0;
+
+  /**
+   * When this process started or resumed the run
+   */
+  private resumedAt: number;
+
   constructor(options: AgentContextOptions) {
     const now = Date.now();
     this.agentName = options.agentName;
@@ -171,9 +323,14 @@ export class AgentContext {
     this.parentSpanId = options.parentSpanId ?? null;
     this.goal = options.goal;
     this.metadata = { ...(options.metadata ?? {}) };
-    this.startedAt = now;
+    this.startedAt = options.startedAt ?? now;
+    this.resumedAt = this.startedAt;
     this.updatedAt = now;
     this.usage = UsageSchema.parse({});
+    this.conversation = [...(options.conversation ?? [])];
+    if (options.signal) {
+      this.signal = options.signal;
+    }
   }
 
   public updateUsage(delta: Usage): void {
@@ -251,6 +408,24 @@ export class AgentContext {
     return parsed;
   }
 
+  /**
+   * Record the duration of a phase that started at `startedAt`
+   */
+  public recordPhase(
+    phase: RunPhase,
+    iteration: number,
+    startedAt: number,
+  ): PhaseTiming {
+    const timing: PhaseTiming = {
+      phase,
+      iteration,
+      startedAt,
+      durationMs: Math.max(0, Date.now() - startedAt),
+    };
+    this.phaseTimings.push(timing);
+    return timing;
+  }
+
   public getContextSize(): number {
     return this.usage.totalTokens;
   }
@@ -319,9 +494,58 @@ export class AgentContext {
       metadata: { ...this.metadata },
       startedAt: this.startedAt,
       updatedAt: this.updatedAt,
+      activeMs: this.elapsedMs(),
+      pendingApproval: this.pendingApproval,
+      conversation: [...this.conversation],
+      historySummary: this.historySummary,
+      thoughts: this.thoughts.map((thought) => ({ ...thought })),
+      phaseTimings: this.phaseTimings.map((timing) => ({ ...timing })),
     };
   }
 
+  /**
+   * Time the run has spent executing, across resumes. Unlike the time since
+   * `startedAt`, it excludes time spent suspended or waiting to be resumed.
+   *
+   * @param now - Time to measure up to (defaults to now)
+   */
+  public elapsedMs(now: number = Date.now()): number {
+    return this.activeMsBefore + Math.max(0, now - this.resumedAt);
+  }
+
+  /**
+   * Rebuild a context from a snapshot, e.g. to resume a checkpointed run.
+   *
+   * @param snapshot - Snapshot previously produced by {@link AgentContext.snapshot}
+   * @returns A new context holding the snapshot's history, tool calls and usage
+   */
+  public static fromSnapshot(snapshot: AgentContextSnapshot): AgentContext {
+    const context = new AgentContext({
+      agentName: snapshot.agentName,
+      sessionId: snapshot.sessionId,
+      parentSpanId: snapshot.parentSpanId,
+      goal: snapshot.goal,
+      metadata: snapshot.metadata,
+      startedAt: snapshot.startedAt,
+      ...(snapshot.conversation && { conversation: snapshot.conversation }),
+    });
+
+    context.iteration = snapshot.iteration;
+    context.executionHistory.push(...snapshot.executionHistory);
+    context.toolCalls.push(...snapshot.toolCalls);
+    context.usage = UsageSchema.parse(snapshot.usage);
+    context.pendingApproval = snapshot.pendingApproval ?? null;
+    context.historySummary = snapshot.historySummary ?? null;
+    context.thoughts.push(...(snapshot.thoughts ?? []));
+    context.phaseTimings.push(...(snapshot.phaseTimings ?? []));
+    context.resumedAt = Date.now();
+    // Checkpoints written before activeMs existed were active until their last update
+    context.activeMsBefore =
+      snapshot.activeMs ?? Math.max(0, snapshot.updatedAt - snapshot.startedAt);
+
+    return context;
+  }
+
   private touch(): void {
     this.updatedAt = Date.now();
   }
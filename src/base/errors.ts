@@ -0,0 +1,150 @@
+import type { PendingApproval } from "./approval";
+import type { BudgetLimit, BudgetMeasurement } from "./budget";
+import type { Usage } from "./context";
+import type { AgentCheckpoint } from "../checkpoint/checkpoint";
+
+/**
+ * Error thrown when an agent run is cancelled through its AbortSignal.
+ * Carries the usage accumulated before cancellation so callers can still
+ * account for the tokens and cost spent by the partial run.
+ */
+export class AgentAbortedError extends Error {
+  public readonly agentName: string;
+
+  public readonly usage: Usage;
+
+  public readonly reason: unknown;
+
+  constructor(agentName: string, usage: Usage, reason?: unknown) {
+    super(`Agent "${agentName}" was aborted`);
+    this.name = "AgentAbortedError";
+    this.agentName = agentName;
+    this.usage = usage;
+    this.reason = reason;
+  }
+}
+
+export const isAgentAbortedError = (
+  error: unknown,
+): error is AgentAbortedError => error instanceof AgentAbortedError;
+
+/**
+ * Error thrown when a run pauses because tool calls are waiting for human approval.
+ * The checkpoint is JSON-serializable; persist it and pass it to
+ * `agent.resumeFrom(checkpoint, { approvals })` once decisions are available.
+ */
+export class AgentSuspendedError extends Error {
+  public readonly agentName: string;
+
+  public readonly checkpoint: AgentCheckpoint;
+
+  public readonly pendingApprovals: PendingApproval[];
+
+  constructor(
+    agentName: string,
+    checkpoint: AgentCheckpoint,
+    pendingApprovals: PendingApproval[],
+  ) {
+    super(
+      `Agent "${agentName}" suspended awaiting approval for: ${pendingApprovals
+        .map((pending) => pending.toolName)
+        .join(", ")}`,
+    );
+    this.name = "AgentSuspendedError";
+    this.agentName = agentName;
+    this.checkpoint = checkpoint;
+    this.pendingApprovals = pendingApprovals;
+  }
+}
+
+export const isAgentSuspendedError = (
+  error: unknown,
+): error is AgentSuspendedError => error instanceof AgentSuspendedError;
+
+/**
+ * Error thrown when a run exhausts its budget and `budget.onExceeded` is `throw`.
+ * Carries the usage at the time the limit was hit.
+ */
+export class BudgetExceededError extends Error {
+  public readonly agentName: string;
+
+  public readonly limit: BudgetLimit;
+
+  public readonly value: number;
+
+  public readonly max: number;
+
+  public readonly usage: Usage;
+
+  constructor(agentName: string, exceeded: BudgetMeasurement, usage: Usage) {
+    super(
+      `Agent "${agentName}" exhausted its ${exceeded.limit} budget (${exceeded.value} of ${exceeded.max})`,
+    );
+    this.name = "BudgetExceededError";
+    this.agentName = agentName;
+    this.limit = exceeded.limit;
+    this.value = exceeded.value;
+    this.max = exceeded.max;
+    this.usage = usage;
+  }
+}
+
+export const isBudgetExceededError = (
+  error: unknown,
+): error is BudgetExceededError => error instanceof BudgetExceededError;
+
+/**
+ * Problem found while validating tool arguments against the tool's schema
+ */
+export interface ToolInputIssue {
+  /**
+   * Dotted path of the offending argument ("(root)" for the whole input)
+   */
+  path: string;
+  message: string;
+}
+
+/**
+ * Error returned when tool arguments do not match the tool's schema.
+ * The message lists every issue so the model can correct its arguments and retry.
+ */
+export class ToolInputValidationError extends Error {
+  public readonly toolName: string;
+
+  public readonly issues: ToolInputIssue[];
+
+  constructor(toolName: string, issues: ToolInputIssue[]) {
+    super(
+      `Invalid input for tool "${toolName}": ${issues
+        .map((issue) => `${issue.path}: ${issue.message}`)
+        .join("; ")}. Fix these arguments and call the tool again.`,
+    );
+    this.name = "ToolInputValidationError";
+    this.toolName = toolName;
+    this.issues = issues;
+  }
+}
+
+export const isToolInputValidationError = (
+  error: unknown,
+): error is ToolInputValidationError =>
+  error instanceof ToolInputValidationError;
+
+/**
+ * Error returned when a tool does not finish within its timeout
+ */
+export class ToolTimeoutError extends Error {
+  public readonly toolName: string;
+
+  public readonly timeoutMs: number;
+
+  constructor(toolName: string, timeoutMs: number) {
+    super(`Tool "${toolName}" timed out after ${timeoutMs}ms`);
+    this.name = "ToolTimeoutError";
+    this.toolName = toolName;
+    this.timeoutMs = timeoutMs;
+  }
+}
+
+export const isToolTimeoutError = (error: unknown): error is ToolTimeoutError =>
+  error instanceof ToolTimeoutError;
@@ -17,7 +17,7 @@ import {
 
 /**
  * AgentEvents is an alias for HookEvents.
- * All 17 hook events are available through agent.on() and agent.registerHook().
+ * All 19 hook events are available through agent.on() and agent.registerHook().
  */
 export const AgentEvents = HookEvents;
 
@@ -1,14 +1,12 @@
+import type { BudgetLimit } from "./budget";
 import type { AgentContext } from "./context";
 import type { Tool, ToolCallRecord, ToolResult } from "./tool";
-import type {
-  OpperCallResponse,
-  OpperStreamResponse,
-} from "../opper/client";
+import type { LlmCallResponse, LlmStreamResponse } from "../llm/provider";
 import type { AgentLogger } from "../utils/logger";
 import { getDefaultLogger } from "../utils/logger";
 
-/** The two LLM call phases in the agent loop */
-export type LlmCallType = "think" | "final_result";
+/** The LLM call phases in the agent loop */
+export type LlmCallType = "think" | "final_result" | "summarize_history";
 
 /** Thought summary emitted by the ThinkEnd hook */
 export interface AgentThought {
@@ -27,6 +25,7 @@ export const HookEvents = {
   BeforeTool: "tool:before",
   AfterTool: "tool:after",
   ToolError: "tool:error",
+  ToolRetry: "tool:retry",
   MemoryRead: "memory:read",
   MemoryWrite: "memory:write",
   MemoryError: "memory:error",
@@ -34,6 +33,7 @@ export const HookEvents = {
   StreamChunk: "stream:chunk",
   StreamEnd: "stream:end",
   StreamError: "stream:error",
+  BudgetWarning: "budget:warning",
 } as const;
 
 export type HookEventName = (typeof HookEvents)[keyof typeof HookEvents];
@@ -60,7 +60,7 @@ export interface HookPayloadMap {
   [HookEvents.LlmResponse]: {
     context: AgentContext;
     callType: LlmCallType;
-    response: OpperCallResponse | OpperStreamResponse;
+    response: LlmCallResponse | LlmStreamResponse;
     parsed?: unknown;
   };
   [HookEvents.ThinkEnd]: {
@@ -78,6 +78,10 @@ export interface HookPayloadMap {
     tool: Tool<unknown, unknown>;
     result: ToolResult<unknown>;
     record: ToolCallRecord;
+    /**
+     * True when the result was served from the tool cache
+     */
+    cached?: boolean;
   };
   [HookEvents.ToolError]: {
     context: AgentContext;
@@ -86,6 +90,21 @@ export interface HookPayloadMap {
     error: unknown;
     toolCallId: string;
   };
+  [HookEvents.ToolRetry]: {
+    context: AgentContext;
+    tool: Tool<unknown, unknown>;
+    toolCallId: string;
+    /**
+     * Attempt that failed (1-based)
+     */
+    attempt: number;
+    maxAttempts: number;
+    error: unknown;
+    /**
+     * Delay before the next attempt
+     */
+    delayMs: number;
+  };
   [HookEvents.MemoryRead]: {
     context: AgentContext;
     key: string;
@@ -126,6 +145,13 @@ export interface HookPayloadMap {
     callType: LlmCallType;
     error: unknown;
   };
+  [HookEvents.BudgetWarning]: {
+    context: AgentContext;
+    limit: BudgetLimit;
+    value: number;
+    max: number;
+    threshold: number;
+  };
 }
 
 export type HookPayload<E extends HookEventName> = HookPayloadMap[E];
@@ -141,6 +167,7 @@ export type ThinkEndPayload = HookPayloadMap[typeof HookEvents.ThinkEnd];
 export type BeforeToolPayload = HookPayloadMap[typeof HookEvents.BeforeTool];
 export type AfterToolPayload = HookPayloadMap[typeof HookEvents.AfterTool];
 export type ToolErrorPayload = HookPayloadMap[typeof HookEvents.ToolError];
+export type ToolRetryPayload = HookPayloadMap[typeof HookEvents.ToolRetry];
 export type MemoryReadPayload = HookPayloadMap[typeof HookEvents.MemoryRead];
 export type MemoryWritePayload = HookPayloadMap[typeof HookEvents.MemoryWrite];
 export type MemoryErrorPayload = HookPayloadMap[typeof HookEvents.MemoryError];
@@ -148,6 +175,8 @@ export type StreamStartPayload = HookPayloadMap[typeof HookEvents.StreamStart];
 export type StreamChunkPayload = HookPayloadMap[typeof HookEvents.StreamChunk];
 export type StreamEndPayload = HookPayloadMap[typeof HookEvents.StreamEnd];
 export type StreamErrorPayload = HookPayloadMap[typeof HookEvents.StreamError];
+export type BudgetWarningPayload =
+  HookPayloadMap[typeof HookEvents.BudgetWarning];
 
 export type HookHandler<E extends HookEventName> = (
   payload: HookPayload<E>,
@@ -0,0 +1,137 @@
+import { z } from "zod";
+
+import {
+  ExecutionCycleSchema,
+  IterationThoughtSchema,
+  PhaseTimingSchema,
+  StopReasonSchema,
+  UsageSchema,
+  type AgentContext,
+  type PhaseTiming,
+  type RunPhase,
+} from "./context";
+import { ToolCallRecordSchema } from "./tool";
+
+/**
+ * One iteration of the agent loop as reported in an {@link AgentRunResult}
+ */
+export const AgentRunIterationSchema = IterationThoughtSchema.extend({
+  /**
+   * Names of the tools called in this iteration, in call order
+   */
+  toolCalls: z.array(z.string()),
+  thinkMs: z.number().nonnegative(),
+  toolsMs: z.number().nonnegative(),
+});
+
+export type AgentRunIteration = z.infer<typeof AgentRunIterationSchema>;
+
+/**
+ * Wall-clock timings of a run, in milliseconds. `totalMs` leaves out time the
+ * run spent suspended between processes.
+ */
+export const AgentRunTimingsSchema = z.object({
+  totalMs: z.number().nonnegative(),
+  thinkMs: z.number().nonnegative(),
+  toolsMs: z.number().nonnegative(),
+  finalResultMs: z.number().nonnegative(),
+  /**
+   * Every timed phase, in execution order
+   */
+  phases: z.array(PhaseTimingSchema),
+});
+
+export type AgentRunTimings = z.infer<typeof AgentRunTimingsSchema>;
+
+/**
+ * Schema for the detailed result returned by {@link BaseAgent.runDetailed}.
+ * Every field is plain JSON, so results can be stored, diffed and parsed back.
+ */
+export const AgentRunResultSchema = z.object({
+  agentName: z.string(),
+  sessionId: z.string(),
+  /**
+   * ID of the span wrapping the run, when tracing created one
+   */
+  rootSpanId: z.string().nullable(),
+  result: z.unknown(),
+  usage: UsageSchema,
+  stopReason: StopReasonSchema,
+  startedAt: z.number(),
+  finishedAt: z.number(),
+  iterations: z.array(AgentRunIterationSchema),
+  cycles: z.array(ExecutionCycleSchema),
+  toolCalls: z.array(ToolCallRecordSchema),
+  timings: AgentRunTimingsSchema,
+});
+
+/**
+ * Detailed result of an agent run
+ *
+ * @template TOutput - Type of the run's result
+ */
+export type AgentRunResult<TOutput = unknown> = Omit<
+  z.infer<typeof AgentRunResultSchema>,
+  "result"
+> & { result: TOutput };
+
+const toJson = <T>(value: T): T =>
+  JSON.parse(JSON.stringify(value ?? null)) as T;
+
+const sumDurations = (timings: PhaseTiming[], phase: RunPhase): number =>
+  timings
+    .filter((timing) => timing.phase === phase)
+    .reduce((total, timing) => total + timing.durationMs, 0);
+
+/**
+ * Build the detailed result of a finished run from its context
+ *
+ * @param context - Context of the finished run
+ * @param result - Validated output of the run, copied as plain JSON
+ * @param finishedAt - Completion time (defaults to now)
+ * @returns JSON-serializable run result
+ */
+export function buildAgentRunResult<TOutput>(
+  context: AgentContext,
+  result: TOutput,
+  finishedAt: number = Date.now(),
+): AgentRunResult<TOutput> {
+  const phases = context.phaseTimings.map((timing) => ({ ...timing }));
+
+  const iterations = context.thoughts.map((thought) => {
+    const timings = phases.filter(
+      (timing) => timing.iteration === thought.iteration,
+    );
+    return {
+      ...thought,
+      toolCalls:
+        context.executionHistory
+          .find((cycle) => cycle.iteration === thought.iteration)
+          ?.toolCalls.map((call) => call.toolName) ?? [],
+      thinkMs: sumDurations(timings, "think"),
+      toolsMs: sumDurations(timings, "tools"),
+    };
+  });
+
+  return {
+    agentName: context.agentName,
+    sessionId: context.sessionId,
+    rootSpanId: context.rootSpanId,
+    // Outputs without a schema may hold dates, class instances or undefined fields
+    result: result === undefined ? result : toJson(result),
+    usage: toJson(context.usage),
+    stopReason: context.stopReason ?? "completed",
+    startedAt: context.startedAt,
+    finishedAt,
+    iterations,
+    cycles: toJson(context.executionHistory),
+    toolCalls: toJson(context.toolCalls),
+    timings: {
+      totalMs: context.elapsedMs(finishedAt),
+      thinkMs: sumDurations(phases, "think"),
+      toolsMs: sumDurations(phases, "tools"),
+      finalResultMs: sumDurations(phases, "final_result"),
+      phases,
+    },
+  };
+}
@@ -0,0 +1,228 @@
+import { randomUUID } from "node:crypto";
+import { z } from "zod";
+
+import type { BaseAgent, RunOptions } from "./agent";
+import {
+  ConversationTurnSchema,
+  type AgentContext,
+  type ConversationAction,
+  type ConversationTurn,
+} from "./context";
+import { HookEvents } from "./hooks";
+import { estimateTokens } from "../utils/tokens";
+
+/**
+ * Default number of previous turns included in each run
+ */
+export const DEFAULT_HISTORY_WINDOW = 10;
+
+/**
+ * Schema for the serialized state of an {@link AgentSession}
+ */
+export const AgentSessionStateSchema = z.object({
+  sessionId: z.string(),
+  agentName: z.string(),
+  turns: z.array(ConversationTurnSchema),
+});
+
+export type AgentSessionState = z.infer<typeof AgentSessionStateSchema>;
+
+export interface AgentSessionOptions {
+  /**
+   * Session identifier, reused as the run session ID of every turn (defaults to a random UUID)
+   */
+  sessionId?: string;
+
+  /**
+   * Maximum number of previous turns shown to the model (default: 10)
+   */
+  historyWindow?: number;
+
+  /**
+   * Approximate token budget for the previous turns. Oldest turns are dropped
+   * until the history fits. Unlimited by default.
+   */
+  maxHistoryTokens?: number;
+}
+
+/**
+ * Options for a single {@link AgentSession.send} call
+ */
+export type SessionSendOptions = Omit<RunOptions, "sessionId" | "conversation">;
+
+/**
+ * Multi-turn conversation on top of an agent.
+ *
+ * Each `send()` runs the agent with the previous turns (user messages, final
+ * answers and the tools used to produce them) included in its context. The
+ * session state is JSON-serializable so chat backends can persist it between requests.
+ *
+ * @template TInput - The agent's input type (one user message)
+ * @template TOutput - The agent's output type (one answer)
+ */
+export class AgentSession<TInput = string, TOutput = string> {
+  public readonly sessionId: string;
+
+  public readonly historyWindow: number;
+
+  public readonly maxHistoryTokens: number | undefined;
+
+  private readonly agent: BaseAgent<TInput, TOutput>;
+
+  private readonly history: ConversationTurn[];
+
+  /**
+   * Sends are serialized so every turn sees the answer to the previous one
+   */
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(
+    agent: BaseAgent<TInput, TOutput>,
+    options: AgentSessionOptions = {},
+    turns: ConversationTurn[] = [],
+  ) {
+    this.agent = agent;
+    this.sessionId = options.sessionId ?? randomUUID();
+    this.historyWindow = options.historyWindow ?? DEFAULT_HISTORY_WINDOW;
+    this.maxHistoryTokens = options.maxHistoryTokens;
+    this.history = [...turns];
+  }
+
+  /**
+   * All completed turns, oldest first
+   */
+  get turns(): readonly ConversationTurn[] {
+    return this.history;
+  }
+
+  /**
+   * Send a user message and wait for the agent's answer
+   *
+   * @param message - Input for this turn
+   * @param options - Run options (abort signal, parent span ID)
+   * @returns The agent's answer
+   */
+  public send(
+    message: TInput,
+    options: SessionSendOptions = {},
+  ): Promise<TOutput> {
+    const turn = this.queue.then(() => this.runTurn(message, options));
+    this.queue = turn.catch(() => undefined);
+    return turn;
+  }
+
+  /**
+   * Previous turns that fit the history window and token budget
+   *
+   * @returns Turns passed to the next run, oldest first
+   */
+  public getHistory(): ConversationTurn[] {
+    const windowed =
+      this.historyWindow > 0 ? this.history.slice(-this.historyWindow) : [];
+
+    if (this.maxHistoryTokens === undefined) {
+      return windowed;
+    }
+
+    // Drop the oldest turns until the remaining history fits the budget
+    let start = 0;
+    while (
+      start < windowed.length &&
+      estimateTokens(windowed.slice(start)) > this.maxHistoryTokens
+    ) {
+      start += 1;
+    }
+    return windowed.slice(start);
+  }
+
+  /**
+   * Forget all previous turns
+   */
+  public clear(): void {
+    this.history.length = 0;
+  }
+
+  /**
+   * Serialize the session for storage
+   */
+  public toJSON(): AgentSessionState {
+    return {
+      sessionId: this.sessionId,
+      agentName: this.agent.name,
+      turns: this.history.map((turn) => ({
+        ...turn,
+        actions: [...turn.actions],
+      })),
+    };
+  }
+
+  /**
+   * Restore a session serialized with {@link AgentSession.toJSON}
+   *
+   * @param agent - Agent that continues the conversation
+   * @param state - Serialized session state
+   * @param options - History options (the session ID always comes from the state)
+   * @returns The restored session
+   */
+  public static fromJSON<TInput, TOutput>(
+    agent: BaseAgent<TInput, TOutput>,
+    state: unknown,
+    options: Omit<AgentSessionOptions, "sessionId"> = {},
+  ): AgentSession<TInput, TOutput> {
+    const parsed = AgentSessionStateSchema.parse(state);
+    if (parsed.agentName !== agent.name) {
+      throw new Error(
+        `[${agent.name}] Session "${parsed.sessionId}" belongs to agent "${parsed.agentName}"`,
+      );
+    }
+
+    return new AgentSession(
+      agent,
+      { ...options, sessionId: parsed.sessionId },
+      parsed.turns,
+    );
+  }
+
+  private async runTurn(
+    message: TInput,
+    options: SessionSendOptions,
+  ): Promise<TOutput> {
+    let actions: ConversationAction[] = [];
+
+    // Capture the condensed execution history of this session's run
+    const unsubscribe = this.agent.on(HookEvents.AgentEnd, ({ context }) => {
+      if (context.sessionId === this.sessionId) {
+        actions = summarizeActions(context);
+      }
+    });
+
+    try {
+      const { result } = await this.agent.run(message, {
+        ...options,
+        sessionId: this.sessionId,
+        conversation: this.getHistory(),
+      });
+
+      this.history.push({
+        input: message,
+        output: result,
+        actions,
+        timestamp: Date.now(),
+      });
+
+      return result;
+    } finally {
+      unsubscribe();
+    }
+  }
+}
+
+const summarizeActions = (context: AgentContext): ConversationAction[] =>
+  context.executionHistory.flatMap((cycle) =>
+    cycle.results.flatMap((result) => {
+      const summary = result as { toolName?: unknown; success?: unknown };
+      return typeof summary.toolName === "string"
+        ? [{ tool: summary.toolName, success: summary.success === true }]
+        : [];
+    }),
+  );
@@ -3,6 +3,7 @@ import type { ZodType, ZodTypeAny } from "zod";
 import { z } from "zod";
 
 import type { BaseAgent } from "./agent";
+import type { ToolApprovalRequirement } from "./approval";
 import type { AgentContext, Usage } from "./context";
 import { err, ok, type Result } from "./result";
 
@@ -101,6 +102,51 @@ export interface ToolExample<TInput, TOutput> {
   description?: string;
 }
 
+/**
+ * Retry policy for tools that fail transiently (e.g. flaky HTTP calls).
+ * Failed attempts are retried before the result reaches the model.
+ */
+export interface ToolRetryPolicy {
+  /**
+   * Total attempts, including the first one
+   */
+  maxAttempts: number;
+
+  /**
+   * Delay before the first retry in milliseconds, doubled for every further retry,
+   * or a function of the failed attempt number (default: 100)
+   */
+  backoffMs?: number | ((attempt: number) => number);
+
+  /**
+   * Decide whether a failure is worth retrying (default: every failure).
+   * Receives the thrown error or the `error` of a returned failure.
+   */
+  retryOn?: (error: unknown, attempt: number) => boolean;
+}
+
+/**
+ * Caching policy for idempotent tools. Successful results are stored in the
+ * agent's `toolCache` and reused for identical calls across iterations and runs.
+ */
+export interface ToolCachePolicy<TInput, TOutput> {
+  /**
+   * How long a cached result stays valid in milliseconds (default: no expiry)
+   */
+  ttlMs?: number;
+
+  /**
+   * Cache key for a call (default: the input serialized with sorted object keys).
+   * The tool name is always prepended.
+   */
+  key?(input: TInput): string;
+
+  /**
+   * Decide whether a successful result is cached (default: every successful result)
+   */
+  cacheable?(output: TOutput, input: TInput): boolean;
+}
+
 export interface ToolDefinition<TInput, TOutput> {
   name: string;
   description?: string;
@@ -115,6 +161,37 @@ export interface ToolDefinition<TInput, TOutput> {
   ) => MaybePromise<ToolResult<TOutput>>;
   metadata?: Record<string, unknown>;
   timeoutMs?: number;
+  /**
+   * Retry failed executions before returning the failure to the agent
+   */
+  retry?: ToolRetryPolicy;
+  /**
+   * Reuse results of identical calls from the agent's tool cache
+   */
+  cache?: ToolCachePolicy<TInput, TOutput>;
+  /**
+   * Concurrency group sharing a limit from the agent's `toolConcurrencyGroups`
+   * (defaults to the first pattern there matching the tool name)
+   */
+  concurrencyGroup?: string;
+  /**
+   * Set to false to run this tool on its own, even when the agent executes
+   * tool calls in parallel (default: true)
+   */
+  parallelizable?: boolean;
+  /**
+   * Largest result, in characters, shown to the model (overrides the agent's `maxResultChars`)
+   */
+  maxResultChars?: number;
+  /**
+   * Largest result, in estimated tokens, shown to the model (overrides the agent's `maxResultTokens`)
+   */
+  maxResultTokens?: number;
+  /**
+   * Require a human decision before the agent runs this tool.
+   * Either a flag or a predicate over the call arguments and context.
+   */
+  requiresApproval?: ToolApprovalRequirement<TInput>;
 }
 
 export type MaybePromise<T> = T | Promise<T>;
@@ -0,0 +1,261 @@
+import { createHash } from "node:crypto";
+import { promises as fs } from "node:fs";
+import path from "node:path";
+import { z } from "zod";
+
+/**
+ * Entries kept by an {@link InMemoryToolCache} before the least recently used is evicted
+ */
+export const DEFAULT_TOOL_CACHE_MAX_ENTRIES = 1000;
+
+/**
+ * Schema for a cached tool result
+ */
+export const ToolCacheEntrySchema = z.object({
+  output: z.unknown(),
+  createdAt: z.number(),
+  /**
+   * Expiry timestamp, or null if the entry never expires
+   */
+  expiresAt: z.number().nullable(),
+});
+
+export interface ToolCacheEntry {
+  output: unknown;
+  createdAt: number;
+  expiresAt: number | null;
+}
+
+/**
+ * Storage backend for cached tool results.
+ * Implementations return null for missing and expired entries.
+ */
+export interface ToolCache {
+  /**
+   * Load a cached result
+   *
+   * @param key - Cache key (see {@link toolCacheKey})
+   * @returns The entry, or null if none exists or it has expired
+   */
+  get(key: string): Promise<ToolCacheEntry | null>;
+
+  /**
+   * Store a result, replacing any entry with the same key
+   *
+   * @param key - Cache key
+   * @param entry - Result to cache
+   */
+  set(key: string, entry: ToolCacheEntry): Promise<void>;
+
+  /**
+   * Delete a cached result
+   *
+   * @param key - Cache key
+   * @returns True if an entry was deleted, false if none existed
+   */
+  delete(key: string): Promise<boolean>;
+
+  /**
+   * Delete every cached result
+   */
+  clear(): Promise<void>;
+}
+
+/**
+ * Whether a cache entry has passed its expiry time
+ */
+export const isToolCacheEntryExpired = (
+  entry: ToolCacheEntry,
+  now: number = Date.now(),
+): boolean => entry.expiresAt !== null && entry.expiresAt <= now;
+
+/**
+ * Recursively sort object keys so equal inputs serialize identically
+ */
+const stableStringify = (value: unknown): string =>
+  JSON.stringify(value, (_key, entry: unknown) =>
+    typeof entry === "object" && entry !== null && !Array.isArray(entry)
+      ? Object.fromEntries(
+          Object.entries(entry as Record<string, unknown>).sort(([a], [b]) =>
+            a < b ? -1 : a > b ? 1 : 0,
+          ),
+        )
+      : entry,
+  ) ?? "undefined";
+
+/**
+ * Cache key for a tool call
+ *
+ * @param toolName - Tool being called
+ * @param input - Validated tool input
+ * @param key - Custom key function from the tool's cache policy
+ * @returns Key prefixed with the tool name
+ */
+export const toolCacheKey = <TInput>(
+  toolName: string,
+  input: TInput,
+  key?: (input: TInput) => string,
+): string => `${toolName}:${key ? key(input) : stableStringify(input)}`;
+
+/**
+ * In-memory tool cache evicting the least recently used entry once full
+ */
+export class InMemoryToolCache implements ToolCache {
+  public readonly maxEntries: number;
+
+  // Map iteration order doubles as recency order (oldest first)
+  private readonly store = new Map<string, ToolCacheEntry>();
+
+  constructor(maxEntries: number = DEFAULT_TOOL_CACHE_MAX_ENTRIES) {
+    if (!Number.isInteger(maxEntries) || maxEntries < 1) {
+      throw new Error(
+        `Tool cache size must be a positive integer, got ${maxEntries}`,
+      );
+    }
+    this.maxEntries = maxEntries;
+  }
+
+  async get(key: string): Promise<ToolCacheEntry | null> {
+    const entry = this.store.get(key);
+    if (!entry) {
+      return null;
+    }
+
+    this.store.delete(key);
+    if (isToolCacheEntryExpired(entry)) {
+      return null;
+    }
+    this.store.set(key, entry);
+    return { ...entry };
+  }
+
+  async set(key: string, entry: ToolCacheEntry): Promise<void> {
+    this.store.delete(key);
+    this.store.set(key, { ...entry });
+
+    while (this.store.size > this.maxEntries) {
+      const oldest = this.store.keys().next().value as string;
+      this.store.delete(oldest);
+    }
+  }
+
+  async delete(key: string): Promise<boolean> {
+    return this.store.delete(key);
+  }
+
+  async clear(): Promise<void> {
+    this.store.clear();
+  }
+
+  /**
+   * Number of cached entries, including expired ones not read since expiring
+   */
+  get size(): number {
+    return this.store.size;
+  }
+}
+
+const FileToolCacheEntrySchema = ToolCacheEntrySchema.extend({
+  key: z.string(),
+});
+
+/**
+ * Filesystem tool cache.
+ * Writes one JSON file per entry into the configured directory, so cached
+ * outputs must be JSON-serializable.
+ */
+export class FileToolCache implements ToolCache {
+  private readonly directory: string;
+
+  constructor(directory: string) {
+    this.directory = path.resolve(directory);
+  }
+
+  async get(key: string): Promise<ToolCacheEntry | null> {
+    let contents: string;
+    try {
+      contents = await fs.readFile(this.filePath(key), "utf8");
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return null;
+      }
+      throw error;
+    }
+
+    const { output, createdAt, expiresAt } = FileToolCacheEntrySchema.parse(
+      JSON.parse(contents),
+    );
+    const entry: ToolCacheEntry = { output, createdAt, expiresAt };
+    if (isToolCacheEntryExpired(entry)) {
+      await this.delete(key);
+      return null;
+    }
+    return entry;
+  }
+
+  async set(key: string, entry: ToolCacheEntry): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+    await fs.writeFile(
+      this.filePath(key),
+      JSON.stringify({ key, ...entry }),
+      "utf8",
+    );
+  }
+
+  async delete(key: string): Promise<boolean> {
+    try {
+      await fs.unlink(this.filePath(key));
+      return true;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  async clear(): Promise<void> {
+    let files: string[];
+    try {
+      files = await fs.readdir(this.directory);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return;
+      }
+      throw error;
+    }
+
+    await Promise.all(
+      files
+        .filter((file) => file.endsWith(".json"))
+        .map((file) => fs.rm(path.join(this.directory, file), { force: true })),
+    );
+  }
+
+  // Keys contain arbitrary input, so files are named by their hash
+  private filePath(key: string): string {
+    return path.join(
+      this.directory,
+      `${createHash("sha256").update(key).digest("hex")}.json`,
+    );
+  }
+}
+
+/**
+ * Factory function to create a new in-memory tool cache
+ *
+ * @param maxEntries - Entries kept before the least recently used is evicted
+ * @returns New InMemoryToolCache instance
+ */
+export const createInMemoryToolCache = (
+  maxEntries?: number,
+): InMemoryToolCache => new InMemoryToolCache(maxEntries);
+
+/**
+ * Factory function to create a new filesystem tool cache
+ *
+ * @param directory - Directory the cache files are written to
+ * @returns New FileToolCache instance
+ */
+export const createFileToolCache = (directory: string): FileToolCache =>
+  new FileToolCache(directory);
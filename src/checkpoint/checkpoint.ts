@@ -0,0 +1,206 @@
+import { promises as fs } from "node:fs";
+import path from "node:path";
+import { z } from "zod";
+
+import { PendingApprovalStateSchema } from "../base/approval";
+import {
+  ConversationTurnSchema,
+  ExecutionCycleSchema,
+  HistorySummarySchema,
+  IterationThoughtSchema,
+  PhaseTimingSchema,
+  UsageSchema,
+  type AgentContextSnapshot,
+} from "../base/context";
+import { ToolCallRecordSchema } from "../base/tool";
+
+/**
+ * Schema for a serialized agent context snapshot
+ */
+export const AgentContextSnapshotSchema = z.object({
+  agentName: z.string(),
+  sessionId: z.string(),
+  parentSpanId: z.string().nullable(),
+  iteration: z.number().int().nonnegative(),
+  goal: z.unknown().optional(),
+  executionHistory: z.array(ExecutionCycleSchema),
+  usage: UsageSchema,
+  toolCalls: z.array(ToolCallRecordSchema),
+  metadata: z.record(z.string(), z.unknown()),
+  startedAt: z.number(),
+  updatedAt: z.number(),
+  activeMs: z.number().nonnegative().optional(),
+  pendingApproval: PendingApprovalStateSchema.nullable().optional(),
+  conversation: z.array(ConversationTurnSchema).optional(),
+  historySummary: HistorySummarySchema.nullable().optional(),
+  thoughts: z.array(IterationThoughtSchema).optional(),
+  phaseTimings: z.array(PhaseTimingSchema).optional(),
+});
+
+/**
+ * Schema for a persisted agent checkpoint
+ */
+export const AgentCheckpointSchema = z.object({
+  sessionId: z.string(),
+  agentName: z.string(),
+  snapshot: AgentContextSnapshotSchema,
+  savedAt: z.number(),
+});
+
+/**
+ * Point-in-time state of an agent run, written after every completed iteration
+ * and when a run suspends for approval
+ */
+export interface AgentCheckpoint {
+  sessionId: string;
+  agentName: string;
+  snapshot: AgentContextSnapshot;
+  savedAt: number;
+}
+
+/**
+ * Storage backend for agent checkpoints.
+ * Implementations must round-trip checkpoints through JSON so that a run can be
+ * resumed from a different process than the one that wrote it.
+ */
+export interface CheckpointStore {
+  /**
+   * Persist a checkpoint, replacing any previous checkpoint for the same session
+   *
+   * @param checkpoint - Checkpoint to store
+   */
+  save(checkpoint: AgentCheckpoint): Promise<void>;
+
+  /**
+   * Load the latest checkpoint for a session
+   *
+   * @param sessionId - Session identifier of the run
+   * @returns The checkpoint, or null if none exists
+   */
+  load(sessionId: string): Promise<AgentCheckpoint | null>;
+
+  /**
+   * Delete the checkpoint for a session
+   *
+   * @param sessionId - Session identifier of the run
+   * @returns True if a checkpoint was deleted, false if none existed
+   */
+  delete(sessionId: string): Promise<boolean>;
+}
+
+/**
+ * Create a checkpoint from a context snapshot
+ *
+ * @param snapshot - Snapshot of the agent context
+ * @returns Checkpoint ready to be stored
+ */
+export const createCheckpoint = (
+  snapshot: AgentContextSnapshot,
+): AgentCheckpoint => ({
+  sessionId: snapshot.sessionId,
+  agentName: snapshot.agentName,
+  snapshot,
+  savedAt: Date.now(),
+});
+
+const parseCheckpoint = (raw: unknown): AgentCheckpoint =>
+  AgentCheckpointSchema.parse(raw) as AgentCheckpoint;
+
+/**
+ * In-memory checkpoint store.
+ * Checkpoints are serialized on save so later mutations of the live context do not leak in.
+ */
+export class InMemoryCheckpointStore implements CheckpointStore {
+  private readonly store = new Map<string, string>();
+
+  async save(checkpoint: AgentCheckpoint): Promise<void> {
+    this.store.set(checkpoint.sessionId, JSON.stringify(checkpoint));
+  }
+
+  async load(sessionId: string): Promise<AgentCheckpoint | null> {
+    const serialized = this.store.get(sessionId);
+    return serialized ? parseCheckpoint(JSON.parse(serialized)) : null;
+  }
+
+  async delete(sessionId: string): Promise<boolean> {
+    return this.store.delete(sessionId);
+  }
+
+  /**
+   * Number of stored checkpoints
+   */
+  get size(): number {
+    return this.store.size;
+  }
+}
+
+/**
+ * Filesystem checkpoint store.
+ * Writes one JSON file per session into the configured directory.
+ */
+export class FileCheckpointStore implements CheckpointStore {
+  private readonly directory: string;
+
+  constructor(directory: string) {
+    this.directory = path.resolve(directory);
+  }
+
+  async save(checkpoint: AgentCheckpoint): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+
+    const target = this.filePath(checkpoint.sessionId);
+    const temporary = `${target}.${process.pid}.tmp`;
+
+    // Write then rename so a crash mid-write never leaves a truncated checkpoint
+    await fs.writeFile(temporary, JSON.stringify(checkpoint), "utf8");
+    await fs.rename(temporary, target);
+  }
+
+  async load(sessionId: string): Promise<AgentCheckpoint | null> {
+    let contents: string;
+    try {
+      contents = await fs.readFile(this.filePath(sessionId), "utf8");
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return null;
+      }
+      throw error;
+    }
+
+    return parseCheckpoint(JSON.parse(contents));
+  }
+
+  async delete(sessionId: string): Promise<boolean> {
+    try {
+      await fs.unlink(this.filePath(sessionId));
+      return true;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  private filePath(sessionId: string): string {
+    return path.join(this.directory, `${encodeURIComponent(sessionId)}.json`);
+  }
+}
+
+/**
+ * Factory function to create a new in-memory checkpoint store
+ *
+ * @returns New InMemoryCheckpointStore instance
+ */
+export const createInMemoryCheckpointStore = (): InMemoryCheckpointStore =>
+  new InMemoryCheckpointStore();
+
+/**
+ * Factory function to create a new filesystem checkpoint store
+ *
+ * @param directory - Directory the checkpoint files are written to
+ * @returns New FileCheckpointStore instance
+ */
+export const createFileCheckpointStore = (
+  directory: string,
+): FileCheckpointStore => new FileCheckpointStore(directory);
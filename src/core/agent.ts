@@ -1,5 +1,14 @@
 import { z } from "zod";
 
+import {
+  DEFAULT_HISTORY_WINDOW_CYCLES,
+  getCyclesToSummarize,
+  renderCycle,
+  renderExecutionHistory,
+  type HistoryStrategy,
+  type RenderedCycle,
+  type RenderedHistory,
+} from "./history";
 import {
   type AgentDecision,
   type ToolCall,
@@ -8,26 +17,37 @@ import {
   createAgentDecisionWithOutputSchema,
 } from "./schemas";
 import { BaseAgent, type BaseAgentConfig } from "../base/agent";
-import type { AgentContext, PendingSpanUpdate } from "../base/context";
+import type { ApprovalDecision, PendingApproval } from "../base/approval";
+import type {
+  AgentContext,
+  PendingSpanUpdate,
+  StopReason,
+} from "../base/context";
+import { AgentSuspendedError } from "../base/errors";
 import { HookEvents } from "../base/hooks";
-import type { ToolSuccess } from "../base/tool";
+import { createCheckpoint } from "../checkpoint/checkpoint";
+import {
+  NoopTracer,
+  type LlmCallOptions,
+  type LlmProvider,
+  type LlmStreamResponse,
+  type Tracer,
+} from "../llm/provider";
 import { OpperClient } from "../opper/client";
 import { getDefaultLogger, LogLevel, type AgentLogger } from "../utils/logger";
 import { schemaToJson } from "../utils/schema-utils";
 import { createStreamAssembler } from "../utils/streaming";
 
-const isToolSuccessResult = (value: unknown): value is ToolSuccess<unknown> => {
-  if (typeof value !== "object" || value === null) {
-    return false;
-  }
+const HistorySummaryOutputSchema = z.object({ summary: z.string() });
 
-  const candidate = value as Partial<ToolSuccess<unknown>>;
-  return (
-    candidate.success === true &&
-    typeof candidate.toolName === "string" &&
-    "output" in candidate
-  );
-};
+/**
+ * Earlier conversation turn as presented to the LLM
+ */
+interface ConversationHistoryEntry {
+  user: string;
+  assistant: string;
+  tools_used: string[];
+}
 
 /**
  * Configuration for the core Agent.
@@ -48,23 +68,40 @@ const isToolSuccessResult = (value: unknown): value is ToolSuccess<unknown> => {
  * @property {boolean} [enableStreaming=false] - Enable streaming for LLM calls
  * @property {boolean} [enableMemory=false] - Enable memory subsystem
  * @property {Memory} [memory] - Custom memory implementation
+ * @property {CheckpointStore} [checkpointStore] - Checkpoint store written after every iteration (enables resume)
  * @property {Record<string, unknown>} [metadata] - Additional metadata
  * @property {OpperClientConfig} [opperConfig] - Opper API configuration (apiKey, baseUrl)
  * @property {OpperClient} [opperClient] - Custom Opper client instance
+ * @property {LlmProvider} [llm] - Model backend replacing the Opper client for LLM calls
+ * @property {Tracer} [tracer] - Span sink replacing the Opper client for tracing
  * @property {AgentLogger} [logger] - Logger instance for debugging
  * @property {boolean} [verbose=false] - Enable verbose logging
+ * @property {HistoryStrategy} [historyStrategy] - How execution history is compacted in prompts
  * @property {Function} [onStreamStart] - Handler invoked when streaming starts
  * @property {Function} [onStreamChunk] - Handler invoked for each streaming chunk
  * @property {Function} [onStreamEnd] - Handler invoked when streaming ends
  * @property {Function} [onStreamError] - Handler invoked on streaming errors
  */
-export interface AgentConfig<TInput, TOutput>
-  extends BaseAgentConfig<TInput, TOutput> {
+export interface AgentConfig<TInput, TOutput> extends BaseAgentConfig<
+  TInput,
+  TOutput
+> {
   /**
    * Custom Opper client instance (for testing or custom configuration)
    */
   opperClient?: OpperClient;
 
+  /**
+   * Model backend for think, final-result and summarization calls (default: the Opper client)
+   */
+  llm?: LlmProvider;
+
+  /**
+   * Span sink for tracing. Defaults to the Opper client, or to a no-op tracer
+   * when `llm` is set without an `opperClient`.
+   */
+  tracer?: Tracer;
+
   /**
    * Logger instance for debugging and monitoring
    */
@@ -74,6 +111,12 @@ export interface AgentConfig<TInput, TOutput>
    * Enable verbose logging (default: false)
    */
   verbose?: boolean;
+
+  /**
+   * How execution history is compacted before it is sent to the LLM.
+   * By default the think step sees the last 3 cycles and the final result sees all of them.
+   */
+  historyStrategy?: HistoryStrategy;
 }
 
 /**
@@ -123,9 +166,16 @@ export class Agent<TInput = unknown, TOutput = unknown> extends BaseAgent<
   TInput,
   TOutput
 > {
-  private readonly opperClient: OpperClient;
+  private readonly llm: LlmProvider;
+  private readonly tracer: Tracer;
   private readonly logger: AgentLogger;
   private readonly verbose: boolean;
+  private readonly historyStrategy: HistoryStrategy | undefined;
+  /**
+   * Model named in LLM calls. Unset when a custom `llm` is used without a
+   * configured model, so the provider falls back to its own default.
+   */
+  private readonly callModel: string | readonly string[] | undefined;
 
   /**
    * Creates a new Agent instance
@@ -136,17 +186,21 @@ export class Agent<TInput = unknown, TOutput = unknown> extends BaseAgent<
    * @param config.instructions - System instructions guiding agent behavior
    * @param config.tools - Array of tools or tool providers available to the agent
    * @param config.maxIterations - Maximum iterations before terminating (default: 25)
-   * @param config.model - Model identifier(s) as string or array for fallback (default: "gcp/gemini-flash-latest")
+   * @param config.model - Model identifier(s) as string or array for fallback (default: "gcp/gemini-flash-latest", or the `llm` provider's own default)
    * @param config.inputSchema - Zod schema for input validation
    * @param config.outputSchema - Zod schema for output validation
    * @param config.enableStreaming - Enable streaming for LLM calls (default: false)
    * @param config.enableMemory - Enable memory subsystem (default: false)
    * @param config.memory - Custom memory implementation (defaults to InMemoryStore if enableMemory is true)
+   * @param config.checkpointStore - Checkpoint store written after every iteration (enables resume)
    * @param config.metadata - Additional metadata for the agent
    * @param config.opperConfig - Opper API configuration (apiKey, baseUrl)
    * @param config.opperClient - Custom Opper client instance (for testing or custom configuration)
+   * @param config.llm - Model backend replacing the Opper client for LLM calls
+   * @param config.tracer - Span sink replacing the Opper client for tracing
    * @param config.logger - Logger instance for debugging
    * @param config.verbose - Enable verbose logging (default: false)
+   * @param config.historyStrategy - How execution history is compacted in prompts
    * @param config.onStreamStart - Handler invoked when streaming starts
    * @param config.onStreamChunk - Handler invoked for each streaming chunk
    * @param config.onStreamEnd - Handler invoked when streaming ends
@@ -157,6 +211,8 @@ export class Agent<TInput = unknown, TOutput = unknown> extends BaseAgent<
 
     this.logger = config.logger ?? getDefaultLogger();
     this.verbose = config.verbose ?? false;
+    this.historyStrategy = config.historyStrategy;
+    this.callModel = config.model ?? (config.llm ? undefined : this.model);
 
     // If verbose mode is enabled, ensure the logger emits info-level logs
     if (this.verbose) {
@@ -167,13 +223,42 @@ export class Agent<TInput = unknown, TOutput = unknown> extends BaseAgent<
       }
     }
 
-    // Initialize Opper client
-    this.opperClient =
-      config.opperClient ??
-      new OpperClient(this.opperConfig.apiKey, {
-        logger: this.logger,
-        ...(this.opperConfig.baseUrl && { baseUrl: this.opperConfig.baseUrl }),
-      });
+    // Initialize the LLM provider and tracer (the Opper client unless overridden)
+    if (config.llm) {
+      this.llm = config.llm;
+      this.tracer = config.tracer ?? config.opperClient ?? new NoopTracer();
+    } else {
+      const opperClient =
+        config.opperClient ??
+        new OpperClient(this.opperConfig.apiKey, {
+          logger: this.logger,
+          ...(this.opperConfig.baseUrl && {
+            baseUrl: this.opperConfig.baseUrl,
+          }),
+        });
+      this.llm = opperClient;
+      this.tracer = config.tracer ?? opperClient;
+    }
+
+    if (this.enableStreaming && !this.llm.stream) {
+      throw new Error(
+        `[${this.name}] enableStreaming requires an LLM provider that implements stream()`,
+      );
+    }
+  }
+
+  /**
+   * Stream a call through the configured provider
+   */
+  private streamLlm<TCallInput, TCallOutput>(
+    options: LlmCallOptions<TCallInput, TCallOutput>,
+  ): Promise<LlmStreamResponse> {
+    if (!this.llm.stream) {
+      throw new Error(
+        `[${this.name}] The configured LLM provider does not support streaming`,
+      );
+    }
+    return this.llm.stream(options);
   }
 
   /**
@@ -214,7 +299,7 @@ export class Agent<TInput = unknown, TOutput = unknown> extends BaseAgent<
           ...(update.meta && { meta: update.meta }),
           ...(update.name && { name: update.name }),
         };
-        return this.opperClient.updateSpan(update.spanId, update.output, options);
+        return this.tracer.updateSpan(update.spanId, update.output, options);
       }),
     );
   }
@@ -236,15 +321,24 @@ export class Agent<TInput = unknown, TOutput = unknown> extends BaseAgent<
     const executionStartTime = new Date();
 
     // Create parent span for this agent execution
-    const parentSpan = await this.opperClient.createSpan({
+    const parentSpan = await this.tracer.createSpan({
       name: `${this.name}_execution`,
       input: this.serializeInput(input),
       ...(context.parentSpanId ? { parentSpanId: context.parentSpanId } : {}),
     });
     context.parentSpanId = parentSpan.id;
+    context.rootSpanId = parentSpan.id;
 
     try {
       while (context.iteration < this.maxIterations) {
+        this.throwIfAborted(context);
+
+        // Stop before spending more once the budget is exhausted
+        if (await this.budgetExhausted(context)) {
+          this.log("Budget exhausted, generating best-effort final result");
+          break;
+        }
+
         const currentIteration = context.iteration + 1;
 
         this.log(`Iteration ${currentIteration}/${this.maxIterations}`, {
@@ -258,10 +352,20 @@ export class Agent<TInput = unknown, TOutput = unknown> extends BaseAgent<
 
         try {
           // Step 1: Think - Get agent's decision
-          const { decision, spanId: thinkSpanId } = await this.think(
-            input,
-            context,
-          );
+          // (a run resumed after approval continues with the decision it was suspended on)
+          const thinkStartedAt = Date.now();
+          const { decision, spanId: thinkSpanId } = context.pendingApproval
+            ? this.restorePendingDecision(context)
+            : await this.think(input, context);
+          // A restored decision was already timed and recorded before suspending
+          if (!context.pendingApproval) {
+            context.recordPhase("think", currentIteration, thinkStartedAt);
+            context.thoughts.push({
+              iteration: currentIteration,
+              reasoning: decision.reasoning,
+              userMessage: decision.userMessage,
+            });
+          }
 
           // Check for immediate completion with final result (single LLM call pattern)
           if (decision.isComplete && decision.finalResult !== undefined) {
@@ -327,10 +431,24 @@ export class Agent<TInput = unknown, TOutput = unknown> extends BaseAgent<
             // Hook: loop_end before returning
             await this.triggerHook(HookEvents.LoopEnd, { context });
 
+            context.stopReason = "completed";
             return finalResult;
           }
 
-          // Step 2: Handle memory actions (Phase 7 integration point)
+          // Skip further tool work when the think step exhausted the budget
+          if (await this.budgetExhausted(context)) {
+            this.log("Budget exhausted, generating best-effort final result");
+            break;
+          }
+
+          // Step 2: Gate tool calls that require approval (may suspend the run)
+          const approvals = await this.resolveApprovals(
+            decision,
+            context,
+            currentIteration,
+          );
+
+          // Step 3: Handle memory actions (Phase 7 integration point)
           const memoryResults = await this.handleMemoryActions(
             decision,
             context,
@@ -340,18 +458,24 @@ export class Agent<TInput = unknown, TOutput = unknown> extends BaseAgent<
           // Track tool call records captured during this iteration
           const toolCallStartIndex = context.toolCalls.length;
 
-          // Step 3: Execute tool calls (if any)
+          // Step 4: Execute tool calls (if any)
           // Tool spans are siblings to think spans (both children of agent execution)
+          const toolsStartedAt = Date.now();
           const toolResults = await this.executeToolCalls(
             decision,
             context,
+            approvals,
             context.parentSpanId ?? undefined,
           );
+          if (decision.toolCalls.length > 0) {
+            context.recordPhase("tools", currentIteration, toolsStartedAt);
+          }
           const combinedResults = [...memoryResults, ...toolResults];
+          context.pendingApproval = null;
 
           const newToolCalls = context.toolCalls.slice(toolCallStartIndex);
 
-          // Step 4: Record execution cycle (always capture reasoning per iteration)
+          // Step 5: Record execution cycle (always capture reasoning per iteration)
           context.addCycle({
             iteration: currentIteration,
             thought: {
@@ -365,6 +489,9 @@ export class Agent<TInput = unknown, TOutput = unknown> extends BaseAgent<
           });
           context.iteration = currentIteration;
 
+          // Persist progress so the run can be resumed from the next iteration
+          await this.saveCheckpoint(context);
+
           // Check if loop is complete
           const hasToolCalls = decision.toolCalls.length > 0;
           const hasMemoryReads =
@@ -385,14 +512,33 @@ export class Agent<TInput = unknown, TOutput = unknown> extends BaseAgent<
       }
 
       // Check if we exceeded max iterations without completing
-      if (context.iteration >= this.maxIterations) {
-        throw new Error(
-          `Agent exceeded maximum iterations (${this.maxIterations}) without completing the task`,
-        );
+      if (context.iteration >= this.maxIterations && !context.stopReason) {
+        context.stopReason = "max_iterations";
+        if (this.onMaxIterations === "throw") {
+          throw new Error(
+            `Agent exceeded maximum iterations (${this.maxIterations}) without completing the task`,
+          );
+        }
+        this.log("Maximum iterations reached, generating best-effort result");
       }
 
-      // Generate final result
-      const result = await this.generateFinalResult(input, context);
+      this.throwIfAborted(context);
+      // In throw mode an exhausted budget fails the run before the final LLM call
+      await this.budgetExhausted(context);
+
+      // Generate final result (or let the max-iterations callback provide it)
+      context.stopReason ??= "completed";
+      const finalResultStartedAt = Date.now();
+      const result =
+        context.stopReason === "max_iterations" &&
+        typeof this.onMaxIterations === "function"
+          ? await this.onMaxIterations({ input, context })
+          : await this.generateFinalResult(input, context);
+      context.recordPhase(
+        "final_result",
+        context.iteration,
+        finalResultStartedAt,
+      );
 
       // Update parent span with final output and timing
       const executionEndTime = new Date();
@@ -407,7 +553,12 @@ export class Agent<TInput = unknown, TOutput = unknown> extends BaseAgent<
       });
 
       return result;
-    } catch (error) {
+    } catch (caught) {
+      // Cancellation closes the span with a cancellation error
+      const error = context.signal?.aborted
+        ? this.createAbortError(context, caught)
+        : caught;
+
       // Update parent span with error and timing
       const executionEndTime = new Date();
       this.queueSpanUpdate(context, {
@@ -425,6 +576,91 @@ export class Agent<TInput = unknown, TOutput = unknown> extends BaseAgent<
     }
   }
 
+  /**
+   * Recover the decision a run was suspended on while waiting for approvals
+   */
+  private restorePendingDecision(context: AgentContext): {
+    decision: AgentDecision;
+    spanId?: string;
+  } {
+    const decisionSchema = createAgentDecisionWithOutputSchema(
+      this.outputSchema,
+    );
+    return {
+      decision: decisionSchema.parse(
+        context.pendingApproval?.decision,
+      ) as AgentDecision,
+    };
+  }
+
+  /**
+   * Collect approval decisions for the tool calls of a decision.
+   * Decisions supplied on resume take precedence over the approval handler.
+   * Suspends the run (persisting a checkpoint) when any call is left undecided.
+   */
+  private async resolveApprovals(
+    decision: AgentDecision,
+    context: AgentContext,
+    iteration: number,
+  ): Promise<Map<string, ApprovalDecision>> {
+    const resolutions = { ...(context.pendingApproval?.resolutions ?? {}) };
+    const approvals = new Map<string, ApprovalDecision>();
+    const pending: PendingApproval[] = [];
+
+    for (const toolCall of decision.toolCalls) {
+      const tool = this.tools.get(toolCall.toolName);
+      if (!tool) {
+        continue;
+      }
+
+      const approval =
+        resolutions[toolCall.id] ??
+        (await this.requestApproval(
+          tool,
+          toolCall.arguments,
+          context,
+          toolCall.id,
+        ));
+      if (!approval) {
+        continue;
+      }
+
+      if (approval.action === "suspend") {
+        pending.push({
+          toolCallId: toolCall.id,
+          toolName: toolCall.toolName,
+          arguments: toolCall.arguments,
+        });
+        continue;
+      }
+
+      resolutions[toolCall.id] = approval;
+      approvals.set(toolCall.id, approval);
+    }
+
+    if (pending.length > 0) {
+      this.log("Suspending run until tool calls are approved", {
+        tools: pending.map((call) => call.toolName),
+      });
+
+      context.pendingApproval = {
+        iteration,
+        decision: decision as unknown as Record<string, unknown>,
+        pending,
+        resolutions,
+      };
+      await this.saveCheckpoint(context);
+
+      throw new AgentSuspendedError(
+        this.name,
+        createCheckpoint(context.snapshot()),
+        pending,
+      );
+    }
+
+    return approvals;
+  }
+
   /**
    * Think step: Call LLM to decide next action
    */
@@ -438,39 +674,42 @@ export class Agent<TInput = unknown, TOutput = unknown> extends BaseAgent<
     this.log("Think step", { iteration: context.iteration });
 
     // Trigger hook: llm_call
-    await this.triggerHook(HookEvents.LlmCall, { context, callType: "think" as const });
+    await this.triggerHook(HookEvents.LlmCall, {
+      context,
+      callType: "think" as const,
+    });
 
     // Create dynamic schema with typed finalResult if outputSchema is specified
     const decisionSchema = createAgentDecisionWithOutputSchema(
       this.outputSchema,
     );
 
+    await this.compactHistory(context);
+
     if (this.enableStreaming) {
       return this.thinkStreaming(input, context, decisionSchema, spanName);
     }
 
     try {
       // Build static instructions
-      const instructions = this.buildThinkInstructions();
+      const instructions = this.buildThinkInstructions(context);
 
       // Build dynamic context (execution history, tools, memory, etc.)
       const thinkContext = await this.buildThinkContext(input, context);
 
       // Call Opper with structured output (dynamic schema includes typed finalResult)
-      const response = await this.opperClient.call<
-        typeof thinkContext,
-        AgentDecision
-      >({
+      const response = await this.llm.call<typeof thinkContext, AgentDecision>({
         name: spanName,
         instructions,
         input: thinkContext,
         outputSchema: decisionSchema as unknown as z.ZodType<AgentDecision>,
-        model: this.model,
+        ...(this.callModel && { model: this.callModel }),
         ...(context.parentSpanId && { parentSpanId: context.parentSpanId }),
+        ...(context.signal && { signal: context.signal }),
       });
 
       // Update usage with source tracking (will be cleaned up if no nested agents)
-      context.updateUsageWithSource(this.name, {
+      await this.recordUsage(context, this.name, {
         requests: 1,
         inputTokens: response.usage.inputTokens,
         outputTokens: response.usage.outputTokens,
@@ -514,8 +753,14 @@ export class Agent<TInput = unknown, TOutput = unknown> extends BaseAgent<
         memoryWrites: Object.keys(decision.memoryUpdates ?? {}).length,
       });
 
-      return { decision, spanId: response.spanId };
+      return {
+        decision,
+        ...(response.spanId && { spanId: response.spanId }),
+      };
     } catch (error) {
+      if (context.signal?.aborted) {
+        throw this.createAbortError(context, error);
+      }
       this.logger.error("Think step failed", error);
       throw new Error(
         `Think step failed: ${error instanceof Error ? error.message : String(error)}`,
@@ -529,7 +774,7 @@ export class Agent<TInput = unknown, TOutput = unknown> extends BaseAgent<
     decisionSchema: z.ZodObject<z.ZodRawShape>,
     spanName: string,
   ): Promise<{ decision: AgentDecision; spanId?: string }> {
-    const instructions = this.buildThinkInstructions();
+    const instructions = this.buildThinkInstructions(context);
     const thinkContext = await this.buildThinkContext(input, context);
     const assembler = createStreamAssembler({
       schema: decisionSchema as unknown as z.ZodType<AgentDecision>,
@@ -542,7 +787,7 @@ export class Agent<TInput = unknown, TOutput = unknown> extends BaseAgent<
     });
 
     try {
-      const streamResponse = await this.opperClient.stream<
+      const streamResponse = await this.streamLlm<
         typeof thinkContext,
         AgentDecision
       >({
@@ -550,8 +795,9 @@ export class Agent<TInput = unknown, TOutput = unknown> extends BaseAgent<
         instructions,
         input: thinkContext,
         outputSchema: decisionSchema as unknown as z.ZodType<AgentDecision>,
-        model: this.model,
+        ...(this.callModel && { model: this.callModel }),
         ...(context.parentSpanId && { parentSpanId: context.parentSpanId }),
+        ...(context.signal && { signal: context.signal }),
       });
 
       for await (const event of streamResponse.result) {
@@ -614,7 +860,7 @@ export class Agent<TInput = unknown, TOutput = unknown> extends BaseAgent<
         streamSpanId,
       );
       if (!usageTracked) {
-        context.updateUsageWithSource(this.name, {
+        await this.recordUsage(context, this.name, {
           requests: 1,
           inputTokens: 0,
           outputTokens: 0,
@@ -666,6 +912,9 @@ export class Agent<TInput = unknown, TOutput = unknown> extends BaseAgent<
         callType: "think" as const,
         error,
       });
+      if (context.signal?.aborted) {
+        throw this.createAbortError(context, error);
+      }
       this.logger.error("Think step failed", error);
       throw new Error(
         `Think step failed: ${error instanceof Error ? error.message : String(error)}`,
@@ -676,7 +925,7 @@ export class Agent<TInput = unknown, TOutput = unknown> extends BaseAgent<
   /**
    * Build static instructions for the think step
    */
-  private buildThinkInstructions(): string {
+  private buildThinkInstructions(context: AgentContext): string {
     let instructions = `You are in a Think-Act reasoning loop.
 
 YOUR TASK:
@@ -721,9 +970,144 @@ When to use memory:
 The memory you write persists across all process() calls on this agent.`;
     }
 
+    // Add conversation instructions for multi-turn sessions
+    if (context.conversation.length > 0) {
+      instructions += `
+
+CONVERSATION:
+The goal is the latest message in an ongoing conversation.
+- conversation_history lists earlier user messages, your answers, and the tools used for them (oldest first)
+- Use it to resolve references such as "it" or "the previous one"
+- Do not repeat work that an earlier answer already covers unless asked to`;
+    }
+
     return instructions;
   }
 
+  /**
+   * Render execution history for a prompt according to the history strategy
+   */
+  private renderHistory(
+    context: AgentContext,
+    callType: "think" | "final_result",
+  ): RenderedHistory {
+    const strategy: HistoryStrategy =
+      this.historyStrategy ??
+      (callType === "think"
+        ? { type: "window", cycles: DEFAULT_HISTORY_WINDOW_CYCLES }
+        : { type: "full" });
+
+    return renderExecutionHistory(
+      context.executionHistory,
+      strategy,
+      context.historySummary,
+    );
+  }
+
+  /**
+   * Fold older cycles into the running history summary (summarize strategy only).
+   * Failures keep the previous summary so the run can continue uncompacted.
+   */
+  private async compactHistory(context: AgentContext): Promise<void> {
+    const strategy = this.historyStrategy;
+    if (strategy?.type !== "summarize") {
+      return;
+    }
+
+    const cycles = getCyclesToSummarize(
+      context.executionHistory,
+      strategy,
+      context.historySummary,
+    );
+    const lastCycle = cycles[cycles.length - 1];
+    if (!lastCycle) {
+      return;
+    }
+
+    this.log("Summarizing execution history", {
+      cycles: cycles.length,
+      throughIteration: lastCycle.iteration,
+    });
+
+    await this.triggerHook(HookEvents.LlmCall, {
+      context,
+      callType: "summarize_history" as const,
+    });
+
+    try {
+      const sanitizedName = this.name.toLowerCase().replace(/[\s-]/g, "_");
+      const model = strategy.model ?? this.callModel;
+      const response = await this.llm.call<
+        {
+          goal: string;
+          previous_summary: string | null;
+          cycles: RenderedCycle[];
+        },
+        { summary: string }
+      >({
+        name: `summarize_history_${sanitizedName}`,
+        instructions: `Condense the agent's earlier work into a running summary.
+Merge previous_summary with the new cycles. Keep facts, intermediate results, identifiers and open questions the agent needs to finish the goal. Drop reasoning that no longer matters.`,
+        input: {
+          goal: this.serializeInput(context.goal as TInput),
+          previous_summary: context.historySummary?.text ?? null,
+          cycles: cycles.map((cycle) => renderCycle(cycle)),
+        },
+        outputSchema: HistorySummaryOutputSchema,
+        ...(model && { model }),
+        ...(context.parentSpanId && { parentSpanId: context.parentSpanId }),
+        ...(context.signal && { signal: context.signal }),
+      });
+
+      await this.recordUsage(context, this.name, {
+        requests: 1,
+        inputTokens: response.usage.inputTokens,
+        outputTokens: response.usage.outputTokens,
+        totalTokens: response.usage.totalTokens,
+        cost: response.usage.cost,
+      });
+
+      const { summary } = HistorySummaryOutputSchema.parse(
+        response.jsonPayload,
+      );
+      context.historySummary = {
+        text: summary,
+        throughIteration: lastCycle.iteration,
+      };
+
+      await this.triggerHook(HookEvents.LlmResponse, {
+        context,
+        callType: "summarize_history" as const,
+        response,
+      });
+    } catch (error) {
+      if (context.signal?.aborted) {
+        throw this.createAbortError(context, error);
+      }
+      this.logger.warn("History summarization failed, keeping full history", {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  /**
+   * Render earlier conversation turns for the LLM
+   */
+  private buildConversationHistory(
+    context: AgentContext,
+  ): ConversationHistoryEntry[] {
+    return context.conversation.map((turn) => ({
+      user: this.serializeInput(turn.input as TInput),
+      assistant:
+        typeof turn.output === "string"
+          ? turn.output
+          : JSON.stringify(turn.output),
+      tools_used: turn.actions.map((action) =>
+        action.success ? action.tool : `${action.tool} (failed)`,
+      ),
+    }));
+  }
+
   /**
    * Build dynamic context for the think step
    */
@@ -771,45 +1155,7 @@ The memory you write persists across all process() calls on this agent.`;
     });
 
     // Build execution history
-    const executionHistory = context.getLastNCycles(3).map((cycle) => {
-      // Extract reasoning from thought
-      const thought =
-        typeof cycle.thought === "object" && cycle.thought !== null
-          ? cycle.thought.reasoning || ""
-          : String(cycle.thought || "");
-
-      // Map results to summary format
-      const results = Array.isArray(cycle.results)
-        ? cycle.results.map((r) => {
-            const result = r as ToolExecutionSummary;
-
-            // Extract the actual output value - handle case where output might be a ToolResult object
-            let actualOutput = result.output;
-            if (result.success && isToolSuccessResult(actualOutput)) {
-              // Extract inner output when a full ToolResult is stored
-              actualOutput = actualOutput.output;
-            }
-
-            return {
-              tool: result.toolName,
-              success: result.success,
-              // Serialize result properly - use JSON for objects, String for primitives
-              result: result.success
-                ? typeof actualOutput === "object"
-                  ? JSON.stringify(actualOutput)
-                  : String(actualOutput)
-                : undefined,
-              error: !result.success ? result.error : undefined,
-            };
-          })
-        : [];
-
-      return {
-        iteration: cycle.iteration,
-        thought,
-        results,
-      };
-    });
+    const history = this.renderHistory(context, "think");
 
     // Build memory catalog if memory is enabled and has entries
     let memoryCatalog: unknown = null;
@@ -826,7 +1172,11 @@ The memory you write persists across all process() calls on this agent.`;
       agent_description: this.description || "",
       instructions: this.instructions || "No specific instructions.",
       available_tools: availableTools,
-      execution_history: executionHistory,
+      ...(context.conversation.length > 0 && {
+        conversation_history: this.buildConversationHistory(context),
+      }),
+      ...(history.summary !== null && { history_summary: history.summary }),
+      execution_history: history.cycles,
       current_iteration: context.iteration + 1,
       max_iterations: this.maxIterations,
       memory_catalog: memoryCatalog,
@@ -840,6 +1190,7 @@ The memory you write persists across all process() calls on this agent.`;
   private async executeToolCalls(
     decision: AgentDecision,
     context: AgentContext,
+    approvals: Map<string, ApprovalDecision>,
     parentSpanId?: string,
   ): Promise<ToolExecutionSummary[]> {
     if (decision.toolCalls.length === 0) {
@@ -848,20 +1199,46 @@ The memory you write persists across all process() calls on this agent.`;
 
     this.log(`Executing ${decision.toolCalls.length} tool call(s)`);
 
+    const execute = (toolCall: ToolCall) =>
+      this.withToolConcurrency(
+        toolCall.toolName,
+        () =>
+          this.executeSingleToolCall(
+            toolCall,
+            context,
+            approvals.get(toolCall.id),
+            parentSpanId,
+          ),
+        context.signal,
+      );
+
     if (this.parallelToolExecution && decision.toolCalls.length > 1) {
       this.log("Executing tool calls in parallel");
-      return Promise.all(
-        decision.toolCalls.map((toolCall) =>
-          this.executeSingleToolCall(toolCall, context, parentSpanId),
-        ),
-      );
+      const results: ToolExecutionSummary[] = [];
+      let inFlight: Array<Promise<void>> = [];
+
+      for (const [index, toolCall] of decision.toolCalls.entries()) {
+        if (this.tools.get(toolCall.toolName)?.parallelizable === false) {
+          // Non-parallelizable tools wait for earlier calls and run alone
+          await Promise.all(inFlight);
+          inFlight = [];
+          results[index] = await execute(toolCall);
+        } else {
+          inFlight.push(
+            execute(toolCall).then((summary) => {
+              results[index] = summary;
+            }),
+          );
+        }
+      }
+
+      await Promise.all(inFlight);
+      return results;
     }
 
     const results: ToolExecutionSummary[] = [];
     for (const toolCall of decision.toolCalls) {
-      results.push(
-        await this.executeSingleToolCall(toolCall, context, parentSpanId),
-      );
+      results.push(await execute(toolCall));
     }
     return results;
   }
@@ -872,6 +1249,7 @@ The memory you write persists across all process() calls on this agent.`;
   private async executeSingleToolCall(
     toolCall: ToolCall,
     context: AgentContext,
+    approval: ApprovalDecision | undefined,
     parentSpanId?: string,
   ): Promise<ToolExecutionSummary> {
     this.log(`Action: ${toolCall.toolName}`, {
@@ -886,7 +1264,7 @@ The memory you write persists across all process() calls on this agent.`;
     const spanType = isAgentTool ? "🤖 agent" : "🔧 tool";
 
     // Create span for this tool call
-    const toolSpan = await this.opperClient.createSpan({
+    const toolSpan = await this.tracer.createSpan({
       name: `tool_${toolCall.toolName}`,
       input: toolCall.arguments,
       type: spanType,
@@ -904,13 +1282,13 @@ The memory you write persists across all process() calls on this agent.`;
         toolCall.toolName,
         toolCall.arguments,
         context,
-        { spanId: toolSpan.id },
+        { spanId: toolSpan.id, ...(approval && { approval }) },
       );
 
       // Aggregate usage from nested agent tools
       // This propagates usage statistics from agent-as-tool executions
       if (result.usage) {
-        context.updateUsageWithSource(toolCall.toolName, result.usage);
+        await this.recordUsage(context, toolCall.toolName, result.usage);
       }
 
       // Record end time and calculate duration
@@ -924,7 +1302,10 @@ The memory you write persists across all process() calls on this agent.`;
           output: result.output,
           startTime,
           endTime,
-          meta: { durationMs },
+          meta: {
+            durationMs,
+            ...(result.metadata["cached"] === true && { cached: true }),
+          },
         });
       } else {
         this.queueSpanUpdate(context, {
@@ -939,10 +1320,22 @@ The memory you write persists across all process() calls on this agent.`;
         });
       }
 
+      // Prompts see the recorded output, already truncated or offloaded when oversized
+      const record = context.toolCalls.find(
+        (call) => call.id === result.metadata["toolCallId"],
+      );
       const summary: ToolExecutionSummary = {
         toolName: toolCall.toolName,
         success: result.success,
-        ...(result.success && { output: result.output }),
+        ...(result.success && {
+          output: record
+            ? record.output
+            : await this.limitToolOutput(
+                toolCall.toolName,
+                result.output,
+                context,
+              ),
+        }),
         ...(!result.success && {
           error:
             result.error instanceof Error
@@ -1036,7 +1429,7 @@ The memory you write persists across all process() calls on this agent.`;
         const keys = Array.from(keySet);
 
         if (keys.length > 0) {
-          const memoryReadSpan = await this.opperClient.createSpan({
+          const memoryReadSpan = await this.tracer.createSpan({
             name: "memory_read",
             input: keys,
             type: "🧠 memory",
@@ -1105,7 +1498,7 @@ The memory you write persists across all process() calls on this agent.`;
     if (hasWrites) {
       const startTime = new Date();
       try {
-        const memoryWriteSpan = await this.opperClient.createSpan({
+        const memoryWriteSpan = await this.tracer.createSpan({
           name: "memory_write",
           input: updateEntries.map(([key]) => key),
           type: "🧠 memory",
@@ -1188,46 +1581,36 @@ The memory you write persists across all process() calls on this agent.`;
   ): Promise<TOutput> {
     this.log("Generating final result", { totalIterations: context.iteration });
 
+    await this.compactHistory(context);
+    const history = this.renderHistory(context, "final_result");
+
     // Build context for final result generation
     const finalContext = {
       goal: this.serializeInput(input),
       instructions: this.instructions || "No specific instructions.",
-      execution_history: context.executionHistory.map((cycle) => {
-        const results = Array.isArray(cycle.results) ? cycle.results : [];
-        return {
-          iteration: cycle.iteration,
-          actions_taken: results.map(
-            (r) => (r as ToolExecutionSummary).toolName,
-          ),
-          results: results
-            .filter((r) => (r as ToolExecutionSummary).success)
-            .map((r) => {
-              const result = r as ToolExecutionSummary;
-
-              // Extract the actual output value - handle case where output might be a ToolResult object
-              let actualOutput = result.output;
-              if (isToolSuccessResult(actualOutput)) {
-                // Extract inner output when a full ToolResult is stored
-                actualOutput = actualOutput.output;
-              }
-
-              return {
-                tool: result.toolName,
-                // Serialize result properly - use JSON for objects, String for primitives
-                result:
-                  typeof actualOutput === "object"
-                    ? JSON.stringify(actualOutput)
-                    : String(actualOutput),
-              };
-            }),
-        };
+      ...(context.conversation.length > 0 && {
+        conversation_history: this.buildConversationHistory(context),
       }),
+      ...(history.summary !== null && { history_summary: history.summary }),
+      execution_history: history.cycles,
       total_iterations: context.iteration,
+      ...(context.stopReason &&
+        context.stopReason !== "completed" && {
+          stop_reason: context.stopReason,
+        }),
     };
 
-    const instructions = `Generate the final result based on the execution history.
+    let instructions = `Generate the final result based on the execution history.
 Follow any instructions provided for formatting and style.`;
 
+    // Runs stopped early get a best-effort answer that is explicit about gaps
+    if (finalContext.stop_reason) {
+      instructions += `
+
+The agent stopped before completing the task (stop_reason: ${finalContext.stop_reason}).
+Produce the best possible result from the work done so far and state what remains incomplete.`;
+    }
+
     if (this.enableStreaming) {
       return this.generateFinalResultStreaming(
         context,
@@ -1246,31 +1629,35 @@ Follow any instructions provided for formatting and style.`;
         name: string;
         instructions: string;
         input: typeof finalContext;
-        model: string | readonly string[];
+        model?: string | readonly string[];
         parentSpanId?: string;
+        signal?: AbortSignal;
         outputSchema?: z.ZodType<TOutput>;
       } = {
         name: functionName,
         instructions,
         input: finalContext,
-        model: this.model,
+        ...(this.callModel && { model: this.callModel }),
       };
 
       if (context.parentSpanId) {
         callOptions.parentSpanId = context.parentSpanId;
       }
 
+      if (context.signal) {
+        callOptions.signal = context.signal;
+      }
+
       if (this.outputSchema) {
         callOptions.outputSchema = this.outputSchema;
       }
 
-      const response = await this.opperClient.call<
-        typeof finalContext,
-        TOutput
-      >(callOptions);
+      const response = await this.llm.call<typeof finalContext, TOutput>(
+        callOptions,
+      );
 
       // Update usage with source tracking (will be cleaned up if no nested agents)
-      context.updateUsageWithSource(this.name, {
+      await this.recordUsage(context, this.name, {
         requests: 1,
         inputTokens: response.usage.inputTokens,
         outputTokens: response.usage.outputTokens,
@@ -1290,6 +1677,9 @@ Follow any instructions provided for formatting and style.`;
       this.log("Final result generated");
       return response.message as TOutput;
     } catch (error) {
+      if (context.signal?.aborted) {
+        throw this.createAbortError(context, error);
+      }
       this.logger.error("Failed to generate final result", error);
       throw new Error(
         `Failed to generate final result: ${error instanceof Error ? error.message : String(error)}`,
@@ -1302,15 +1692,11 @@ Follow any instructions provided for formatting and style.`;
     finalContext: {
       goal: string;
       instructions: string;
-      execution_history: Array<{
-        iteration: number;
-        actions_taken: string[];
-        results: Array<{
-          tool: string;
-          result: string;
-        }>;
-      }>;
+      conversation_history?: ConversationHistoryEntry[];
+      history_summary?: string;
+      execution_history: RenderedCycle[];
       total_iterations: number;
+      stop_reason?: StopReason;
     },
     instructions: string,
   ): Promise<TOutput> {
@@ -1329,17 +1715,17 @@ Follow any instructions provided for formatting and style.`;
       const sanitizedName = this.name.toLowerCase().replace(/[\s-]/g, "_");
       const functionName = `generate_final_result_${sanitizedName}`;
 
-      const streamResponse = await this.opperClient.stream<
-        typeof finalContext,
-        TOutput
-      >({
-        name: functionName,
-        instructions,
-        input: finalContext,
-        model: this.model,
-        ...(context.parentSpanId && { parentSpanId: context.parentSpanId }),
-        ...(this.outputSchema && { outputSchema: this.outputSchema }),
-      });
+      const streamResponse = await this.streamLlm<typeof finalContext, TOutput>(
+        {
+          name: functionName,
+          instructions,
+          input: finalContext,
+          ...(this.callModel && { model: this.callModel }),
+          ...(context.parentSpanId && { parentSpanId: context.parentSpanId }),
+          ...(context.signal && { signal: context.signal }),
+          ...(this.outputSchema && { outputSchema: this.outputSchema }),
+        },
+      );
 
       for await (const event of streamResponse.result) {
         const data = event?.data;
@@ -1411,7 +1797,7 @@ Follow any instructions provided for formatting and style.`;
         streamSpanId,
       );
       if (!usageTracked) {
-        context.updateUsageWithSource(this.name, {
+        await this.recordUsage(context, this.name, {
           requests: 1,
           inputTokens: 0,
           outputTokens: 0,
@@ -1440,6 +1826,9 @@ Follow any instructions provided for formatting and style.`;
         callType: "final_result" as const,
         error,
       });
+      if (context.signal?.aborted) {
+        throw this.createAbortError(context, error);
+      }
       this.logger.error("Failed to generate final result", error);
       throw new Error(
         `Failed to generate final result: ${error instanceof Error ? error.message : String(error)}`,
@@ -1451,61 +1840,17 @@ Follow any instructions provided for formatting and style.`;
     context: AgentContext,
     spanId?: string,
   ): Promise<boolean> {
-    if (!spanId) {
+    if (!spanId || !this.llm.getStreamUsage) {
       return false;
     }
 
     try {
-      const span = await this.opperClient.getClient().spans.get(spanId);
-      const traceId =
-        (span as { traceId?: string | null })?.traceId ??
-        (span as { trace_id?: string | null })?.trace_id;
-      if (!traceId) {
+      const usage = await this.llm.getStreamUsage(spanId);
+      if (!usage) {
         return false;
       }
-
-      const trace = await this.opperClient.getClient().traces.get(traceId);
-      const spans = (trace as { spans?: Array<Record<string, unknown>> | null })
-        ?.spans;
-      if (!Array.isArray(spans)) {
-        return false;
-      }
-
-      for (const entry of spans) {
-        const entryId =
-          (entry as { id?: string | null })?.id ??
-          ((entry as Record<string, unknown>)["id"] as string | undefined);
-        if (entryId !== spanId) {
-          continue;
-        }
-
-        const data = (entry as { data?: Record<string, unknown> | null })?.data;
-        if (!data) {
-          continue;
-        }
-
-        const record = data as Record<string, unknown>;
-        const primaryTotal = record["totalTokens"];
-        const fallbackTotal = record["total_tokens"];
-        const totalTokensRaw =
-          typeof primaryTotal === "number" && Number.isFinite(primaryTotal)
-            ? primaryTotal
-            : typeof fallbackTotal === "number" &&
-                Number.isFinite(fallbackTotal)
-              ? fallbackTotal
-              : undefined;
-
-        if (totalTokensRaw !== undefined) {
-          context.updateUsageWithSource(this.name, {
-            requests: 1,
-            inputTokens: 0,
-            outputTokens: 0,
-            totalTokens: totalTokensRaw,
-            cost: { generation: 0, platform: 0, total: 0 },
-          });
-          return true;
-        }
-      }
+      await this.recordUsage(context, this.name, { requests: 1, ...usage });
+      return true;
     } catch (error) {
       this.logger.warn("Could not fetch streaming usage", {
         spanId,
@@ -0,0 +1,252 @@
+import type { ExecutionCycle, HistorySummary } from "../base/context";
+import type { ToolSuccess } from "../base/tool";
+import { CHARS_PER_TOKEN, estimateTokens, truncateText } from "../utils/tokens";
+
+/**
+ * Number of recent cycles shown to the think step when no strategy is configured
+ */
+export const DEFAULT_HISTORY_WINDOW_CYCLES = 3;
+
+/**
+ * Number of recent cycles kept verbatim by the `summarize` strategy by default
+ */
+export const DEFAULT_SUMMARIZE_KEEP_RECENT = 3;
+
+/**
+ * How execution history is compacted before it is sent to the LLM.
+ *
+ * - `full`: every cycle, unmodified
+ * - `window`: only the most recent `cycles` cycles
+ * - `token_budget`: the most recent cycles that fit in `maxTokens`, with
+ *   individual tool results truncated to `maxResultTokens`. The newest cycle is
+ *   always kept, truncated to fit when it is larger than the budget
+ * - `summarize`: older cycles are folded by the LLM into a running summary
+ *   stored on the context; the most recent `keepRecent` cycles stay verbatim
+ */
+export type HistoryStrategy =
+  | { type: "full" }
+  | { type: "window"; cycles: number }
+  | { type: "token_budget"; maxTokens: number; maxResultTokens?: number }
+  | { type: "summarize"; keepRecent?: number; model?: string };
+
+/**
+ * Tool result as presented to the LLM
+ */
+export interface RenderedToolResult {
+  tool: string;
+  success: boolean;
+  result?: string;
+  error?: string;
+}
+
+/**
+ * Execution cycle as presented to the LLM
+ */
+export interface RenderedCycle {
+  iteration: number;
+  thought: string;
+  actions_taken: string[];
+  results: RenderedToolResult[];
+}
+
+/**
+ * Execution history after compaction
+ */
+export interface RenderedHistory {
+  /**
+   * Cycles shown verbatim, oldest first
+   */
+  cycles: RenderedCycle[];
+
+  /**
+   * Running summary of compacted cycles (summarize strategy only)
+   */
+  summary: string | null;
+
+  /**
+   * Number of cycles left out of `cycles` (covered by the summary, if any)
+   */
+  omittedCycles: number;
+}
+
+const isToolSuccessResult = (value: unknown): value is ToolSuccess<unknown> => {
+  if (typeof value !== "object" || value === null) {
+    return false;
+  }
+
+  const candidate = value as Partial<ToolSuccess<unknown>>;
+  return (
+    candidate.success === true &&
+    typeof candidate.toolName === "string" &&
+    "output" in candidate
+  );
+};
+
+const stringifyOutput = (output: unknown): string =>
+  typeof output === "object" ? JSON.stringify(output) : String(output);
+
+const truncate = (text: string, maxTokens: number): string =>
+  truncateText(text, maxTokens * CHARS_PER_TOKEN);
+
+/**
+ * Render a single execution cycle for an LLM prompt
+ *
+ * @param cycle - Cycle recorded on the agent context
+ * @param maxResultTokens - Optional cap applied to each tool result and error
+ * @returns Prompt-ready cycle
+ */
+export function renderCycle(
+  cycle: ExecutionCycle,
+  maxResultTokens?: number,
+): RenderedCycle {
+  const limit = (text: string) =>
+    maxResultTokens === undefined ? text : truncate(text, maxResultTokens);
+
+  const thought =
+    typeof cycle.thought === "object" && cycle.thought !== null
+      ? cycle.thought.reasoning || ""
+      : String(cycle.thought || "");
+
+  const results = (Array.isArray(cycle.results) ? cycle.results : []).map(
+    (entry) => {
+      const summary = entry as {
+        toolName: string;
+        success: boolean;
+        output?: unknown;
+        error?: string;
+      };
+
+      // Extract inner output when a full ToolResult is stored
+      const output = isToolSuccessResult(summary.output)
+        ? summary.output.output
+        : summary.output;
+
+      return {
+        tool: summary.toolName,
+        success: summary.success,
+        ...(summary.success
+          ? { result: limit(stringifyOutput(output)) }
+          : { error: limit(String(summary.error ?? "Unknown error")) }),
+      };
+    },
+  );
+
+  return {
+    iteration: cycle.iteration,
+    thought,
+    actions_taken: results.map((result) => result.tool),
+    results,
+  };
+}
+
+/**
+ * Render a cycle squeezed into a token budget, sharing it between the thought
+ * and each tool result
+ */
+const renderCycleWithin = (
+  cycle: ExecutionCycle,
+  maxTokens: number,
+  maxResultTokens?: number,
+): RenderedCycle => {
+  const parts = (Array.isArray(cycle.results) ? cycle.results.length : 0) + 1;
+  const share = Math.max(1, Math.floor(maxTokens / parts));
+  const rendered = renderCycle(
+    cycle,
+    Math.min(share, maxResultTokens ?? share),
+  );
+  return { ...rendered, thought: truncate(rendered.thought, share) };
+};
+
+/**
+ * Cycles that the `summarize` strategy should fold into the running summary:
+ * everything not yet summarized except the most recent `keepRecent` cycles.
+ *
+ * @param cycles - Full execution history
+ * @param strategy - Summarize strategy
+ * @param summary - Current running summary, if any
+ * @returns Cycles to compact, oldest first (empty when nothing is due)
+ */
+export function getCyclesToSummarize(
+  cycles: ExecutionCycle[],
+  strategy: Extract<HistoryStrategy, { type: "summarize" }>,
+  summary: HistorySummary | null,
+): ExecutionCycle[] {
+  const keepRecent = strategy.keepRecent ?? DEFAULT_SUMMARIZE_KEEP_RECENT;
+  const unsummarized = cycles.filter(
+    (cycle) => !summary || cycle.iteration > summary.throughIteration,
+  );
+  return unsummarized.slice(0, Math.max(0, unsummarized.length - keepRecent));
+}
+
+/**
+ * Compact execution history according to a strategy.
+ * Shared by the think and final-result prompts.
+ *
+ * @param cycles - Full execution history, oldest first
+ * @param strategy - Compaction strategy
+ * @param summary - Running summary stored on the context (summarize strategy)
+ * @returns Rendered history
+ */
+export function renderExecutionHistory(
+  cycles: ExecutionCycle[],
+  strategy: HistoryStrategy,
+  summary: HistorySummary | null = null,
+): RenderedHistory {
+  switch (strategy.type) {
+    case "full":
+      return {
+        cycles: cycles.map((cycle) => renderCycle(cycle)),
+        summary: null,
+        omittedCycles: 0,
+      };
+
+    case "window": {
+      const kept = strategy.cycles > 0 ? cycles.slice(-strategy.cycles) : [];
+      return {
+        cycles: kept.map((cycle) => renderCycle(cycle)),
+        summary: null,
+        omittedCycles: cycles.length - kept.length,
+      };
+    }
+
+    case "token_budget": {
+      // Walk backwards from the newest cycle until the budget is spent
+      const rendered: RenderedCycle[] = [];
+      let used = 0;
+      for (let index = cycles.length - 1; index >= 0; index -= 1) {
+        const cycle = renderCycle(cycles[index]!, strategy.maxResultTokens);
+        const cost = estimateTokens(cycle);
+        if (used + cost > strategy.maxTokens) {
+          // The newest cycle always stays, so the model sees the results of its last tool calls
+          if (rendered.length === 0) {
+            rendered.push(
+              renderCycleWithin(
+                cycles[index]!,
+                strategy.maxTokens,
+                strategy.maxResultTokens,
+              ),
+            );
+          }
+          break;
+        }
+        rendered.unshift(cycle);
+        used += cost;
+      }
+      return {
+        cycles: rendered,
+        summary: null,
+        omittedCycles: cycles.length - rendered.length,
+      };
+    }
+
+    case "summarize": {
+      const throughIteration = summary?.throughIteration ?? 0;
+      const kept = cycles.filter((cycle) => cycle.iteration > throughIteration);
+      return {
+        cycles: kept.map((cycle) => renderCycle(cycle)),
+        summary: summary?.text ?? null,
+        omittedCycles: cycles.length - kept.length,
+      };
+    }
+  }
+}
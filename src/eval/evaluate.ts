@@ -0,0 +1,318 @@
+import { promises as fs } from "node:fs";
+import path from "node:path";
+
+import type { EvalCase, ScoreResult, Scorer } from "./scorers";
+import type { BaseAgent } from "../base/agent";
+import {
+  addUsage,
+  createEmptyUsage,
+  type StopReason,
+  type Usage,
+} from "../base/context";
+import { isAgentAbortedError, isBudgetExceededError } from "../base/errors";
+import type { AgentRunResult } from "../base/run-result";
+
+/**
+ * Default number of cases run at the same time
+ */
+export const DEFAULT_EVAL_CONCURRENCY = 4;
+
+export interface EvaluateOptions {
+  /**
+   * Maximum number of cases run at the same time (default: 4)
+   */
+  concurrency?: number;
+
+  /**
+   * Write the report to these paths once every case has finished
+   */
+  report?: {
+    json?: string;
+    markdown?: string;
+  };
+
+  /**
+   * Abort signal forwarded to every run; cases not started yet are skipped
+   */
+  signal?: AbortSignal;
+
+  /**
+   * Called after each case finishes, in completion order
+   */
+  onCaseComplete?: (result: EvalCaseResult) => void;
+}
+
+/**
+ * Score a single scorer gave a case
+ */
+export interface EvalScore extends ScoreResult {
+  passed: boolean;
+}
+
+/**
+ * Outcome of one dataset case
+ */
+export interface EvalCaseResult {
+  id: string;
+  input: unknown;
+  expected?: unknown;
+  output?: unknown;
+  /**
+   * Error message when the run (not a scorer) failed
+   */
+  error: string | null;
+  passed: boolean;
+  scores: Record<string, EvalScore>;
+  usage: Usage;
+  iterations: number;
+  stopReason: StopReason | null;
+  toolCalls: string[];
+  durationMs: number;
+}
+
+/**
+ * Aggregated evaluation results
+ */
+export interface EvalReport {
+  agentName: string;
+  startedAt: number;
+  finishedAt: number;
+  summary: {
+    total: number;
+    passed: number;
+    failed: number;
+    errored: number;
+    /**
+     * Mean score per scorer over all cases (errored cases count as 0)
+     */
+    averageScores: Record<string, number>;
+    usage: Usage;
+  };
+  cases: EvalCaseResult[];
+}
+
+const normalizeScore = (value: ScoreResult | number | boolean): ScoreResult =>
+  typeof value === "boolean"
+    ? { score: value ? 1 : 0 }
+    : typeof value === "number"
+      ? { score: value }
+      : value;
+
+const errorMessage = (error: unknown): string =>
+  error instanceof Error ? error.message : String(error);
+
+/**
+ * Run an agent over a dataset and score every output.
+ *
+ * Cases run with bounded concurrency; a failing run or scorer marks its case
+ * as failed without stopping the evaluation.
+ *
+ * @param agent - Agent under evaluation
+ * @param dataset - Cases to run
+ * @param scorers - Scorers applied to each successful run
+ * @param options - Concurrency, report paths and abort signal
+ * @returns Evaluation report with cases in dataset order
+ */
+export async function evaluate<TInput, TOutput, TExpected = unknown>(
+  agent: BaseAgent<TInput, TOutput>,
+  dataset: ReadonlyArray<EvalCase<TInput, TExpected>>,
+  scorers: ReadonlyArray<Scorer<TInput, TOutput, TExpected>>,
+  options: EvaluateOptions = {},
+): Promise<EvalReport> {
+  const startedAt = Date.now();
+  const concurrency = Math.max(
+    1,
+    options.concurrency ?? DEFAULT_EVAL_CONCURRENCY,
+  );
+  const results: EvalCaseResult[] = new Array<EvalCaseResult>(dataset.length);
+
+  const runCase = async (
+    evalCase: EvalCase<TInput, TExpected>,
+    index: number,
+  ): Promise<EvalCaseResult> => {
+    const caseStartedAt = Date.now();
+    const base = {
+      id: evalCase.id ?? String(index),
+      input: evalCase.input,
+      ...(evalCase.expected !== undefined && { expected: evalCase.expected }),
+    };
+
+    let run: AgentRunResult<TOutput>;
+    try {
+      run = await agent.runDetailed(
+        evalCase.input,
+        options.signal ? { signal: options.signal } : undefined,
+      );
+    } catch (error) {
+      return {
+        ...base,
+        error: errorMessage(error),
+        passed: false,
+        scores: Object.fromEntries(
+          scorers.map((scorer) => [
+            scorer.name,
+            { score: 0, passed: false, reason: "Run failed" },
+          ]),
+        ),
+        // Cancelled and over-budget runs still report what they spent
+        usage:
+          isAgentAbortedError(error) || isBudgetExceededError(error)
+            ? error.usage
+            : createEmptyUsage(),
+        iterations: 0,
+        stopReason: null,
+        toolCalls: [],
+        durationMs: Date.now() - caseStartedAt,
+      };
+    }
+
+    const scores: Record<string, EvalScore> = {};
+    for (const scorer of scorers) {
+      try {
+        const result = normalizeScore(
+          await scorer.score({ evalCase, output: run.result, run }),
+        );
+        scores[scorer.name] = {
+          ...result,
+          passed: result.score >= (scorer.threshold ?? 1),
+        };
+      } catch (error) {
+        scores[scorer.name] = {
+          score: 0,
+          passed: false,
+          reason: `Scorer failed: ${errorMessage(error)}`,
+        };
+      }
+    }
+
+    return {
+      ...base,
+      output: run.result,
+      error: null,
+      passed: Object.values(scores).every((score) => score.passed),
+      scores,
+      usage: run.usage,
+      iterations: run.iterations.length,
+      stopReason: run.stopReason,
+      toolCalls: run.toolCalls.map((call) => call.toolName),
+      durationMs: Date.now() - caseStartedAt,
+    };
+  };
+
+  // Workers pull the next case index until the dataset is exhausted
+  let next = 0;
+  const worker = async (): Promise<void> => {
+    while (next < dataset.length && !options.signal?.aborted) {
+      const index = next++;
+      const result = await runCase(dataset[index]!, index);
+      results[index] = result;
+      options.onCaseComplete?.(result);
+    }
+  };
+  await Promise.all(
+    Array.from({ length: Math.min(concurrency, dataset.length) }, worker),
+  );
+
+  const cases = results.filter((result) => result !== undefined);
+  const averageScores = Object.fromEntries(
+    scorers.map((scorer) => [
+      scorer.name,
+      cases.length === 0
+        ? 0
+        : cases.reduce(
+            (total, result) => total + (result.scores[scorer.name]?.score ?? 0),
+            0,
+          ) / cases.length,
+    ]),
+  );
+
+  const report: EvalReport = {
+    agentName: agent.name,
+    startedAt,
+    finishedAt: Date.now(),
+    summary: {
+      total: cases.length,
+      passed: cases.filter((result) => result.passed).length,
+      failed: cases.filter((result) => !result.passed).length,
+      errored: cases.filter((result) => result.error !== null).length,
+      averageScores,
+      usage: cases.reduce(
+        (total, result) => addUsage(total, result.usage),
+        createEmptyUsage(),
+      ),
+    },
+    cases,
+  };
+
+  if (options.report?.json) {
+    await writeReportFile(
+      options.report.json,
+      `${JSON.stringify(report, null, 2)}\n`,
+    );
+  }
+  if (options.report?.markdown) {
+    await writeReportFile(options.report.markdown, renderEvalReport(report));
+  }
+
+  return report;
+}
+
+const writeReportFile = async (
+  filePath: string,
+  contents: string,
+): Promise<void> => {
+  await fs.mkdir(path.dirname(path.resolve(filePath)), { recursive: true });
+  await fs.writeFile(filePath, contents, "utf8");
+};
+
+const escapeCell = (value: unknown): string => {
+  const text =
+    typeof value === "string" ? value : (JSON.stringify(value) ?? "");
+  const singleLine = text.replace(/\s+/g, " ").replace(/\|/g, "\\|");
+  return singleLine.length > 80 ? `${singleLine.slice(0, 77)}...` : singleLine;
+};
+
+/**
+ * Render an evaluation report as Markdown
+ *
+ * @param report - Report returned by {@link evaluate}
+ * @returns Markdown document with a summary and one row per case
+ */
+export function renderEvalReport(report: EvalReport): string {
+  const scorerNames = Object.keys(report.summary.averageScores);
+  const { summary } = report;
+
+  const lines = [
+    `# Evaluation: ${report.agentName}`,
+    "",
+    `- Cases: ${summary.total} (${summary.passed} passed, ${summary.failed} failed, ${summary.errored} errored)`,
+    `- Duration: ${report.finishedAt - report.startedAt}ms`,
+    `- Usage: ${summary.usage.requests} requests, ${summary.usage.totalTokens} tokens, $${summary.usage.cost.total.toFixed(4)}`,
+    "",
+    "| Scorer | Average |",
+    "| --- | --- |",
+    ...scorerNames.map(
+      (name) =>
+        `| ${name} | ${(summary.averageScores[name] ?? 0).toFixed(2)} |`,
+    ),
+    "",
+    `| Case | Passed | ${scorerNames.join(" | ")} | Iterations | Tokens | Error |`,
+    `| --- | --- | ${scorerNames.map(() => "---").join(" | ")} | --- | --- | --- |`,
+    ...report.cases.map((result) => {
+      const cells = [
+        escapeCell(result.id),
+        result.passed ? "yes" : "no",
+        ...scorerNames.map((name) =>
+          (result.scores[name]?.score ?? 0).toFixed(2),
+        ),
+        String(result.iterations),
+        String(result.usage.totalTokens),
+        result.error ? escapeCell(result.error) : "",
+      ];
+      return `| ${cells.join(" | ")} |`;
+    }),
+    "",
+  ];
+
+  return lines.join("\n");
+}
@@ -0,0 +1,223 @@
+import { z, type ZodType } from "zod";
+
+import type { AgentRunResult } from "../base/run-result";
+import type { MaybePromise } from "../base/tool";
+import type { LlmProvider } from "../llm/provider";
+import { OpperClient } from "../opper/client";
+
+/**
+ * One entry of an evaluation dataset
+ */
+export interface EvalCase<TInput, TExpected = unknown> {
+  /**
+   * Stable identifier used in reports (defaults to the case index)
+   */
+  id?: string;
+  input: TInput;
+  expected?: TExpected;
+  metadata?: Record<string, unknown>;
+}
+
+/**
+ * Everything a scorer can look at for one completed case
+ */
+export interface ScorerInput<TInput, TOutput, TExpected = unknown> {
+  evalCase: EvalCase<TInput, TExpected>;
+  output: TOutput;
+  run: AgentRunResult<TOutput>;
+}
+
+/**
+ * Score between 0 and 1 with an optional explanation
+ */
+export interface ScoreResult {
+  score: number;
+  reason?: string;
+}
+
+/**
+ * Scores the output of a case. Returning a boolean maps to 1 or 0.
+ */
+export interface Scorer<
+  TInput = unknown,
+  TOutput = unknown,
+  TExpected = unknown,
+> {
+  name: string;
+
+  /**
+   * Minimum score for the case to pass this scorer (default: 1)
+   */
+  threshold?: number;
+
+  score(
+    input: ScorerInput<TInput, TOutput, TExpected>,
+  ): MaybePromise<ScoreResult | number | boolean>;
+}
+
+/**
+ * Recursively sort object keys so structurally equal values compare equal
+ */
+const canonicalJson = (value: unknown): string =>
+  JSON.stringify(value, (_key, entry: unknown) =>
+    typeof entry === "object" && entry !== null && !Array.isArray(entry)
+      ? Object.fromEntries(
+          Object.entries(entry as Record<string, unknown>).sort(([a], [b]) =>
+            a < b ? -1 : a > b ? 1 : 0,
+          ),
+        )
+      : entry,
+  ) ?? "undefined";
+
+/**
+ * Output equals `expected`. Strings are trimmed (and optionally case-folded);
+ * other values are compared structurally.
+ */
+export function exactMatch(
+  options: { caseSensitive?: boolean; trim?: boolean } = {},
+): Scorer {
+  const caseSensitive = options.caseSensitive ?? true;
+  const trim = options.trim ?? true;
+  const normalize = (value: unknown): unknown => {
+    if (typeof value !== "string") {
+      return value;
+    }
+    const trimmed = trim ? value.trim() : value;
+    return caseSensitive ? trimmed : trimmed.toLowerCase();
+  };
+
+  return {
+    name: "exact_match",
+    score: ({ evalCase, output }) => {
+      const matches =
+        canonicalJson(normalize(output)) ===
+        canonicalJson(normalize(evalCase.expected));
+      return matches
+        ? { score: 1 }
+        : { score: 0, reason: `Expected ${canonicalJson(evalCase.expected)}` };
+    },
+  };
+}
+
+/**
+ * Output parses with a Zod schema
+ */
+export function schemaValid(schema: ZodType): Scorer {
+  return {
+    name: "schema_valid",
+    score: ({ output }) => {
+      const parsed = schema.safeParse(output);
+      return parsed.success
+        ? { score: 1 }
+        : {
+            score: 0,
+            reason: parsed.error.issues
+              .map(
+                (issue) =>
+                  `${issue.path.join(".") || "(root)"}: ${issue.message}`,
+              )
+              .join("; "),
+          };
+    },
+  };
+}
+
+/**
+ * A tool was called during the run, based on the run's tool call records
+ */
+export function toolCalled(
+  toolName: string,
+  options: { minTimes?: number; requireSuccess?: boolean } = {},
+): Scorer {
+  const minTimes = options.minTimes ?? 1;
+
+  return {
+    name: `tool_called:${toolName}`,
+    score: ({ run }) => {
+      const calls = run.toolCalls.filter(
+        (call) =>
+          call.toolName === toolName &&
+          (!options.requireSuccess || call.success === true),
+      );
+      return calls.length >= minTimes
+        ? { score: 1 }
+        : {
+            score: 0,
+            reason: `"${toolName}" called ${calls.length} time(s), expected at least ${minTimes}`,
+          };
+    },
+  };
+}
+
+/**
+ * Options for {@link llmJudge}
+ */
+export interface LlmJudgeOptions {
+  /**
+   * What a good answer looks like
+   */
+  criteria: string;
+
+  /**
+   * Scorer name in reports (default: "llm_judge")
+   */
+  name?: string;
+
+  /**
+   * Minimum judge score for the case to pass (default: 0.7)
+   */
+  threshold?: number;
+
+  /**
+   * Model used by the judge
+   */
+  model?: string | readonly string[];
+
+  /**
+   * Client used for judge calls (default: a new {@link OpperClient})
+   */
+  client?: LlmProvider;
+}
+
+const JudgeVerdictSchema = z.object({
+  reasoning: z.string().describe("Short justification of the score"),
+  score: z
+    .number()
+    .min(0)
+    .max(1)
+    .describe("How well the output meets the criteria, from 0 to 1"),
+});
+
+/**
+ * Ask a model to grade the output against natural-language criteria
+ */
+export function llmJudge(options: LlmJudgeOptions): Scorer {
+  const name = options.name ?? "llm_judge";
+  let client = options.client;
+
+  return {
+    name,
+    threshold: options.threshold ?? 0.7,
+    score: async ({ evalCase, output }) => {
+      client ??= new OpperClient();
+      const response = await client.call({
+        name: name.replace(/[^a-zA-Z0-9_-]/g, "_"),
+        instructions: `Grade the agent output against the criteria.
+Use the expected output, when given, as a reference answer. Return a score between 0 (fails the criteria) and 1 (fully meets them).`,
+        input: {
+          criteria: options.criteria,
+          input: evalCase.input,
+          output,
+          ...(evalCase.expected !== undefined && {
+            expected: evalCase.expected,
+          }),
+        },
+        outputSchema: JudgeVerdictSchema,
+        ...(options.model && { model: options.model }),
+      });
+
+      const verdict = JudgeVerdictSchema.parse(response.jsonPayload);
+      return { score: verdict.score, reason: verdict.reasoning };
+    },
+  };
+}
@@ -1,17 +1,38 @@
+export * from "./artifacts/artifacts";
 export * from "./base/agent";
+export * from "./base/approval";
+export * from "./base/budget";
 export * from "./base/context";
+export * from "./base/errors";
 export * from "./base/events";
 export * from "./base/hooks";
 export * from "./base/result";
+export * from "./base/run-result";
+export * from "./base/session";
 export * from "./base/tool";
 export * from "./base/visualization";
+export * from "./cache/tool-cache";
+export * from "./checkpoint/checkpoint";
 export * from "./core/agent";
+export * from "./core/history";
 export * from "./core/schemas";
+export * from "./eval/evaluate";
+export * from "./eval/scorers";
+export * from "./llm/openai-compatible";
+export * from "./llm/provider";
 export * from "./memory/memory";
 export * from "./mcp/client";
 export * from "./mcp/config";
 export * from "./mcp/provider";
+export * from "./mcp/result";
+export * from "./mcp/server";
+export * from "./openapi/provider";
+export * from "./openapi/spec";
+export * from "./opper/cassette";
 export * from "./opper/client";
+export * from "./toolkits/filesystem";
+export * from "./toolkits/http";
+export * from "./toolkits/shell";
 export * from "./utils/logger";
 export * from "./utils/schema-utils";
 export * from "./utils/streaming";
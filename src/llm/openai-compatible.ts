@@ -0,0 +1,169 @@
+import type { ZodTypeAny } from "zod";
+
+import type { LlmCallOptions, LlmCallResponse, LlmProvider } from "./provider";
+import { zodSchemaToJsonSchema } from "../utils/schema-utils";
+
+/**
+ * Options for {@link OpenAICompatibleProvider}
+ */
+export interface OpenAICompatibleProviderOptions {
+  /**
+   * Base URL of the API, including the version prefix.
+   * Example: "http://127.0.0.1:8080/v1" for a local llama.cpp or vLLM server
+   */
+  baseUrl: string;
+
+  /**
+   * API key sent as a bearer token (optional for local servers)
+   */
+  apiKey?: string;
+
+  /**
+   * Model used when a call does not name one
+   */
+  model?: string;
+
+  /**
+   * Additional HTTP headers sent with every request
+   */
+  headers?: Record<string, string>;
+
+  /**
+   * Sampling temperature forwarded to the server
+   */
+  temperature?: number;
+
+  /**
+   * Custom fetch implementation (defaults to the global fetch)
+   */
+  fetch?: typeof fetch;
+}
+
+interface ChatCompletionResponse {
+  choices?: Array<{ message?: { content?: string | null } }>;
+  usage?: { prompt_tokens?: number; completion_tokens?: number };
+}
+
+const isZodSchema = (value: unknown): value is ZodTypeAny =>
+  typeof value === "object" &&
+  value !== null &&
+  "_def" in (value as Record<string, unknown>) &&
+  typeof (value as { parse?: unknown }).parse === "function";
+
+const toJsonSchema = (
+  schema: LlmCallOptions["outputSchema"],
+): Record<string, unknown> | undefined => {
+  if (!schema) {
+    return undefined;
+  }
+  return isZodSchema(schema)
+    ? zodSchemaToJsonSchema(schema)
+    : (schema as Record<string, unknown>);
+};
+
+const serializeInput = (input: unknown): string =>
+  typeof input === "string" ? input : JSON.stringify(input ?? null);
+
+/**
+ * Models wrap JSON in markdown fences now and then, even in JSON mode
+ */
+const parseJsonContent = (content: string): unknown => {
+  const fenced = /^```(?:json)?\s*([\s\S]*?)\s*```$/.exec(content.trim());
+  return JSON.parse(fenced?.[1] ?? content);
+};
+
+/**
+ * {@link LlmProvider} for servers that implement the OpenAI chat completions API
+ * (OpenAI, llama.cpp, vLLM, Ollama and similar).
+ *
+ * Structured output is requested with a `json_schema` response format built from
+ * the call's output schema. Calls are not traced and report no cost.
+ */
+export class OpenAICompatibleProvider implements LlmProvider {
+  private readonly baseUrl: string;
+  private readonly options: OpenAICompatibleProviderOptions;
+
+  constructor(options: OpenAICompatibleProviderOptions) {
+    this.baseUrl = options.baseUrl.replace(/\/+$/, "");
+    this.options = options;
+  }
+
+  public async call<TInput = unknown, TOutput = unknown>(
+    options: LlmCallOptions<TInput, TOutput>,
+  ): Promise<LlmCallResponse<TOutput>> {
+    const model =
+      (typeof options.model === "string"
+        ? options.model
+        : options.model?.[0]) ?? this.options.model;
+    if (!model) {
+      throw new Error(
+        `OpenAI-compatible call "${options.name}" has no model: set one on the agent or the provider`,
+      );
+    }
+
+    const outputSchema = toJsonSchema(options.outputSchema);
+    const body = {
+      model,
+      messages: [
+        { role: "system", content: options.instructions },
+        { role: "user", content: serializeInput(options.input) },
+      ],
+      ...(this.options.temperature !== undefined && {
+        temperature: this.options.temperature,
+      }),
+      ...(outputSchema && {
+        response_format: {
+          type: "json_schema",
+          json_schema: {
+            name: options.name.replace(/[^a-zA-Z0-9_-]/g, "_").slice(0, 64),
+            schema: outputSchema,
+          },
+        },
+      }),
+    };
+
+    const fetchImpl = this.options.fetch ?? fetch;
+    const response = await fetchImpl(`${this.baseUrl}/chat/completions`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...(this.options.apiKey && {
+          Authorization: `Bearer ${this.options.apiKey}`,
+        }),
+        ...this.options.headers,
+      },
+      body: JSON.stringify(body),
+      ...(options.signal && { signal: options.signal }),
+    });
+
+    if (!response.ok) {
+      const detail = await response.text().catch(() => "");
+      throw new Error(
+        `OpenAI-compatible call "${options.name}" failed with status ${response.status}${detail ? `: ${detail}` : ""}`,
+      );
+    }
+
+    const completion = (await response.json()) as ChatCompletionResponse;
+    const content = completion.choices?.[0]?.message?.content ?? "";
+    const inputTokens = completion.usage?.prompt_tokens ?? 0;
+    const outputTokens = completion.usage?.completion_tokens ?? 0;
+    const usage = {
+      inputTokens,
+      outputTokens,
+      totalTokens: inputTokens + outputTokens,
+      cost: { generation: 0, platform: 0, total: 0 },
+    };
+
+    if (!outputSchema) {
+      return { message: content, usage };
+    }
+
+    try {
+      return { jsonPayload: parseJsonContent(content) as TOutput, usage };
+    } catch {
+      throw new Error(
+        `OpenAI-compatible call "${options.name}" returned invalid JSON: ${content.slice(0, 200)}`,
+      );
+    }
+  }
+}
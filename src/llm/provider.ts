@@ -0,0 +1,202 @@
+import { randomUUID } from "node:crypto";
+import type { z } from "zod";
+
+/**
+ * Options for a single LLM call
+ */
+export interface LlmCallOptions<TInput = unknown, TOutput = unknown> {
+  /**
+   * Unique name for this call/task
+   */
+  name: string;
+
+  /**
+   * Natural language instructions
+   */
+  instructions: string;
+
+  /**
+   * Input data for the call
+   */
+  input: TInput;
+
+  /**
+   * Input schema (Zod or JSON Schema)
+   */
+  inputSchema?: z.ZodType<TInput> | Record<string, unknown>;
+
+  /**
+   * Output schema (Zod or JSON Schema). When set, the provider must return
+   * structured output in `jsonPayload`.
+   */
+  outputSchema?: z.ZodType<TOutput> | Record<string, unknown>;
+
+  /**
+   * Model to use. Accepts a single model identifier or an ordered list for fallback.
+   * Example: "anthropic/claude-3.7-sonnet" or ["openai/gpt-4o", "anthropic/claude-3.7-sonnet"].
+   */
+  model?: string | readonly string[];
+
+  /**
+   * Parent span ID for tracing
+   */
+  parentSpanId?: string;
+
+  /**
+   * Abort signal used to cancel the underlying HTTP request.
+   */
+  signal?: AbortSignal;
+}
+
+/**
+ * Response of a single LLM call
+ */
+export interface LlmCallResponse<TOutput = unknown> {
+  /**
+   * Parsed JSON output (if outputSchema provided)
+   */
+  jsonPayload?: TOutput;
+
+  /**
+   * Text message response
+   */
+  message?: string | null | undefined;
+
+  /**
+   * Span ID for this call, when the provider traces calls itself
+   */
+  spanId?: string;
+
+  /**
+   * Token usage information
+   */
+  usage: {
+    inputTokens: number;
+    outputTokens: number;
+    totalTokens: number;
+    cost: {
+      generation: number;
+      platform: number;
+      total: number;
+    };
+  };
+}
+
+/**
+ * Streaming chunk payload. `jsonPath` addresses the output field a delta
+ * belongs to when streaming structured output.
+ */
+export interface LlmStreamChunk {
+  delta?: string | number | boolean | null | undefined;
+  jsonPath?: string | null | undefined;
+  spanId?: string | null | undefined;
+  chunkType?: string | null | undefined;
+}
+
+/**
+ * Server-sent event emitted during streaming calls.
+ */
+export interface LlmStreamEvent {
+  id?: string;
+  event?: string;
+  retry?: number;
+  data?: LlmStreamChunk;
+}
+
+/**
+ * Structured response returned by streaming calls.
+ */
+export interface LlmStreamResponse {
+  headers: Record<string, string[]>;
+  result: AsyncIterable<LlmStreamEvent>;
+}
+
+/**
+ * Model backend used by agents for think, final-result and summarization calls.
+ * {@link OpperClient} is the default implementation.
+ */
+export interface LlmProvider {
+  /**
+   * Make a call, returning structured output when `outputSchema` is set
+   */
+  call<TInput = unknown, TOutput = unknown>(
+    options: LlmCallOptions<TInput, TOutput>,
+  ): Promise<LlmCallResponse<TOutput>>;
+
+  /**
+   * Stream a call. Required only for agents with `enableStreaming`.
+   */
+  stream?<TInput = unknown, TOutput = unknown>(
+    options: LlmCallOptions<TInput, TOutput>,
+  ): Promise<LlmStreamResponse>;
+
+  /**
+   * Look up the usage of a finished streaming call by the span ID its chunks
+   * carried. Without it, or when it returns null, streaming calls count as one
+   * request with no tokens.
+   */
+  getStreamUsage?(spanId: string): Promise<LlmCallResponse["usage"] | null>;
+}
+
+/**
+ * Span information
+ */
+export interface TraceSpan {
+  id: string;
+  name: string;
+  input?: unknown;
+  output?: unknown;
+}
+
+/**
+ * Options for creating a span
+ */
+export interface CreateSpanOptions {
+  name: string;
+  input?: unknown;
+  parentSpanId?: string;
+  type?: string;
+}
+
+/**
+ * Options for updating a span
+ */
+export interface UpdateSpanOptions {
+  error?: string;
+  startTime?: Date;
+  endTime?: Date;
+  meta?: Record<string, unknown>;
+  name?: string;
+}
+
+/**
+ * Span sink used by agents to trace executions, tool calls and memory operations.
+ * {@link OpperClient} is the default implementation.
+ */
+export interface Tracer {
+  createSpan(options: CreateSpanOptions): Promise<TraceSpan>;
+
+  updateSpan(
+    spanId: string,
+    output: unknown,
+    options?: UpdateSpanOptions,
+  ): Promise<void>;
+}
+
+/**
+ * Tracer that records nothing. Spans get random IDs so the agent loop can
+ * still correlate them. Used when a custom provider is configured without a tracer.
+ */
+export class NoopTracer implements Tracer {
+  public async createSpan(options: CreateSpanOptions): Promise<TraceSpan> {
+    return {
+      id: randomUUID(),
+      name: options.name,
+      ...(options.input !== undefined && { input: options.input }),
+    };
+  }
+
+  public async updateSpan(): Promise<void> {
+    // Nothing to record
+  }
+}
@@ -4,7 +4,12 @@ import { StdioClientTransport } from "@modelcontextprotocol/sdk/client/stdio.js"
 import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
 import type { StreamableHTTPClientTransportOptions } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
 import type { Transport } from "@modelcontextprotocol/sdk/shared/transport.js";
-import type { Implementation } from "@modelcontextprotocol/sdk/types.js";
+import {
+  ErrorCode,
+  type GetPromptResult,
+  type Implementation,
+  type ServerCapabilities,
+} from "@modelcontextprotocol/sdk/types.js";
 import type { IOType } from "node:child_process";
 import type { Stream } from "node:stream";
 
@@ -17,8 +22,112 @@ export interface MCPTool {
   outputSchema?: Record<string, unknown>;
 }
 
+export interface MCPResource {
+  uri: string;
+  name: string;
+  description?: string;
+  mimeType?: string;
+}
+
+export interface MCPResourceTemplate {
+  uriTemplate: string;
+  name: string;
+  description?: string;
+  mimeType?: string;
+}
+
+/**
+ * Contents of a resource; text resources have `text`, binary ones a base64 `blob`
+ */
+export interface MCPResourceContent {
+  uri: string;
+  mimeType?: string;
+  text?: string;
+  blob?: string;
+}
+
+export interface MCPPromptArgument {
+  name: string;
+  description?: string;
+  required: boolean;
+}
+
+export interface MCPPrompt {
+  name: string;
+  description: string;
+  arguments: MCPPromptArgument[];
+}
+
+export interface MCPPromptResult {
+  description?: string;
+  messages: GetPromptResult["messages"];
+}
+
+export interface MCPCallOptions {
+  /**
+   * Abort signal used to cancel the in-flight request
+   */
+  signal?: AbortSignal;
+}
+
+export type MCPConnectionState =
+  "connecting" | "connected" | "reconnecting" | "disconnected";
+
+export interface MCPConnectionStateChange {
+  server: string;
+  state: MCPConnectionState;
+  previousState: MCPConnectionState;
+  /**
+   * Reconnection attempt number, for the "reconnecting" state
+   */
+  attempt?: number;
+  /**
+   * Why the connection dropped, or why the last connection attempt failed
+   */
+  error?: Error;
+}
+
+export type MCPConnectionStateListener = (
+  change: MCPConnectionStateChange,
+) => void;
+
+export interface MCPReconnectOptions {
+  /**
+   * Reconnection attempts before giving up until the next request (default: 5)
+   */
+  maxAttempts?: number;
+
+  /**
+   * Delay before the first attempt in milliseconds, doubled for every further
+   * attempt (default: 500)
+   */
+  initialDelayMs?: number;
+
+  /**
+   * Upper bound for the delay between attempts in milliseconds (default: 30,000)
+   */
+  maxDelayMs?: number;
+}
+
 export interface MCPClientOptions {
   clientInfo?: Implementation;
+
+  /**
+   * Reconnect automatically when the connection drops, or `false` to stay
+   * disconnected (default: 5 attempts with exponential backoff)
+   */
+  reconnect?: MCPReconnectOptions | false;
+
+  /**
+   * Ping the server at this interval in milliseconds and reconnect when a
+   * ping fails (default: no pings)
+   */
+  pingIntervalMs?: number;
+
+  /**
+   * Called on every connection state change
+   */
+  onStateChange?: MCPConnectionStateListener;
 }
 
 const DEFAULT_CLIENT_INFO: Implementation = {
@@ -26,9 +135,31 @@ const DEFAULT_CLIENT_INFO: Implementation = {
   version: "0.0.0",
 };
 
+const DEFAULT_RECONNECT_OPTIONS: Required<MCPReconnectOptions> = {
+  maxAttempts: 5,
+  initialDelayMs: 500,
+  maxDelayMs: 30_000,
+};
+
+const toError = (error: unknown): Error =>
+  error instanceof Error ? error : new Error(String(error));
+
+/**
+ * Whether a request failed because the connection is gone: the transport
+ * closed, or an HTTP server no longer knows the session
+ */
+const isConnectionError = (error: unknown): boolean => {
+  const code = (error as { code?: unknown } | null)?.code;
+  return code === ErrorCode.ConnectionClosed || code === 404;
+};
+
 export class MCPClient {
   private readonly config: MCPServerConfig;
-  private readonly client: Client;
+  private readonly clientInfo: Implementation;
+  private readonly reconnectOptions: Required<MCPReconnectOptions> | null;
+  private readonly pingIntervalMs: number | undefined;
+  private readonly listeners: Set<MCPConnectionStateListener>;
+  private client: Client;
   private transport:
     | StdioClientTransport
     | SSEClientTransport
@@ -36,15 +167,33 @@ export class MCPClient {
     | null;
   private connected: boolean;
   private toolCache: MCPTool[] | null;
+  private state: MCPConnectionState;
+  /** The connection dropped without `disconnect()` being called */
+  private lost: boolean;
+  private reconnecting: Promise<void> | null;
+  private cancelBackoff: (() => void) | null;
+  private pingTimer: ReturnType<typeof setInterval> | null;
 
   constructor(config: MCPServerConfig, options: MCPClientOptions = {}) {
     this.config = config;
-    this.client = new Client(options.clientInfo ?? DEFAULT_CLIENT_INFO, {
-      enforceStrictCapabilities: false,
-    });
+    this.clientInfo = options.clientInfo ?? DEFAULT_CLIENT_INFO;
+    this.reconnectOptions =
+      options.reconnect === false
+        ? null
+        : { ...DEFAULT_RECONNECT_OPTIONS, ...options.reconnect };
+    this.pingIntervalMs = options.pingIntervalMs;
+    this.listeners = new Set(
+      options.onStateChange ? [options.onStateChange] : [],
+    );
+    this.client = this.createClient();
     this.transport = null;
     this.connected = false;
     this.toolCache = null;
+    this.state = "disconnected";
+    this.lost = false;
+    this.reconnecting = null;
+    this.cancelBackoff = null;
+    this.pingTimer = null;
   }
 
   static fromConfig(
@@ -59,45 +208,66 @@ export class MCPClient {
       return;
     }
 
-    const transport = this.createTransport();
-    this.transport = transport;
-
+    this.setState("connecting");
     try {
-      await this.client.connect(transport as Transport);
-      this.connected = true;
+      await this.open();
     } catch (error) {
-      await transport.close().catch(() => {});
-      this.transport = null;
+      this.setState("disconnected", { error: toError(error) });
       throw error;
     }
+    this.lost = false;
+    this.setState("connected");
   }
 
   async disconnect(): Promise<void> {
-    if (!this.connected) {
+    const active = this.connected || this.lost;
+    this.lost = false;
+    this.cancelBackoff?.();
+
+    if (!active) {
       return;
     }
 
-    await this.client.close().catch(() => {});
-    await this.transport?.close().catch(() => {});
-    this.transport = null;
-    this.connected = false;
+    await this.closeSession();
     this.toolCache = null;
+    this.setState("disconnected");
+  }
+
+  /**
+   * Check that the server responds
+   *
+   * @throws When the server is unreachable; the client then starts reconnecting
+   */
+  async ping(): Promise<void> {
+    await this.request((session) => session.ping());
+  }
+
+  /**
+   * Listen for connection state changes
+   *
+   * @param listener - Called with every state change
+   * @returns Function removing the listener
+   */
+  onStateChange(listener: MCPConnectionStateListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
   }
 
   async listTools(): Promise<MCPTool[]> {
-    const session = this.ensureConnected();
+    await this.session();
 
     if (this.toolCache) {
       return this.toolCache;
     }
 
-    const response = await session.listTools({});
+    const response = await this.request((session) => session.listTools({}));
     const tools =
       response.tools?.map((tool) => {
         const parameters = (tool.inputSchema ?? {}) as Record<string, unknown>;
         const outputSchema = tool["outputSchema"] as
-          | Record<string, unknown>
-          | undefined;
+          Record<string, unknown> | undefined;
 
         const normalized: MCPTool = {
           name: tool.name,
@@ -119,21 +289,146 @@ export class MCPClient {
   async callTool(
     toolName: string,
     args: Record<string, unknown> | undefined,
+    options: MCPCallOptions = {},
   ): Promise<unknown> {
-    const session = this.ensureConnected();
-
-    const response = await session.callTool({
-      name: toolName,
-      arguments: args,
-    });
+    const response = await this.request((session) =>
+      session.callTool(
+        {
+          name: toolName,
+          arguments: args,
+        },
+        undefined,
+        options.signal ? { signal: options.signal } : undefined,
+      ),
+    );
 
     return response;
   }
 
+  async listResources(): Promise<MCPResource[]> {
+    const resources: MCPResource[] = [];
+    let cursor: string | undefined;
+
+    do {
+      const response = await this.request((session) =>
+        session.listResources(cursor ? { cursor } : undefined),
+      );
+      for (const resource of response.resources) {
+        resources.push({
+          uri: resource.uri,
+          name: resource.name,
+          ...(resource.description && { description: resource.description }),
+          ...(resource.mimeType && { mimeType: resource.mimeType }),
+        });
+      }
+      cursor = response.nextCursor;
+    } while (cursor);
+
+    return resources;
+  }
+
+  async listResourceTemplates(): Promise<MCPResourceTemplate[]> {
+    const templates: MCPResourceTemplate[] = [];
+    let cursor: string | undefined;
+
+    do {
+      const response = await this.request((session) =>
+        session.listResourceTemplates(cursor ? { cursor } : undefined),
+      );
+      for (const template of response.resourceTemplates) {
+        templates.push({
+          uriTemplate: template.uriTemplate,
+          name: template.name,
+          ...(template.description && { description: template.description }),
+          ...(template.mimeType && { mimeType: template.mimeType }),
+        });
+      }
+      cursor = response.nextCursor;
+    } while (cursor);
+
+    return templates;
+  }
+
+  async readResource(
+    uri: string,
+    options: MCPCallOptions = {},
+  ): Promise<MCPResourceContent[]> {
+    const response = await this.request((session) =>
+      session.readResource(
+        { uri },
+        options.signal ? { signal: options.signal } : undefined,
+      ),
+    );
+
+    return response.contents.map((content) => ({
+      uri: content.uri,
+      ...(content.mimeType && { mimeType: content.mimeType }),
+      ...("text" in content && { text: content.text }),
+      ...("blob" in content && { blob: content.blob }),
+    }));
+  }
+
+  async listPrompts(): Promise<MCPPrompt[]> {
+    const prompts: MCPPrompt[] = [];
+    let cursor: string | undefined;
+
+    do {
+      const response = await this.request((session) =>
+        session.listPrompts(cursor ? { cursor } : undefined),
+      );
+      for (const prompt of response.prompts) {
+        prompts.push({
+          name: prompt.name,
+          description: prompt.description ?? "",
+          arguments:
+            prompt.arguments?.map((argument) => ({
+              name: argument.name,
+              ...(argument.description && {
+                description: argument.description,
+              }),
+              required: argument.required ?? false,
+            })) ?? [],
+        });
+      }
+      cursor = response.nextCursor;
+    } while (cursor);
+
+    return prompts;
+  }
+
+  async getPrompt(
+    name: string,
+    args: Record<string, string> = {},
+    options: MCPCallOptions = {},
+  ): Promise<MCPPromptResult> {
+    const response = await this.request((session) =>
+      session.getPrompt(
+        { name, arguments: args },
+        options.signal ? { signal: options.signal } : undefined,
+      ),
+    );
+
+    return {
+      ...(response.description && { description: response.description }),
+      messages: response.messages,
+    };
+  }
+
+  /**
+   * Capabilities the server announced when connecting
+   */
+  get serverCapabilities(): ServerCapabilities | undefined {
+    return this.connected ? this.client.getServerCapabilities() : undefined;
+  }
+
   get isConnected(): boolean {
     return this.connected;
   }
 
+  get connectionState(): MCPConnectionState {
+    return this.state;
+  }
+
   private ensureConnected(): Client {
     if (!this.connected) {
       throw new Error(`MCP server "${this.config.name}" is not connected`);
@@ -142,10 +437,212 @@ export class MCPClient {
     return this.client;
   }
 
-  private createTransport():
-    | StdioClientTransport
-    | SSEClientTransport
-    | StreamableHTTPClientTransport {
+  /**
+   * Current session, waiting for a reconnect first if the connection dropped
+   */
+  private async session(): Promise<Client> {
+    if (!this.connected && this.lost && this.reconnectOptions) {
+      await this.reconnect(
+        new Error(`MCP server "${this.config.name}" connection lost`),
+      );
+    }
+
+    return this.ensureConnected();
+  }
+
+  /**
+   * Send a request, starting a reconnect when it fails because the
+   * connection dropped. The failed request itself is not retried, since it
+   * may have reached the server.
+   */
+  private async request<T>(send: (session: Client) => Promise<T>): Promise<T> {
+    const session = await this.session();
+
+    try {
+      return await send(session);
+    } catch (error) {
+      if (isConnectionError(error) && session === this.client) {
+        this.handleConnectionLost(toError(error));
+      }
+      throw error;
+    }
+  }
+
+  private createClient(): Client {
+    return new Client(this.clientInfo, {
+      enforceStrictCapabilities: false,
+    });
+  }
+
+  /**
+   * @param newSession - Start a new session rather than resuming the configured one
+   */
+  private async open(newSession = false): Promise<void> {
+    const client = this.createClient();
+    const transport = this.createTransport(newSession);
+
+    try {
+      await client.connect(transport as Transport);
+    } catch (error) {
+      await transport.close().catch(() => {});
+      throw error;
+    }
+
+    this.client = client;
+    this.transport = transport;
+    this.connected = true;
+    client.onclose = () => {
+      if (client === this.client) {
+        this.handleConnectionLost(
+          new Error(`MCP server "${this.config.name}" closed the connection`),
+        );
+      }
+    };
+    this.startPing();
+  }
+
+  private async closeSession(): Promise<void> {
+    // A reconnect may replace the session while this one is closing
+    const { client, transport } = this;
+    this.stopPing();
+    this.connected = false;
+    this.transport = null;
+    await client.close().catch(() => {});
+    await transport?.close().catch(() => {});
+  }
+
+  private handleConnectionLost(error: Error): void {
+    if (!this.connected) {
+      return;
+    }
+
+    this.lost = true;
+    void this.closeSession();
+
+    if (this.reconnectOptions) {
+      // Callers see the outcome through session(); nothing awaits this one
+      this.reconnect(error).catch(() => {});
+    } else {
+      this.setState("disconnected", { error });
+    }
+  }
+
+  /**
+   * Reconnect with exponential backoff. Concurrent callers share one attempt
+   * sequence; after the last failed attempt, the next request starts over.
+   */
+  private reconnect(cause: Error): Promise<void> {
+    this.reconnecting ??= this.runReconnect(cause).finally(() => {
+      this.reconnecting = null;
+    });
+    return this.reconnecting;
+  }
+
+  private async runReconnect(cause: Error): Promise<void> {
+    const { maxAttempts, initialDelayMs, maxDelayMs } = this.reconnectOptions!;
+    let error = cause;
+
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+      this.setState("reconnecting", { attempt, error });
+      await this.backoff(
+        Math.min(initialDelayMs * 2 ** (attempt - 1), maxDelayMs),
+      );
+      if (!this.lost) {
+        throw new Error(`MCP server "${this.config.name}" was disconnected`);
+      }
+
+      try {
+        // The lost session is gone on the server, so never resume it
+        await this.open(true);
+        // Tools may have changed, e.g. after a server restart
+        this.toolCache = null;
+        await this.listTools();
+      } catch (attemptError) {
+        error = toError(attemptError);
+        await this.closeSession();
+        continue;
+      }
+
+      if (!this.lost) {
+        // disconnect() was called while this attempt was connecting
+        await this.closeSession();
+        throw new Error(`MCP server "${this.config.name}" was disconnected`);
+      }
+      this.lost = false;
+      this.setState("connected");
+      return;
+    }
+
+    this.setState("disconnected", { error });
+    throw error;
+  }
+
+  private backoff(ms: number): Promise<void> {
+    return new Promise((resolve) => {
+      const timer = setTimeout(() => {
+        this.cancelBackoff = null;
+        resolve();
+      }, ms);
+      this.cancelBackoff = () => {
+        clearTimeout(timer);
+        this.cancelBackoff = null;
+        resolve();
+      };
+    });
+  }
+
+  private startPing(): void {
+    if (!this.pingIntervalMs) {
+      return;
+    }
+
+    const client = this.client;
+    this.pingTimer = setInterval(() => {
+      client.ping().catch((error: unknown) => {
+        if (client === this.client) {
+          this.handleConnectionLost(toError(error));
+        }
+      });
+    }, this.pingIntervalMs);
+    // Health checks alone should not keep the process alive
+    this.pingTimer.unref?.();
+  }
+
+  private stopPing(): void {
+    if (this.pingTimer) {
+      clearInterval(this.pingTimer);
+      this.pingTimer = null;
+    }
+  }
+
+  private setState(
+    state: MCPConnectionState,
+    details: Pick<MCPConnectionStateChange, "attempt" | "error"> = {},
+  ): void {
+    const previousState = this.state;
+    if (state === previousState && state !== "reconnecting") {
+      return;
+    }
+
+    this.state = state;
+    const change: MCPConnectionStateChange = {
+      server: this.config.name,
+      state,
+      previousState,
+      ...details,
+    };
+    for (const listener of this.listeners) {
+      try {
+        listener(change);
+      } catch {
+        // Listener failures must not break the connection handling
+      }
+    }
+  }
+
+  private createTransport(
+    newSession: boolean,
+  ): StdioClientTransport | SSEClientTransport | StreamableHTTPClientTransport {
     if (this.config.transport === "stdio") {
       const stdioOptions: {
         command: string;
@@ -184,7 +681,7 @@ export class MCPClient {
         options.requestInit = { headers } satisfies RequestInit;
       }
 
-      if (this.config.sessionId) {
+      if (this.config.sessionId && !newSession) {
         options.sessionId = this.config.sessionId;
       }
 
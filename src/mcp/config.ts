@@ -7,6 +7,14 @@ const MCPBaseConfigSchema = z.object({
   transport: MCPTransportSchema,
   timeout: z.number().positive("timeout must be positive").default(30),
   metadata: z.record(z.string(), z.unknown()).default({}),
+  /**
+   * Expose the server's resources through `list_resources` and `read_resource` tools
+   */
+  resources: z.boolean().default(false),
+  /**
+   * Expose the server's prompt templates through `list_prompts` and `get_prompt` tools
+   */
+  prompts: z.boolean().default(false),
 });
 
 const MCPStdIoConfigSchema = MCPBaseConfigSchema.extend({
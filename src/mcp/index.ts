@@ -1,3 +1,5 @@
 export * from "./client";
 export * from "./config";
 export * from "./provider";
+export * from "./result";
+export * from "./server";
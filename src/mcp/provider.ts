@@ -1,9 +1,18 @@
-import { MCPClient, type MCPClientOptions, type MCPTool } from "./client";
+import { z } from "zod";
+
+import {
+  MCPClient,
+  type MCPClientOptions,
+  type MCPConnectionStateChange,
+  type MCPConnectionStateListener,
+  type MCPTool,
+} from "./client";
 import {
   MCPServerConfigSchema,
   type MCPServerConfig,
   type MCPServerConfigInput,
 } from "./config";
+import { parseMCPToolResult } from "./result";
 import type { BaseAgent } from "../base/agent";
 import {
   ToolResultFactory,
@@ -19,6 +28,10 @@ export interface MCPToolProviderOptions {
     config: MCPServerConfig,
     options?: MCPClientOptions,
   ) => MCPClient;
+  /**
+   * Called when a server connection drops, reconnects or gives up reconnecting
+   */
+  onConnectionStateChange?: MCPConnectionStateListener;
   logger?: {
     debug?: (message: string, context?: Record<string, unknown>) => void;
     info?: (message: string, context?: Record<string, unknown>) => void;
@@ -46,7 +59,14 @@ export class MCPToolProvider implements ToolProvider {
     options?: MCPClientOptions,
   ) => MCPClient;
   private readonly logger: ProviderLogger;
+  private readonly onConnectionStateChange:
+    MCPConnectionStateListener | undefined;
   private readonly clients: Map<string, MCPClient>;
+  /**
+   * Tools supplied for each connected server, by server name
+   */
+  private readonly serverTools: Map<string, Array<Tool<unknown, unknown>>>;
+  private agent: BaseAgent<unknown, unknown> | null = null;
 
   constructor(
     configs: ReadonlyArray<MCPServerConfig>,
@@ -72,30 +92,30 @@ export class MCPToolProvider implements ToolProvider {
         console.error(`[MCPToolProvider] ${message}`, context),
       debug: () => {},
     };
+    this.onConnectionStateChange = options.onConnectionStateChange;
     this.clients = new Map();
+    this.serverTools = new Map();
   }
 
   async setup(
     agent: BaseAgent<unknown, unknown>,
   ): Promise<Array<Tool<unknown, unknown>>> {
-    void agent;
-    const tools: Array<Tool<unknown, unknown>> = [];
+    this.agent = agent;
 
     for (const config of this.configs) {
       let client: MCPClient | null = null;
       try {
         client = this.clientFactory(config, this.clientOptions);
         await client.connect();
+        client.onStateChange((change) => this.handleStateChange(change));
         this.clients.set(config.name, client);
 
-        const mcpTools = await client.listTools();
-        for (const mcpTool of mcpTools) {
-          tools.push(this.wrapTool(config, client, mcpTool));
-        }
+        const tools = await this.createServerTools(config, client);
+        this.serverTools.set(config.name, tools);
 
         this.logger?.debug?.("Registered MCP server tools", {
           server: config.name,
-          toolCount: mcpTools.length,
+          toolCount: tools.length,
         });
       } catch (error) {
         this.logger?.warn?.("Failed to initialize MCP server", {
@@ -110,7 +130,7 @@ export class MCPToolProvider implements ToolProvider {
       }
     }
 
-    return tools;
+    return Array.from(this.serverTools.values()).flat();
   }
 
   async teardown(): Promise<void> {
@@ -128,11 +148,200 @@ export class MCPToolProvider implements ToolProvider {
           });
         } finally {
           this.clients.delete(serverName);
+          this.serverTools.delete(serverName);
         }
       },
     );
 
     await Promise.allSettled(disconnects);
+    this.agent = null;
+  }
+
+  /**
+   * Wrap the tools of a connected server, plus the synthetic resource and
+   * prompt tools when enabled and supported
+   */
+  private async createServerTools(
+    config: MCPServerConfig,
+    client: MCPClient,
+  ): Promise<Array<Tool<unknown, unknown>>> {
+    const tools = (await client.listTools()).map((mcpTool) =>
+      this.wrapTool(config, client, mcpTool),
+    );
+
+    const capabilities = client.serverCapabilities;
+    if (config.resources && (!capabilities || capabilities.resources)) {
+      tools.push(...this.createResourceTools(config, client));
+    }
+    if (config.prompts && (!capabilities || capabilities.prompts)) {
+      tools.push(...this.createPromptTools(config, client));
+    }
+
+    return tools;
+  }
+
+  /**
+   * Re-register a reconnected server's tools on the agent, since the server
+   * may have changed them while it was away
+   */
+  private async refreshServerTools(serverName: string): Promise<void> {
+    const config = this.configs.find((entry) => entry.name === serverName);
+    const client = this.clients.get(serverName);
+    if (!config || !client || !this.agent) {
+      return;
+    }
+
+    try {
+      this.serverTools.set(
+        serverName,
+        await this.createServerTools(config, client),
+      );
+      this.agent.updateProviderTools(
+        this,
+        Array.from(this.serverTools.values()).flat(),
+      );
+    } catch (error) {
+      this.logger?.warn?.("Failed to refresh MCP server tools", {
+        server: serverName,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  private handleStateChange(change: MCPConnectionStateChange): void {
+    const context = {
+      server: change.server,
+      state: change.state,
+      ...(change.attempt !== undefined && { attempt: change.attempt }),
+      ...(change.error && { error: change.error.message }),
+    };
+
+    if (change.state === "reconnecting") {
+      this.logger?.warn?.("Reconnecting to MCP server", context);
+    } else if (change.state === "disconnected" && change.error) {
+      this.logger?.error?.("Lost connection to MCP server", context);
+    } else if (
+      change.state === "connected" &&
+      change.previousState === "reconnecting"
+    ) {
+      this.logger?.info?.("Reconnected to MCP server", context);
+      void this.refreshServerTools(change.server);
+    }
+
+    this.onConnectionStateChange?.(change);
+  }
+
+  /**
+   * Synthetic tools listing and reading the server's resources
+   */
+  private createResourceTools(
+    config: MCPServerConfig,
+    client: MCPClient,
+  ): Array<Tool<unknown, unknown>> {
+    return [
+      this.createSyntheticTool(config, {
+        name: "list_resources",
+        description: `List the resources (files, records, documents) and resource URI templates of the ${config.name} MCP server`,
+        schema: z.object({}),
+        run: async () => ({
+          resources: await client.listResources(),
+          // Servers without templates may not implement the request
+          templates: await client.listResourceTemplates().catch(() => []),
+        }),
+      }),
+      this.createSyntheticTool(config, {
+        name: "read_resource",
+        description: `Read a resource of the ${config.name} MCP server by URI`,
+        schema: z.object({
+          uri: z.string().describe("Resource URI, from list_resources"),
+        }),
+        run: (input, signal) =>
+          client.readResource(input.uri, signal ? { signal } : {}),
+      }),
+    ];
+  }
+
+  /**
+   * Synthetic tools listing and rendering the server's prompt templates
+   */
+  private createPromptTools(
+    config: MCPServerConfig,
+    client: MCPClient,
+  ): Array<Tool<unknown, unknown>> {
+    return [
+      this.createSyntheticTool(config, {
+        name: "list_prompts",
+        description: `List the prompt templates of the ${config.name} MCP server and their arguments`,
+        schema: z.object({}),
+        run: () => client.listPrompts(),
+      }),
+      this.createSyntheticTool(config, {
+        name: "get_prompt",
+        description: `Render a prompt template of the ${config.name} MCP server into messages`,
+        schema: z.object({
+          name: z.string().describe("Prompt name, from list_prompts"),
+          arguments: z
+            .record(z.string(), z.string())
+            .default({})
+            .describe("Prompt arguments"),
+        }),
+        run: (input, signal) =>
+          client.getPrompt(
+            input.name,
+            input.arguments,
+            signal ? { signal } : {},
+          ),
+      }),
+    ];
+  }
+
+  private createSyntheticTool<TInput>(
+    config: MCPServerConfig,
+    definition: {
+      name: string;
+      description: string;
+      schema: z.ZodType<TInput>;
+      run: (input: TInput, signal?: AbortSignal) => Promise<unknown>;
+    },
+  ): Tool<unknown, unknown> {
+    const prefix = this.namePrefix ?? config.name;
+    const toolName = `${prefix}:${definition.name}`;
+    const metadata = {
+      provider: "mcp",
+      server: config.name,
+      tool: definition.name,
+      synthetic: true,
+    };
+
+    return {
+      name: toolName,
+      description: definition.description,
+      schema: definition.schema as z.ZodType<unknown>,
+      metadata,
+      execute: async (input: unknown, context: ToolExecutionContext) => {
+        const startedAt = Date.now();
+
+        try {
+          const result = await definition.run(
+            definition.schema.parse(input ?? {}),
+            context.signal,
+          );
+          return ToolResultFactory.success(toolName, result, {
+            metadata,
+            startedAt,
+            finishedAt: Date.now(),
+          });
+        } catch (error) {
+          const failure =
+            error instanceof Error ? error : new Error(String(error));
+          return ToolResultFactory.failure(toolName, failure, {
+            metadata,
+            startedAt,
+            finishedAt: Date.now(),
+          });
+        }
+      },
+    };
   }
 
   private wrapTool(
@@ -154,7 +363,6 @@ export class MCPToolProvider implements ToolProvider {
         outputSchema: mcpTool.outputSchema,
       },
       execute: async (input: unknown, context: ToolExecutionContext) => {
-        void context;
         const startedAt = Date.now();
         const args = isRecord(input)
           ? input
@@ -163,13 +371,30 @@ export class MCPToolProvider implements ToolProvider {
             : { value: input };
 
         try {
-          const result = await client.callTool(mcpTool.name, args);
-          return ToolResultFactory.success(toolName, result, {
-            metadata: {
-              provider: "mcp",
-              server: config.name,
-              tool: mcpTool.name,
-            },
+          const result = context.signal
+            ? await client.callTool(mcpTool.name, args, {
+                signal: context.signal,
+              })
+            : await client.callTool(mcpTool.name, args);
+          const parsed = parseMCPToolResult(mcpTool.name, result);
+          const metadata = {
+            provider: "mcp",
+            server: config.name,
+            tool: mcpTool.name,
+            ...(parsed.attachments.length > 0 && {
+              attachments: parsed.attachments,
+            }),
+          };
+
+          if (parsed.isError) {
+            return ToolResultFactory.failure(
+              toolName,
+              new Error(parsed.message),
+              { metadata, startedAt, finishedAt: Date.now() },
+            );
+          }
+          return ToolResultFactory.success(toolName, parsed.output, {
+            metadata,
             startedAt,
             finishedAt: Date.now(),
           });
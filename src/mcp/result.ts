@@ -0,0 +1,154 @@
+/**
+ * Non-text content returned by an MCP tool
+ */
+export type MCPAttachment =
+  | { type: "image"; data: string; mimeType: string }
+  | { type: "audio"; data: string; mimeType: string }
+  | {
+      type: "resource";
+      uri: string;
+      mimeType?: string;
+      text?: string;
+      blob?: string;
+    }
+  | {
+      type: "resource_link";
+      uri: string;
+      name: string;
+      description?: string;
+      mimeType?: string;
+    };
+
+export type MCPToolCallResult =
+  | {
+      isError: false;
+      /**
+       * Structured content if the tool returned any, otherwise the text
+       */
+      output: unknown;
+      text: string;
+      attachments: MCPAttachment[];
+    }
+  | {
+      isError: true;
+      message: string;
+      attachments: MCPAttachment[];
+    };
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const optionalString = <K extends string>(
+  key: K,
+  value: unknown,
+): Partial<Record<K, string>> =>
+  typeof value === "string" ? ({ [key]: value } as Record<K, string>) : {};
+
+const toAttachment = (item: Record<string, unknown>): MCPAttachment | null => {
+  switch (item["type"]) {
+    case "image":
+    case "audio":
+      return {
+        type: item["type"],
+        data: String(item["data"] ?? ""),
+        mimeType: String(item["mimeType"] ?? "application/octet-stream"),
+      };
+    case "resource": {
+      const resource = isRecord(item["resource"]) ? item["resource"] : {};
+      return {
+        type: "resource",
+        uri: String(resource["uri"] ?? ""),
+        ...optionalString("mimeType", resource["mimeType"]),
+        ...optionalString("text", resource["text"]),
+        ...optionalString("blob", resource["blob"]),
+      };
+    }
+    case "resource_link":
+      return {
+        type: "resource_link",
+        uri: String(item["uri"] ?? ""),
+        name: String(item["name"] ?? ""),
+        ...optionalString("description", item["description"]),
+        ...optionalString("mimeType", item["mimeType"]),
+      };
+    default:
+      return null;
+  }
+};
+
+/**
+ * Text standing in for an attachment in the tool output, so the model knows it
+ * exists; embedded text resources contribute their text
+ */
+const describeAttachment = (attachment: MCPAttachment): string => {
+  switch (attachment.type) {
+    case "image":
+    case "audio":
+      return `[${attachment.type} attachment: ${attachment.mimeType}]`;
+    case "resource":
+      return (
+        attachment.text ??
+        `[resource attachment: ${attachment.uri}${attachment.mimeType ? ` (${attachment.mimeType})` : ""}]`
+      );
+    case "resource_link":
+      return `[resource link: ${attachment.name} ${attachment.uri}]`;
+  }
+};
+
+/**
+ * Normalize an MCP `CallToolResult` into tool output. Text content is
+ * concatenated, structured content is preferred when present, and image,
+ * audio and resource content is collected as attachments. Structured content
+ * is not checked here: the MCP SDK client already validates it against the
+ * tool's output schema in `callTool`.
+ *
+ * @param toolName - MCP tool name, used in error messages
+ * @param result - Raw `callTool` response
+ * @returns Successful output, or the error reported by the tool
+ */
+export function parseMCPToolResult(
+  toolName: string,
+  result: unknown,
+): MCPToolCallResult {
+  if (!isRecord(result) || !Array.isArray(result["content"])) {
+    // Servers on protocol versions before 2024-11-05 return `toolResult`
+    const output =
+      isRecord(result) && "toolResult" in result
+        ? result["toolResult"]
+        : result;
+    return { isError: false, output, text: "", attachments: [] };
+  }
+
+  const texts: string[] = [];
+  const attachments: MCPAttachment[] = [];
+  for (const item of result["content"]) {
+    if (!isRecord(item)) {
+      continue;
+    }
+    if (item["type"] === "text") {
+      texts.push(String(item["text"] ?? ""));
+      continue;
+    }
+    const attachment = toAttachment(item);
+    if (attachment) {
+      attachments.push(attachment);
+      texts.push(describeAttachment(attachment));
+    }
+  }
+  const text = texts.join("\n");
+
+  if (result["isError"] === true) {
+    return {
+      isError: true,
+      message: text || `MCP tool "${toolName}" failed`,
+      attachments,
+    };
+  }
+
+  const structured = result["structuredContent"];
+  if (structured === undefined) {
+    return { isError: false, output: text, text, attachments };
+  }
+
+  return { isError: false, output: structured, text, attachments };
+}
@@ -0,0 +1,416 @@
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import type { Transport } from "@modelcontextprotocol/sdk/shared/transport.js";
+import {
+  CallToolRequestSchema,
+  ListToolsRequestSchema,
+  type CallToolResult,
+  type Implementation,
+  type Tool as MCPToolDefinition,
+} from "@modelcontextprotocol/sdk/types.js";
+import { createServer, type Server as HttpServer } from "node:http";
+import type { AddressInfo } from "node:net";
+import type { Readable, Writable } from "node:stream";
+
+import type { BaseAgent } from "../base/agent";
+import { AgentContext } from "../base/context";
+import type { Tool, ToolResult } from "../base/tool";
+import { getDefaultLogger, type AgentLogger } from "../utils/logger";
+import { schemaToJson } from "../utils/schema-utils";
+
+export interface MCPAgentServerOptions {
+  /**
+   * Name of the MCP tool that runs the agent (default: the agent name)
+   */
+  toolName?: string;
+
+  /**
+   * Description of the MCP tool that runs the agent (default: the agent description)
+   */
+  toolDescription?: string;
+
+  /**
+   * Also expose each tool registered on the agent (default: false). Calls go
+   * through the agent's hooks, cache, timeout, retry and concurrency limits.
+   * Tools that require approval are not exposed, and tools from tool providers
+   * only exist during runs and are not exposed either.
+   */
+  exposeTools?: boolean;
+
+  /**
+   * Server name and version reported to clients (default: the agent name, version 0.0.0)
+   */
+  serverInfo?: Implementation;
+}
+
+export interface ServeAgentAsMcpOptions extends MCPAgentServerOptions {
+  transport: "stdio" | "streamable-http";
+
+  /**
+   * Port to listen on for streamable HTTP (default: 3000, 0 picks a free port)
+   */
+  port?: number;
+
+  /**
+   * Host to bind for streamable HTTP (default: "127.0.0.1")
+   */
+  host?: string;
+
+  /**
+   * URL path serving MCP requests over streamable HTTP (default: "/mcp")
+   */
+  path?: string;
+
+  /**
+   * Reject streamable HTTP requests whose Host or Origin header names another
+   * server, guarding against DNS rebinding (default: true)
+   */
+  dnsRebindingProtection?: boolean;
+
+  /**
+   * Host header values accepted with DNS rebinding protection (default: the
+   * bound host and port, plus localhost aliases for loopback hosts; required
+   * when binding all interfaces)
+   */
+  allowedHosts?: string[];
+
+  /**
+   * Origin header values accepted with DNS rebinding protection (default:
+   * `http://` followed by each allowed host)
+   */
+  allowedOrigins?: string[];
+
+  /**
+   * Logger for errors while closing per-request servers (default: the SDK logger)
+   */
+  logger?: AgentLogger;
+
+  /**
+   * Streams used by the stdio transport (default: process.stdin and process.stdout)
+   */
+  stdin?: Readable;
+  stdout?: Writable;
+}
+
+export interface MCPAgentServer {
+  /**
+   * Endpoint URL, for the streamable HTTP transport
+   */
+  url?: string;
+
+  /**
+   * Stop serving and release the transport
+   */
+  close(): Promise<void>;
+}
+
+interface ExposedTool {
+  tool: Tool<unknown, unknown>;
+  definition: MCPToolDefinition;
+  /**
+   * Whether the input was wrapped in an `input` property, because MCP tool
+   * arguments must be objects
+   */
+  wrapsInput: boolean;
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isObjectSchema = (
+  schema: Record<string, unknown> | undefined,
+): schema is Record<string, unknown> => schema?.["type"] === "object";
+
+const jsonSchemaOf = (
+  schema: Tool<unknown, unknown>["schema"],
+  fallback: unknown,
+): Record<string, unknown> | undefined => {
+  if (schema) {
+    return schemaToJson(schema) as Record<string, unknown>;
+  }
+  return isRecord(fallback) ? fallback : undefined;
+};
+
+/**
+ * Describe a tool for MCP clients. Non-object inputs are wrapped in an
+ * `input` property; outputs are only declared when they are objects, since
+ * MCP structured content must be an object.
+ */
+const exposeTool = (
+  tool: Tool<unknown, unknown>,
+  wrapUntyped: boolean,
+): ExposedTool => {
+  const input = jsonSchemaOf(tool.schema, tool.metadata?.["parameters"]);
+  const output = jsonSchemaOf(
+    tool.outputSchema,
+    tool.metadata?.["outputSchema"],
+  );
+  const wrapsInput = input ? !isObjectSchema(input) : wrapUntyped;
+
+  return {
+    tool,
+    wrapsInput,
+    definition: {
+      name: tool.name,
+      ...(tool.description && { description: tool.description }),
+      inputSchema: (wrapsInput
+        ? {
+            type: "object",
+            properties: { input: input ?? {} },
+            required: ["input"],
+          }
+        : (input ?? { type: "object" })) as MCPToolDefinition["inputSchema"],
+      ...(isObjectSchema(output) && {
+        outputSchema: output as NonNullable<MCPToolDefinition["outputSchema"]>,
+      }),
+    },
+  };
+};
+
+/**
+ * Map a tool result to an MCP tool result. Failures become `isError` results
+ * and usage of nested agent runs is reported in `_meta.usage`.
+ */
+const toCallToolResult = (
+  exposed: ExposedTool,
+  result: ToolResult<unknown>,
+): CallToolResult => {
+  const meta = result.usage ? { _meta: { usage: result.usage } } : {};
+
+  if (!result.success) {
+    const message =
+      result.error instanceof Error ? result.error.message : result.error;
+    return {
+      content: [{ type: "text", text: message }],
+      isError: true,
+      ...meta,
+    };
+  }
+
+  const { output } = result;
+  return {
+    content: [
+      {
+        type: "text",
+        text:
+          typeof output === "string" ? output : JSON.stringify(output ?? null),
+      },
+    ],
+    ...(exposed.definition.outputSchema &&
+      isRecord(output) && { structuredContent: output }),
+    ...meta,
+  };
+};
+
+/**
+ * Create an MCP server exposing an agent, and optionally its tools, without
+ * connecting it to a transport
+ *
+ * @param agent - Agent run by the exposed tool
+ * @param options - Tool naming, registered tool exposure and server info
+ * @returns MCP server; connect it to any transport with `server.connect()`
+ */
+export function createMCPAgentServer<TInput, TOutput>(
+  agent: BaseAgent<TInput, TOutput>,
+  options: MCPAgentServerOptions = {},
+): Server {
+  const agentTool = {
+    ...agent.asTool(options.toolName, options.toolDescription),
+    ...(agent.outputSchema && { outputSchema: agent.outputSchema }),
+  } as unknown as Tool<unknown, unknown>;
+  const exposed = new Map<string, ExposedTool>([
+    [agentTool.name, exposeTool(agentTool, true)],
+  ]);
+
+  if (options.exposeTools) {
+    for (const tool of agent.getTools()) {
+      // No one is around to approve calls coming from MCP clients
+      if (!exposed.has(tool.name) && !tool.requiresApproval) {
+        exposed.set(tool.name, exposeTool(tool, false));
+      }
+    }
+  }
+
+  const server = new Server(
+    options.serverInfo ?? { name: agent.name, version: "0.0.0" },
+    { capabilities: { tools: {} } },
+  );
+
+  server.setRequestHandler(ListToolsRequestSchema, () => ({
+    tools: Array.from(exposed.values()).map((entry) => entry.definition),
+  }));
+
+  server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
+    const entry = exposed.get(request.params.name);
+    if (!entry) {
+      return {
+        content: [
+          { type: "text", text: `Unknown tool "${request.params.name}"` },
+        ],
+        isError: true,
+      };
+    }
+
+    const args = request.params.arguments ?? {};
+    const rawInput = entry.wrapsInput ? args["input"] : args;
+    const parsed = entry.tool.schema
+      ? entry.tool.schema.safeParse(rawInput)
+      : { success: true as const, data: rawInput };
+    if (!parsed.success) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Invalid input for "${entry.tool.name}": ${parsed.error.message}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    const result =
+      entry.tool === agentTool
+        ? await entry.tool.execute(parsed.data, {
+            agentContext: new AgentContext({ agentName: agent.name }),
+            signal: extra.signal,
+          })
+        : await agent.callTool(entry.tool.name, parsed.data, {
+            signal: extra.signal,
+          });
+    return toCallToolResult(entry, result);
+  });
+
+  return server;
+}
+
+const LOOPBACK_HOSTS = ["127.0.0.1", "localhost", "[::1]"];
+const WILDCARD_HOSTS = ["0.0.0.0", "[::]"];
+
+const hostName = (host: string): string =>
+  host.includes(":") ? `[${host}]` : host;
+
+/**
+ * Host header values naming the server, derived from the address it is bound to
+ */
+const defaultAllowedHosts = (host: string, port: number): string[] => {
+  const name = hostName(host);
+  const names = LOOPBACK_HOSTS.includes(name) ? LOOPBACK_HOSTS : [name];
+  return names.map((allowed) => `${allowed}:${port}`);
+};
+
+const serveStreamableHttp = async <TInput, TOutput>(
+  agent: BaseAgent<TInput, TOutput>,
+  options: ServeAgentAsMcpOptions,
+): Promise<MCPAgentServer> => {
+  const endpoint = options.path ?? "/mcp";
+  const bindHost = options.host ?? "127.0.0.1";
+  const logger = options.logger ?? getDefaultLogger();
+  // Known once the server listens, before any request is handled
+  let allowedHosts: string[] = [];
+  let allowedOrigins: string[] = [];
+  const protect = options.dnsRebindingProtection !== false;
+  if (
+    protect &&
+    !options.allowedHosts &&
+    WILDCARD_HOSTS.includes(hostName(bindHost))
+  ) {
+    throw new Error(
+      `Set allowedHosts, or disable dnsRebindingProtection, to serve on all interfaces (${bindHost})`,
+    );
+  }
+
+  // Stateless mode: every request gets its own server and transport
+  const httpServer: HttpServer = createServer((request, response) => {
+    const { pathname } = new URL(request.url ?? "/", "http://localhost");
+    if (pathname !== endpoint) {
+      response.writeHead(404).end();
+      return;
+    }
+
+    const server = createMCPAgentServer(agent, options);
+    const transport = new StreamableHTTPServerTransport({
+      enableJsonResponse: true,
+      ...(protect && {
+        enableDnsRebindingProtection: true,
+        allowedHosts,
+        allowedOrigins,
+      }),
+    });
+    response.on("close", () => {
+      // Clients may disconnect mid-request; closing must never crash the host
+      const logCloseError = (error: unknown) =>
+        logger.warn("Failed to close MCP request server", {
+          error: error instanceof Error ? error.message : String(error),
+        });
+      transport.close().catch(logCloseError);
+      server.close().catch(logCloseError);
+    });
+
+    server
+      .connect(transport as Transport)
+      .then(() => transport.handleRequest(request, response))
+      .catch((error: unknown) => {
+        if (!response.headersSent) {
+          response.writeHead(500, { "Content-Type": "text/plain" });
+        }
+        response.end(error instanceof Error ? error.message : String(error));
+      });
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once("error", reject);
+    httpServer.listen(options.port ?? 3000, bindHost, () => {
+      httpServer.off("error", reject);
+      resolve();
+    });
+  });
+
+  const address = httpServer.address() as AddressInfo;
+  const host =
+    address.family === "IPv6" ? `[${address.address}]` : address.address;
+
+  if (protect) {
+    allowedHosts =
+      options.allowedHosts ?? defaultAllowedHosts(bindHost, address.port);
+    allowedOrigins =
+      options.allowedOrigins ??
+      allowedHosts.map((allowedHost) => `http://${allowedHost}`);
+  }
+
+  return {
+    url: `http://${host}:${address.port}${endpoint}`,
+    close: () =>
+      new Promise<void>((resolve, reject) => {
+        httpServer.closeAllConnections();
+        httpServer.close((error) => (error ? reject(error) : resolve()));
+      }),
+  };
+};
+
+/**
+ * Serve an agent as an MCP server, so MCP clients can call it as a tool.
+ * The agent's input and output schemas are published as JSON Schema.
+ *
+ * @param agent - Agent to serve
+ * @param options - Transport, tool exposure and listening options
+ * @returns Handle with the endpoint URL (streamable HTTP) and `close()`
+ */
+export async function serveAgentAsMcp<TInput, TOutput>(
+  agent: BaseAgent<TInput, TOutput>,
+  options: ServeAgentAsMcpOptions,
+): Promise<MCPAgentServer> {
+  if (options.transport === "streamable-http") {
+    return serveStreamableHttp(agent, options);
+  }
+
+  const server = createMCPAgentServer(agent, options);
+  await server.connect(
+    new StdioServerTransport(
+      options.stdin ?? process.stdin,
+      options.stdout ?? process.stdout,
+    ),
+  );
+
+  return { close: () => server.close() };
+}
@@ -0,0 +1,307 @@
+import {
+  listOpenApiOperations,
+  loadOpenApiDocument,
+  type OpenApiDocument,
+  type OpenApiOperation,
+} from "./spec";
+import {
+  ToolResultFactory,
+  type MaybePromise,
+  type Tool,
+  type ToolExecutionContext,
+  type ToolProvider,
+} from "../base/tool";
+import { matchesToolPattern } from "../utils/concurrency";
+
+/**
+ * Options for {@link OpenApiToolProvider}
+ */
+export interface OpenApiToolsOptions {
+  /**
+   * Server URL requests are sent to (default: the first `servers` entry of the document)
+   */
+  baseUrl?: string;
+
+  /**
+   * Headers sent with every request, e.g. authorization. A function is called
+   * for each request, so short-lived tokens can be refreshed.
+   */
+  headers?:
+    | Record<string, string>
+    | ((operation: OpenApiOperation) => MaybePromise<Record<string, string>>);
+
+  /**
+   * Only create tools for operations matching one of these patterns. Patterns
+   * match the operation id or `METHOD /path`, where `*` matches any characters
+   * (e.g. `listPets`, `GET /pets/*`).
+   */
+  include?: string[];
+
+  /**
+   * Skip operations matching one of these patterns (applied after `include`)
+   */
+  exclude?: string[];
+
+  /**
+   * Prefix added to tool names as `prefix:operationId`
+   */
+  namePrefix?: string;
+
+  /**
+   * Custom fetch implementation (defaults to the global fetch)
+   */
+  fetch?: typeof fetch;
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const serializeValue = (value: unknown): string =>
+  typeof value === "string" ? value : JSON.stringify(value);
+
+const matchesOperation = (
+  patterns: ReadonlyArray<string>,
+  operation: OpenApiOperation,
+): boolean => {
+  const route = `${operation.method.toUpperCase()} ${operation.path}`;
+  return patterns.some(
+    (pattern) =>
+      matchesToolPattern(pattern, operation.operationId) ||
+      matchesToolPattern(pattern, route),
+  );
+};
+
+/**
+ * Encode the request body for the operation's media type
+ */
+const encodeBody = (contentType: string, body: unknown): string => {
+  if (contentType === "application/x-www-form-urlencoded" && isRecord(body)) {
+    return new URLSearchParams(
+      Object.entries(body).map(([key, value]) => [key, serializeValue(value)]),
+    ).toString();
+  }
+  return /[/+]json\b/.test(contentType)
+    ? JSON.stringify(body)
+    : serializeValue(body);
+};
+
+/**
+ * Build the URL, headers and body of a request from the tool input
+ */
+const buildRequest = (
+  operation: OpenApiOperation,
+  baseUrl: string,
+  input: Record<string, unknown>,
+): { url: string; headers: Record<string, string>; body?: string } => {
+  let path = operation.path;
+  const query = new URLSearchParams();
+  const headers: Record<string, string> = {};
+  const cookies: string[] = [];
+  let body: string | undefined;
+
+  for (const arg of operation.arguments) {
+    const value = input[arg.argument];
+    if (value === undefined || value === null) {
+      if (arg.required) {
+        throw new Error(`Missing required ${arg.in} parameter "${arg.name}"`);
+      }
+      continue;
+    }
+
+    switch (arg.in) {
+      case "path": {
+        const segment = serializeValue(value);
+        // URL normalization would turn these into another operation's path
+        if (segment === "." || segment === "..") {
+          throw new Error(
+            `Path parameter "${arg.name}" cannot be "${segment}"`,
+          );
+        }
+        path = path.replace(`{${arg.name}}`, encodeURIComponent(segment));
+        break;
+      }
+      case "query":
+        for (const entry of Array.isArray(value) ? value : [value]) {
+          query.append(arg.name, serializeValue(entry));
+        }
+        break;
+      case "header":
+        headers[arg.name] = serializeValue(value);
+        break;
+      case "cookie":
+        cookies.push(
+          `${arg.name}=${encodeURIComponent(serializeValue(value))}`,
+        );
+        break;
+      case "body":
+        headers["Content-Type"] = operation.bodyContentType!;
+        body = encodeBody(operation.bodyContentType!, value);
+        break;
+    }
+  }
+
+  if (cookies.length > 0) {
+    headers["Cookie"] = cookies.join("; ");
+  }
+  const search = query.toString();
+
+  return {
+    url: `${baseUrl.replace(/\/+$/, "")}${path}${search ? `?${search}` : ""}`,
+    headers,
+    ...(body !== undefined && { body }),
+  };
+};
+
+/**
+ * Parse a response body as JSON when the server says it is JSON, otherwise
+ * return the text (null for an empty body)
+ */
+const readResponseBody = async (response: Response): Promise<unknown> => {
+  const text = await response.text();
+  if (text === "") {
+    return null;
+  }
+  if (/[/+]json\b/.test(response.headers.get("content-type") ?? "")) {
+    try {
+      return JSON.parse(text) as unknown;
+    } catch {
+      return text;
+    }
+  }
+  return text;
+};
+
+/**
+ * {@link ToolProvider} creating one tool per operation of an OpenAPI 3.x document.
+ *
+ * Tool parameters are the operation's parameters plus `body` for the request
+ * body, exposed as JSON Schema in `metadata.parameters` like MCP tools.
+ */
+export class OpenApiToolProvider implements ToolProvider {
+  private readonly spec: string | OpenApiDocument;
+  private readonly options: OpenApiToolsOptions;
+
+  constructor(
+    spec: string | OpenApiDocument,
+    options: OpenApiToolsOptions = {},
+  ) {
+    this.spec = spec;
+    this.options = options;
+  }
+
+  async setup(): Promise<Array<Tool<unknown, unknown>>> {
+    const document = await loadOpenApiDocument(this.spec);
+
+    const baseUrl = this.options.baseUrl ?? document.servers?.[0]?.url;
+    if (!baseUrl || !/^https?:\/\//.test(baseUrl)) {
+      throw new Error(
+        `OpenAPI document "${document.info?.title ?? "untitled"}" has no absolute server URL; pass the baseUrl option`,
+      );
+    }
+
+    const { include, exclude } = this.options;
+    return listOpenApiOperations(document)
+      .filter(
+        (operation) =>
+          (!include || matchesOperation(include, operation)) &&
+          !(exclude && matchesOperation(exclude, operation)),
+      )
+      .map((operation) => this.wrapOperation(operation, baseUrl));
+  }
+
+  async teardown(): Promise<void> {}
+
+  private wrapOperation(
+    operation: OpenApiOperation,
+    baseUrl: string,
+  ): Tool<unknown, unknown> {
+    const method = operation.method.toUpperCase();
+    const toolName = this.options.namePrefix
+      ? `${this.options.namePrefix}:${operation.operationId}`
+      : operation.operationId;
+    const metadata = {
+      provider: "openapi",
+      operationId: operation.operationId,
+      method,
+      path: operation.path,
+    };
+
+    return {
+      name: toolName,
+      description:
+        [operation.summary, operation.description]
+          .filter(Boolean)
+          .join("\n\n") || `${method} ${operation.path}`,
+      metadata: { ...metadata, parameters: operation.inputSchema },
+      execute: async (input: unknown, context: ToolExecutionContext) => {
+        const startedAt = Date.now();
+
+        try {
+          const request = buildRequest(
+            operation,
+            baseUrl,
+            isRecord(input) ? input : {},
+          );
+          const extraHeaders =
+            typeof this.options.headers === "function"
+              ? await this.options.headers(operation)
+              : this.options.headers;
+
+          const fetchImpl = this.options.fetch ?? fetch;
+          const response = await fetchImpl(request.url, {
+            method,
+            headers: {
+              Accept: "application/json",
+              ...request.headers,
+              ...extraHeaders,
+            },
+            ...(request.body !== undefined && { body: request.body }),
+            ...(context.signal && { signal: context.signal }),
+          });
+          const output = await readResponseBody(response);
+
+          if (!response.ok) {
+            const detail = output === null ? "" : serializeValue(output);
+            return ToolResultFactory.failure(
+              toolName,
+              new Error(
+                `${method} ${operation.path} failed with status ${response.status}${detail ? `: ${detail}` : ""}`,
+              ),
+              {
+                metadata: { ...metadata, status: response.status },
+                startedAt,
+                finishedAt: Date.now(),
+              },
+            );
+          }
+
+          return ToolResultFactory.success(toolName, output, {
+            metadata: { ...metadata, status: response.status },
+            startedAt,
+            finishedAt: Date.now(),
+          });
+        } catch (error) {
+          const failure =
+            error instanceof Error ? error : new Error(String(error));
+          return ToolResultFactory.failure(toolName, failure, {
+            metadata,
+            startedAt,
+            finishedAt: Date.now(),
+          });
+        }
+      },
+    };
+  }
+}
+
+/**
+ * Create a tool provider for the operations of an OpenAPI 3.x document
+ *
+ * @param spec - Path to a JSON document, or the parsed document
+ * @param options - Base URL, headers, operation filters and fetch implementation
+ * @returns Tool provider to pass in an agent's `tools`
+ */
+export const openApiTools = (
+  spec: string | OpenApiDocument,
+  options: OpenApiToolsOptions = {},
+): OpenApiToolProvider => new OpenApiToolProvider(spec, options);
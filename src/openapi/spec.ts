@@ -0,0 +1,306 @@
+import { promises as fs } from "node:fs";
+
+/**
+ * HTTP methods that can hold an operation in an OpenAPI path item
+ */
+export const OPENAPI_HTTP_METHODS = [
+  "get",
+  "put",
+  "post",
+  "delete",
+  "options",
+  "head",
+  "patch",
+  "trace",
+] as const;
+
+export type OpenApiHttpMethod = (typeof OPENAPI_HTTP_METHODS)[number];
+
+/**
+ * JSON Schema object as found in an OpenAPI document
+ */
+export type OpenApiSchema = Record<string, unknown>;
+
+export interface OpenApiParameterObject {
+  name: string;
+  in: "path" | "query" | "header" | "cookie";
+  description?: string;
+  required?: boolean;
+  schema?: OpenApiSchema;
+}
+
+export interface OpenApiRequestBodyObject {
+  description?: string;
+  required?: boolean;
+  content?: Record<string, { schema?: OpenApiSchema }>;
+}
+
+export interface OpenApiOperationObject {
+  operationId?: string;
+  summary?: string;
+  description?: string;
+  tags?: string[];
+  deprecated?: boolean;
+  parameters?: Array<OpenApiParameterObject | { $ref: string }>;
+  requestBody?: OpenApiRequestBodyObject | { $ref: string };
+}
+
+export type OpenApiPathItem = Partial<
+  Record<OpenApiHttpMethod, OpenApiOperationObject>
+> & {
+  parameters?: Array<OpenApiParameterObject | { $ref: string }>;
+};
+
+/**
+ * The parts of an OpenAPI 3.x document used to generate tools
+ */
+export interface OpenApiDocument {
+  openapi: string;
+  info?: { title?: string; version?: string; description?: string };
+  servers?: Array<{ url: string; description?: string }>;
+  paths?: Record<string, OpenApiPathItem>;
+  components?: Record<string, Record<string, unknown>>;
+}
+
+/**
+ * Where a tool argument is sent in the HTTP request
+ */
+export interface OpenApiArgument {
+  /**
+   * Property name in the tool input
+   */
+  argument: string;
+  name: string;
+  in: OpenApiParameterObject["in"] | "body";
+  required: boolean;
+}
+
+/**
+ * One operation of a document, with references resolved
+ */
+export interface OpenApiOperation {
+  operationId: string;
+  method: OpenApiHttpMethod;
+  path: string;
+  summary?: string;
+  description?: string;
+  tags: string[];
+  /**
+   * JSON Schema of the tool input: one property per parameter, plus `body`
+   * for the request body
+   */
+  inputSchema: OpenApiSchema;
+  arguments: OpenApiArgument[];
+  /**
+   * Media type of the request body, if the operation has one
+   */
+  bodyContentType?: string;
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+/**
+ * Load an OpenAPI 3.x document from a JSON file, or validate one already in memory
+ *
+ * @param source - Path to a JSON document, or the parsed document
+ * @returns The document
+ */
+export async function loadOpenApiDocument(
+  source: string | OpenApiDocument,
+): Promise<OpenApiDocument> {
+  const document: unknown =
+    typeof source === "string"
+      ? JSON.parse(await fs.readFile(source, "utf8"))
+      : source;
+
+  if (
+    !isRecord(document) ||
+    typeof document["openapi"] !== "string" ||
+    !document["openapi"].startsWith("3.")
+  ) {
+    throw new Error(
+      `Unsupported OpenAPI document: expected an "openapi" version 3.x, got ${
+        isRecord(document) ? JSON.stringify(document["openapi"]) : "no object"
+      }`,
+    );
+  }
+
+  return document as unknown as OpenApiDocument;
+}
+
+/**
+ * Resolve local `$ref`s (`#/components/...`) recursively. A schema referring
+ * to itself is replaced by an empty schema where the cycle closes.
+ */
+const resolveRefs = (
+  document: OpenApiDocument,
+  value: unknown,
+  seen: ReadonlySet<string> = new Set(),
+): unknown => {
+  if (Array.isArray(value)) {
+    return value.map((entry) => resolveRefs(document, entry, seen));
+  }
+  if (!isRecord(value)) {
+    return value;
+  }
+
+  const ref = value["$ref"];
+  if (typeof ref === "string") {
+    if (seen.has(ref)) {
+      return {};
+    }
+    if (!ref.startsWith("#/")) {
+      throw new Error(`Only local $ref values are supported, got "${ref}"`);
+    }
+
+    let target: unknown = document;
+    for (const segment of ref.slice(2).split("/")) {
+      const key = segment.replace(/~1/g, "/").replace(/~0/g, "~");
+      target = isRecord(target) ? target[key] : undefined;
+    }
+    if (target === undefined) {
+      throw new Error(`Unresolvable $ref "${ref}"`);
+    }
+    return resolveRefs(document, target, new Set([...seen, ref]));
+  }
+
+  return Object.fromEntries(
+    Object.entries(value).map(([key, entry]) => [
+      key,
+      resolveRefs(document, entry, seen),
+    ]),
+  );
+};
+
+/**
+ * Operation id used when the document does not define one, e.g. `get_pets_petId`
+ */
+const fallbackOperationId = (method: string, path: string): string =>
+  `${method}_${path
+    .replace(/[{}]/g, "")
+    .split("/")
+    .filter(Boolean)
+    .join("_")
+    .replace(/[^a-zA-Z0-9_]/g, "_")}`;
+
+const pickContentType = (
+  content: Record<string, { schema?: OpenApiSchema }>,
+): string | undefined => {
+  const types = Object.keys(content);
+  return (
+    types.find((type) => type === "application/json") ??
+    types.find((type) => /[/+]json\b/.test(type)) ??
+    types[0]
+  );
+};
+
+const buildOperation = (
+  document: OpenApiDocument,
+  method: OpenApiHttpMethod,
+  path: string,
+  pathItem: OpenApiPathItem,
+  operation: OpenApiOperationObject,
+): OpenApiOperation => {
+  // Operation parameters override path-level parameters with the same name and location
+  const byLocation = new Map<string, OpenApiParameterObject>();
+  for (const parameter of [
+    ...(pathItem.parameters ?? []),
+    ...(operation.parameters ?? []),
+  ]) {
+    const resolved = resolveRefs(document, parameter) as OpenApiParameterObject;
+    byLocation.set(`${resolved.in}:${resolved.name}`, resolved);
+  }
+  const parameters = [...byLocation.values()];
+
+  const properties: Record<string, OpenApiSchema> = {};
+  const required: string[] = [];
+  const args: OpenApiArgument[] = [];
+
+  for (const parameter of parameters) {
+    // Parameters sharing a name across locations are told apart by prefix
+    const argument =
+      parameters.filter((other) => other.name === parameter.name).length > 1
+        ? `${parameter.in}_${parameter.name}`
+        : parameter.name;
+    const isRequired = parameter.in === "path" || parameter.required === true;
+
+    properties[argument] = {
+      ...(parameter.schema ?? { type: "string" }),
+      ...(parameter.description && { description: parameter.description }),
+    };
+    if (isRequired) {
+      required.push(argument);
+    }
+    args.push({
+      argument,
+      name: parameter.name,
+      in: parameter.in,
+      required: isRequired,
+    });
+  }
+
+  const requestBody = operation.requestBody
+    ? (resolveRefs(document, operation.requestBody) as OpenApiRequestBodyObject)
+    : undefined;
+  const bodyContentType = requestBody?.content
+    ? pickContentType(requestBody.content)
+    : undefined;
+  if (requestBody && bodyContentType) {
+    const schema = requestBody.content?.[bodyContentType]?.schema ?? {};
+    properties["body"] = {
+      ...schema,
+      ...(requestBody.description && { description: requestBody.description }),
+    };
+    if (requestBody.required) {
+      required.push("body");
+    }
+    args.push({
+      argument: "body",
+      name: "body",
+      in: "body",
+      required: requestBody.required === true,
+    });
+  }
+
+  return {
+    operationId: operation.operationId ?? fallbackOperationId(method, path),
+    method,
+    path,
+    ...(operation.summary && { summary: operation.summary }),
+    ...(operation.description && { description: operation.description }),
+    tags: operation.tags ?? [],
+    inputSchema: {
+      type: "object",
+      properties,
+      ...(required.length > 0 && { required }),
+    },
+    arguments: args,
+    ...(bodyContentType && { bodyContentType }),
+  };
+};
+
+/**
+ * List every operation of a document in path order
+ *
+ * @param document - OpenAPI 3.x document
+ * @returns Operations with input schemas built from their parameters and request body
+ */
+export function listOpenApiOperations(
+  document: OpenApiDocument,
+): OpenApiOperation[] {
+  const operations: OpenApiOperation[] = [];
+
+  for (const [path, pathItem] of Object.entries(document.paths ?? {})) {
+    for (const method of OPENAPI_HTTP_METHODS) {
+      const operation = pathItem[method];
+      if (operation) {
+        operations.push(
+          buildOperation(document, method, path, pathItem, operation),
+        );
+      }
+    }
+  }
+
+  return operations;
+}
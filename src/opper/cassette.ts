@@ -0,0 +1,430 @@
+import { createHash } from "node:crypto";
+import { promises as fs } from "node:fs";
+import path from "node:path";
+import type { ZodTypeAny } from "zod";
+import { z } from "zod";
+
+import type {
+  CreateSpanOptions,
+  LlmCallOptions,
+  LlmCallResponse,
+  LlmProvider,
+  LlmStreamEvent,
+  LlmStreamResponse,
+  TraceSpan,
+  Tracer,
+  UpdateSpanOptions,
+} from "../llm/provider";
+import { zodSchemaToJsonSchema } from "../utils/schema-utils";
+
+/**
+ * Operation captured in a cassette
+ */
+export const CassetteOperationSchema = z.enum([
+  "call",
+  "stream",
+  "createSpan",
+  "updateSpan",
+]);
+
+export type CassetteOperation = z.infer<typeof CassetteOperationSchema>;
+
+/**
+ * One recorded request and its outcome
+ */
+export const CassetteEntrySchema = z.object({
+  /**
+   * Hash of the operation and normalized request
+   */
+  key: z.string(),
+  operation: CassetteOperationSchema,
+  request: z.unknown(),
+  /**
+   * Call response, created span, or stream headers
+   */
+  response: z.unknown().optional(),
+  /**
+   * Stream events in the order they were received
+   */
+  events: z.array(z.unknown()).optional(),
+  /**
+   * Error message when the request failed, or when a stream failed or was
+   * abandoned after the recorded events
+   */
+  error: z.string().optional(),
+});
+
+export type CassetteEntry = z.infer<typeof CassetteEntrySchema>;
+
+export const CassetteSchema = z.object({
+  version: z.literal(1),
+  entries: z.array(CassetteEntrySchema),
+});
+
+export type Cassette = z.infer<typeof CassetteSchema>;
+
+/**
+ * Thrown by {@link ReplayOpperClient} when a request was never recorded
+ */
+export class CassetteMismatchError extends Error {
+  public readonly operation: CassetteOperation;
+
+  public readonly key: string;
+
+  public readonly request: unknown;
+
+  constructor(operation: CassetteOperation, key: string, request: unknown) {
+    super(
+      `No recorded ${operation} matches request ${key}: ${JSON.stringify(request).slice(0, 500)}`,
+    );
+    this.name = "CassetteMismatchError";
+    this.operation = operation;
+    this.key = key;
+    this.request = request;
+  }
+}
+
+const isZodSchema = (value: unknown): value is ZodTypeAny =>
+  typeof value === "object" &&
+  value !== null &&
+  "_def" in (value as Record<string, unknown>) &&
+  typeof (value as { parse?: unknown }).parse === "function";
+
+/**
+ * Recursively sort object keys so equal requests serialize identically
+ */
+const canonicalize = (value: unknown): unknown => {
+  if (Array.isArray(value)) {
+    return value.map(canonicalize);
+  }
+  if (typeof value === "object" && value !== null) {
+    return Object.fromEntries(
+      Object.entries(value as Record<string, unknown>)
+        .filter(([, entry]) => entry !== undefined)
+        .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+        .map(([key, entry]) => [key, canonicalize(entry)]),
+    );
+  }
+  return value;
+};
+
+const toJsonSchema = (
+  schema: LlmCallOptions["inputSchema"],
+): Record<string, unknown> | undefined =>
+  schema === undefined
+    ? undefined
+    : isZodSchema(schema)
+      ? zodSchemaToJsonSchema(schema)
+      : (schema as Record<string, unknown>);
+
+/**
+ * Normalize a call or stream request: schemas become JSON Schema and the abort signal is dropped
+ */
+const normalizeCallRequest = (
+  options: LlmCallOptions<unknown, unknown>,
+): unknown =>
+  canonicalize(
+    JSON.parse(
+      JSON.stringify({
+        name: options.name,
+        instructions: options.instructions,
+        input: options.input,
+        inputSchema: toJsonSchema(options.inputSchema),
+        outputSchema: toJsonSchema(options.outputSchema),
+        model: options.model,
+        parentSpanId: options.parentSpanId,
+      }),
+    ),
+  );
+
+/**
+ * Normalize a span update. Timings and metadata differ on every run and are left out of the key.
+ */
+const normalizeSpanUpdate = (
+  spanId: string,
+  output: unknown,
+  options?: UpdateSpanOptions,
+): unknown =>
+  canonicalize(
+    JSON.parse(
+      JSON.stringify({
+        spanId,
+        output,
+        name: options?.name,
+        error: options?.error,
+      }),
+    ) ?? null,
+  );
+
+/**
+ * Key identifying a normalized request within a cassette
+ *
+ * @param operation - Recorded operation
+ * @param request - Normalized request
+ * @returns Hex SHA-256 hash
+ */
+export function cassetteKey(
+  operation: CassetteOperation,
+  request: unknown,
+): string {
+  return createHash("sha256")
+    .update(JSON.stringify([operation, request]))
+    .digest("hex");
+}
+
+const errorMessage = (error: unknown): string =>
+  error instanceof Error ? error.message : String(error);
+
+/**
+ * {@link LlmProvider} and {@link Tracer} that forwards to a real client (usually
+ * an {@link OpperClient}) and records every request and response to a cassette.
+ * Replay the cassette offline with {@link ReplayOpperClient}.
+ */
+export class RecordingOpperClient implements LlmProvider, Tracer {
+  private readonly client: LlmProvider & Tracer;
+
+  private readonly recorded: CassetteEntry[] = [];
+
+  constructor(client: LlmProvider & Tracer) {
+    this.client = client;
+  }
+
+  /**
+   * Everything recorded so far, in completion order
+   */
+  public toCassette(): Cassette {
+    return { version: 1, entries: [...this.recorded] };
+  }
+
+  /**
+   * Write the cassette as JSON, creating parent directories as needed
+   *
+   * @param filePath - Cassette file path
+   */
+  public async save(filePath: string): Promise<void> {
+    await fs.mkdir(path.dirname(path.resolve(filePath)), { recursive: true });
+    await fs.writeFile(
+      filePath,
+      `${JSON.stringify(this.toCassette(), null, 2)}\n`,
+      "utf8",
+    );
+  }
+
+  public async call<TInput = unknown, TOutput = unknown>(
+    options: LlmCallOptions<TInput, TOutput>,
+  ): Promise<LlmCallResponse<TOutput>> {
+    const request = normalizeCallRequest(options);
+    return this.capture("call", request, () => this.client.call(options));
+  }
+
+  public async stream<TInput = unknown, TOutput = unknown>(
+    options: LlmCallOptions<TInput, TOutput>,
+  ): Promise<LlmStreamResponse> {
+    if (!this.client.stream) {
+      throw new Error("The recorded client does not support streaming");
+    }
+
+    const request = normalizeCallRequest(options);
+    const key = cassetteKey("stream", request);
+    let response: LlmStreamResponse;
+    try {
+      response = await this.client.stream(options);
+    } catch (error) {
+      this.recorded.push({
+        key,
+        operation: "stream",
+        request,
+        error: errorMessage(error),
+      });
+      throw error;
+    }
+
+    const recorded = this.recorded;
+    const events: LlmStreamEvent[] = [];
+    return {
+      headers: response.headers,
+      result: {
+        async *[Symbol.asyncIterator]() {
+          let completed = false;
+          let failure: unknown;
+          try {
+            for await (const event of response.result) {
+              events.push(event);
+              yield event;
+            }
+            completed = true;
+          } catch (error) {
+            failure = error;
+            throw error;
+          } finally {
+            // Failed and abandoned streams are recorded with the events seen so far
+            recorded.push({
+              key,
+              operation: "stream",
+              request,
+              response: { headers: response.headers },
+              events,
+              ...(!completed && {
+                error:
+                  failure === undefined
+                    ? "Stream was not consumed to the end"
+                    : errorMessage(failure),
+              }),
+            });
+          }
+        },
+      },
+    };
+  }
+
+  public async createSpan(options: CreateSpanOptions): Promise<TraceSpan> {
+    const request = canonicalize(JSON.parse(JSON.stringify(options)));
+    return this.capture("createSpan", request, () =>
+      this.client.createSpan(options),
+    );
+  }
+
+  public async updateSpan(
+    spanId: string,
+    output: unknown,
+    options?: UpdateSpanOptions,
+  ): Promise<void> {
+    const request = normalizeSpanUpdate(spanId, output, options);
+    await this.capture("updateSpan", request, () =>
+      this.client.updateSpan(spanId, output, options),
+    );
+  }
+
+  private async capture<T>(
+    operation: CassetteOperation,
+    request: unknown,
+    execute: () => Promise<T>,
+  ): Promise<T> {
+    const key = cassetteKey(operation, request);
+    try {
+      const response = await execute();
+      this.recorded.push({
+        key,
+        operation,
+        request,
+        ...(response !== undefined && {
+          response: JSON.parse(JSON.stringify(response)) as unknown,
+        }),
+      });
+      return response;
+    } catch (error) {
+      this.recorded.push({
+        key,
+        operation,
+        request,
+        error: errorMessage(error),
+      });
+      throw error;
+    }
+  }
+}
+
+/**
+ * Offline {@link LlmProvider} and {@link Tracer} serving responses from a cassette
+ * recorded by {@link RecordingOpperClient}.
+ *
+ * Requests are matched by the hash of their normalized form; repeated identical
+ * requests are served in recording order. Unmatched requests throw
+ * {@link CassetteMismatchError}.
+ */
+export class ReplayOpperClient implements LlmProvider, Tracer {
+  private readonly entries = new Map<string, CassetteEntry[]>();
+
+  constructor(cassette: Cassette) {
+    for (const entry of CassetteSchema.parse(cassette).entries) {
+      const queue = this.entries.get(entry.key) ?? [];
+      queue.push(entry);
+      this.entries.set(entry.key, queue);
+    }
+  }
+
+  /**
+   * Load a cassette written by {@link RecordingOpperClient.save}
+   *
+   * @param filePath - Cassette file path
+   * @returns Replay client for the cassette
+   */
+  public static async fromFile(filePath: string): Promise<ReplayOpperClient> {
+    const contents = await fs.readFile(filePath, "utf8");
+    return new ReplayOpperClient(CassetteSchema.parse(JSON.parse(contents)));
+  }
+
+  /**
+   * Number of recorded entries not replayed yet
+   */
+  public get remaining(): number {
+    let count = 0;
+    for (const queue of this.entries.values()) {
+      count += queue.length;
+    }
+    return count;
+  }
+
+  public async call<TInput = unknown, TOutput = unknown>(
+    options: LlmCallOptions<TInput, TOutput>,
+  ): Promise<LlmCallResponse<TOutput>> {
+    const entry = this.take("call", normalizeCallRequest(options));
+    return entry.response as LlmCallResponse<TOutput>;
+  }
+
+  public async stream<TInput = unknown, TOutput = unknown>(
+    options: LlmCallOptions<TInput, TOutput>,
+  ): Promise<LlmStreamResponse> {
+    const entry = this.take("stream", normalizeCallRequest(options));
+    const events = (entry.events ?? []) as LlmStreamEvent[];
+    const { headers } = (entry.response ?? {}) as {
+      headers?: Record<string, string[]>;
+    };
+
+    const { error } = entry;
+
+    return {
+      headers: headers ?? {},
+      result: {
+        async *[Symbol.asyncIterator]() {
+          for (const event of events) {
+            yield event;
+          }
+          // The recorded stream failed or was abandoned after these events
+          if (error !== undefined) {
+            throw new Error(error);
+          }
+        },
+      },
+    };
+  }
+
+  public async createSpan(options: CreateSpanOptions): Promise<TraceSpan> {
+    const entry = this.take(
+      "createSpan",
+      canonicalize(JSON.parse(JSON.stringify(options))),
+    );
+    return entry.response as TraceSpan;
+  }
+
+  public async updateSpan(
+    spanId: string,
+    output: unknown,
+    options?: UpdateSpanOptions,
+  ): Promise<void> {
+    this.take("updateSpan", normalizeSpanUpdate(spanId, output, options));
+  }
+
+  private take(operation: CassetteOperation, request: unknown): CassetteEntry {
+    const key = cassetteKey(operation, request);
+    const entry = this.entries.get(key)?.shift();
+    if (!entry) {
+      throw new CassetteMismatchError(operation, key, request);
+    }
+    // Streams that failed part-way have a response and fail while replaying
+    if (entry.error !== undefined && entry.response === undefined) {
+      throw new Error(entry.error);
+    }
+    return entry;
+  }
+}
@@ -1,7 +1,18 @@
 import { Opper } from "opperai";
-import type { z } from "zod";
 import type { ZodTypeAny } from "zod";
 
+import type {
+  CreateSpanOptions,
+  LlmCallOptions,
+  LlmCallResponse,
+  LlmProvider,
+  LlmStreamChunk,
+  LlmStreamEvent,
+  LlmStreamResponse,
+  TraceSpan,
+  Tracer,
+  UpdateSpanOptions,
+} from "../llm/provider";
 import type { AgentLogger } from "../utils/logger";
 import { getDefaultLogger } from "../utils/logger";
 import { zodSchemaToJsonSchema } from "../utils/schema-utils";
@@ -11,30 +22,17 @@ type OpperCallResult = Awaited<ReturnType<Opper["call"]>>;
 /**
  * Streaming chunk payload from Opper SSE responses.
  */
-export interface OpperStreamChunk {
-  delta?: string | number | boolean | null | undefined;
-  jsonPath?: string | null | undefined;
-  spanId?: string | null | undefined;
-  chunkType?: string | null | undefined;
-}
+export type OpperStreamChunk = LlmStreamChunk;
 
 /**
  * Server-sent event emitted during streaming calls.
  */
-export interface OpperStreamEvent {
-  id?: string;
-  event?: string;
-  retry?: number;
-  data?: OpperStreamChunk;
-}
+export type OpperStreamEvent = LlmStreamEvent;
 
 /**
  * Structured response returned by Opper stream endpoints.
  */
-export interface OpperStreamResponse {
-  headers: Record<string, string[]>;
-  result: AsyncIterable<OpperStreamEvent>;
-}
+export type OpperStreamResponse = LlmStreamResponse;
 
 type TokenUsageMetrics = {
   inputTokens: number;
@@ -88,102 +86,27 @@ const extractCost = (
 /**
  * Opper call response
  */
-export interface OpperCallResponse<TOutput = unknown> {
-  /**
-   * Parsed JSON output (if outputSchema provided)
-   */
-  jsonPayload?: TOutput;
-
-  /**
-   * Text message response
-   */
-  message?: string | null | undefined;
-
+export interface OpperCallResponse<
+  TOutput = unknown,
+> extends LlmCallResponse<TOutput> {
   /**
    * Span ID for this call
    */
   spanId: string;
-
-  /**
-   * Token usage information
-   */
-  usage: {
-    inputTokens: number;
-    outputTokens: number;
-    totalTokens: number;
-    cost: {
-      generation: number;
-      platform: number;
-      total: number;
-    };
-  };
 }
 
 /**
  * Options for Opper call
  */
-export interface OpperCallOptions<TInput = unknown, TOutput = unknown> {
-  /**
-   * Unique name for this call/task
-   */
-  name: string;
-
-  /**
-   * Natural language instructions
-   */
-  instructions: string;
-
-  /**
-   * Input data for the call
-   */
-  input: TInput;
-
-  /**
-   * Input schema (Zod or JSON Schema)
-   */
-  inputSchema?: z.ZodType<TInput> | Record<string, unknown>;
-
-  /**
-   * Output schema (Zod or JSON Schema)
-   */
-  outputSchema?: z.ZodType<TOutput> | Record<string, unknown>;
-
-  /**
-   * Model to use. Accepts a single model identifier or an ordered list for fallback.
-   * Example: "anthropic/claude-3.7-sonnet" or ["openai/gpt-4o", "anthropic/claude-3.7-sonnet"].
-   */
-  model?: string | readonly string[];
-
-  /**
-   * Parent span ID for tracing
-   */
-  parentSpanId?: string;
-
-  /**
-   * Abort signal used to cancel the underlying HTTP request.
-   */
-  signal?: AbortSignal;
-}
+export type OpperCallOptions<
+  TInput = unknown,
+  TOutput = unknown,
+> = LlmCallOptions<TInput, TOutput>;
 
 /**
  * Span information
  */
-export interface OpperSpan {
-  id: string;
-  name: string;
-  input?: unknown;
-  output?: unknown;
-}
-
-/**
- * Options for creating a span
- */
-export interface CreateSpanOptions {
-  name: string;
-  input?: unknown;
-  parentSpanId?: string;
-  type?: string;
-}
+export type OpperSpan = TraceSpan;
 
 /**
  * Retry configuration
@@ -221,9 +144,10 @@ export const DEFAULT_RETRY_CONFIG: RetryConfig = {
 };
 
 /**
- * Opper client wrapper with retry logic and usage tracking
+ * Opper client wrapper with retry logic and usage tracking.
+ * Default {@link LlmProvider} and {@link Tracer} of every agent.
  */
-export class OpperClient {
+export class OpperClient implements LlmProvider, Tracer {
   private readonly client: Opper;
   private readonly logger: AgentLogger;
   private readonly retryConfig: RetryConfig;
@@ -343,6 +267,63 @@ export class OpperClient {
     }, `stream:${options.name}`);
   }
 
+  /**
+   * Look up the token usage of a finished streaming call in its trace.
+   * Opper reports only the total for streamed calls.
+   */
+  public async getStreamUsage(
+    spanId: string,
+  ): Promise<LlmCallResponse["usage"] | null> {
+    const span = await this.client.spans.get(spanId);
+    const traceId =
+      (span as { traceId?: string | null })?.traceId ??
+      (span as { trace_id?: string | null })?.trace_id;
+    if (!traceId) {
+      return null;
+    }
+
+    const trace = await this.client.traces.get(traceId);
+    const spans = (trace as { spans?: Array<Record<string, unknown>> | null })
+      ?.spans;
+    if (!Array.isArray(spans)) {
+      return null;
+    }
+
+    for (const entry of spans) {
+      const entryId =
+        (entry as { id?: string | null })?.id ??
+        ((entry as Record<string, unknown>)["id"] as string | undefined);
+      if (entryId !== spanId) {
+        continue;
+      }
+
+      const data = (entry as { data?: Record<string, unknown> | null })?.data;
+      if (!data) {
+        continue;
+      }
+
+      const primaryTotal = data["totalTokens"];
+      const fallbackTotal = data["total_tokens"];
+      const totalTokens =
+        typeof primaryTotal === "number" && Number.isFinite(primaryTotal)
+          ? primaryTotal
+          : typeof fallbackTotal === "number" && Number.isFinite(fallbackTotal)
+            ? fallbackTotal
+            : undefined;
+
+      if (totalTokens !== undefined) {
+        return {
+          inputTokens: 0,
+          outputTokens: 0,
+          totalTokens,
+          cost: { generation: 0, platform: 0, total: 0 },
+        };
+      }
+    }
+
+    return null;
+  }
+
   /**
    * Create a span for tracing
    */
@@ -369,13 +350,7 @@ export class OpperClient {
   public async updateSpan(
     spanId: string,
     output: unknown,
-    options?: {
-      error?: string;
-      startTime?: Date;
-      endTime?: Date;
-      meta?: Record<string, unknown>;
-      name?: string;
-    },
+    options?: UpdateSpanOptions,
   ): Promise<void> {
     return this.withRetry(async () => {
       // Serialize output to string if it's an object
@@ -0,0 +1,420 @@
+import type { AgentDecision } from "../core/schemas";
+import type {
+  CreateSpanOptions,
+  LlmCallOptions,
+  LlmCallResponse,
+  LlmProvider,
+  LlmStreamEvent,
+  LlmStreamResponse,
+  TraceSpan,
+  Tracer,
+  UpdateSpanOptions,
+} from "../llm/provider";
+
+/**
+ * Kind of LLM call, derived from the call name
+ */
+export type ScriptedCallKind = "think" | "final_result" | "other";
+
+/**
+ * Think decision to script. Omitted fields take the schema defaults and
+ * tool calls without an `id` get a sequential one.
+ */
+export type ScriptedDecision = Partial<Omit<AgentDecision, "toolCalls">> & {
+  toolCalls?: Array<
+    Omit<AgentDecision["toolCalls"][number], "id"> & { id?: string }
+  >;
+};
+
+/**
+ * Raw response returned for a matching call
+ */
+export interface ScriptedResponse {
+  jsonPayload?: unknown;
+  message?: string;
+  usage?: { inputTokens?: number; outputTokens?: number; cost?: number };
+  /**
+   * Reject the call with this error instead of responding
+   */
+  error?: Error | string;
+}
+
+/**
+ * A call received by {@link ScriptedLlm}, recorded for assertions
+ */
+export interface ScriptedRequest {
+  kind: ScriptedCallKind;
+  name: string;
+  instructions: string;
+  input: unknown;
+  model?: string | readonly string[];
+  parentSpanId?: string;
+  hasOutputSchema: boolean;
+  streamed: boolean;
+}
+
+/**
+ * A span created through {@link ScriptedLlm} as a tracer
+ */
+export interface ScriptedSpan extends TraceSpan {
+  parentSpanId?: string;
+  error?: string;
+}
+
+export interface ScriptedLlmOptions {
+  /**
+   * Think decisions, consumed in order by `think_*` calls
+   */
+  decisions?: ScriptedDecision[];
+
+  /**
+   * Final results, consumed in order by `generate_final_result_*` calls
+   */
+  finalResults?: unknown[];
+
+  /**
+   * Usage reported for every call that does not script its own
+   */
+  usage?: { inputTokens?: number; outputTokens?: number; cost?: number };
+
+  /**
+   * Maximum characters per streamed string chunk (default: 8)
+   */
+  chunkSize?: number;
+}
+
+type ResponseFactory = (request: ScriptedRequest) => ScriptedResponse;
+
+interface ScriptedMatcher {
+  matches: (request: ScriptedRequest) => boolean;
+  respond: ResponseFactory;
+}
+
+const DEFAULT_CHUNK_SIZE = 8;
+
+const classifyCall = (name: string): ScriptedCallKind => {
+  if (name.startsWith("think_")) {
+    return "think";
+  }
+  if (name.startsWith("generate_final_result_")) {
+    return "final_result";
+  }
+  return "other";
+};
+
+/**
+ * Deterministic {@link LlmProvider} and {@link Tracer} for agent tests.
+ *
+ * Responses are scripted up front: think decisions and final results are
+ * matched to calls by name (`think_*` and `generate_final_result_*`), and
+ * `on()` scripts any other call. Every request and span is recorded.
+ * Streaming calls replay the same responses as chunks.
+ *
+ * @example
+ * ```typescript
+ * const llm = new ScriptedLlm()
+ *   .think({ toolCalls: [{ toolName: "search", arguments: { q: "docs" } }] })
+ *   .think({ reasoning: "Done" })
+ *   .finalResult("Here is the answer");
+ *
+ * const agent = new Agent({ name: "Tested", tools: [search], llm, tracer: llm });
+ * await agent.run("question");
+ * expect(llm.requests.map((request) => request.kind)).toEqual(["think", "think", "final_result"]);
+ * ```
+ */
+export class ScriptedLlm implements LlmProvider, Tracer {
+  public readonly requests: ScriptedRequest[] = [];
+
+  public readonly spans: ScriptedSpan[] = [];
+
+  private readonly matchers: ScriptedMatcher[] = [];
+
+  private readonly queues: Record<
+    Exclude<ScriptedCallKind, "other">,
+    ResponseFactory[]
+  > = { think: [], final_result: [] };
+
+  private readonly usage: NonNullable<ScriptedLlmOptions["usage"]>;
+
+  private readonly chunkSize: number;
+
+  private toolCallCounter = 0;
+
+  private spanCounter = 0;
+
+  constructor(options: ScriptedLlmOptions = {}) {
+    this.usage = options.usage ?? {};
+    this.chunkSize = Math.max(1, options.chunkSize ?? DEFAULT_CHUNK_SIZE);
+    for (const decision of options.decisions ?? []) {
+      this.think(decision);
+    }
+    for (const result of options.finalResults ?? []) {
+      this.finalResult(result);
+    }
+  }
+
+  /**
+   * Queue the decision returned by the next think call
+   */
+  public think(
+    decision: ScriptedDecision,
+    usage?: ScriptedResponse["usage"],
+  ): this {
+    const payload = {
+      reasoning: "",
+      userMessage: "Working on it...",
+      memoryReads: [],
+      memoryUpdates: {},
+      isComplete: false,
+      ...decision,
+      toolCalls: (decision.toolCalls ?? []).map((call) => ({
+        ...call,
+        id: call.id ?? `call_${++this.toolCallCounter}`,
+      })),
+    };
+    this.queues.think.push(() => ({
+      jsonPayload: payload,
+      ...(usage && { usage }),
+    }));
+    return this;
+  }
+
+  /**
+   * Queue the result returned by the next final-result call.
+   * Returned as `jsonPayload` when the agent has an output schema, as text otherwise.
+   */
+  public finalResult(result: unknown, usage?: ScriptedResponse["usage"]): this {
+    this.queues.final_result.push((request) => ({
+      ...(request.hasOutputSchema
+        ? { jsonPayload: result }
+        : {
+            message:
+              typeof result === "string" ? result : JSON.stringify(result),
+          }),
+      ...(usage && { usage }),
+    }));
+    return this;
+  }
+
+  /**
+   * Script the response to the next call whose name matches.
+   * Matchers take precedence over queued decisions and final results and are used once.
+   *
+   * @param match - Exact call name, name pattern or predicate
+   * @param response - Response or factory receiving the request
+   */
+  public on(
+    match: string | RegExp | ((request: ScriptedRequest) => boolean),
+    response: ScriptedResponse | ResponseFactory,
+  ): this {
+    const matches =
+      typeof match === "string"
+        ? (request: ScriptedRequest) => request.name === match
+        : match instanceof RegExp
+          ? (request: ScriptedRequest) => match.test(request.name)
+          : match;
+    this.matchers.push({
+      matches,
+      respond: typeof response === "function" ? response : () => response,
+    });
+    return this;
+  }
+
+  /**
+   * Number of scripted responses not consumed yet
+   */
+  public get pending(): number {
+    return (
+      this.matchers.length +
+      this.queues.think.length +
+      this.queues.final_result.length
+    );
+  }
+
+  /**
+   * Requests of one kind, in call order
+   */
+  public requestsOf(kind: ScriptedCallKind): ScriptedRequest[] {
+    return this.requests.filter((request) => request.kind === kind);
+  }
+
+  /**
+   * Throw when scripted responses were left unused
+   */
+  public assertExhausted(): void {
+    if (this.pending > 0) {
+      throw new Error(
+        `ScriptedLlm has ${this.pending} unused scripted response(s)`,
+      );
+    }
+  }
+
+  public async call<TInput = unknown, TOutput = unknown>(
+    options: LlmCallOptions<TInput, TOutput>,
+  ): Promise<LlmCallResponse<TOutput>> {
+    const { response, spanId } = this.resolve(options, false);
+    return {
+      ...(response.jsonPayload !== undefined && {
+        jsonPayload: response.jsonPayload as TOutput,
+      }),
+      ...(response.message !== undefined && { message: response.message }),
+      spanId,
+      usage: this.toUsage(response.usage),
+    };
+  }
+
+  public async stream<TInput = unknown, TOutput = unknown>(
+    options: LlmCallOptions<TInput, TOutput>,
+  ): Promise<LlmStreamResponse> {
+    const { response, spanId } = this.resolve(options, true);
+    const events = this.toStreamEvents(response, spanId);
+
+    return {
+      headers: {},
+      result: {
+        async *[Symbol.asyncIterator]() {
+          for (const event of events) {
+            yield event;
+          }
+        },
+      },
+    };
+  }
+
+  public async createSpan(options: CreateSpanOptions): Promise<TraceSpan> {
+    const span: ScriptedSpan = {
+      id: `span_${++this.spanCounter}`,
+      name: options.name,
+      ...(options.input !== undefined && { input: options.input }),
+      ...(options.parentSpanId && { parentSpanId: options.parentSpanId }),
+    };
+    this.spans.push(span);
+    return { id: span.id, name: span.name, input: span.input };
+  }
+
+  public async updateSpan(
+    spanId: string,
+    output: unknown,
+    options?: UpdateSpanOptions,
+  ): Promise<void> {
+    const span = this.spans.find((entry) => entry.id === spanId);
+    if (!span) {
+      return;
+    }
+    if (output !== undefined) {
+      span.output = output;
+    }
+    if (options?.name) {
+      span.name = options.name;
+    }
+    if (options?.error) {
+      span.error = options.error;
+    }
+  }
+
+  private resolve(
+    options: LlmCallOptions<unknown, unknown>,
+    streamed: boolean,
+  ): { response: ScriptedResponse; spanId: string } {
+    const request: ScriptedRequest = {
+      kind: classifyCall(options.name),
+      name: options.name,
+      instructions: options.instructions,
+      input: options.input,
+      ...(options.model !== undefined && { model: options.model }),
+      ...(options.parentSpanId && { parentSpanId: options.parentSpanId }),
+      hasOutputSchema: options.outputSchema !== undefined,
+      streamed,
+    };
+    this.requests.push(request);
+
+    const matcherIndex = this.matchers.findIndex((matcher) =>
+      matcher.matches(request),
+    );
+    const factory =
+      matcherIndex >= 0
+        ? this.matchers.splice(matcherIndex, 1)[0]?.respond
+        : request.kind === "other"
+          ? undefined
+          : this.queues[request.kind].shift();
+
+    if (!factory) {
+      throw new Error(
+        `ScriptedLlm has no scripted response for call "${options.name}"`,
+      );
+    }
+
+    const response = factory(request);
+    if (response.error !== undefined) {
+      throw typeof response.error === "string"
+        ? new Error(response.error)
+        : response.error;
+    }
+
+    return { response, spanId: `llm_span_${this.requests.length}` };
+  }
+
+  private toUsage(usage: ScriptedResponse["usage"]): LlmCallResponse["usage"] {
+    const inputTokens = usage?.inputTokens ?? this.usage.inputTokens ?? 0;
+    const outputTokens = usage?.outputTokens ?? this.usage.outputTokens ?? 0;
+    const cost = usage?.cost ?? this.usage.cost ?? 0;
+    return {
+      inputTokens,
+      outputTokens,
+      totalTokens: inputTokens + outputTokens,
+      cost: { generation: cost, platform: 0, total: cost },
+    };
+  }
+
+  /**
+   * Split a response into stream events: one path per structured leaf value
+   * (strings split into chunks), or root text chunks for plain messages
+   */
+  private toStreamEvents(
+    response: ScriptedResponse,
+    spanId: string,
+  ): LlmStreamEvent[] {
+    const chunks: Array<{ delta: string | number | boolean; path?: string }> =
+      [];
+
+    const pushText = (text: string, path?: string) => {
+      for (let index = 0; index < text.length; index += this.chunkSize) {
+        chunks.push({
+          delta: text.slice(index, index + this.chunkSize),
+          ...(path !== undefined && { path }),
+        });
+      }
+    };
+
+    const visit = (value: unknown, path: string): void => {
+      if (Array.isArray(value)) {
+        value.forEach((item, index) => visit(item, `${path}[${index}]`));
+      } else if (typeof value === "object" && value !== null) {
+        for (const [key, entry] of Object.entries(value)) {
+          visit(entry, path ? `${path}.${key}` : key);
+        }
+      } else if (typeof value === "string") {
+        pushText(value, path);
+      } else if (typeof value === "number" || typeof value === "boolean") {
+        chunks.push({ delta: value, path });
+      }
+    };
+
+    if (
+      typeof response.jsonPayload === "object" &&
+      response.jsonPayload !== null
+    ) {
+      visit(response.jsonPayload, "");
+    } else if (response.message !== undefined) {
+      pushText(response.message);
+    }
+
+    return chunks.map((chunk) => ({
+      data: {
+        delta: chunk.delta,
+        jsonPath: chunk.path ?? null,
+        spanId,
+      },
+    }));
+  }
+}
@@ -0,0 +1,511 @@
+import { promises as fs } from "node:fs";
+import path from "node:path";
+import { z } from "zod";
+
+import type { Tool } from "../base/tool";
+import { createFunctionTool } from "../utils/tool-decorators";
+
+/**
+ * Largest file the filesystem tools read or write unless configured otherwise
+ */
+export const DEFAULT_FS_MAX_FILE_BYTES = 1_000_000;
+
+const MAX_LIST_ENTRIES = 1000;
+
+export interface FileSystemToolsOptions {
+  /**
+   * Directory the tools are confined to. Paths are resolved relative to it and
+   * anything outside it, including through symlinks, is rejected.
+   */
+  root: string;
+
+  /**
+   * Only create the list, read and search tools (default: false)
+   */
+  readOnly?: boolean;
+
+  /**
+   * Largest file read, written or searched, in bytes (default: 1,000,000)
+   */
+  maxFileBytes?: number;
+
+  /**
+   * Let the model search with regular expressions (default: false, queries
+   * are matched literally). A pathological pattern can block the event loop
+   * for every run in the process, so only enable this for trusted models.
+   */
+  allowRegexSearch?: boolean;
+}
+
+const EntryTypeSchema = z.enum(["file", "directory", "symlink", "other"]);
+
+export const FsListInputSchema = z.object({
+  path: z
+    .string()
+    .default(".")
+    .describe("Directory relative to the root (default: the root)"),
+  recursive: z
+    .boolean()
+    .default(false)
+    .describe("Include the contents of subdirectories"),
+});
+
+export const FsListOutputSchema = z.object({
+  entries: z.array(
+    z.object({
+      path: z.string(),
+      type: EntryTypeSchema,
+      size: z.number().describe("Size in bytes (0 for directories)"),
+    }),
+  ),
+  truncated: z
+    .boolean()
+    .describe(`True if more than ${MAX_LIST_ENTRIES} entries matched`),
+});
+
+export const FsReadInputSchema = z.object({
+  path: z.string().describe("File relative to the root"),
+  startLine: z
+    .number()
+    .int()
+    .positive()
+    .optional()
+    .describe("First line to return, starting at 1"),
+  endLine: z
+    .number()
+    .int()
+    .positive()
+    .optional()
+    .describe("Last line to return (inclusive)"),
+});
+
+export const FsReadOutputSchema = z.object({
+  path: z.string(),
+  content: z.string(),
+  totalLines: z.number(),
+  size: z.number().describe("File size in bytes"),
+});
+
+export const FsWriteInputSchema = z.object({
+  path: z.string().describe("File relative to the root"),
+  content: z.string().describe("Complete new file content"),
+});
+
+export const FsWriteOutputSchema = z.object({
+  path: z.string(),
+  bytesWritten: z.number(),
+  created: z.boolean().describe("True if the file did not exist before"),
+});
+
+export const FsSearchInputSchema = z.object({
+  pattern: z
+    .string()
+    .default("**/*")
+    .describe(
+      "Glob for file paths relative to the root; `*` and `?` stay within a directory, `**` spans directories",
+    ),
+  query: z
+    .string()
+    .optional()
+    .describe("Text to search for in matching files; omit to list files only"),
+  regex: z
+    .boolean()
+    .default(false)
+    .describe("Treat query as a regular expression"),
+  maxResults: z.number().int().positive().default(100),
+});
+
+export const FsSearchOutputSchema = z.object({
+  matches: z.array(
+    z.object({
+      path: z.string(),
+      line: z.number().optional().describe("Line number of a content match"),
+      text: z.string().optional().describe("Matching line"),
+    }),
+  ),
+  truncated: z.boolean().describe("True if results were cut off at maxResults"),
+});
+
+export const FsPatchInputSchema = z.object({
+  path: z.string().describe("File relative to the root"),
+  edits: z
+    .array(
+      z.object({
+        oldText: z
+          .string()
+          .min(1)
+          .describe("Exact text to replace; must occur exactly once"),
+        newText: z.string().describe("Replacement text"),
+      }),
+    )
+    .min(1)
+    .describe("Edits applied in order"),
+});
+
+export const FsPatchOutputSchema = z.object({
+  path: z.string(),
+  replacements: z.number(),
+});
+
+export type FsListInput = z.infer<typeof FsListInputSchema>;
+export type FsListOutput = z.infer<typeof FsListOutputSchema>;
+export type FsReadInput = z.infer<typeof FsReadInputSchema>;
+export type FsReadOutput = z.infer<typeof FsReadOutputSchema>;
+export type FsWriteInput = z.infer<typeof FsWriteInputSchema>;
+export type FsWriteOutput = z.infer<typeof FsWriteOutputSchema>;
+export type FsSearchInput = z.infer<typeof FsSearchInputSchema>;
+export type FsSearchOutput = z.infer<typeof FsSearchOutputSchema>;
+export type FsPatchInput = z.infer<typeof FsPatchInputSchema>;
+export type FsPatchOutput = z.infer<typeof FsPatchOutputSchema>;
+
+/**
+ * Symlinks followed while resolving one path, as in most kernels
+ */
+const MAX_SYMLINK_DEPTH = 40;
+
+const isInside = (root: string, target: string): boolean => {
+  const relative = path.relative(root, target);
+  return (
+    relative === "" ||
+    (relative !== ".." &&
+      !relative.startsWith(`..${path.sep}`) &&
+      !path.isAbsolute(relative))
+  );
+};
+
+/**
+ * Convert a glob to a regular expression over `/`-separated relative paths
+ */
+export const globToRegExp = (glob: string): RegExp => {
+  let source = "";
+  for (let index = 0; index < glob.length; index += 1) {
+    const char = glob[index]!;
+    if (char === "*" && glob[index + 1] === "*") {
+      // `**/` also matches no directory at all
+      if (glob[index + 2] === "/") {
+        source += "(?:.*/)?";
+        index += 2;
+      } else {
+        source += ".*";
+        index += 1;
+      }
+    } else if (char === "*") {
+      source += "[^/]*";
+    } else if (char === "?") {
+      source += "[^/]";
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    }
+  }
+  return new RegExp(`^${source}$`);
+};
+
+const entryType = (stats: {
+  isFile(): boolean;
+  isDirectory(): boolean;
+  isSymbolicLink(): boolean;
+}): z.infer<typeof EntryTypeSchema> =>
+  stats.isFile()
+    ? "file"
+    : stats.isDirectory()
+      ? "directory"
+      : stats.isSymbolicLink()
+        ? "symlink"
+        : "other";
+
+/**
+ * Create filesystem tools confined to a root directory
+ *
+ * @param options - Root directory, read-only mode, file size limit and regex search
+ * @returns `fs_list`, `fs_read` and `fs_search`, plus `fs_write` and `fs_patch` unless read-only
+ */
+export function fileSystemTools(
+  options: FileSystemToolsOptions,
+): Array<Tool<unknown, unknown>> {
+  const root = path.resolve(options.root);
+  const maxFileBytes = options.maxFileBytes ?? DEFAULT_FS_MAX_FILE_BYTES;
+
+  const toRelative = (absolute: string): string =>
+    path.relative(root, absolute).split(path.sep).join("/") || ".";
+
+  /**
+   * Resolve a path within the root. Every existing component is checked with
+   * lstat and symlinks are followed, including dangling ones, so a link whose
+   * target lies outside the root is rejected even if the target does not exist.
+   */
+  const resolvePath = async (requested: string): Promise<string> => {
+    const absolute = path.resolve(root, requested);
+    const outside = new Error(
+      `Path "${requested}" is outside the root directory`,
+    );
+    if (!isInside(root, absolute)) {
+      throw outside;
+    }
+
+    const realRoot = await fs.realpath(root);
+    const walk = async (target: string, depth: number): Promise<void> => {
+      if (!isInside(realRoot, target)) {
+        throw outside;
+      }
+      if (depth > MAX_SYMLINK_DEPTH) {
+        throw new Error(`Path "${requested}" has too many levels of symlinks`);
+      }
+
+      const segments = path
+        .relative(realRoot, target)
+        .split(path.sep)
+        .filter(Boolean);
+      let current = realRoot;
+      for (const [index, segment] of segments.entries()) {
+        const candidate = path.join(current, segment);
+        let stats;
+        try {
+          stats = await fs.lstat(candidate);
+        } catch (error) {
+          if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+            // Nothing below a missing component exists to be followed
+            return;
+          }
+          throw error;
+        }
+
+        if (stats.isSymbolicLink()) {
+          let linked = path.resolve(current, await fs.readlink(candidate));
+          // Links may name the root by its unresolved path
+          if (!isInside(realRoot, linked) && isInside(root, linked)) {
+            linked = path.join(realRoot, path.relative(root, linked));
+          }
+          return walk(
+            path.join(linked, ...segments.slice(index + 1)),
+            depth + 1,
+          );
+        }
+        current = candidate;
+      }
+    };
+
+    await walk(path.join(realRoot, path.relative(root, absolute)), 0);
+    return absolute;
+  };
+
+  const assertFileSize = (size: number, relative: string): void => {
+    if (size > maxFileBytes) {
+      throw new Error(
+        `File "${relative}" is ${size} bytes, over the ${maxFileBytes} byte limit`,
+      );
+    }
+  };
+
+  const readTextFile = async (absolute: string): Promise<string> => {
+    const stats = await fs.stat(absolute);
+    if (!stats.isFile()) {
+      throw new Error(`"${toRelative(absolute)}" is not a file`);
+    }
+    assertFileSize(stats.size, toRelative(absolute));
+    return fs.readFile(absolute, "utf8");
+  };
+
+  /**
+   * Walk a directory depth-first in name order, without following symlinks
+   */
+  async function* walk(
+    directory: string,
+    recursive: boolean,
+  ): AsyncGenerator<{
+    absolute: string;
+    type: z.infer<typeof EntryTypeSchema>;
+  }> {
+    const entries = await fs.readdir(directory, { withFileTypes: true });
+    entries.sort((a, b) => (a.name < b.name ? -1 : a.name > b.name ? 1 : 0));
+    for (const entry of entries) {
+      const absolute = path.join(directory, entry.name);
+      const type = entryType(entry);
+      yield { absolute, type };
+      if (recursive && type === "directory") {
+        yield* walk(absolute, recursive);
+      }
+    }
+  }
+
+  const list = async (input: FsListInput): Promise<FsListOutput> => {
+    const directory = await resolvePath(input.path);
+    const entries: FsListOutput["entries"] = [];
+    for await (const entry of walk(directory, input.recursive)) {
+      if (entries.length === MAX_LIST_ENTRIES) {
+        return { entries, truncated: true };
+      }
+      const size =
+        entry.type === "file" ? (await fs.stat(entry.absolute)).size : 0;
+      entries.push({
+        path: toRelative(entry.absolute),
+        type: entry.type,
+        size,
+      });
+    }
+    return { entries, truncated: false };
+  };
+
+  const read = async (input: FsReadInput): Promise<FsReadOutput> => {
+    const absolute = await resolvePath(input.path);
+    const content = await readTextFile(absolute);
+    const lines = content.split("\n");
+    const ranged = input.startLine !== undefined || input.endLine !== undefined;
+    return {
+      path: toRelative(absolute),
+      content: ranged
+        ? lines
+            .slice((input.startLine ?? 1) - 1, input.endLine ?? lines.length)
+            .join("\n")
+        : content,
+      totalLines: lines.length,
+      size: Buffer.byteLength(content),
+    };
+  };
+
+  const search = async (
+    input: Omit<FsSearchInput, "regex"> & { regex?: boolean },
+  ): Promise<FsSearchOutput> => {
+    const matcher = globToRegExp(input.pattern);
+    const query =
+      input.query === undefined
+        ? undefined
+        : input.regex && options.allowRegexSearch
+          ? new RegExp(input.query)
+          : input.query;
+    const matches: FsSearchOutput["matches"] = [];
+
+    for await (const entry of walk(root, true)) {
+      const relative = toRelative(entry.absolute);
+      if (entry.type !== "file" || !matcher.test(relative)) {
+        continue;
+      }
+
+      if (query === undefined) {
+        if (matches.length === input.maxResults) {
+          return { matches, truncated: true };
+        }
+        matches.push({ path: relative });
+        continue;
+      }
+
+      // Oversized and binary files are skipped rather than failing the search
+      if ((await fs.stat(entry.absolute)).size > maxFileBytes) {
+        continue;
+      }
+      const content = await fs.readFile(entry.absolute, "utf8");
+      if (content.includes("\0")) {
+        continue;
+      }
+      const lines = content.split("\n");
+      for (let index = 0; index < lines.length; index += 1) {
+        const line = lines[index]!;
+        const found =
+          typeof query === "string" ? line.includes(query) : query.test(line);
+        if (!found) {
+          continue;
+        }
+        if (matches.length === input.maxResults) {
+          return { matches, truncated: true };
+        }
+        matches.push({ path: relative, line: index + 1, text: line });
+      }
+    }
+
+    return { matches, truncated: false };
+  };
+
+  const write = async (input: FsWriteInput): Promise<FsWriteOutput> => {
+    const absolute = await resolvePath(input.path);
+    const bytes = Buffer.byteLength(input.content);
+    assertFileSize(bytes, toRelative(absolute));
+
+    const created = await fs
+      .stat(absolute)
+      .then(() => false)
+      .catch(() => true);
+    await fs.mkdir(path.dirname(absolute), { recursive: true });
+    await fs.writeFile(absolute, input.content, "utf8");
+    return { path: toRelative(absolute), bytesWritten: bytes, created };
+  };
+
+  const patch = async (input: FsPatchInput): Promise<FsPatchOutput> => {
+    const absolute = await resolvePath(input.path);
+    let content = await readTextFile(absolute);
+
+    for (const [index, edit] of input.edits.entries()) {
+      const first = content.indexOf(edit.oldText);
+      if (first === -1) {
+        throw new Error(
+          `Edit ${index + 1}: oldText not found in "${input.path}"`,
+        );
+      }
+      if (content.indexOf(edit.oldText, first + 1) !== -1) {
+        throw new Error(
+          `Edit ${index + 1}: oldText occurs more than once in "${input.path}"; include more context`,
+        );
+      }
+      content =
+        content.slice(0, first) +
+        edit.newText +
+        content.slice(first + edit.oldText.length);
+    }
+
+    assertFileSize(Buffer.byteLength(content), toRelative(absolute));
+    await fs.writeFile(absolute, content, "utf8");
+    return { path: toRelative(absolute), replacements: input.edits.length };
+  };
+
+  const metadata = { toolkit: "filesystem" };
+  const tools: Array<Tool<unknown, unknown>> = [
+    createFunctionTool(list, {
+      name: "fs_list",
+      description:
+        "List the files and directories in a directory. Paths are relative to the workspace root.",
+      schema: FsListInputSchema,
+      outputSchema: FsListOutputSchema,
+      metadata,
+    }) as Tool<unknown, unknown>,
+    createFunctionTool(read, {
+      name: "fs_read",
+      description:
+        "Read a text file, optionally only a range of lines. Paths are relative to the workspace root.",
+      schema: FsReadInputSchema,
+      outputSchema: FsReadOutputSchema,
+      metadata,
+    }) as Tool<unknown, unknown>,
+    createFunctionTool(search, {
+      name: "fs_search",
+      description:
+        "Find files by glob pattern and, with a query, the lines containing it (like grep).",
+      // Without regex search the model is not offered the `regex` flag
+      schema: options.allowRegexSearch
+        ? FsSearchInputSchema
+        : FsSearchInputSchema.omit({ regex: true }),
+      outputSchema: FsSearchOutputSchema,
+      metadata,
+    }) as Tool<unknown, unknown>,
+  ];
+
+  if (!options.readOnly) {
+    tools.push(
+      createFunctionTool(write, {
+        name: "fs_write",
+        description:
+          "Create or overwrite a text file, creating parent directories as needed.",
+        schema: FsWriteInputSchema,
+        outputSchema: FsWriteOutputSchema,
+        metadata,
+      }) as Tool<unknown, unknown>,
+      createFunctionTool(patch, {
+        name: "fs_patch",
+        description:
+          "Edit a text file by replacing exact snippets. Each oldText must occur exactly once; read the file first.",
+        schema: FsPatchInputSchema,
+        outputSchema: FsPatchOutputSchema,
+        metadata,
+      }) as Tool<unknown, unknown>,
+    );
+  }
+
+  return tools;
+}
@@ -0,0 +1,377 @@
+import { z } from "zod";
+
+import type { Tool, ToolExecutionContext } from "../base/tool";
+import { createFunctionTool } from "../utils/tool-decorators";
+
+/**
+ * Largest response body read by the HTTP tools unless configured otherwise
+ */
+export const DEFAULT_HTTP_MAX_BODY_BYTES = 1_000_000;
+
+/**
+ * Timeout for one HTTP tool call, including redirects, unless configured otherwise
+ */
+export const DEFAULT_HTTP_TIMEOUT_MS = 30_000;
+
+const MAX_REDIRECTS = 5;
+
+/**
+ * Headers carrying credentials, never forwarded to another origin
+ */
+const SENSITIVE_HEADERS = ["authorization", "cookie", "proxy-authorization"];
+
+/**
+ * Copy of the headers without the given names, compared case-insensitively
+ */
+const withoutHeaders = (
+  headers: Record<string, string>,
+  names: string[],
+): Record<string, string> => {
+  const dropped = new Set(names.map((name) => name.toLowerCase()));
+  return Object.fromEntries(
+    Object.entries(headers).filter(
+      ([name]) => !dropped.has(name.toLowerCase()),
+    ),
+  );
+};
+
+/**
+ * Copy of the headers with lowercase names, so differently cased duplicates
+ * override each other instead of being joined by fetch
+ */
+const lowercaseHeaders = (
+  headers: Record<string, string> = {},
+): Record<string, string> =>
+  Object.fromEntries(
+    Object.entries(headers).map(([name, value]) => [name.toLowerCase(), value]),
+  );
+
+export type HttpToolMethod = "GET" | "POST";
+
+export interface HttpToolsOptions {
+  /**
+   * Hosts the tools may call. Entries match the URL hostname exactly, or any
+   * subdomain when written as `*.example.com`.
+   */
+  allowedHosts: string[];
+
+  /**
+   * Methods to create tools for (default: GET and POST)
+   */
+  allowedMethods?: HttpToolMethod[];
+
+  /**
+   * Largest response body read, in bytes; larger bodies are cut off and
+   * flagged as truncated (default: 1,000,000)
+   */
+  maxBodyBytes?: number;
+
+  /**
+   * Headers sent with every request (e.g. authorization), taking precedence
+   * over headers chosen by the model
+   */
+  headers?: Record<string, string>;
+
+  /**
+   * Timeout per tool call in milliseconds (default: 30,000)
+   */
+  timeoutMs?: number;
+
+  /**
+   * Custom fetch implementation (defaults to the global fetch)
+   */
+  fetch?: typeof fetch;
+}
+
+export const HttpGetInputSchema = z.object({
+  url: z.string().url().describe("Absolute http(s) URL to request"),
+  headers: z
+    .record(z.string(), z.string())
+    .optional()
+    .describe("Additional request headers"),
+});
+
+export const HttpPostInputSchema = HttpGetInputSchema.extend({
+  body: z
+    .unknown()
+    .optional()
+    .describe("Request body; strings are sent as-is, other values as JSON"),
+  contentType: z
+    .string()
+    .optional()
+    .describe(
+      "Content-Type of the body (default: application/json, or text/plain for strings)",
+    ),
+});
+
+export const HttpResponseSchema = z.object({
+  url: z.string().describe("Final URL after redirects"),
+  status: z.number(),
+  ok: z.boolean(),
+  contentType: z.string().nullable(),
+  body: z
+    .unknown()
+    .describe("Parsed JSON, text extracted from HTML, or the raw text"),
+  truncated: z
+    .boolean()
+    .describe("True if the body was cut off at the size limit"),
+});
+
+export type HttpGetInput = z.infer<typeof HttpGetInputSchema>;
+export type HttpPostInput = z.infer<typeof HttpPostInputSchema>;
+export type HttpResponse = z.infer<typeof HttpResponseSchema>;
+
+/**
+ * Whether a hostname is covered by an allowlist entry (`example.com` or `*.example.com`)
+ */
+export const isHostAllowed = (
+  allowedHosts: ReadonlyArray<string>,
+  hostname: string,
+): boolean => {
+  const host = hostname.toLowerCase();
+  return allowedHosts.some((entry) => {
+    const allowed = entry.toLowerCase();
+    return allowed.startsWith("*.")
+      ? host.endsWith(allowed.slice(1))
+      : host === allowed;
+  });
+};
+
+const HTML_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: " ",
+};
+
+/**
+ * Extract readable text from an HTML document: scripts, styles and tags are
+ * dropped, block elements become line breaks and common entities are decoded
+ */
+export const htmlToText = (html: string): string =>
+  html
+    .replace(/<!--[\s\S]*?-->/g, "")
+    .replace(/<(script|style|noscript|template|svg)\b[\s\S]*?<\/\1\s*>/gi, "")
+    .replace(
+      /<\/?(p|div|section|article|header|footer|li|ul|ol|tr|table|h[1-6]|blockquote|pre)\b[^>]*>|<br\s*\/?>/gi,
+      "\n",
+    )
+    .replace(/<[^>]+>/g, "")
+    .replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+      if (entity.startsWith("#")) {
+        const code =
+          entity[1] === "x" || entity[1] === "X"
+            ? Number.parseInt(entity.slice(2), 16)
+            : Number.parseInt(entity.slice(1), 10);
+        return Number.isNaN(code) ? match : String.fromCodePoint(code);
+      }
+      return HTML_ENTITIES[entity.toLowerCase()] ?? match;
+    })
+    .replace(/[ \t\f\v\r]+/g, " ")
+    .replace(/ *\n[\n ]*/g, "\n")
+    .trim();
+
+/**
+ * Read at most `maxBytes` of a response body
+ */
+const readBody = async (
+  response: Response,
+  maxBytes: number,
+): Promise<{ text: string; truncated: boolean }> => {
+  if (!response.body) {
+    return { text: "", truncated: false };
+  }
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  let truncated = false;
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) {
+      break;
+    }
+    if (size + value.byteLength > maxBytes) {
+      chunks.push(value.subarray(0, maxBytes - size));
+      truncated = true;
+      await reader.cancel();
+      break;
+    }
+    chunks.push(value);
+    size += value.byteLength;
+  }
+
+  return {
+    text: new TextDecoder().decode(Buffer.concat(chunks)),
+    truncated,
+  };
+};
+
+/**
+ * Turn the body into JSON when the server or its shape says it is JSON,
+ * into text when it is HTML, and leave it alone otherwise
+ */
+const parseBody = (
+  text: string,
+  contentType: string | null,
+  truncated: boolean,
+): unknown => {
+  const trimmed = text.trim();
+  const looksLikeJson =
+    /[/+]json\b/i.test(contentType ?? "") ||
+    (!contentType?.includes("html") && /^[[{]/.test(trimmed));
+  if (looksLikeJson && !truncated) {
+    try {
+      return JSON.parse(trimmed) as unknown;
+    } catch {
+      return text;
+    }
+  }
+  if (
+    /html/i.test(contentType ?? "") ||
+    /^<(!doctype html|html)/i.test(trimmed)
+  ) {
+    return htmlToText(text);
+  }
+  return text;
+};
+
+/**
+ * Create the HTTP request tools
+ *
+ * @param options - Host allowlist, methods, size limit, headers and timeout
+ * @returns `http_get` and `http_post` tools for the allowed methods
+ */
+export function httpTools(
+  options: HttpToolsOptions,
+): Array<Tool<unknown, unknown>> {
+  const allowedMethods = options.allowedMethods ?? ["GET", "POST"];
+  const maxBodyBytes = options.maxBodyBytes ?? DEFAULT_HTTP_MAX_BODY_BYTES;
+  const timeoutMs = options.timeoutMs ?? DEFAULT_HTTP_TIMEOUT_MS;
+
+  const assertAllowed = (url: URL): void => {
+    if (url.protocol !== "http:" && url.protocol !== "https:") {
+      throw new Error(`Unsupported protocol "${url.protocol}" in ${url.href}`);
+    }
+    if (!isHostAllowed(options.allowedHosts, url.hostname)) {
+      throw new Error(
+        `Host "${url.hostname}" is not allowed. Allowed hosts: ${options.allowedHosts.join(", ")}`,
+      );
+    }
+  };
+
+  const request = async (
+    method: HttpToolMethod,
+    input: HttpPostInput,
+    context: ToolExecutionContext,
+  ): Promise<HttpResponse> => {
+    let headers: Record<string, string> = {
+      ...lowercaseHeaders(input.headers),
+      ...lowercaseHeaders(options.headers),
+    };
+    let body: string | undefined;
+    if (method === "POST" && input.body !== undefined) {
+      body =
+        typeof input.body === "string"
+          ? input.body
+          : JSON.stringify(input.body);
+      headers["content-type"] ??=
+        input.contentType ??
+        (typeof input.body === "string" ? "text/plain" : "application/json");
+    }
+
+    // Redirects are followed by hand so every hop is checked against the allowlist
+    const fetchImpl = options.fetch ?? fetch;
+    let url = new URL(input.url);
+    let currentMethod: string = method;
+    for (let redirects = 0; ; redirects += 1) {
+      assertAllowed(url);
+      const response = await fetchImpl(url, {
+        method: currentMethod,
+        headers,
+        redirect: "manual",
+        ...(body !== undefined && { body }),
+        ...(context.signal && { signal: context.signal }),
+      });
+
+      const location = response.headers.get("location");
+      if (response.status >= 300 && response.status < 400 && location) {
+        await response.body?.cancel();
+        if (redirects >= MAX_REDIRECTS) {
+          throw new Error(`Too many redirects requesting ${input.url}`);
+        }
+        const next = new URL(location, url);
+        // Configured and credential headers stay with the origin they were meant for
+        if (next.origin !== url.origin) {
+          headers = withoutHeaders(headers, [
+            ...Object.keys(options.headers ?? {}),
+            ...SENSITIVE_HEADERS,
+          ]);
+        }
+        // As browsers do, 303s and 301/302s after a POST continue as a GET without body
+        if (
+          response.status === 303 ||
+          ((response.status === 301 || response.status === 302) &&
+            currentMethod === "POST")
+        ) {
+          currentMethod = "GET";
+          body = undefined;
+          headers = withoutHeaders(headers, ["content-type", "content-length"]);
+        }
+        url = next;
+        continue;
+      }
+
+      const contentType = response.headers.get("content-type");
+      const { text, truncated } = await readBody(response, maxBodyBytes);
+      return {
+        url: url.href,
+        status: response.status,
+        ok: response.ok,
+        contentType,
+        body: parseBody(text, contentType, truncated),
+        truncated,
+      };
+    }
+  };
+
+  const tools: Array<Tool<unknown, unknown>> = [];
+  const hosts = options.allowedHosts.join(", ");
+
+  if (allowedMethods.includes("GET")) {
+    tools.push(
+      createFunctionTool(
+        (input: HttpGetInput, context) => request("GET", input, context),
+        {
+          name: "http_get",
+          description: `Send an HTTP GET request and return the status and body. JSON bodies are parsed and HTML is converted to text. Allowed hosts: ${hosts}.`,
+          schema: HttpGetInputSchema,
+          outputSchema: HttpResponseSchema,
+          timeoutMs,
+          metadata: { toolkit: "http" },
+        },
+      ) as Tool<unknown, unknown>,
+    );
+  }
+
+  if (allowedMethods.includes("POST")) {
+    tools.push(
+      createFunctionTool(
+        (input: HttpPostInput, context) => request("POST", input, context),
+        {
+          name: "http_post",
+          description: `Send an HTTP POST request and return the status and body. JSON bodies are parsed and HTML is converted to text. Allowed hosts: ${hosts}.`,
+          schema: HttpPostInputSchema,
+          outputSchema: HttpResponseSchema,
+          timeoutMs,
+          metadata: { toolkit: "http" },
+        },
+      ) as Tool<unknown, unknown>,
+    );
+  }
+
+  return tools;
+}
@@ -0,0 +1,246 @@
+import { spawn, type ChildProcess } from "node:child_process";
+import path from "node:path";
+import { z } from "zod";
+
+import type { Tool, ToolExecutionContext } from "../base/tool";
+import { createFunctionTool } from "../utils/tool-decorators";
+
+/**
+ * Time a command may run before its process tree is killed, unless configured otherwise
+ */
+export const DEFAULT_SHELL_TIMEOUT_MS = 60_000;
+
+/**
+ * Bytes of stdout and of stderr kept per command, unless configured otherwise
+ */
+export const DEFAULT_SHELL_MAX_OUTPUT_BYTES = 100_000;
+
+/**
+ * Host environment variables commands see unless `inheritEnv` is set. Windows
+ * needs a few more to start processes at all.
+ */
+const BASE_ENV_VARS =
+  process.platform === "win32"
+    ? ["PATH", "HOME", "SystemRoot", "PATHEXT", "TEMP", "TMP"]
+    : ["PATH", "HOME"];
+
+const baseEnv = (): Record<string, string> =>
+  Object.fromEntries(
+    BASE_ENV_VARS.flatMap((name) => {
+      const value = process.env[name];
+      return value === undefined ? [] : [[name, value]];
+    }),
+  );
+
+export interface ShellToolOptions {
+  /**
+   * Executables the tool may run, by name (resolved through PATH) or path.
+   * Commands are matched exactly; anything else is rejected.
+   */
+  allowedCommands: string[];
+
+  /**
+   * Working directory of every command (default: the process working directory)
+   */
+  cwd?: string;
+
+  /**
+   * Environment variables added to, or overriding, the base environment
+   */
+  env?: Record<string, string>;
+
+  /**
+   * Pass the full host environment to commands (default: false, so commands
+   * only see PATH, HOME and `env`, and no host secrets)
+   */
+  inheritEnv?: boolean;
+
+  /**
+   * Time a command may run before its process tree is killed (default: 60,000)
+   */
+  timeoutMs?: number;
+
+  /**
+   * Bytes of stdout and of stderr kept; the rest is dropped and flagged (default: 100,000)
+   */
+  maxOutputBytes?: number;
+
+  /**
+   * Tool name (default: "shell_run")
+   */
+  name?: string;
+}
+
+export const ShellInputSchema = z.object({
+  command: z.string().min(1).describe("Executable to run, without arguments"),
+  args: z
+    .array(z.string())
+    .default([])
+    .describe(
+      "Arguments passed to the command as-is; no shell expansion, pipes or redirection",
+    ),
+});
+
+export const ShellOutputSchema = z.object({
+  exitCode: z
+    .number()
+    .nullable()
+    .describe("Exit code, or null if the process was killed"),
+  signal: z.string().nullable().describe("Signal that ended the process"),
+  stdout: z.string(),
+  stderr: z.string(),
+  timedOut: z.boolean(),
+  truncated: z
+    .boolean()
+    .describe("True if stdout or stderr was cut off at the output limit"),
+  durationMs: z.number(),
+});
+
+export type ShellInput = z.infer<typeof ShellInputSchema>;
+export type ShellOutput = z.infer<typeof ShellOutputSchema>;
+
+/**
+ * Kill a process and everything it started. Children are spawned as process
+ * group leaders, so the whole group is signalled on POSIX systems, including
+ * descendants still holding the output pipes after the command itself exited.
+ */
+const killProcessTree = (child: ChildProcess): void => {
+  if (child.pid === undefined) {
+    return;
+  }
+  try {
+    if (process.platform === "win32") {
+      spawn("taskkill", ["/pid", String(child.pid), "/T", "/F"], {
+        stdio: "ignore",
+        windowsHide: true,
+      });
+    } else {
+      process.kill(-child.pid, "SIGKILL");
+    }
+  } catch {
+    child.kill("SIGKILL");
+  }
+};
+
+/**
+ * Collect a stream up to a byte limit
+ */
+const createOutputBuffer = (maxBytes: number) => {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  let truncated = false;
+
+  return {
+    append(chunk: Buffer): void {
+      if (size >= maxBytes) {
+        truncated = true;
+        return;
+      }
+      const kept = chunk.subarray(0, maxBytes - size);
+      truncated ||= kept.length < chunk.length;
+      chunks.push(kept);
+      size += kept.length;
+    },
+    get text(): string {
+      return Buffer.concat(chunks).toString("utf8");
+    },
+    get truncated(): boolean {
+      return truncated;
+    },
+  };
+};
+
+/**
+ * Create a tool running allowlisted commands without a shell interpreter
+ *
+ * @param options - Command allowlist, working directory, environment and limits
+ * @returns Tool returning the exit code, stdout and stderr of each command
+ */
+export function shellTool(options: ShellToolOptions): Tool<unknown, unknown> {
+  const timeoutMs = options.timeoutMs ?? DEFAULT_SHELL_TIMEOUT_MS;
+  const maxOutputBytes =
+    options.maxOutputBytes ?? DEFAULT_SHELL_MAX_OUTPUT_BYTES;
+  const cwd = path.resolve(options.cwd ?? process.cwd());
+
+  const run = (
+    input: ShellInput,
+    context: ToolExecutionContext,
+  ): Promise<ShellOutput> => {
+    if (!options.allowedCommands.includes(input.command)) {
+      return Promise.reject(
+        new Error(
+          `Command "${input.command}" is not allowed. Allowed commands: ${options.allowedCommands.join(", ")}`,
+        ),
+      );
+    }
+    if (context.signal?.aborted) {
+      return Promise.reject(new Error("Command aborted before it started"));
+    }
+
+    return new Promise<ShellOutput>((resolve, reject) => {
+      const startedAt = Date.now();
+      const child = spawn(input.command, input.args, {
+        cwd,
+        env: {
+          ...(options.inheritEnv ? process.env : baseEnv()),
+          ...options.env,
+        },
+        shell: false,
+        stdio: ["ignore", "pipe", "pipe"],
+        detached: process.platform !== "win32",
+        windowsHide: true,
+      });
+      const stdout = createOutputBuffer(maxOutputBytes);
+      const stderr = createOutputBuffer(maxOutputBytes);
+      let timedOut = false;
+      let aborted = false;
+
+      child.stdout?.on("data", (chunk: Buffer) => stdout.append(chunk));
+      child.stderr?.on("data", (chunk: Buffer) => stderr.append(chunk));
+
+      const timer = setTimeout(() => {
+        timedOut = true;
+        killProcessTree(child);
+      }, timeoutMs);
+      const onAbort = (): void => {
+        aborted = true;
+        killProcessTree(child);
+      };
+      context.signal?.addEventListener("abort", onAbort, { once: true });
+
+      const cleanup = (): void => {
+        clearTimeout(timer);
+        context.signal?.removeEventListener("abort", onAbort);
+      };
+
+      child.once("error", (error) => {
+        cleanup();
+        reject(error);
+      });
+      child.once("close", (exitCode, signal) => {
+        cleanup();
+        if (aborted) {
+          reject(new Error(`Command "${input.command}" was aborted`));
+          return;
+        }
+        resolve({
+          exitCode,
+          signal,
+          stdout: stdout.text,
+          stderr: stderr.text,
+          timedOut,
+          truncated: stdout.truncated || stderr.truncated,
+          durationMs: Date.now() - startedAt,
+        });
+      });
+    });
+  };
+
+  return createFunctionTool(run, {
+    name: options.name ?? "shell_run",
+    description: `Run a command without a shell and return its exit code, stdout and stderr. Allowed commands: ${options.allowedCommands.join(", ")}. Commands are killed after ${timeoutMs}ms.`,
+    schema: ShellInputSchema,
+    outputSchema: ShellOutputSchema,
+    metadata: { toolkit: "shell" },
+  }) as Tool<unknown, unknown>;
+}
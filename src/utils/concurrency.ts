@@ -0,0 +1,102 @@
+const abortError = (): Error =>
+  new Error("Waiting for a concurrency slot was aborted");
+
+/**
+ * Counting semaphore limiting how many tasks run at the same time
+ */
+export class Semaphore {
+  public readonly limit: number;
+
+  private active = 0;
+
+  private readonly waiting: Array<() => void> = [];
+
+  constructor(limit: number) {
+    if (!Number.isInteger(limit) || limit < 1) {
+      throw new Error(
+        `Concurrency limit must be a positive integer, got ${limit}`,
+      );
+    }
+    this.limit = limit;
+  }
+
+  /**
+   * Wait for a free slot
+   *
+   * @param signal - Stops waiting when aborted, rejecting without taking a slot
+   * @returns Function releasing the slot
+   */
+  public async acquire(signal?: AbortSignal): Promise<() => void> {
+    if (signal?.aborted) {
+      throw abortError();
+    }
+
+    if (this.active < this.limit) {
+      this.active += 1;
+    } else {
+      // The releasing task hands its slot over, so `active` is unchanged
+      await new Promise<void>((resolve, reject) => {
+        const onAbort = () => {
+          const index = this.waiting.indexOf(waiter);
+          if (index !== -1) {
+            this.waiting.splice(index, 1);
+          }
+          reject(abortError());
+        };
+        const waiter = () => {
+          signal?.removeEventListener("abort", onAbort);
+          resolve();
+        };
+        this.waiting.push(waiter);
+        signal?.addEventListener("abort", onAbort, { once: true });
+      });
+    }
+
+    let released = false;
+    return () => {
+      if (released) {
+        return;
+      }
+      released = true;
+      const next = this.waiting.shift();
+      if (next) {
+        next();
+      } else {
+        this.active -= 1;
+      }
+    };
+  }
+
+  /**
+   * Run a task once a slot is free
+   *
+   * @param task - Work to run
+   * @param signal - Stops waiting for a slot when aborted
+   */
+  public async run<T>(
+    task: () => Promise<T>,
+    signal?: AbortSignal,
+  ): Promise<T> {
+    const release = await this.acquire(signal);
+    try {
+      return await task();
+    } finally {
+      release();
+    }
+  }
+}
+
+/**
+ * Whether a tool name matches a pattern where `*` matches any characters
+ * (e.g. `github:*`)
+ */
+export const matchesToolPattern = (
+  pattern: string,
+  toolName: string,
+): boolean =>
+  new RegExp(
+    `^${pattern
+      .split("*")
+      .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+      .join(".*")}$`,
+  ).test(toolName);
@@ -0,0 +1,50 @@
+/**
+ * Rough token estimation used for history budgets.
+ *
+ * Exact counts depend on the model's tokenizer, which is not available locally,
+ * so values are approximated from the serialized length (about 4 characters per token).
+ */
+
+/**
+ * Characters counted as one token
+ */
+export const CHARS_PER_TOKEN = 4;
+
+/**
+ * Estimate the number of tokens a value occupies once serialized into a prompt
+ *
+ * @param value - String or JSON-serializable value
+ * @returns Estimated token count
+ */
+export function estimateTokens(value: unknown): number {
+  if (value === undefined || value === null) {
+    return 0;
+  }
+
+  let text: string;
+  if (typeof value === "string") {
+    text = value;
+  } else {
+    try {
+      text = JSON.stringify(value) ?? String(value);
+    } catch {
+      text = String(value);
+    }
+  }
+
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+/**
+ * Cut text to `maxChars`, marking how many characters were dropped
+ *
+ * @param text - Text to shorten
+ * @param maxChars - Maximum characters kept
+ * @returns Text unchanged when short enough, otherwise the truncated text with a marker
+ */
+export function truncateText(text: string, maxChars: number): string {
+  if (text.length <= maxChars) {
+    return text;
+  }
+  return `${text.slice(0, maxChars)}… [truncated ${text.length - maxChars} chars]`;
+}
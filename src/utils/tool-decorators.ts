@@ -1,11 +1,14 @@
 import type { ZodType } from "zod";
 
+import type { ToolApprovalRequirement } from "../base/approval";
 import type {
   Tool,
+  ToolCachePolicy,
   ToolDefinition,
   ToolExample,
   ToolExecutionContext,
   ToolResult,
+  ToolRetryPolicy,
 } from "../base/tool";
 import { ToolResultFactory } from "../base/tool";
 
@@ -153,6 +156,41 @@ export interface ToolOptions<TInput, TOutput = unknown> {
    */
   timeoutMs?: number;
 
+  /**
+   * Retry policy for failed executions (see {@link ToolDefinition.retry})
+   */
+  retry?: ToolRetryPolicy;
+
+  /**
+   * Result caching policy (see {@link ToolDefinition.cache})
+   */
+  cache?: ToolCachePolicy<TInput, TOutput>;
+
+  /**
+   * Concurrency group (see {@link ToolDefinition.concurrencyGroup})
+   */
+  concurrencyGroup?: string;
+
+  /**
+   * Set to false to never run in parallel with other tool calls
+   */
+  parallelizable?: boolean;
+
+  /**
+   * Largest result in characters shown to the model (see {@link ToolDefinition.maxResultChars})
+   */
+  maxResultChars?: number;
+
+  /**
+   * Largest result in estimated tokens shown to the model (see {@link ToolDefinition.maxResultTokens})
+   */
+  maxResultTokens?: number;
+
+  /**
+   * Require approval before the tool runs (see {@link ToolDefinition.requiresApproval})
+   */
+  requiresApproval?: ToolApprovalRequirement<TInput>;
+
   /**
    * Additional metadata
    */
@@ -266,6 +304,23 @@ function createToolDefinition<TInput, TOutput>(
     ...(options.outputSchema && { outputSchema: options.outputSchema }),
     ...(options.examples && { examples: options.examples }),
     ...(options.timeoutMs !== undefined && { timeoutMs: options.timeoutMs }),
+    ...(options.retry && { retry: options.retry }),
+    ...(options.cache && { cache: options.cache }),
+    ...(options.concurrencyGroup && {
+      concurrencyGroup: options.concurrencyGroup,
+    }),
+    ...(options.parallelizable !== undefined && {
+      parallelizable: options.parallelizable,
+    }),
+    ...(options.maxResultChars !== undefined && {
+      maxResultChars: options.maxResultChars,
+    }),
+    ...(options.maxResultTokens !== undefined && {
+      maxResultTokens: options.maxResultTokens,
+    }),
+    ...(options.requiresApproval !== undefined && {
+      requiresApproval: options.requiresApproval,
+    }),
     metadata: {
       ...options.metadata,
       isDecorated: true,
@@ -314,6 +369,23 @@ export function createFunctionTool<TInput, TOutput>(
     ...(options.outputSchema && { outputSchema: options.outputSchema }),
     ...(options.examples && { examples: options.examples }),
     ...(options.timeoutMs !== undefined && { timeoutMs: options.timeoutMs }),
+    ...(options.retry && { retry: options.retry }),
+    ...(options.cache && { cache: options.cache }),
+    ...(options.concurrencyGroup && {
+      concurrencyGroup: options.concurrencyGroup,
+    }),
+    ...(options.parallelizable !== undefined && {
+      parallelizable: options.parallelizable,
+    }),
+    ...(options.maxResultChars !== undefined && {
+      maxResultChars: options.maxResultChars,
+    }),
+    ...(options.maxResultTokens !== undefined && {
+      maxResultTokens: options.maxResultTokens,
+    }),
+    ...(options.requiresApproval !== undefined && {
+      requiresApproval: options.requiresApproval,
+    }),
     metadata: {
       ...options.metadata,
       isFunction: true,
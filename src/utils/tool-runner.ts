@@ -1,5 +1,16 @@
 import type { AgentContext } from "../base/context";
-import type { Tool, ToolExecutionContext, ToolResult } from "../base/tool";
+import {
+  ToolInputValidationError,
+  ToolTimeoutError,
+  type ToolInputIssue,
+} from "../base/errors";
+import type {
+  MaybePromise,
+  Tool,
+  ToolExecutionContext,
+  ToolResult,
+  ToolRetryPolicy,
+} from "../base/tool";
 import { ToolResultFactory } from "../base/tool";
 
 /**
@@ -22,6 +33,72 @@ export interface ToolRunOptions {
   timeoutMs?: number;
 }
 
+/**
+ * Outcome of {@link ToolRunner.validateInput}
+ */
+export type ToolInputValidation<TInput> =
+  | { success: true; data: TInput }
+  | { success: false; error: ToolInputValidationError };
+
+/**
+ * One execution attempt of a tool, recorded when the tool has a retry policy
+ */
+export interface ToolAttempt {
+  attempt: number;
+  success: boolean;
+  error?: string;
+  startedAt: number;
+  finishedAt: number;
+}
+
+/**
+ * A failed attempt that is about to be retried
+ */
+export interface ToolRetryEvent {
+  attempt: number;
+  maxAttempts: number;
+  error: unknown;
+  delayMs: number;
+}
+
+/**
+ * Delay before the first retry when a policy does not set `backoffMs`
+ */
+export const DEFAULT_TOOL_RETRY_BACKOFF_MS = 100;
+
+const retryDelay = (policy: ToolRetryPolicy, attempt: number): number => {
+  const backoff = policy.backoffMs ?? DEFAULT_TOOL_RETRY_BACKOFF_MS;
+  return Math.max(
+    0,
+    typeof backoff === "function"
+      ? backoff(attempt)
+      : backoff * 2 ** (attempt - 1),
+  );
+};
+
+/**
+ * Wait for a delay; resolves false early when the signal aborts
+ */
+const waitForRetry = (
+  delayMs: number,
+  signal?: AbortSignal,
+): Promise<boolean> =>
+  new Promise((resolve) => {
+    if (signal?.aborted) {
+      resolve(false);
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      resolve(false);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve(true);
+    }, delayMs);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+
 /**
  * Utility class for executing tools with validation and error handling
  */
@@ -50,16 +127,9 @@ export class ToolRunner {
     }
 
     // Validate input against schema if provided
-    if (tool.schema) {
-      const validation = tool.schema.safeParse(input);
-      if (!validation.success) {
-        return ToolResultFactory.failure(
-          tool.name,
-          new Error(
-            `Invalid input for tool "${tool.name}": ${validation.error.message}`,
-          ),
-        );
-      }
+    const validation = this.validateInput(tool, input);
+    if (!validation.success) {
+      return ToolResultFactory.failure(tool.name, validation.error);
     }
 
     const executionContext: ToolExecutionContext = {
@@ -68,30 +138,163 @@ export class ToolRunner {
       metadata: options.metadata ?? {},
     };
 
-    try {
-      // Determine timeout: option override > tool default > no timeout
-      const timeoutMs = options.timeoutMs ?? tool.timeoutMs;
+    // Determine timeout: option override > tool default > no timeout
+    const timeoutMs = options.timeoutMs ?? tool.timeoutMs;
+
+    const { result } = await this.invokeWithRetry(
+      tool,
+      validation.data,
+      executionContext,
+      {
+        ...(options.signal && { signal: options.signal }),
+        ...(timeoutMs !== undefined && { timeoutMs }),
+      },
+    );
+    return result;
+  }
+
+  /**
+   * Run a tool through {@link ToolRunner.invoke}, retrying failed attempts
+   * according to the tool's `retry` policy. Thrown errors become failure
+   * results; retries stop early when the signal aborts.
+   *
+   * @param tool - Tool to execute
+   * @param input - Already validated input
+   * @param executionContext - Context passed to the tool
+   * @param options - Timeout per attempt, abort signal and a callback before each retry
+   * @returns Result of the last attempt and every attempt made
+   */
+  public static async invokeWithRetry<TInput, TOutput>(
+    tool: Tool<TInput, TOutput>,
+    input: TInput,
+    executionContext: ToolExecutionContext,
+    options: {
+      signal?: AbortSignal;
+      timeoutMs?: number;
+      onRetry?: (event: ToolRetryEvent) => MaybePromise<void>;
+    } = {},
+  ): Promise<{ result: ToolResult<TOutput>; attempts: ToolAttempt[] }> {
+    const { signal, timeoutMs, onRetry } = options;
+    const policy = tool.retry;
+    const maxAttempts = Math.max(1, policy?.maxAttempts ?? 1);
+    const attempts: ToolAttempt[] = [];
 
+    for (let attempt = 1; ; attempt++) {
+      const startedAt = Date.now();
       let result: ToolResult<TOutput>;
+      try {
+        result = await this.invoke(tool, input, executionContext, {
+          ...(signal && { signal }),
+          ...(timeoutMs !== undefined && { timeoutMs }),
+        });
+      } catch (error) {
+        result = ToolResultFactory.failure(
+          tool.name,
+          error instanceof Error ? error : new Error(String(error)),
+          { startedAt },
+        );
+      }
+
+      attempts.push({
+        attempt,
+        success: result.success,
+        ...(!result.success && {
+          error:
+            result.error instanceof Error
+              ? result.error.message
+              : String(result.error),
+        }),
+        startedAt,
+        finishedAt: Date.now(),
+      });
+
+      if (
+        result.success ||
+        !policy ||
+        attempt >= maxAttempts ||
+        signal?.aborted ||
+        !(policy.retryOn?.(result.error, attempt) ?? true)
+      ) {
+        return { result, attempts };
+      }
+
+      const delayMs = retryDelay(policy, attempt);
+      await onRetry?.({ attempt, maxAttempts, error: result.error, delayMs });
+      if (!(await waitForRetry(delayMs, signal))) {
+        return { result, attempts };
+      }
+    }
+  }
+
+  /**
+   * Run a tool's `execute` with a timeout and abort propagation.
+   * The tool receives a signal that aborts when the caller's signal aborts or,
+   * with a timeout, when the timeout elapses. The returned promise rejects at
+   * the same moment instead of waiting for tools that ignore their signal.
+   *
+   * @param tool - Tool to execute
+   * @param input - Already validated input
+   * @param executionContext - Context passed to the tool (its signal is replaced)
+   * @param options - Timeout and caller abort signal
+   * @returns Tool result, or rejects with {@link ToolTimeoutError} or an abort error
+   */
+  public static async invoke<TInput, TOutput>(
+    tool: Tool<TInput, TOutput>,
+    input: TInput,
+    executionContext: ToolExecutionContext,
+    options: { signal?: AbortSignal; timeoutMs?: number } = {},
+  ): Promise<ToolResult<TOutput>> {
+    const { signal, timeoutMs } = options;
+    if (!signal && timeoutMs === undefined) {
+      return tool.execute(input, executionContext);
+    }
+
+    // A derived signal is only needed when the timeout must abort the tool
+    const controller =
+      timeoutMs !== undefined ? new AbortController() : undefined;
+    const toolSignal = controller?.signal ?? signal;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let onAbort: (() => void) | undefined;
+
+    const interrupted = new Promise<never>((_, reject) => {
+      const stop = (error: Error) => {
+        controller?.abort(error);
+        reject(error);
+      };
 
       if (timeoutMs !== undefined) {
-        // Execute with timeout
-        result = await this.executeWithTimeout(
-          Promise.resolve(tool.execute(input, executionContext)),
+        timer = setTimeout(
+          () => stop(new ToolTimeoutError(tool.name, timeoutMs)),
           timeoutMs,
-          tool.name,
         );
-      } else {
-        // Execute without timeout
-        result = await Promise.resolve(tool.execute(input, executionContext));
       }
 
-      return result;
-    } catch (error) {
-      return ToolResultFactory.failure(
-        tool.name,
-        error instanceof Error ? error : new Error(String(error)),
-      );
+      if (signal) {
+        onAbort = () =>
+          stop(new Error(`Tool "${tool.name}" execution was aborted`));
+        if (signal.aborted) {
+          onAbort();
+        } else {
+          signal.addEventListener("abort", onAbort, { once: true });
+        }
+      }
+    });
+
+    try {
+      return await Promise.race([
+        Promise.resolve(
+          tool.execute(input, {
+            ...executionContext,
+            ...(toolSignal && { signal: toolSignal }),
+          }),
+        ),
+        interrupted,
+      ]);
+    } finally {
+      clearTimeout(timer);
+      if (signal && onAbort) {
+        signal.removeEventListener("abort", onAbort);
+      }
     }
   }
 
@@ -138,31 +341,6 @@ export class ToolRunner {
     return results;
   }
 
-  /**
-   * Execute a tool with timeout
-   *
-   * @param promise - Tool execution promise
-   * @param timeoutMs - Timeout in milliseconds
-   * @param toolName - Tool name for error messages
-   * @returns Result or rejects with timeout error
-   */
-  private static async executeWithTimeout<T>(
-    promise: Promise<T>,
-    timeoutMs: number,
-    toolName: string,
-  ): Promise<T> {
-    return Promise.race([
-      promise,
-      new Promise<T>((_, reject) => {
-        setTimeout(() => {
-          reject(
-            new Error(`Tool "${toolName}" timed out after ${timeoutMs}ms`),
-          );
-        }, timeoutMs);
-      }),
-    ]);
-  }
-
   /**
    * Validate tool input without executing
    *
@@ -174,18 +352,39 @@ export class ToolRunner {
     tool: Tool<TInput, unknown>,
     input: TInput,
   ): true | Error {
+    const validation = this.validateInput(tool, input);
+    return validation.success ? true : validation.error;
+  }
+
+  /**
+   * Validate tool input and return the parsed value (with schema defaults and
+   * transforms applied) or a {@link ToolInputValidationError} listing each issue
+   *
+   * @param tool - Tool to validate input for
+   * @param input - Input to validate
+   * @returns Parsed input or validation error
+   */
+  public static validateInput<TInput>(
+    tool: Tool<TInput, unknown>,
+    input: unknown,
+  ): ToolInputValidation<TInput> {
     if (!tool.schema) {
-      return true; // No schema means no validation needed
+      return { success: true, data: input as TInput };
     }
 
     const validation = tool.schema.safeParse(input);
-    if (!validation.success) {
-      return new Error(
-        `Invalid input for tool "${tool.name}": ${validation.error.message}`,
-      );
+    if (validation.success) {
+      return { success: true, data: validation.data };
     }
 
-    return true;
+    const issues: ToolInputIssue[] = validation.error.issues.map((issue) => ({
+      path: issue.path.join(".") || "(root)",
+      message: issue.message,
+    }));
+    return {
+      success: false,
+      error: new ToolInputValidationError(tool.name, issues),
+    };
   }
 
   /**
@@ -0,0 +1,111 @@
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+import {
+  createArtifact,
+  createArtifactReference,
+  createReadArtifactTool,
+  FileArtifactStore,
+  InMemoryArtifactStore,
+  READ_ARTIFACT_TOOL_NAME,
+  type ArtifactStore,
+} from "@/artifacts/artifacts";
+import { AgentContext } from "@/base/context";
+
+const describeStore = (name: string, createStore: () => ArtifactStore) => {
+  describe(name, () => {
+    it("round-trips, replaces and deletes artifacts", async () => {
+      const store = createStore();
+      const artifact = createArtifact("search", "x".repeat(20), "session-1");
+
+      await store.save(artifact);
+      await expect(store.load(artifact.id)).resolves.toEqual(artifact);
+      expect(artifact.id).toMatch(/^artifact_/);
+
+      await store.save({ ...artifact, content: "replaced" });
+      await expect(store.load(artifact.id)).resolves.toMatchObject({
+        content: "replaced",
+      });
+
+      await expect(store.delete(artifact.id)).resolves.toBe(true);
+      await expect(store.delete(artifact.id)).resolves.toBe(false);
+      await expect(store.load(artifact.id)).resolves.toBeNull();
+    });
+  });
+};
+
+describeStore("InMemoryArtifactStore", () => new InMemoryArtifactStore());
+
+describe("FileArtifactStore", () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(path.join(tmpdir(), "opper-artifacts-"));
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  describeStore("behaviour", () => new FileArtifactStore(directory));
+});
+
+describe("createArtifactReference", () => {
+  it("points the model at read_artifact with a preview", () => {
+    const artifact = createArtifact("search", "abcdefghij");
+
+    expect(createArtifactReference(artifact, 4)).toEqual({
+      artifactId: artifact.id,
+      totalChars: 10,
+      preview: "abcd",
+      note: expect.stringContaining(`Call ${READ_ARTIFACT_TOOL_NAME}`),
+    });
+  });
+});
+
+describe("read_artifact tool", () => {
+  const context = new AgentContext({ agentName: "test" });
+
+  it("pages through an artifact", async () => {
+    const store = new InMemoryArtifactStore();
+    const artifact = createArtifact("search", "0123456789");
+    await store.save(artifact);
+    const tool = createReadArtifactTool(store, { pageChars: 4 });
+
+    const first = await tool.execute(
+      { artifactId: artifact.id },
+      { agentContext: context },
+    );
+    const last = await tool.execute(
+      { artifactId: artifact.id, offset: 8, length: 100 },
+      { agentContext: context },
+    );
+
+    expect(first).toMatchObject({
+      success: true,
+      output: { content: "0123", totalChars: 10, nextOffset: 4 },
+    });
+    expect(last).toMatchObject({
+      success: true,
+      output: { content: "89", offset: 8, nextOffset: null },
+    });
+  });
+
+  it("fails for unknown artifacts", async () => {
+    const tool = createReadArtifactTool(new InMemoryArtifactStore());
+
+    const result = await tool.execute(
+      { artifactId: "artifact_missing" },
+      { agentContext: context },
+    );
+
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(String(result.error)).toContain(
+        'Artifact "artifact_missing" not found',
+      );
+    }
+  });
+});
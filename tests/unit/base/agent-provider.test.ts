@@ -46,4 +46,29 @@ describe("BaseAgent tool providers", () => {
       false,
     );
   });
+
+  it("replaces the tools of an active provider", async () => {
+    const provider = new StubProvider();
+    const replacement: Tool<unknown, unknown> = {
+      name: "stub:reverse",
+      execute: async (input) =>
+        ToolResultFactory.success("stub:reverse", input ?? null),
+    };
+    class UpdatingAgent extends TestAgent {
+      public seen: string[] = [];
+
+      protected override async runLoop(input: string): Promise<string> {
+        this.updateProviderTools(provider, [replacement]);
+        this.seen = this.getTools().map((tool) => tool.name);
+        return input;
+      }
+    }
+    const agent = new UpdatingAgent({ name: "test", tools: [provider] });
+
+    agent.updateProviderTools(provider, [replacement]);
+    await agent.process("hello");
+
+    expect(agent.seen).toEqual(["stub:reverse"]);
+    expect(agent.getTools()).toEqual([]);
+  });
 });
@@ -8,6 +8,7 @@ import {
   type OpperClientConfig,
 } from "@/base/agent";
 import { AgentContext } from "@/base/context";
+import { ToolTimeoutError } from "@/base/errors";
 import { HookEvents } from "@/base/hooks";
 import {
   ToolResultFactory,
@@ -188,6 +189,19 @@ describe("BaseAgent", () => {
 
       expect(agent.contextFromInit?.parentSpanId).toBe("parent-span-123");
     });
+
+    it("accepts run options with parentSpanId and signal", async () => {
+      const agent = new CustomLifecycleAgent({ name: "test" });
+      const controller = new AbortController();
+
+      await agent.process("test", {
+        parentSpanId: "parent-span-456",
+        signal: controller.signal,
+      });
+
+      expect(agent.contextFromInit?.parentSpanId).toBe("parent-span-456");
+      expect(agent.contextFromInit?.signal).toBe(controller.signal);
+    });
   });
 
   describe("process() orchestration", () => {
@@ -760,6 +774,232 @@ describe("BaseAgent", () => {
         }),
       );
     });
+
+    it("rejects invalid input without running the tool", async () => {
+      class ExecuteToolAgent extends TestAgent {
+        public async testExecuteTool(
+          toolName: string,
+          input: unknown,
+          context: AgentContext,
+        ) {
+          return this.executeTool(toolName, input, context);
+        }
+      }
+
+      const agent = new ExecuteToolAgent({ name: "validation-test" });
+      const execute = vi.fn(async (input: { x: number }) =>
+        ToolResultFactory.success("math-tool", input.x),
+      );
+      agent.addTool({
+        name: "math-tool",
+        schema: z.object({ x: z.number() }),
+        execute,
+      });
+
+      const beforeHook = vi.fn();
+      const errorHook = vi.fn();
+      agent.registerHook(HookEvents.BeforeTool, beforeHook);
+      agent.registerHook(HookEvents.ToolError, errorHook);
+
+      const context = new AgentContext({ agentName: "validation-test" });
+      const result = await agent.testExecuteTool(
+        "math-tool",
+        { x: "five" },
+        context,
+      );
+
+      expect(result.success).toBe(false);
+      expect(execute).not.toHaveBeenCalled();
+      expect(beforeHook).not.toHaveBeenCalled();
+      expect(errorHook).toHaveBeenCalledOnce();
+      expect(context.toolCalls[0]?.error).toMatch(
+        /^Invalid input for tool "math-tool": x: .+\. Fix these arguments/,
+      );
+      expect(context.toolCalls[0]?.metadata["validationIssues"]).toEqual([
+        { path: "x", message: expect.any(String) },
+      ]);
+    });
+
+    it("passes parsed input with schema defaults to the tool", async () => {
+      class ExecuteToolAgent extends TestAgent {
+        public async testExecuteTool(
+          toolName: string,
+          input: unknown,
+          context: AgentContext,
+        ) {
+          return this.executeTool(toolName, input, context);
+        }
+      }
+
+      const agent = new ExecuteToolAgent({ name: "defaults-test" });
+      agent.addTool({
+        name: "paged",
+        schema: z.object({ page: z.number().default(1) }),
+        execute: async (input: { page: number }) =>
+          ToolResultFactory.success("paged", input.page),
+      });
+
+      const context = new AgentContext({ agentName: "defaults-test" });
+      const result = await agent.testExecuteTool("paged", {}, context);
+
+      expect(result).toMatchObject({ success: true, output: 1 });
+    });
+
+    it("times out tools using the tool timeout over the agent default", async () => {
+      class ExecuteToolAgent extends TestAgent {
+        public async testExecuteTool(
+          toolName: string,
+          input: unknown,
+          context: AgentContext,
+        ) {
+          return this.executeTool(toolName, input, context);
+        }
+      }
+
+      const agent = new ExecuteToolAgent({
+        name: "timeout-test",
+        toolTimeoutMs: 1000,
+      });
+      let toolSignal: AbortSignal | undefined;
+      agent.addTool({
+        name: "hanging",
+        timeoutMs: 20,
+        execute: (_input, executionContext) => {
+          toolSignal = executionContext.signal;
+          return new Promise<never>(() => {});
+        },
+      });
+
+      const context = new AgentContext({ agentName: "timeout-test" });
+      const result = await agent.testExecuteTool("hanging", {}, context);
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error).toBeInstanceOf(ToolTimeoutError);
+      }
+      expect(toolSignal?.aborted).toBe(true);
+      expect(context.toolCalls[0]?.error).toBe(
+        'Tool "hanging" timed out after 20ms',
+      );
+    });
+
+    it("stops waiting for a tool when the run is aborted", async () => {
+      class ExecuteToolAgent extends TestAgent {
+        public async testExecuteTool(
+          toolName: string,
+          input: unknown,
+          context: AgentContext,
+        ) {
+          return this.executeTool(toolName, input, context);
+        }
+      }
+
+      const agent = new ExecuteToolAgent({ name: "abort-test" });
+      const controller = new AbortController();
+      agent.addTool({
+        name: "hanging",
+        execute: () => {
+          setTimeout(() => controller.abort(), 10);
+          return new Promise<never>(() => {});
+        },
+      });
+
+      const context = new AgentContext({
+        agentName: "abort-test",
+        signal: controller.signal,
+      });
+      const result = await agent.testExecuteTool("hanging", {}, context);
+
+      expect(result.success).toBe(false);
+      expect(context.toolCalls[0]?.error).toBe(
+        'Tool "hanging" execution was aborted',
+      );
+    });
+
+    it("retries tools with a retry policy and records every attempt", async () => {
+      class ExecuteToolAgent extends TestAgent {
+        public async testExecuteTool(
+          toolName: string,
+          input: unknown,
+          context: AgentContext,
+        ) {
+          return this.executeTool(toolName, input, context);
+        }
+      }
+
+      const agent = new ExecuteToolAgent({ name: "retry-test" });
+      let calls = 0;
+      agent.addTool({
+        name: "flaky_http",
+        retry: { maxAttempts: 3, backoffMs: 1 },
+        execute: async () => {
+          calls += 1;
+          return calls === 1
+            ? ToolResultFactory.failure("flaky_http", new Error("ECONNRESET"))
+            : ToolResultFactory.success("flaky_http", { status: 200 });
+        },
+      });
+
+      const retryHook = vi.fn();
+      const errorHook = vi.fn();
+      agent.registerHook(HookEvents.ToolRetry, retryHook);
+      agent.registerHook(HookEvents.ToolError, errorHook);
+
+      const context = new AgentContext({ agentName: "retry-test" });
+      const result = await agent.testExecuteTool("flaky_http", {}, context);
+
+      expect(result).toMatchObject({ success: true, output: { status: 200 } });
+      expect(errorHook).not.toHaveBeenCalled();
+      expect(retryHook).toHaveBeenCalledOnce();
+      expect(retryHook.mock.calls[0]?.[0]).toMatchObject({
+        attempt: 1,
+        maxAttempts: 3,
+        delayMs: 1,
+        toolCallId: context.toolCalls[0]?.id,
+      });
+      expect(context.toolCalls).toHaveLength(1);
+      expect(context.toolCalls[0]?.metadata["attempts"]).toMatchObject([
+        { attempt: 1, success: false, error: "ECONNRESET" },
+        { attempt: 2, success: true },
+      ]);
+    });
+
+    it("returns the last failure once retries are exhausted", async () => {
+      class ExecuteToolAgent extends TestAgent {
+        public async testExecuteTool(
+          toolName: string,
+          input: unknown,
+          context: AgentContext,
+        ) {
+          return this.executeTool(toolName, input, context);
+        }
+      }
+
+      const agent = new ExecuteToolAgent({ name: "retry-exhausted" });
+      const execute = vi.fn(async () => {
+        throw new Error("HTTP 502");
+      });
+      agent.addTool({
+        name: "down",
+        retry: { maxAttempts: 2, backoffMs: 0 },
+        execute,
+      });
+
+      const errorHook = vi.fn();
+      agent.registerHook(HookEvents.ToolError, errorHook);
+
+      const context = new AgentContext({ agentName: "retry-exhausted" });
+      const result = await agent.testExecuteTool("down", {}, context);
+
+      expect(result.success).toBe(false);
+      expect(execute).toHaveBeenCalledTimes(2);
+      expect(errorHook).toHaveBeenCalledOnce();
+      expect(context.toolCalls[0]).toMatchObject({
+        success: false,
+        error: "HTTP 502",
+      });
+      expect(context.toolCalls[0]?.metadata["attempts"]).toHaveLength(2);
+    });
   });
 
   describe("run()", () => {
@@ -771,6 +1011,7 @@ describe("BaseAgent", () => {
       expect(response).toHaveProperty("result");
       expect(response).toHaveProperty("usage");
       expect(response.result).toBe("Processed: test input");
+      expect(response.stopReason).toBe("completed");
     });
 
     it("returns usage with expected structure", async () => {
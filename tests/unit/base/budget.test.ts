@@ -0,0 +1,39 @@
+import { describe, expect, it } from "vitest";
+
+import { measureBudget } from "@/base/budget";
+import { createEmptyUsage } from "@/base/context";
+
+describe("measureBudget", () => {
+  it("measures only configured limits", () => {
+    const usage = {
+      ...createEmptyUsage(),
+      requests: 3,
+      totalTokens: 1200,
+      cost: { generation: 0.1, platform: 0.02, total: 0.12 },
+    };
+
+    expect(
+      measureBudget({ maxTotalTokens: 1000, maxCostUsd: 1 }, usage, 50),
+    ).toEqual([
+      { limit: "totalTokens", value: 1200, max: 1000 },
+      { limit: "costUsd", value: 0.12, max: 1 },
+    ]);
+  });
+
+  it("measures requests and wall-clock time", () => {
+    expect(
+      measureBudget(
+        { maxRequests: 10, maxWallClockMs: 1000 },
+        { ...createEmptyUsage(), requests: 4 },
+        250,
+      ),
+    ).toEqual([
+      { limit: "requests", value: 4, max: 10 },
+      { limit: "wallClockMs", value: 250, max: 1000 },
+    ]);
+  });
+
+  it("returns nothing without limits", () => {
+    expect(measureBudget({}, createEmptyUsage(), 0)).toEqual([]);
+  });
+});
@@ -1,4 +1,4 @@
-import { describe, expect, it } from "vitest";
+import { describe, expect, it, vi } from "vitest";
 
 import {
   AgentContext,
@@ -164,6 +164,70 @@ describe("AgentContext", () => {
     expect(context.usage.breakdown?.["nested_agent"]?.totalTokens).toBe(300);
   });
 
+  it("rebuilds a context from a snapshot", () => {
+    const original = new AgentContext({
+      agentName: "Restorable",
+      sessionId: "session-1",
+      parentSpanId: "span-1",
+      goal: { task: "resume me" },
+      metadata: { foo: "bar" },
+    });
+    original.iteration = 2;
+    original.addCycle({
+      iteration: 1,
+      thought: { reasoning: "first" },
+      toolCalls: [],
+      results: [],
+      timestamp: Date.now(),
+    });
+    original.recordToolCall({
+      toolName: "search",
+      input: { q: "x" },
+      startedAt: Date.now(),
+      metadata: {},
+    });
+    original.updateUsageWithSource("Restorable", {
+      requests: 1,
+      inputTokens: 10,
+      outputTokens: 5,
+      totalTokens: 15,
+      cost: { generation: 0, platform: 0, total: 0 },
+    });
+
+    const snapshot = JSON.parse(JSON.stringify(original.snapshot()));
+    const restored = AgentContext.fromSnapshot(snapshot);
+
+    expect(restored.sessionId).toBe("session-1");
+    expect(restored.parentSpanId).toBe("span-1");
+    expect(restored.goal).toEqual({ task: "resume me" });
+    expect(restored.iteration).toBe(2);
+    expect(restored.startedAt).toBe(original.startedAt);
+    expect(restored.executionHistory).toHaveLength(1);
+    expect(restored.toolCalls[0]?.toolName).toBe("search");
+    expect(restored.usage.totalTokens).toBe(15);
+    expect(restored.metadata["foo"]).toBe("bar");
+  });
+
+  it("excludes time spent suspended from the elapsed time", () => {
+    vi.useFakeTimers({ now: 1_000_000 });
+    try {
+      const original = new AgentContext({ agentName: "Suspendable" });
+      vi.advanceTimersByTime(2_000);
+      const snapshot = JSON.parse(JSON.stringify(original.snapshot()));
+
+      // Resumed an hour later
+      vi.advanceTimersByTime(3_600_000);
+      const restored = AgentContext.fromSnapshot(snapshot);
+      vi.advanceTimersByTime(500);
+
+      expect(snapshot.activeMs).toBe(2_000);
+      expect(restored.elapsedMs()).toBe(2_500);
+      expect(restored.startedAt).toBe(1_000_000);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
   it("cleans up breakdown when only parent agent present", () => {
     const context = new AgentContext({ agentName: "ParentAgent" });
 
@@ -43,6 +43,7 @@ describe("AgentEvents", () => {
       expect(AgentEvents.BeforeTool).toBe("tool:before");
       expect(AgentEvents.AfterTool).toBe("tool:after");
       expect(AgentEvents.ToolError).toBe("tool:error");
+      expect(AgentEvents.ToolRetry).toBe("tool:retry");
       expect(AgentEvents.MemoryRead).toBe("memory:read");
       expect(AgentEvents.MemoryWrite).toBe("memory:write");
       expect(AgentEvents.MemoryError).toBe("memory:error");
@@ -50,11 +51,12 @@ describe("AgentEvents", () => {
       expect(AgentEvents.StreamChunk).toBe("stream:chunk");
       expect(AgentEvents.StreamEnd).toBe("stream:end");
       expect(AgentEvents.StreamError).toBe("stream:error");
+      expect(AgentEvents.BudgetWarning).toBe("budget:warning");
     });
 
-    it("has all 17 hook events", () => {
+    it("has all 19 hook events", () => {
       const allEvents = Object.values(AgentEvents);
-      expect(allEvents).toHaveLength(17);
+      expect(allEvents).toHaveLength(19);
     });
   });
 
@@ -74,6 +76,7 @@ describe("AgentEvents", () => {
       expect(acceptsHookEvent(AgentEvents.BeforeTool)).toBe("tool:before");
       expect(acceptsHookEvent(AgentEvents.AfterTool)).toBe("tool:after");
       expect(acceptsHookEvent(AgentEvents.ToolError)).toBe("tool:error");
+      expect(acceptsHookEvent(AgentEvents.ToolRetry)).toBe("tool:retry");
       expect(acceptsHookEvent(AgentEvents.MemoryRead)).toBe("memory:read");
       expect(acceptsHookEvent(AgentEvents.MemoryWrite)).toBe("memory:write");
       expect(acceptsHookEvent(AgentEvents.MemoryError)).toBe("memory:error");
@@ -81,6 +84,9 @@ describe("AgentEvents", () => {
       expect(acceptsHookEvent(AgentEvents.StreamChunk)).toBe("stream:chunk");
       expect(acceptsHookEvent(AgentEvents.StreamEnd)).toBe("stream:end");
       expect(acceptsHookEvent(AgentEvents.StreamError)).toBe("stream:error");
+      expect(acceptsHookEvent(AgentEvents.BudgetWarning)).toBe(
+        "budget:warning",
+      );
     });
 
     it("HookEvents can be used where AgentEvents is expected", () => {
@@ -99,6 +105,7 @@ describe("AgentEvents", () => {
       expect(acceptsAgentEvent(HookEvents.BeforeTool)).toBe("tool:before");
       expect(acceptsAgentEvent(HookEvents.AfterTool)).toBe("tool:after");
       expect(acceptsAgentEvent(HookEvents.ToolError)).toBe("tool:error");
+      expect(acceptsAgentEvent(HookEvents.ToolRetry)).toBe("tool:retry");
       expect(acceptsAgentEvent(HookEvents.MemoryRead)).toBe("memory:read");
       expect(acceptsAgentEvent(HookEvents.MemoryWrite)).toBe("memory:write");
       expect(acceptsAgentEvent(HookEvents.MemoryError)).toBe("memory:error");
@@ -106,6 +113,9 @@ describe("AgentEvents", () => {
       expect(acceptsAgentEvent(HookEvents.StreamChunk)).toBe("stream:chunk");
       expect(acceptsAgentEvent(HookEvents.StreamEnd)).toBe("stream:end");
       expect(acceptsAgentEvent(HookEvents.StreamError)).toBe("stream:error");
+      expect(acceptsAgentEvent(HookEvents.BudgetWarning)).toBe(
+        "budget:warning",
+      );
     });
   });
 
@@ -128,6 +138,7 @@ describe("AgentEvents", () => {
       handlers.push(agent.on(HookEvents.BeforeTool, vi.fn()));
       handlers.push(agent.on(HookEvents.AfterTool, vi.fn()));
       handlers.push(agent.on(HookEvents.ToolError, vi.fn()));
+      handlers.push(agent.on(HookEvents.ToolRetry, vi.fn()));
       handlers.push(agent.on(HookEvents.MemoryRead, vi.fn()));
       handlers.push(agent.on(HookEvents.MemoryWrite, vi.fn()));
       handlers.push(agent.on(HookEvents.MemoryError, vi.fn()));
@@ -135,9 +146,10 @@ describe("AgentEvents", () => {
       handlers.push(agent.on(HookEvents.StreamChunk, vi.fn()));
       handlers.push(agent.on(HookEvents.StreamEnd, vi.fn()));
       handlers.push(agent.on(HookEvents.StreamError, vi.fn()));
+      handlers.push(agent.on(HookEvents.BudgetWarning, vi.fn()));
 
-      // All 17 handlers should have been registered
-      expect(handlers).toHaveLength(17);
+      // All 19 handlers should have been registered
+      expect(handlers).toHaveLength(19);
 
       // All handlers should return unsubscribe functions
       handlers.forEach((unsubscribe) => {
@@ -164,6 +176,7 @@ describe("AgentEvents", () => {
       handlers.push(agent.registerHook(HookEvents.BeforeTool, vi.fn()));
       handlers.push(agent.registerHook(HookEvents.AfterTool, vi.fn()));
       handlers.push(agent.registerHook(HookEvents.ToolError, vi.fn()));
+      handlers.push(agent.registerHook(HookEvents.ToolRetry, vi.fn()));
       handlers.push(agent.registerHook(HookEvents.MemoryRead, vi.fn()));
       handlers.push(agent.registerHook(HookEvents.MemoryWrite, vi.fn()));
       handlers.push(agent.registerHook(HookEvents.MemoryError, vi.fn()));
@@ -171,9 +184,10 @@ describe("AgentEvents", () => {
       handlers.push(agent.registerHook(HookEvents.StreamChunk, vi.fn()));
       handlers.push(agent.registerHook(HookEvents.StreamEnd, vi.fn()));
       handlers.push(agent.registerHook(HookEvents.StreamError, vi.fn()));
+      handlers.push(agent.registerHook(HookEvents.BudgetWarning, vi.fn()));
 
-      // All 17 handlers should have been registered
-      expect(handlers).toHaveLength(17);
+      // All 19 handlers should have been registered
+      expect(handlers).toHaveLength(19);
 
       // Cleanup
       handlers.forEach((unsubscribe) => unsubscribe());
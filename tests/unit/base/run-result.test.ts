@@ -0,0 +1,105 @@
+import { describe, expect, it } from "vitest";
+
+import { AgentContext } from "@/base/context";
+import { AgentRunResultSchema, buildAgentRunResult } from "@/base/run-result";
+
+describe("buildAgentRunResult", () => {
+  const createContext = () => {
+    const context = new AgentContext({
+      agentName: "Reporter",
+      sessionId: "session-1",
+      startedAt: 1_000,
+    });
+    context.rootSpanId = "span-root";
+    context.stopReason = "completed";
+    context.thoughts.push(
+      { iteration: 1, reasoning: "Look it up", userMessage: "Searching..." },
+      { iteration: 2, reasoning: "Done", userMessage: "Finishing up" },
+    );
+    context.phaseTimings.push(
+      { phase: "think", iteration: 1, startedAt: 1_000, durationMs: 100 },
+      { phase: "tools", iteration: 1, startedAt: 1_100, durationMs: 40 },
+      { phase: "think", iteration: 2, startedAt: 1_140, durationMs: 60 },
+      { phase: "final_result", iteration: 2, startedAt: 1_200, durationMs: 50 },
+    );
+    const call = context.recordToolCall({
+      toolName: "search",
+      input: { query: "docs" },
+      output: ["a", "b"],
+      success: true,
+      startedAt: 1_100,
+      finishedAt: 1_140,
+      metadata: {},
+    });
+    context.addCycle({
+      iteration: 1,
+      thought: { reasoning: "Look it up" },
+      toolCalls: [call],
+      results: [{ toolName: "search", success: true, output: ["a", "b"] }],
+      timestamp: 1_140,
+    });
+    return context;
+  };
+
+  it("aggregates iterations and phase timings", () => {
+    const runResult = buildAgentRunResult(createContext(), "answer", 1_300);
+
+    expect(runResult).toMatchObject({
+      agentName: "Reporter",
+      sessionId: "session-1",
+      rootSpanId: "span-root",
+      result: "answer",
+      stopReason: "completed",
+      startedAt: 1_000,
+      finishedAt: 1_300,
+      timings: {
+        totalMs: 300,
+        thinkMs: 160,
+        toolsMs: 40,
+        finalResultMs: 50,
+      },
+    });
+    expect(runResult.iterations).toEqual([
+      {
+        iteration: 1,
+        reasoning: "Look it up",
+        userMessage: "Searching...",
+        toolCalls: ["search"],
+        thinkMs: 100,
+        toolsMs: 40,
+      },
+      {
+        iteration: 2,
+        reasoning: "Done",
+        userMessage: "Finishing up",
+        toolCalls: [],
+        thinkMs: 60,
+        toolsMs: 0,
+      },
+    ]);
+    expect(runResult.toolCalls[0]).toMatchObject({
+      toolName: "search",
+      input: { query: "docs" },
+    });
+  });
+
+  it("produces a JSON round-trippable shape", () => {
+    const runResult = buildAgentRunResult(createContext(), { answer: 42 });
+    const stored = JSON.parse(JSON.stringify(runResult)) as unknown;
+
+    expect(AgentRunResultSchema.parse(stored)).toEqual(runResult);
+  });
+
+  it("copies the result as plain JSON", () => {
+    const result = { at: new Date(5_000), note: undefined, count: 1 };
+
+    const runResult = buildAgentRunResult(createContext(), result);
+    const stored = JSON.parse(JSON.stringify(runResult)) as unknown;
+
+    expect(runResult.result).toEqual({
+      at: "1970-01-01T00:00:05.000Z",
+      count: 1,
+    });
+    expect(AgentRunResultSchema.parse(stored)).toEqual(runResult);
+  });
+});
@@ -0,0 +1,126 @@
+import { describe, expect, it } from "vitest";
+
+import { BaseAgent } from "@/base/agent";
+import type { AgentContext, ConversationTurn } from "@/base/context";
+import { AgentSession } from "@/base/session";
+import { ToolResultFactory } from "@/base/tool";
+
+// Echo agent recording the conversation each run was given
+class ChatAgent extends BaseAgent<string, string> {
+  public readonly seen: ConversationTurn[][] = [];
+
+  public readonly sessionIds: string[] = [];
+
+  protected override async runLoop(
+    input: string,
+    context: AgentContext,
+  ): Promise<string> {
+    this.seen.push([...context.conversation]);
+    this.sessionIds.push(context.sessionId);
+
+    if (input.startsWith("search")) {
+      context.addCycle({
+        iteration: 1,
+        thought: { reasoning: "look it up" },
+        toolCalls: [],
+        results: [
+          ToolResultFactory.success("search", "hit"),
+          { toolName: "fetch", success: false, error: "timeout" },
+        ],
+        timestamp: Date.now(),
+      });
+    }
+
+    return `echo: ${input}`;
+  }
+}
+
+describe("AgentSession", () => {
+  it("passes previous turns to each run", async () => {
+    const agent = new ChatAgent({ name: "Chat" });
+    const session = agent.createSession({ sessionId: "chat-1" });
+
+    await expect(session.send("hello")).resolves.toBe("echo: hello");
+    await session.send("search cats");
+    await session.send("thanks");
+
+    expect(agent.seen[0]).toEqual([]);
+    expect(agent.seen[1]?.map((turn) => turn.input)).toEqual(["hello"]);
+    expect(agent.seen[2]?.map((turn) => turn.output)).toEqual([
+      "echo: hello",
+      "echo: search cats",
+    ]);
+    expect(agent.seen[2]?.[1]?.actions).toEqual([
+      { tool: "search", success: true },
+      { tool: "fetch", success: false },
+    ]);
+    expect(agent.sessionIds).toEqual(["chat-1", "chat-1", "chat-1"]);
+    expect(session.turns).toHaveLength(3);
+  });
+
+  it("serializes sends so turns stay ordered", async () => {
+    const agent = new ChatAgent({ name: "Chat" });
+    const session = agent.createSession();
+
+    await Promise.all([session.send("first"), session.send("second")]);
+
+    expect(agent.seen[1]?.map((turn) => turn.input)).toEqual(["first"]);
+  });
+
+  it("limits history to the window and token budget", async () => {
+    const agent = new ChatAgent({ name: "Chat" });
+    const session = agent.createSession({ historyWindow: 2 });
+
+    for (const message of ["one", "two", "three"]) {
+      await session.send(message);
+    }
+
+    expect(session.getHistory().map((turn) => turn.input)).toEqual([
+      "two",
+      "three",
+    ]);
+
+    const budgeted = new AgentSession(agent, { maxHistoryTokens: 40 }, [
+      { input: "x".repeat(400), output: "long", actions: [], timestamp: 1 },
+      { input: "short", output: "ok", actions: [], timestamp: 2 },
+    ]);
+    expect(budgeted.getHistory().map((turn) => turn.output)).toEqual(["ok"]);
+  });
+
+  it("round-trips through JSON", async () => {
+    const agent = new ChatAgent({ name: "Chat" });
+    const session = agent.createSession({ sessionId: "persisted" });
+    await session.send("search dogs");
+
+    const state = JSON.parse(JSON.stringify(session));
+    const restored = agent.restoreSession(state);
+    await restored.send("and cats?");
+
+    expect(restored.sessionId).toBe("persisted");
+    expect(agent.seen[1]?.[0]).toMatchObject({
+      input: "search dogs",
+      output: "echo: search dogs",
+    });
+    expect(restored.turns).toHaveLength(2);
+  });
+
+  it("rejects sessions of another agent", () => {
+    const session = new ChatAgent({ name: "Chat" }).createSession();
+
+    expect(() =>
+      new ChatAgent({ name: "Other" }).restoreSession(session.toJSON()),
+    ).toThrow('belongs to agent "Chat"');
+  });
+
+  it("does not record failed turns", async () => {
+    class FailingAgent extends BaseAgent<string, string> {
+      protected override async runLoop(): Promise<string> {
+        throw new Error("boom");
+      }
+    }
+    const session = new FailingAgent({ name: "Failing" }).createSession();
+
+    await expect(session.send("hi")).rejects.toThrow("boom");
+    expect(session.turns).toHaveLength(0);
+  });
+});
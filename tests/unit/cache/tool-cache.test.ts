@@ -0,0 +1,136 @@
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import {
+  FileToolCache,
+  InMemoryToolCache,
+  toolCacheKey,
+  type ToolCache,
+} from "@/cache/tool-cache";
+
+const describeCache = (name: string, createCache: () => ToolCache) => {
+  describe(name, () => {
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it("round-trips, replaces and deletes entries", async () => {
+      const cache = createCache();
+      const entry = { output: { hits: 3 }, createdAt: 1, expiresAt: null };
+
+      await cache.set("search:a", entry);
+      await expect(cache.get("search:a")).resolves.toEqual(entry);
+
+      await cache.set("search:a", { ...entry, output: "replaced" });
+      await expect(cache.get("search:a")).resolves.toMatchObject({
+        output: "replaced",
+      });
+
+      await expect(cache.delete("search:a")).resolves.toBe(true);
+      await expect(cache.delete("search:a")).resolves.toBe(false);
+      await expect(cache.get("search:a")).resolves.toBeNull();
+    });
+
+    it("treats expired entries as missing", async () => {
+      vi.useFakeTimers();
+      vi.setSystemTime(1_000);
+      const cache = createCache();
+
+      await cache.set("search:a", {
+        output: "fresh",
+        createdAt: 1_000,
+        expiresAt: 1_500,
+      });
+      await expect(cache.get("search:a")).resolves.not.toBeNull();
+
+      vi.setSystemTime(1_500);
+      await expect(cache.get("search:a")).resolves.toBeNull();
+    });
+
+    it("clears every entry", async () => {
+      const cache = createCache();
+      await cache.set("a", { output: 1, createdAt: 1, expiresAt: null });
+      await cache.set("b", { output: 2, createdAt: 1, expiresAt: null });
+
+      await cache.clear();
+
+      await expect(cache.get("a")).resolves.toBeNull();
+      await expect(cache.get("b")).resolves.toBeNull();
+    });
+  });
+};
+
+describeCache("InMemoryToolCache", () => new InMemoryToolCache());
+
+describe("InMemoryToolCache eviction", () => {
+  it("evicts the least recently used entry once full", async () => {
+    const cache = new InMemoryToolCache(2);
+    const entry = (output: string) => ({
+      output,
+      createdAt: 1,
+      expiresAt: null,
+    });
+
+    await cache.set("a", entry("a"));
+    await cache.set("b", entry("b"));
+    // Reading "a" makes "b" the least recently used
+    await cache.get("a");
+    await cache.set("c", entry("c"));
+
+    expect(cache.size).toBe(2);
+    await expect(cache.get("b")).resolves.toBeNull();
+    await expect(cache.get("a")).resolves.toMatchObject({ output: "a" });
+    await expect(cache.get("c")).resolves.toMatchObject({ output: "c" });
+  });
+
+  it("rejects invalid sizes", () => {
+    expect(() => new InMemoryToolCache(0)).toThrow(
+      "Tool cache size must be a positive integer, got 0",
+    );
+  });
+});
+
+describe("FileToolCache", () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(path.join(tmpdir(), "opper-tool-cache-"));
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  describeCache("behaviour", () => new FileToolCache(directory));
+
+  it("shares entries between instances", async () => {
+    await new FileToolCache(directory).set("lookup:{}", {
+      output: ["x"],
+      createdAt: 1,
+      expiresAt: null,
+    });
+
+    await expect(
+      new FileToolCache(directory).get("lookup:{}"),
+    ).resolves.toMatchObject({ output: ["x"] });
+  });
+});
+
+describe("toolCacheKey", () => {
+  it("ignores object key order", () => {
+    expect(toolCacheKey("search", { query: "a", limit: 5 })).toBe(
+      toolCacheKey("search", { limit: 5, query: "a" }),
+    );
+    expect(toolCacheKey("search", { query: "a" })).toBe('search:{"query":"a"}');
+  });
+
+  it("uses a custom key function", () => {
+    expect(
+      toolCacheKey("search", { query: "A", requestId: "1" }, (input) =>
+        input.query.toLowerCase(),
+      ),
+    ).toBe("search:a");
+  });
+});
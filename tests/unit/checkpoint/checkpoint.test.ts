@@ -0,0 +1,179 @@
+import { mkdtemp, readdir, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+import { AgentContext } from "@/base/context";
+import {
+  FileCheckpointStore,
+  InMemoryCheckpointStore,
+  createCheckpoint,
+  type CheckpointStore,
+} from "@/checkpoint/checkpoint";
+
+const createSampleContext = (sessionId = "session-1"): AgentContext => {
+  const context = new AgentContext({
+    agentName: "CheckpointAgent",
+    sessionId,
+    goal: "research topic",
+  });
+  context.iteration = 1;
+  context.addCycle({
+    iteration: 1,
+    thought: { reasoning: "search first" },
+    toolCalls: [],
+    results: [{ toolName: "search", success: true, output: ["a", "b"] }],
+    timestamp: Date.now(),
+  });
+  context.recordToolCall({
+    toolName: "search",
+    input: { query: "topic" },
+    output: ["a", "b"],
+    success: true,
+    startedAt: Date.now(),
+    metadata: {},
+  });
+  context.thoughts.push({
+    iteration: 1,
+    reasoning: "search first",
+    userMessage: "Searching...",
+  });
+  context.phaseTimings.push({
+    phase: "think",
+    iteration: 1,
+    startedAt: 1_000,
+    durationMs: 120,
+  });
+  return context;
+};
+
+const describeStore = (
+  name: string,
+  createStore: () => Promise<CheckpointStore>,
+) => {
+  describe(name, () => {
+    let store: CheckpointStore;
+
+    beforeEach(async () => {
+      store = await createStore();
+    });
+
+    it("round-trips a checkpoint", async () => {
+      const checkpoint = createCheckpoint(createSampleContext().snapshot());
+
+      await store.save(checkpoint);
+      const loaded = await store.load("session-1");
+
+      expect(loaded).not.toBeNull();
+      expect(loaded?.agentName).toBe("CheckpointAgent");
+      expect(loaded?.snapshot.iteration).toBe(1);
+      expect(loaded?.snapshot.goal).toBe("research topic");
+      expect(loaded?.snapshot.executionHistory[0]?.results).toEqual([
+        { toolName: "search", success: true, output: ["a", "b"] },
+      ]);
+      expect(loaded?.snapshot.toolCalls[0]?.input).toEqual({ query: "topic" });
+    });
+
+    it("restores thoughts and phase timings", async () => {
+      await store.save(createCheckpoint(createSampleContext().snapshot()));
+      const loaded = await store.load("session-1");
+
+      const restored = AgentContext.fromSnapshot(loaded!.snapshot);
+
+      expect(restored.thoughts).toEqual([
+        {
+          iteration: 1,
+          reasoning: "search first",
+          userMessage: "Searching...",
+        },
+      ]);
+      expect(restored.phaseTimings).toEqual([
+        { phase: "think", iteration: 1, startedAt: 1_000, durationMs: 120 },
+      ]);
+    });
+
+    it("returns null for unknown sessions", async () => {
+      await expect(store.load("missing")).resolves.toBeNull();
+    });
+
+    it("replaces previous checkpoints for the same session", async () => {
+      const context = createSampleContext();
+      await store.save(createCheckpoint(context.snapshot()));
+
+      context.iteration = 2;
+      await store.save(createCheckpoint(context.snapshot()));
+
+      const loaded = await store.load("session-1");
+      expect(loaded?.snapshot.iteration).toBe(2);
+    });
+
+    it("deletes checkpoints", async () => {
+      await store.save(createCheckpoint(createSampleContext().snapshot()));
+
+      await expect(store.delete("session-1")).resolves.toBe(true);
+      await expect(store.delete("session-1")).resolves.toBe(false);
+      await expect(store.load("session-1")).resolves.toBeNull();
+    });
+  });
+};
+
+describeStore(
+  "InMemoryCheckpointStore",
+  async () => new InMemoryCheckpointStore(),
+);
+
+describe("InMemoryCheckpointStore isolation", () => {
+  it("is not affected by later context mutations", async () => {
+    const store = new InMemoryCheckpointStore();
+    const context = createSampleContext();
+
+    await store.save(createCheckpoint(context.snapshot()));
+    context.addCycle({
+      iteration: 2,
+      thought: { reasoning: "later" },
+      toolCalls: [],
+      results: [],
+      timestamp: Date.now(),
+    });
+
+    const loaded = await store.load("session-1");
+    expect(loaded?.snapshot.executionHistory).toHaveLength(1);
+    expect(store.size).toBe(1);
+  });
+});
+
+describe("FileCheckpointStore", () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(path.join(tmpdir(), "opper-checkpoints-"));
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  describeStore(
+    "behaviour",
+    async () => new FileCheckpointStore(path.join(directory, "nested")),
+  );
+
+  it("writes one JSON file per session without leftovers", async () => {
+    const store = new FileCheckpointStore(directory);
+
+    await store.save(createCheckpoint(createSampleContext("a/b").snapshot()));
+
+    const files = await readdir(directory);
+    expect(files).toEqual([`${encodeURIComponent("a/b")}.json`]);
+  });
+
+  it("rejects corrupted checkpoint files", async () => {
+    const store = new FileCheckpointStore(directory);
+    await writeFile(
+      path.join(directory, "broken.json"),
+      JSON.stringify({ sessionId: "broken" }),
+    );
+
+    await expect(store.load("broken")).rejects.toThrow();
+  });
+});
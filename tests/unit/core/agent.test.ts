@@ -2,11 +2,22 @@ import { describe, it, expect, vi, beforeEach } from "vitest";
 import type { Mock } from "vitest";
 import { z } from "zod";
 
+import { InMemoryArtifactStore } from "../../../src/artifacts/artifacts";
+import type { ToolApprovalRequirement } from "../../../src/base/approval";
 import type { AgentContext } from "../../../src/base/context";
+import {
+  AgentAbortedError,
+  AgentSuspendedError,
+  BudgetExceededError,
+} from "../../../src/base/errors";
 import { HookEvents } from "../../../src/base/hooks";
 import { ToolResultFactory, type Tool } from "../../../src/base/tool";
+import { InMemoryToolCache } from "../../../src/cache/tool-cache";
+import { InMemoryCheckpointStore } from "../../../src/checkpoint/checkpoint";
 import { Agent } from "../../../src/core/agent";
 import type { AgentDecision } from "../../../src/core/schemas";
+import { OpenAICompatibleProvider } from "../../../src/llm/openai-compatible";
+import type { LlmProvider, Tracer } from "../../../src/llm/provider";
 import { OpperClient } from "../../../src/opper/client";
 
 // Helper to create mock usage with cost
@@ -43,7 +54,7 @@ vi.mock("../../../src/opper/client", () => {
     .mockResolvedValue({ id: "mock-span-id", name: "mock-span" });
   OpperClient.prototype.updateSpan = vi.fn().mockResolvedValue(undefined);
   OpperClient.prototype.stream = vi.fn();
-  OpperClient.prototype.getClient = vi.fn();
+  OpperClient.prototype.getStreamUsage = vi.fn().mockResolvedValue(null);
   return { OpperClient };
 });
 
@@ -527,25 +538,14 @@ describe("Agent", () => {
         .mockResolvedValueOnce(createStreamResponse(thinkEvents))
         .mockResolvedValueOnce(createStreamResponse(finalEvents));
 
-      const mockSpansGet = vi.fn(async (spanId: string) => ({
-        id: spanId,
-        traceId: `trace-${spanId}`,
-      }));
-      const mockTracesGet = vi.fn(async (traceId: string) => ({
-        spans: [
-          {
-            id: traceId.replace("trace-", ""),
-            data: {
-              totalTokens: traceId.includes("think") ? 42 : 18,
-            },
-          },
-        ],
-      }));
-
-      (mockOpperClient.getClient as Mock).mockReturnValue({
-        spans: { get: mockSpansGet },
-        traces: { get: mockTracesGet },
-      });
+      vi.spyOn(mockOpperClient, "getStreamUsage").mockImplementation(
+        async (spanId) => ({
+          inputTokens: 0,
+          outputTokens: 0,
+          totalTokens: spanId.includes("think") ? 42 : 18,
+          cost: { generation: 0, platform: 0, total: 0 },
+        }),
+      );
 
       const agent = new Agent({
         name: "StreamingAgent",
@@ -579,8 +579,7 @@ describe("Agent", () => {
       expect(result).toBe("Task done");
       expect(mockOpperClient.call).not.toHaveBeenCalled();
       expect(mockOpperClient.stream).toHaveBeenCalledTimes(2);
-      expect(mockSpansGet).toHaveBeenCalledWith("span-think");
-      expect(mockTracesGet).toHaveBeenCalledWith("trace-span-think");
+      expect(mockOpperClient.getStreamUsage).toHaveBeenCalledWith("span-think");
       expect(emitterSpy).toHaveBeenCalledWith("think");
       expect(emitterSpy).toHaveBeenCalledWith("final_result");
 
@@ -626,24 +625,11 @@ describe("Agent", () => {
         .mockResolvedValueOnce(createStreamResponse(thinkEvents))
         .mockResolvedValueOnce(createStreamResponse(finalEvents));
 
-      const mockSpansGet = vi.fn(async (spanId: string) => ({
-        id: spanId,
-        traceId: `trace-${spanId}`,
-      }));
-      const mockTracesGet = vi.fn(async (traceId: string) => ({
-        spans: [
-          {
-            id: traceId.replace("trace-", ""),
-            data: {
-              totalTokens: 10,
-            },
-          },
-        ],
-      }));
-
-      (mockOpperClient.getClient as Mock).mockReturnValue({
-        spans: { get: mockSpansGet },
-        traces: { get: mockTracesGet },
+      vi.spyOn(mockOpperClient, "getStreamUsage").mockResolvedValue({
+        inputTokens: 0,
+        outputTokens: 0,
+        totalTokens: 10,
+        cost: { generation: 0, platform: 0, total: 0 },
       });
 
       const onStart = vi.fn();
@@ -805,7 +791,8 @@ describe("Agent", () => {
         opperClient: mockOpperClient,
       });
 
-      let capturedThought: { reasoning: string; userMessage: string } | undefined;
+      let capturedThought:
+        { reasoning: string; userMessage: string } | undefined;
       agent.registerHook(HookEvents.ThinkEnd, ({ thought }) => {
         capturedThought = thought as { reasoning: string; userMessage: string };
       });
@@ -1116,7 +1103,11 @@ describe("Agent", () => {
       const firstDecision = createMockDecision({
         reasoning: "Trying throwing tool",
         toolCalls: [
-          { id: "call-1", toolName: "throwing_tool", arguments: { input: "test" } },
+          {
+            id: "call-1",
+            toolName: "throwing_tool",
+            arguments: { input: "test" },
+          },
         ],
       });
 
@@ -1177,9 +1168,7 @@ describe("Agent", () => {
       // Always return a decision that requires more tools to force max iterations error
       const neverCompleteDecision = createMockDecision({
         reasoning: "Need more iterations",
-        toolCalls: [
-          { id: "call-1", toolName: "dummy_tool", arguments: {} },
-        ],
+        toolCalls: [{ id: "call-1", toolName: "dummy_tool", arguments: {} }],
       });
 
       const dummyTool: Tool<unknown, unknown> = {
@@ -1376,7 +1365,11 @@ describe("Agent", () => {
       const firstDecision = createMockDecision({
         reasoning: "Need to delegate to sub-agent",
         toolCalls: [
-          { id: "call-1", toolName: "sub_agent", arguments: { task: "subtask" } },
+          {
+            id: "call-1",
+            toolName: "sub_agent",
+            arguments: { task: "subtask" },
+          },
         ],
       });
 
@@ -1553,7 +1546,10 @@ describe("Agent", () => {
       const memoryDecision = createMockDecision({
         reasoning: "Write to memory",
         memoryUpdates: {
-          user_setting: { value: "dark_mode", description: "User theme preference" },
+          user_setting: {
+            value: "dark_mode",
+            description: "User theme preference",
+          },
         },
       });
 
@@ -1641,22 +1637,11 @@ describe("Agent", () => {
         .mockResolvedValueOnce(createStreamResponse(thinkEvents))
         .mockResolvedValueOnce(createStreamResponse(finalEvents));
 
-      const mockSpansGet = vi.fn(async (spanId: string) => ({
-        id: spanId,
-        traceId: `trace-${spanId}`,
-      }));
-      const mockTracesGet = vi.fn(async (traceId: string) => ({
-        spans: [
-          {
-            id: traceId.replace("trace-", ""),
-            data: { totalTokens: 50 },
-          },
-        ],
-      }));
-
-      (mockOpperClient.getClient as Mock).mockReturnValue({
-        spans: { get: mockSpansGet },
-        traces: { get: mockTracesGet },
+      vi.spyOn(mockOpperClient, "getStreamUsage").mockResolvedValue({
+        inputTokens: 0,
+        outputTokens: 0,
+        totalTokens: 50,
+        cost: { generation: 0, platform: 0, total: 0 },
       });
 
       const updateSpanSpy = vi.spyOn(mockOpperClient, "updateSpan");
@@ -1677,4 +1662,1851 @@ describe("Agent", () => {
       );
     });
   });
+
+  describe("Cancellation", () => {
+    it("stops between iterations and rejects with AgentAbortedError", async () => {
+      const controller = new AbortController();
+      const receivedSignals: Array<AbortSignal | undefined> = [];
+
+      const cancellingTool: Tool<Record<string, never>, string> = {
+        name: "cancel_run",
+        execute: async (_input, executionContext) => {
+          receivedSignals.push(executionContext.signal);
+          controller.abort("client disconnected");
+          return ToolResultFactory.success("cancel_run", "cancelled");
+        },
+      };
+
+      vi.spyOn(mockOpperClient, "call").mockResolvedValueOnce({
+        jsonPayload: createMockDecision({
+          toolCalls: [{ id: "call-1", toolName: "cancel_run", arguments: {} }],
+        }),
+        spanId: "span-think",
+        usage: mockUsage(100, 50),
+      });
+
+      const agent = new Agent({
+        name: "CancellableAgent",
+        opperClient: mockOpperClient,
+        tools: [cancellingTool],
+      });
+
+      const error = await agent
+        .run("do work", { signal: controller.signal })
+        .catch((caught: unknown) => caught);
+
+      expect(error).toBeInstanceOf(AgentAbortedError);
+      const aborted = error as AgentAbortedError;
+      expect(aborted.reason).toBe("client disconnected");
+      expect(aborted.usage.totalTokens).toBe(150);
+      expect(aborted.usage.requests).toBe(1);
+      expect(mockOpperClient.call).toHaveBeenCalledTimes(1);
+      expect(receivedSignals).toEqual([controller.signal]);
+    });
+
+    it("forwards the signal to LLM calls", async () => {
+      const controller = new AbortController();
+
+      vi.spyOn(mockOpperClient, "call")
+        .mockResolvedValueOnce({
+          jsonPayload: createMockDecision(),
+          spanId: "span-think",
+          usage: mockUsage(10, 5),
+        })
+        .mockResolvedValueOnce({
+          message: "done",
+          spanId: "span-final",
+          usage: mockUsage(10, 5),
+        });
+
+      const agent = new Agent({
+        name: "SignalForwardingAgent",
+        opperClient: mockOpperClient,
+      });
+
+      await agent.run("hi", { signal: controller.signal });
+
+      const calls = (mockOpperClient.call as Mock).mock.calls;
+      expect(calls).toHaveLength(2);
+      for (const [options] of calls) {
+        expect(options.signal).toBe(controller.signal);
+      }
+    });
+
+    it("converts an aborted in-flight LLM call into AgentAbortedError", async () => {
+      const controller = new AbortController();
+
+      vi.spyOn(mockOpperClient, "call").mockImplementationOnce(async () => {
+        controller.abort();
+        throw new Error("The operation was aborted");
+      });
+
+      const agent = new Agent({
+        name: "InFlightAbortAgent",
+        opperClient: mockOpperClient,
+      });
+
+      let endError: unknown;
+      agent.registerHook(HookEvents.AgentEnd, ({ error }) => {
+        endError = error;
+      });
+
+      await expect(
+        agent.run("hi", { signal: controller.signal }),
+      ).rejects.toBeInstanceOf(AgentAbortedError);
+      expect(endError).toBeInstanceOf(AgentAbortedError);
+
+      // Execution span is closed with the cancellation error
+      expect(mockOpperClient.updateSpan).toHaveBeenCalledWith(
+        "mock-span-id",
+        undefined,
+        expect.objectContaining({
+          error: 'Agent "InFlightAbortAgent" was aborted',
+        }),
+      );
+    });
+
+    it("does not start when the signal is already aborted", async () => {
+      const controller = new AbortController();
+      controller.abort();
+
+      const agent = new Agent({
+        name: "PreAbortedAgent",
+        opperClient: mockOpperClient,
+      });
+
+      await expect(
+        agent.run("hi", { signal: controller.signal }),
+      ).rejects.toBeInstanceOf(AgentAbortedError);
+      expect(mockOpperClient.call).not.toHaveBeenCalled();
+    });
+
+    it("propagates cancellation into nested agent tools", async () => {
+      const controller = new AbortController();
+
+      const child = new Agent({
+        name: "ChildAgent",
+        opperClient: mockOpperClient,
+      });
+
+      vi.spyOn(mockOpperClient, "call")
+        .mockResolvedValueOnce({
+          jsonPayload: createMockDecision({
+            toolCalls: [
+              { id: "call-1", toolName: "ChildAgent", arguments: "task" },
+            ],
+          }),
+          spanId: "span-parent-think",
+          usage: mockUsage(10, 5),
+        })
+        .mockImplementationOnce(async () => {
+          controller.abort();
+          throw new Error("The operation was aborted");
+        });
+
+      const parent = new Agent({
+        name: "ParentAgent",
+        opperClient: mockOpperClient,
+        tools: [child.asTool()],
+      });
+
+      const error = (await parent
+        .run("delegate", { signal: controller.signal })
+        .catch((caught: unknown) => caught)) as AgentAbortedError;
+
+      expect(error).toBeInstanceOf(AgentAbortedError);
+      expect(error.agentName).toBe("ParentAgent");
+      // Parent think plus the cancelled child think
+      expect(error.usage.requests).toBe(1);
+      expect(mockOpperClient.call).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe("Checkpoint and resume", () => {
+    const createCountingTool = (
+      calls: string[],
+    ): Tool<{ step: string }, string> => ({
+      name: "work",
+      schema: z.object({ step: z.string() }),
+      execute: async (input) => {
+        calls.push(input.step);
+        return ToolResultFactory.success("work", `done ${input.step}`);
+      },
+    });
+
+    const toolDecision = (step: string) => ({
+      jsonPayload: createMockDecision({
+        reasoning: `Run ${step}`,
+        toolCalls: [
+          { id: `call-${step}`, toolName: "work", arguments: { step } },
+        ],
+      }),
+      spanId: `span-${step}`,
+      usage: mockUsage(10, 5),
+    });
+
+    it("resumes a crashed run from the next iteration", async () => {
+      const store = new InMemoryCheckpointStore();
+      const toolCalls: string[] = [];
+
+      vi.spyOn(mockOpperClient, "call")
+        .mockResolvedValueOnce(toolDecision("one"))
+        .mockResolvedValueOnce(toolDecision("two"))
+        .mockRejectedValueOnce(new Error("process crashed"));
+
+      const crashing = new Agent({
+        name: "ResumableAgent",
+        opperClient: mockOpperClient,
+        tools: [createCountingTool(toolCalls)],
+        checkpointStore: store,
+      });
+
+      await expect(
+        crashing.run("long task", { sessionId: "session-42" }),
+      ).rejects.toThrow("process crashed");
+
+      const checkpoint = await store.load("session-42");
+      expect(checkpoint?.snapshot.iteration).toBe(2);
+      expect(checkpoint?.snapshot.executionHistory).toHaveLength(2);
+      expect(checkpoint?.snapshot.usage.requests).toBe(2);
+
+      // A fresh agent instance (e.g. after a process restart) picks up the session
+      vi.mocked(mockOpperClient.call).mockReset();
+      vi.spyOn(mockOpperClient, "call")
+        .mockResolvedValueOnce(toolDecision("three"))
+        .mockResolvedValueOnce({
+          jsonPayload: createMockDecision({ reasoning: "All done" }),
+          spanId: "span-complete",
+          usage: mockUsage(10, 5),
+        })
+        .mockResolvedValueOnce({
+          message: "finished",
+          spanId: "span-final",
+          usage: mockUsage(10, 5),
+        });
+
+      const resumed = new Agent({
+        name: "ResumableAgent",
+        opperClient: mockOpperClient,
+        tools: [createCountingTool(toolCalls)],
+        checkpointStore: store,
+      });
+
+      let endContext: AgentContext | undefined;
+      resumed.registerHook(HookEvents.AgentEnd, ({ context }) => {
+        endContext = context;
+      });
+
+      const { result, usage } = await resumed.resume("session-42");
+
+      expect(result).toBe("finished");
+      expect(toolCalls).toEqual(["one", "two", "three"]);
+      expect(usage.requests).toBe(5);
+      expect(endContext?.sessionId).toBe("session-42");
+      expect(endContext?.executionHistory.map((c) => c.iteration)).toEqual([
+        1, 2, 3, 4,
+      ]);
+
+      // The resumed think call sees history from before the crash
+      const [firstResumedCall] = vi.mocked(mockOpperClient.call).mock.calls;
+      expect(firstResumedCall?.[0].input).toMatchObject({
+        goal: "long task",
+        current_iteration: 3,
+      });
+
+      // Completed runs clear their checkpoint
+      await expect(store.load("session-42")).resolves.toBeNull();
+    });
+
+    it("rejects resume without a checkpoint store or checkpoint", async () => {
+      const withoutStore = new Agent({
+        name: "NoStoreAgent",
+        opperClient: mockOpperClient,
+      });
+      await expect(withoutStore.resume("missing")).rejects.toThrow(
+        "no checkpointStore configured",
+      );
+
+      const withStore = new Agent({
+        name: "EmptyStoreAgent",
+        opperClient: mockOpperClient,
+        checkpointStore: new InMemoryCheckpointStore(),
+      });
+      await expect(withStore.resume("missing")).rejects.toThrow(
+        'No checkpoint found for session "missing"',
+      );
+    });
+  });
+
+  describe("Tool approval", () => {
+    const createTransferTool = (
+      transfers: number[],
+      requiresApproval: ToolApprovalRequirement<{ amount: number }>,
+    ): Tool<{ amount: number }, string> => ({
+      name: "transfer",
+      schema: z.object({ amount: z.number() }),
+      requiresApproval,
+      execute: async (input) => {
+        transfers.push(input.amount);
+        return ToolResultFactory.success("transfer", `sent ${input.amount}`);
+      },
+    });
+
+    const transferDecision = (amount: number) => ({
+      jsonPayload: createMockDecision({
+        reasoning: "Transfer funds",
+        toolCalls: [
+          { id: "call-transfer", toolName: "transfer", arguments: { amount } },
+        ],
+      }),
+      spanId: "span-think",
+      usage: mockUsage(10, 5),
+    });
+
+    const completion = () => [
+      {
+        jsonPayload: createMockDecision({ reasoning: "Done" }),
+        spanId: "span-complete",
+        usage: mockUsage(10, 5),
+      },
+      { message: "finished", spanId: "span-final", usage: mockUsage(10, 5) },
+    ];
+
+    const mockRun = (amount: number) => {
+      const [done, final] = completion();
+      vi.spyOn(mockOpperClient, "call")
+        .mockResolvedValueOnce(transferDecision(amount))
+        .mockResolvedValueOnce(done!)
+        .mockResolvedValueOnce(final!);
+    };
+
+    it("runs approved tool calls", async () => {
+      mockRun(50);
+      const transfers: number[] = [];
+      const approvalHandler = vi.fn().mockResolvedValue({ action: "approve" });
+
+      const agent = new Agent({
+        name: "ApprovalAgent",
+        opperClient: mockOpperClient,
+        tools: [createTransferTool(transfers, true)],
+        approvalHandler,
+      });
+
+      await expect(agent.process("pay")).resolves.toBe("finished");
+      expect(transfers).toEqual([50]);
+      expect(approvalHandler).toHaveBeenCalledWith(
+        expect.objectContaining({
+          toolName: "transfer",
+          toolCallId: "call-transfer",
+          arguments: { amount: 50 },
+        }),
+      );
+    });
+
+    it("feeds rejections back to the model without running the tool", async () => {
+      mockRun(50);
+      const transfers: number[] = [];
+
+      const agent = new Agent({
+        name: "ApprovalAgent",
+        opperClient: mockOpperClient,
+        tools: [createTransferTool(transfers, true)],
+        approvalHandler: () => ({ action: "reject", reason: "over limit" }),
+      });
+
+      let endContext: AgentContext | undefined;
+      agent.registerHook(HookEvents.AgentEnd, ({ context }) => {
+        endContext = context;
+      });
+
+      await agent.run("pay");
+
+      expect(transfers).toEqual([]);
+      expect(endContext?.executionHistory[0]?.results).toEqual([
+        {
+          toolName: "transfer",
+          success: false,
+          error: 'Tool call "transfer" was rejected: over limit',
+        },
+      ]);
+      expect(endContext?.toolCalls[0]?.metadata).toEqual({
+        approval: "reject",
+      });
+    });
+
+    it("runs edited tool calls with the replacement arguments", async () => {
+      mockRun(5000);
+      const transfers: number[] = [];
+
+      const agent = new Agent({
+        name: "ApprovalAgent",
+        opperClient: mockOpperClient,
+        tools: [createTransferTool(transfers, true)],
+        approvalHandler: () => ({ action: "edit", arguments: { amount: 500 } }),
+      });
+
+      let endContext: AgentContext | undefined;
+      agent.registerHook(HookEvents.AgentEnd, ({ context }) => {
+        endContext = context;
+      });
+
+      await agent.run("pay");
+
+      expect(transfers).toEqual([500]);
+      expect(endContext?.toolCalls[0]?.input).toEqual({ amount: 500 });
+      expect(endContext?.toolCalls[0]?.metadata).toEqual({
+        approval: "edit",
+        originalInput: { amount: 5000 },
+      });
+    });
+
+    it("only gates calls matching the approval predicate", async () => {
+      mockRun(50);
+      const transfers: number[] = [];
+      const approvalHandler = vi.fn();
+
+      const agent = new Agent({
+        name: "ApprovalAgent",
+        opperClient: mockOpperClient,
+        tools: [createTransferTool(transfers, (input) => input.amount > 100)],
+        approvalHandler,
+      });
+
+      await agent.run("pay");
+
+      expect(transfers).toEqual([50]);
+      expect(approvalHandler).not.toHaveBeenCalled();
+    });
+
+    it("suspends without a handler and resumes from the checkpoint", async () => {
+      vi.spyOn(mockOpperClient, "call").mockResolvedValueOnce(
+        transferDecision(50),
+      );
+      const transfers: number[] = [];
+
+      const agent = new Agent({
+        name: "ApprovalAgent",
+        opperClient: mockOpperClient,
+        tools: [createTransferTool(transfers, true)],
+      });
+
+      const error = await agent.run("pay").catch((caught) => caught);
+
+      expect(error).toBeInstanceOf(AgentSuspendedError);
+      const suspended = error as AgentSuspendedError;
+      expect(suspended.pendingApprovals).toEqual([
+        {
+          toolCallId: "call-transfer",
+          toolName: "transfer",
+          arguments: { amount: 50 },
+        },
+      ]);
+      expect(transfers).toEqual([]);
+
+      // The checkpoint survives serialization, e.g. while waiting on a human
+      const checkpoint = JSON.parse(JSON.stringify(suspended.checkpoint));
+
+      vi.mocked(mockOpperClient.call).mockReset();
+      const [done, final] = completion();
+      vi.spyOn(mockOpperClient, "call")
+        .mockResolvedValueOnce(done!)
+        .mockResolvedValueOnce(final!);
+
+      const { result, usage } = await agent.resumeFrom(checkpoint, {
+        approvals: { "call-transfer": { action: "approve" } },
+      });
+
+      expect(result).toBe("finished");
+      expect(transfers).toEqual([50]);
+      // The suspended decision is reused instead of thinking again
+      expect(mockOpperClient.call).toHaveBeenCalledTimes(2);
+      expect(usage.requests).toBe(3);
+    });
+
+    it("records one thought per iteration across a suspend and resume", async () => {
+      vi.spyOn(mockOpperClient, "call").mockResolvedValueOnce(
+        transferDecision(50),
+      );
+      const agent = new Agent({
+        name: "ApprovalAgent",
+        opperClient: mockOpperClient,
+        tools: [createTransferTool([], true)],
+      });
+      const error = (await agent
+        .run("pay")
+        .catch((caught) => caught)) as AgentSuspendedError;
+
+      vi.mocked(mockOpperClient.call).mockReset();
+      const [done, final] = completion();
+      vi.spyOn(mockOpperClient, "call")
+        .mockResolvedValueOnce(done!)
+        .mockResolvedValueOnce(final!);
+      let thoughts: unknown[] = [];
+      agent.registerHook(HookEvents.AgentEnd, ({ context }) => {
+        thoughts = [...context.thoughts];
+      });
+
+      await agent.resumeFrom(error.checkpoint, {
+        approvals: { "call-transfer": { action: "approve" } },
+      });
+
+      expect(thoughts).toEqual([
+        expect.objectContaining({ iteration: 1, reasoning: "Transfer funds" }),
+        expect.objectContaining({ iteration: 2, reasoning: "Done" }),
+      ]);
+    });
+
+    it("reports a detailed result for a resumed run without its suspended time", async () => {
+      vi.spyOn(mockOpperClient, "call").mockResolvedValueOnce(
+        transferDecision(50),
+      );
+      const agent = new Agent({
+        name: "ApprovalAgent",
+        opperClient: mockOpperClient,
+        tools: [createTransferTool([], true)],
+      });
+      const error = (await agent
+        .run("pay")
+        .catch((caught) => caught)) as AgentSuspendedError;
+      // The approval took an hour
+      const hourAgo = Date.now() - 3_600_000;
+      const checkpoint = {
+        ...error.checkpoint,
+        snapshot: {
+          ...error.checkpoint.snapshot,
+          startedAt: hourAgo,
+          updatedAt: hourAgo,
+        },
+      };
+
+      vi.mocked(mockOpperClient.call).mockReset();
+      const [done, final] = completion();
+      vi.spyOn(mockOpperClient, "call")
+        .mockResolvedValueOnce(done!)
+        .mockResolvedValueOnce(final!);
+
+      const runResult = await agent.resumeFromDetailed(checkpoint, {
+        approvals: { "call-transfer": { action: "approve" } },
+      });
+
+      expect(runResult.result).toBe("finished");
+      expect(runResult.iterations.map((entry) => entry.reasoning)).toEqual([
+        "Transfer funds",
+        "Done",
+      ]);
+      expect(runResult.toolCalls).toMatchObject([{ toolName: "transfer" }]);
+      expect(runResult.timings.totalMs).toBeLessThan(60_000);
+    });
+
+    it("persists suspended runs and resumes them by session ID", async () => {
+      const store = new InMemoryCheckpointStore();
+      vi.spyOn(mockOpperClient, "call").mockResolvedValueOnce(
+        transferDecision(50),
+      );
+      const transfers: number[] = [];
+
+      const agent = new Agent({
+        name: "ApprovalAgent",
+        opperClient: mockOpperClient,
+        tools: [createTransferTool(transfers, true)],
+        checkpointStore: store,
+        approvalHandler: () => ({ action: "suspend" }),
+      });
+
+      await expect(
+        agent.run("pay", { sessionId: "approval-session" }),
+      ).rejects.toThrow(
+        'Agent "ApprovalAgent" suspended awaiting approval for: transfer',
+      );
+
+      const stored = await store.load("approval-session");
+      expect(stored?.snapshot.pendingApproval?.pending).toHaveLength(1);
+
+      vi.mocked(mockOpperClient.call).mockReset();
+      const [done, final] = completion();
+      vi.spyOn(mockOpperClient, "call")
+        .mockResolvedValueOnce(done!)
+        .mockResolvedValueOnce(final!);
+
+      await agent.resume("approval-session", {
+        approvals: { "call-transfer": { action: "reject" } },
+      });
+
+      expect(transfers).toEqual([]);
+      await expect(store.load("approval-session")).resolves.toBeNull();
+    });
+  });
+
+  describe("Conversation history", () => {
+    it("includes earlier session turns in think and final result calls", async () => {
+      vi.spyOn(mockOpperClient, "call")
+        .mockResolvedValueOnce({
+          jsonPayload: createMockDecision({ reasoning: "Answer directly" }),
+          spanId: "span-think",
+          usage: mockUsage(10, 5),
+        })
+        .mockResolvedValueOnce({
+          message: "It is 4",
+          spanId: "span-final",
+          usage: mockUsage(10, 5),
+        });
+
+      const agent = new Agent({
+        name: "ChatAgent",
+        opperClient: mockOpperClient,
+      });
+
+      await agent.process("and doubled?", {
+        conversation: [
+          {
+            input: "what is 1 + 1?",
+            output: "2",
+            actions: [{ tool: "add", success: true }],
+            timestamp: 1,
+          },
+        ],
+      });
+
+      const [thinkCall, finalCall] = vi.mocked(mockOpperClient.call).mock.calls;
+      const expectedHistory = [
+        { user: "what is 1 + 1?", assistant: "2", tools_used: ["add"] },
+      ];
+      expect(thinkCall?.[0].input).toMatchObject({
+        goal: "and doubled?",
+        conversation_history: expectedHistory,
+      });
+      expect(thinkCall?.[0].instructions).toContain("CONVERSATION:");
+      expect(finalCall?.[0].input).toMatchObject({
+        conversation_history: expectedHistory,
+      });
+    });
+
+    it("omits conversation history for standalone runs", async () => {
+      vi.spyOn(mockOpperClient, "call")
+        .mockResolvedValueOnce({
+          jsonPayload: createMockDecision(),
+          spanId: "span-think",
+          usage: mockUsage(10, 5),
+        })
+        .mockResolvedValueOnce({
+          message: "done",
+          spanId: "span-final",
+          usage: mockUsage(10, 5),
+        });
+
+      const agent = new Agent({
+        name: "ChatAgent",
+        opperClient: mockOpperClient,
+      });
+      await agent.process("hello");
+
+      const [thinkCall] = vi.mocked(mockOpperClient.call).mock.calls;
+      expect(thinkCall?.[0].input).not.toHaveProperty("conversation_history");
+      expect(thinkCall?.[0].instructions).not.toContain("CONVERSATION:");
+    });
+  });
+
+  describe("History strategy", () => {
+    const searchTool: Tool<{ query: string }, string> = {
+      name: "search",
+      schema: z.object({ query: z.string() }),
+      execute: async (input) =>
+        ToolResultFactory.success("search", `results for ${input.query}`),
+    };
+
+    const searchDecision = (query: string) => ({
+      jsonPayload: createMockDecision({
+        reasoning: `Search ${query}`,
+        toolCalls: [{ id: query, toolName: "search", arguments: { query } }],
+      }),
+      spanId: `span-${query}`,
+      usage: mockUsage(10, 5),
+    });
+
+    it("sends the full history with failures to the final result by default", async () => {
+      vi.spyOn(mockOpperClient, "call")
+        .mockResolvedValueOnce(searchDecision("a"))
+        .mockResolvedValueOnce(searchDecision("b"))
+        .mockResolvedValueOnce(searchDecision("c"))
+        .mockResolvedValueOnce(searchDecision("d"))
+        .mockResolvedValueOnce({
+          jsonPayload: createMockDecision({ reasoning: "Done" }),
+          spanId: "span-done",
+          usage: mockUsage(10, 5),
+        })
+        .mockResolvedValueOnce({
+          message: "final",
+          spanId: "span-final",
+          usage: mockUsage(10, 5),
+        });
+
+      const agent = new Agent({
+        name: "HistoryAgent",
+        opperClient: mockOpperClient,
+        tools: [searchTool],
+      });
+      await agent.process("research");
+
+      const calls = vi.mocked(mockOpperClient.call).mock.calls;
+      const lastThink = calls[4]?.[0].input as {
+        execution_history: Array<{ iteration: number }>;
+      };
+      const final = calls[5]?.[0].input as {
+        execution_history: Array<{ iteration: number }>;
+      };
+      expect(lastThink.execution_history.map((c) => c.iteration)).toEqual([
+        2, 3, 4,
+      ]);
+      expect(final.execution_history.map((c) => c.iteration)).toEqual([
+        1, 2, 3, 4, 5,
+      ]);
+    });
+
+    it("applies a window strategy to think and final result prompts", async () => {
+      vi.spyOn(mockOpperClient, "call")
+        .mockResolvedValueOnce(searchDecision("a"))
+        .mockResolvedValueOnce(searchDecision("b"))
+        .mockResolvedValueOnce({
+          jsonPayload: createMockDecision({ reasoning: "Done" }),
+          spanId: "span-done",
+          usage: mockUsage(10, 5),
+        })
+        .mockResolvedValueOnce({
+          message: "final",
+          spanId: "span-final",
+          usage: mockUsage(10, 5),
+        });
+
+      const agent = new Agent({
+        name: "HistoryAgent",
+        opperClient: mockOpperClient,
+        tools: [searchTool],
+        historyStrategy: { type: "window", cycles: 1 },
+      });
+      await agent.process("research");
+
+      const calls = vi.mocked(mockOpperClient.call).mock.calls;
+      expect(calls[2]?.[0].input).toMatchObject({
+        execution_history: [{ iteration: 2, actions_taken: ["search"] }],
+      });
+      expect(calls[3]?.[0].input).toMatchObject({
+        execution_history: [{ iteration: 3 }],
+      });
+    });
+
+    it("summarizes older cycles into a running summary", async () => {
+      vi.spyOn(mockOpperClient, "call")
+        .mockResolvedValueOnce(searchDecision("a"))
+        .mockResolvedValueOnce(searchDecision("b"))
+        .mockResolvedValueOnce({
+          jsonPayload: { summary: "searched a" },
+          spanId: "span-summary-1",
+          usage: mockUsage(10, 5),
+        })
+        .mockResolvedValueOnce({
+          jsonPayload: createMockDecision({ reasoning: "Done" }),
+          spanId: "span-done",
+          usage: mockUsage(10, 5),
+        })
+        .mockResolvedValueOnce({
+          jsonPayload: { summary: "searched a and b" },
+          spanId: "span-summary-2",
+          usage: mockUsage(10, 5),
+        })
+        .mockResolvedValueOnce({
+          message: "final",
+          spanId: "span-final",
+          usage: mockUsage(10, 5),
+        });
+
+      const agent = new Agent({
+        name: "HistoryAgent",
+        opperClient: mockOpperClient,
+        tools: [searchTool],
+        historyStrategy: { type: "summarize", keepRecent: 1 },
+      });
+
+      let endContext: AgentContext | undefined;
+      agent.registerHook(HookEvents.AgentEnd, ({ context }) => {
+        endContext = context;
+      });
+
+      const { usage } = await agent.run("research");
+
+      const calls = vi.mocked(mockOpperClient.call).mock.calls;
+      expect(calls[2]?.[0].name).toBe("summarize_history_historyagent");
+      expect(calls[2]?.[0].input).toMatchObject({
+        previous_summary: null,
+        cycles: [{ iteration: 1 }],
+      });
+      expect(calls[3]?.[0].input).toMatchObject({
+        history_summary: "searched a",
+        execution_history: [{ iteration: 2 }],
+      });
+      expect(calls[4]?.[0].input).toMatchObject({
+        previous_summary: "searched a",
+        cycles: [{ iteration: 2 }],
+      });
+      expect(calls[5]?.[0].input).toMatchObject({
+        history_summary: "searched a and b",
+        execution_history: [{ iteration: 3 }],
+      });
+      expect(endContext?.historySummary).toEqual({
+        text: "searched a and b",
+        throughIteration: 2,
+      });
+      expect(usage.requests).toBe(6);
+    });
+
+    it("keeps running when summarization fails", async () => {
+      vi.spyOn(mockOpperClient, "call")
+        .mockResolvedValueOnce(searchDecision("a"))
+        .mockResolvedValueOnce(searchDecision("b"))
+        .mockRejectedValueOnce(new Error("summary unavailable"))
+        .mockResolvedValueOnce({
+          jsonPayload: createMockDecision({ reasoning: "Done" }),
+          spanId: "span-done",
+          usage: mockUsage(10, 5),
+        })
+        .mockRejectedValueOnce(new Error("summary unavailable"))
+        .mockResolvedValueOnce({
+          message: "final",
+          spanId: "span-final",
+          usage: mockUsage(10, 5),
+        });
+
+      const agent = new Agent({
+        name: "HistoryAgent",
+        opperClient: mockOpperClient,
+        tools: [searchTool],
+        historyStrategy: { type: "summarize", keepRecent: 1 },
+      });
+
+      await expect(agent.process("research")).resolves.toBe("final");
+
+      const calls = vi.mocked(mockOpperClient.call).mock.calls;
+      expect(calls[3]?.[0].input).not.toHaveProperty("history_summary");
+      expect(
+        (calls[3]?.[0].input as { execution_history: unknown[] })
+          .execution_history,
+      ).toHaveLength(2);
+    });
+  });
+
+  describe("Budgets", () => {
+    const lookupTool: Tool<{ key: string }, string> = {
+      name: "lookup",
+      schema: z.object({ key: z.string() }),
+      execute: async (input) =>
+        ToolResultFactory.success("lookup", `value of ${input.key}`),
+    };
+
+    const lookupDecision = (key: string) => ({
+      jsonPayload: createMockDecision({
+        reasoning: `Look up ${key}`,
+        toolCalls: [{ id: key, toolName: "lookup", arguments: { key } }],
+      }),
+      spanId: `span-${key}`,
+      usage: mockUsage(100, 50),
+    });
+
+    it("throws BudgetExceededError when a limit is reached", async () => {
+      vi.spyOn(mockOpperClient, "call")
+        .mockResolvedValueOnce(lookupDecision("a"))
+        .mockResolvedValueOnce(lookupDecision("b"))
+        .mockResolvedValueOnce(lookupDecision("c"));
+
+      const agent = new Agent({
+        name: "BudgetAgent",
+        opperClient: mockOpperClient,
+        tools: [lookupTool],
+        budget: { maxRequests: 2 },
+      });
+
+      const error = await agent.process("loop").catch((caught) => caught);
+
+      expect(error).toBeInstanceOf(BudgetExceededError);
+      expect(error).toMatchObject({
+        agentName: "BudgetAgent",
+        limit: "requests",
+        value: 2,
+        max: 2,
+      });
+      expect((error as BudgetExceededError).usage.totalTokens).toBe(300);
+      // The second decision's tool call is never executed
+      expect(mockOpperClient.call).toHaveBeenCalledTimes(2);
+    });
+
+    it("produces a best-effort final result in finalize mode", async () => {
+      vi.spyOn(mockOpperClient, "call")
+        .mockResolvedValueOnce(lookupDecision("a"))
+        .mockResolvedValueOnce(lookupDecision("b"))
+        .mockResolvedValueOnce({
+          message: "partial answer",
+          spanId: "span-final",
+          usage: mockUsage(100, 50),
+        });
+
+      const agent = new Agent({
+        name: "BudgetAgent",
+        opperClient: mockOpperClient,
+        tools: [lookupTool],
+        budget: { maxTotalTokens: 300, onExceeded: "finalize" },
+      });
+
+      await expect(agent.process("loop")).resolves.toBe("partial answer");
+
+      const calls = vi.mocked(mockOpperClient.call).mock.calls;
+      expect(calls).toHaveLength(3);
+      expect(calls[2]?.[0].name).toContain("generate_final_result");
+    });
+
+    it("counts usage propagated from agent-as-tool results", async () => {
+      const nestedUsage = {
+        requests: 5,
+        inputTokens: 4000,
+        outputTokens: 1000,
+        totalTokens: 5000,
+        cost: { generation: 0.5, platform: 0, total: 0.5 },
+      };
+      const researcher: Tool<{ topic: string }, string> = {
+        name: "researcher",
+        schema: z.object({ topic: z.string() }),
+        execute: async () =>
+          ToolResultFactory.success("researcher", "findings", {
+            usage: nestedUsage,
+          }),
+      };
+
+      vi.spyOn(mockOpperClient, "call")
+        .mockResolvedValueOnce({
+          jsonPayload: createMockDecision({
+            reasoning: "Delegate",
+            toolCalls: [
+              {
+                id: "call-1",
+                toolName: "researcher",
+                arguments: { topic: "x" },
+              },
+            ],
+          }),
+          spanId: "span-think",
+          usage: mockUsage(10, 5),
+        })
+        .mockResolvedValueOnce(lookupDecision("never"));
+
+      const agent = new Agent({
+        name: "BudgetAgent",
+        opperClient: mockOpperClient,
+        tools: [researcher],
+        budget: { maxCostUsd: 0.25 },
+      });
+
+      await expect(agent.process("research")).rejects.toMatchObject({
+        name: "BudgetExceededError",
+        limit: "costUsd",
+        value: 0.5,
+      });
+      expect(mockOpperClient.call).toHaveBeenCalledTimes(1);
+    });
+
+    it("fires budget:warning once per crossed threshold", async () => {
+      vi.spyOn(mockOpperClient, "call")
+        .mockResolvedValueOnce(lookupDecision("a"))
+        .mockResolvedValueOnce(lookupDecision("b"))
+        .mockResolvedValueOnce({
+          jsonPayload: createMockDecision({ reasoning: "Done" }),
+          spanId: "span-done",
+          usage: mockUsage(100, 50),
+        })
+        .mockResolvedValueOnce({
+          message: "done",
+          spanId: "span-final",
+          usage: mockUsage(100, 50),
+        });
+
+      const agent = new Agent({
+        name: "BudgetAgent",
+        opperClient: mockOpperClient,
+        tools: [lookupTool],
+        budget: { maxTotalTokens: 1000, warnAt: [0.25, 0.5] },
+      });
+
+      const warnings: Array<{ limit: string; threshold: number }> = [];
+      agent.registerHook(HookEvents.BudgetWarning, ({ limit, threshold }) => {
+        warnings.push({ limit, threshold });
+      });
+
+      await agent.process("loop");
+
+      expect(warnings).toEqual([
+        { limit: "totalTokens", threshold: 0.25 },
+        { limit: "totalTokens", threshold: 0.5 },
+      ]);
+    });
+  });
+
+  describe("Max iterations policy", () => {
+    const stepTool: Tool<{ n: number }, string> = {
+      name: "step",
+      schema: z.object({ n: z.number() }),
+      execute: async (input) =>
+        ToolResultFactory.success("step", `step ${input.n} done`),
+    };
+
+    const stepDecision = (n: number) => ({
+      jsonPayload: createMockDecision({
+        reasoning: `Step ${n}`,
+        toolCalls: [{ id: `call-${n}`, toolName: "step", arguments: { n } }],
+      }),
+      spanId: `span-${n}`,
+      usage: mockUsage(10, 5),
+    });
+
+    it("throws by default", async () => {
+      vi.spyOn(mockOpperClient, "call")
+        .mockResolvedValueOnce(stepDecision(1))
+        .mockResolvedValueOnce(stepDecision(2));
+
+      const agent = new Agent({
+        name: "StepAgent",
+        opperClient: mockOpperClient,
+        tools: [stepTool],
+        maxIterations: 2,
+      });
+
+      await expect(agent.run("work")).rejects.toThrow(
+        "Agent exceeded maximum iterations (2) without completing the task",
+      );
+    });
+
+    it("finalizes with the collected history and marks the result incomplete", async () => {
+      vi.spyOn(mockOpperClient, "call")
+        .mockResolvedValueOnce(stepDecision(1))
+        .mockResolvedValueOnce(stepDecision(2))
+        .mockResolvedValueOnce({
+          message: "partial: steps 1-2 done",
+          spanId: "span-final",
+          usage: mockUsage(10, 5),
+        });
+
+      const agent = new Agent({
+        name: "StepAgent",
+        opperClient: mockOpperClient,
+        tools: [stepTool],
+        maxIterations: 2,
+        onMaxIterations: "finalize",
+      });
+
+      const { result, stopReason } = await agent.run("work");
+
+      expect(result).toBe("partial: steps 1-2 done");
+      expect(stopReason).toBe("max_iterations");
+
+      const finalCall = vi.mocked(mockOpperClient.call).mock.calls[2]?.[0];
+      expect(finalCall?.input).toMatchObject({
+        stop_reason: "max_iterations",
+        execution_history: [{ iteration: 1 }, { iteration: 2 }],
+      });
+      expect(finalCall?.instructions).toContain(
+        "stopped before completing the task",
+      );
+    });
+
+    it("uses the callback's return value", async () => {
+      vi.spyOn(mockOpperClient, "call")
+        .mockResolvedValueOnce(stepDecision(1))
+        .mockResolvedValueOnce(stepDecision(2));
+
+      const onMaxIterations = vi.fn(
+        ({ context }: { context: AgentContext }) =>
+          `gave up after ${context.iteration} iterations`,
+      );
+      const agent = new Agent<string, string>({
+        name: "StepAgent",
+        opperClient: mockOpperClient,
+        tools: [stepTool],
+        maxIterations: 2,
+        onMaxIterations,
+      });
+
+      const { result, stopReason } = await agent.run("work");
+
+      expect(result).toBe("gave up after 2 iterations");
+      expect(stopReason).toBe("max_iterations");
+      expect(onMaxIterations).toHaveBeenCalledWith(
+        expect.objectContaining({ input: "work" }),
+      );
+      expect(mockOpperClient.call).toHaveBeenCalledTimes(2);
+    });
+
+    it("reports completed, budget and aborted stop reasons", async () => {
+      vi.spyOn(mockOpperClient, "call")
+        .mockResolvedValueOnce({
+          jsonPayload: createMockDecision({ reasoning: "Nothing to do" }),
+          spanId: "span-think",
+          usage: mockUsage(10, 5),
+        })
+        .mockResolvedValueOnce({
+          message: "done",
+          spanId: "span-final",
+          usage: mockUsage(10, 5),
+        });
+
+      const agent = new Agent({
+        name: "StepAgent",
+        opperClient: mockOpperClient,
+        tools: [stepTool],
+      });
+      await expect(agent.run("work")).resolves.toMatchObject({
+        stopReason: "completed",
+      });
+
+      vi.mocked(mockOpperClient.call).mockReset();
+      vi.spyOn(mockOpperClient, "call")
+        .mockResolvedValueOnce(stepDecision(1))
+        .mockResolvedValueOnce({
+          message: "partial",
+          spanId: "span-final",
+          usage: mockUsage(10, 5),
+        });
+      const budgeted = new Agent({
+        name: "StepAgent",
+        opperClient: mockOpperClient,
+        tools: [stepTool],
+        budget: { maxRequests: 1, onExceeded: "finalize" },
+      });
+      await expect(budgeted.run("work")).resolves.toMatchObject({
+        result: "partial",
+        stopReason: "budget",
+      });
+
+      const controller = new AbortController();
+      controller.abort();
+      let endContext: AgentContext | undefined;
+      agent.registerHook(HookEvents.AgentEnd, ({ context }) => {
+        endContext = context;
+      });
+      await expect(
+        agent.run("work", { signal: controller.signal }),
+      ).rejects.toBeInstanceOf(AgentAbortedError);
+      expect(endContext?.stopReason).toBe("aborted");
+    });
+  });
+
+  describe("Detailed run result", () => {
+    const lookupTool: Tool<{ id: string }, string> = {
+      name: "lookup",
+      schema: z.object({ id: z.string() }),
+      execute: async (input) =>
+        ToolResultFactory.success("lookup", `record ${input.id}`),
+    };
+
+    it("reports iterations, tool calls, span and phase timings", async () => {
+      vi.spyOn(mockOpperClient, "call")
+        .mockResolvedValueOnce({
+          jsonPayload: createMockDecision({
+            reasoning: "Need the record",
+            userMessage: "Looking it up...",
+            toolCalls: [
+              { id: "call-1", toolName: "lookup", arguments: { id: "42" } },
+            ],
+          }),
+          spanId: "span-think-1",
+          usage: mockUsage(10, 5),
+        })
+        .mockResolvedValueOnce({
+          jsonPayload: createMockDecision({
+            reasoning: "Have everything",
+            userMessage: "Writing the answer",
+          }),
+          spanId: "span-think-2",
+          usage: mockUsage(10, 5),
+        })
+        .mockResolvedValueOnce({
+          message: "record 42",
+          spanId: "span-final",
+          usage: mockUsage(10, 5),
+        });
+
+      const agent = new Agent({
+        name: "LookupAgent",
+        opperClient: mockOpperClient,
+        tools: [lookupTool],
+      });
+
+      const runResult = await agent.runDetailed("find 42", {
+        sessionId: "session-42",
+      });
+
+      expect(runResult).toMatchObject({
+        agentName: "LookupAgent",
+        sessionId: "session-42",
+        rootSpanId: "mock-span-id",
+        result: "record 42",
+        stopReason: "completed",
+        usage: { requests: 3, totalTokens: 45 },
+      });
+      expect(
+        runResult.iterations.map(({ iteration, reasoning, userMessage }) => ({
+          iteration,
+          reasoning,
+          userMessage,
+        })),
+      ).toEqual([
+        {
+          iteration: 1,
+          reasoning: "Need the record",
+          userMessage: "Looking it up...",
+        },
+        {
+          iteration: 2,
+          reasoning: "Have everything",
+          userMessage: "Writing the answer",
+        },
+      ]);
+      expect(runResult.iterations[0]?.toolCalls).toEqual(["lookup"]);
+      expect(runResult.cycles).toHaveLength(2);
+      expect(runResult.toolCalls).toMatchObject([
+        { toolName: "lookup", input: { id: "42" }, success: true },
+      ]);
+      expect(runResult.timings.phases.map((timing) => timing.phase)).toEqual([
+        "think",
+        "tools",
+        "think",
+        "final_result",
+      ]);
+      expect(runResult.timings.totalMs).toBeGreaterThanOrEqual(
+        runResult.timings.thinkMs,
+      );
+    });
+  });
+
+  describe("LLM provider", () => {
+    const createProvider = () => {
+      const call = vi
+        .fn()
+        .mockResolvedValueOnce({
+          jsonPayload: createMockDecision({ reasoning: "Nothing to do" }),
+          usage: mockUsage(20, 10),
+        })
+        .mockResolvedValueOnce({
+          message: "local answer",
+          usage: mockUsage(5, 5),
+        });
+      return { call } satisfies LlmProvider;
+    };
+
+    it("runs against a custom provider without touching the Opper client", async () => {
+      const llm = createProvider();
+      const agent = new Agent({ name: "LocalAgent", llm });
+
+      const { result, usage } = await agent.run("hello");
+
+      expect(result).toBe("local answer");
+      expect(usage).toMatchObject({ requests: 2, totalTokens: 40 });
+      expect(llm.call).toHaveBeenCalledTimes(2);
+      expect(llm.call.mock.calls[0]?.[0]).toMatchObject({
+        name: "think_localagent",
+      });
+      // The only Opper client is the one created by beforeEach
+      expect(OpperClient).toHaveBeenCalledTimes(1);
+      expect(mockOpperClient.createSpan).not.toHaveBeenCalled();
+    });
+
+    it("lets a custom provider pick the model when the agent names none", async () => {
+      const completion = (content: string) =>
+        new Response(JSON.stringify({ choices: [{ message: { content } }] }), {
+          headers: { "Content-Type": "application/json" },
+        });
+      const fetchMock = vi
+        .fn<typeof fetch>()
+        .mockResolvedValueOnce(
+          completion(
+            JSON.stringify(createMockDecision({ reasoning: "Nothing to do" })),
+          ),
+        )
+        .mockResolvedValueOnce(completion("local answer"));
+      const llm = new OpenAICompatibleProvider({
+        baseUrl: "http://127.0.0.1:11434/v1",
+        model: "llama3",
+        fetch: fetchMock,
+      });
+      const agent = new Agent({ name: "LocalAgent", llm });
+
+      await expect(agent.process("hello")).resolves.toBe("local answer");
+      const models = fetchMock.mock.calls.map(
+        ([, init]) =>
+          (JSON.parse(String(init?.body)) as { model: string }).model,
+      );
+      expect(models).toEqual(["llama3", "llama3"]);
+    });
+
+    it("sends spans to a custom tracer", async () => {
+      const tracer: Tracer = {
+        createSpan: vi
+          .fn()
+          .mockResolvedValue({ id: "trace-root", name: "LocalAgent" }),
+        updateSpan: vi.fn().mockResolvedValue(undefined),
+      };
+      const agent = new Agent({
+        name: "LocalAgent",
+        llm: createProvider(),
+        tracer,
+      });
+
+      const report = await agent.runDetailed("hello");
+
+      expect(report.rootSpanId).toBe("trace-root");
+      expect(tracer.createSpan).toHaveBeenCalledWith(
+        expect.objectContaining({ name: "LocalAgent_execution" }),
+      );
+      expect(tracer.updateSpan).toHaveBeenCalledWith(
+        "trace-root",
+        "local answer",
+        expect.anything(),
+      );
+    });
+
+    it("rejects streaming with a provider that cannot stream", () => {
+      expect(
+        () =>
+          new Agent({
+            name: "LocalAgent",
+            llm: createProvider(),
+            enableStreaming: true,
+          }),
+      ).toThrow("enableStreaming requires an LLM provider");
+    });
+  });
+
+  describe("Tool input validation", () => {
+    it("returns invalid arguments to the model as fixable feedback", async () => {
+      const execute = vi.fn(async (input: { city: string; days: number }) =>
+        ToolResultFactory.success("forecast", `${input.days} days`),
+      );
+      const forecastTool: Tool<{ city: string; days: number }, string> = {
+        name: "forecast",
+        schema: z.object({ city: z.string(), days: z.number().int().max(7) }),
+        execute,
+      };
+
+      vi.spyOn(mockOpperClient, "call")
+        .mockResolvedValueOnce({
+          jsonPayload: createMockDecision({
+            toolCalls: [
+              {
+                id: "call-1",
+                toolName: "forecast",
+                arguments: { city: "Oslo", days: 30 },
+              },
+            ],
+          }),
+          spanId: "span-think-1",
+          usage: mockUsage(10, 5),
+        })
+        .mockResolvedValueOnce({
+          jsonPayload: createMockDecision({
+            toolCalls: [
+              {
+                id: "call-2",
+                toolName: "forecast",
+                arguments: { city: "Oslo", days: 7 },
+              },
+            ],
+          }),
+          spanId: "span-think-2",
+          usage: mockUsage(10, 5),
+        })
+        .mockResolvedValueOnce({
+          jsonPayload: createMockDecision({ isComplete: true }),
+          spanId: "span-think-3",
+          usage: mockUsage(10, 5),
+        })
+        .mockResolvedValueOnce({
+          message: "7 days",
+          spanId: "span-final",
+          usage: mockUsage(10, 5),
+        });
+
+      const agent = new Agent({
+        name: "ValidatingAgent",
+        opperClient: mockOpperClient,
+        tools: [forecastTool],
+      });
+
+      const { result } = await agent.run("weather");
+
+      expect(result).toBe("7 days");
+      expect(execute).toHaveBeenCalledOnce();
+      const calls = (mockOpperClient.call as Mock).mock.calls;
+      const feedback = JSON.stringify(calls[1]?.[0].input);
+      expect(feedback).toContain(
+        'Invalid input for tool \\"forecast\\": days:',
+      );
+      expect(feedback).toContain("Fix these arguments");
+    });
+
+    it("applies the agent tool timeout to tools without their own", async () => {
+      const slowTool: Tool<Record<string, never>, string> = {
+        name: "slow",
+        execute: async (_input, executionContext) => {
+          await new Promise((resolve) => setTimeout(resolve, 1000));
+          return ToolResultFactory.success(
+            "slow",
+            String(executionContext.signal?.aborted),
+          );
+        },
+      };
+
+      vi.spyOn(mockOpperClient, "call")
+        .mockResolvedValueOnce({
+          jsonPayload: createMockDecision({
+            toolCalls: [{ id: "call-1", toolName: "slow", arguments: {} }],
+          }),
+          spanId: "span-think-1",
+          usage: mockUsage(10, 5),
+        })
+        .mockResolvedValueOnce({
+          jsonPayload: createMockDecision({ isComplete: true }),
+          spanId: "span-think-2",
+          usage: mockUsage(10, 5),
+        })
+        .mockResolvedValueOnce({
+          message: "gave up",
+          spanId: "span-final",
+          usage: mockUsage(10, 5),
+        });
+
+      const agent = new Agent({
+        name: "TimeoutAgent",
+        opperClient: mockOpperClient,
+        tools: [slowTool],
+        toolTimeoutMs: 20,
+      });
+
+      const run = await agent.runDetailed("go");
+
+      expect(run.toolCalls[0]).toMatchObject({
+        toolName: "slow",
+        success: false,
+        error: 'Tool "slow" timed out after 20ms',
+      });
+    });
+  });
+
+  describe("Tool concurrency", () => {
+    const mockRunWithToolCalls = (
+      toolCalls: Array<{ toolName: string; arguments?: unknown }>,
+    ) => {
+      vi.spyOn(mockOpperClient, "call")
+        .mockResolvedValueOnce({
+          jsonPayload: createMockDecision({
+            toolCalls: toolCalls.map((call, index) => ({
+              id: `call-${index}`,
+              toolName: call.toolName,
+              arguments: call.arguments ?? {},
+            })),
+          }),
+          spanId: "span-think-1",
+          usage: mockUsage(10, 5),
+        })
+        .mockResolvedValueOnce({
+          jsonPayload: createMockDecision({ isComplete: true }),
+          spanId: "span-think-2",
+          usage: mockUsage(10, 5),
+        })
+        .mockResolvedValueOnce({
+          message: "done",
+          spanId: "span-final",
+          usage: mockUsage(10, 5),
+        });
+    };
+
+    const createTracker = () => {
+      const active = new Map<string, number>();
+      const peaks = new Map<string, number>();
+      const log: string[] = [];
+
+      const track = (
+        name: string,
+        keys: string[],
+        overrides: Partial<Tool<Record<string, never>, string>> = {},
+      ): Tool<Record<string, never>, string> => ({
+        name,
+        ...overrides,
+        execute: async () => {
+          log.push(`start:${name}`);
+          for (const key of keys) {
+            active.set(key, (active.get(key) ?? 0) + 1);
+            peaks.set(key, Math.max(peaks.get(key) ?? 0, active.get(key)!));
+          }
+          await new Promise((resolve) => setTimeout(resolve, 10));
+          for (const key of keys) {
+            active.set(key, active.get(key)! - 1);
+          }
+          log.push(`end:${name}`);
+          return ToolResultFactory.success(name, name);
+        },
+      });
+
+      return { track, peaks, log };
+    };
+
+    it("caps parallel tool calls with maxToolConcurrency", async () => {
+      const { track, peaks } = createTracker();
+      const tools = ["a", "b", "c", "d", "e"].map((name) =>
+        track(name, ["all"]),
+      );
+      mockRunWithToolCalls(tools.map((tool) => ({ toolName: tool.name })));
+
+      const agent = new Agent({
+        name: "BoundedAgent",
+        opperClient: mockOpperClient,
+        tools,
+        parallelToolExecution: true,
+        maxToolConcurrency: 2,
+      });
+
+      const run = await agent.runDetailed("go");
+
+      expect(peaks.get("all")).toBe(2);
+      expect(run.toolCalls.map((call) => call.toolName)).toHaveLength(5);
+    });
+
+    it("limits tools matching a concurrency group pattern", async () => {
+      const { track, peaks } = createTracker();
+      const tools = [
+        track("github:list_issues", ["all", "github"]),
+        track("github:get_pr", ["all", "github"]),
+        track("github:list_commits", ["all", "github"]),
+        track("search", ["all"]),
+      ];
+      mockRunWithToolCalls(tools.map((tool) => ({ toolName: tool.name })));
+
+      const agent = new Agent({
+        name: "GroupedAgent",
+        opperClient: mockOpperClient,
+        tools,
+        parallelToolExecution: true,
+        toolConcurrencyGroups: { "github:*": 1 },
+      });
+
+      await agent.run("go");
+
+      expect(peaks.get("github")).toBe(1);
+      expect(peaks.get("all")).toBe(2);
+    });
+
+    it("shares a limit between tools declaring the same concurrencyGroup", async () => {
+      const { track, peaks } = createTracker();
+      const tools = [
+        track("fetch_a", ["api"], { concurrencyGroup: "api" }),
+        track("fetch_b", ["api"], { concurrencyGroup: "api" }),
+      ];
+      mockRunWithToolCalls(tools.map((tool) => ({ toolName: tool.name })));
+
+      const agent = new Agent({
+        name: "NamedGroupAgent",
+        opperClient: mockOpperClient,
+        tools,
+        parallelToolExecution: true,
+        toolConcurrencyGroups: { api: 1 },
+      });
+
+      await agent.run("go");
+
+      expect(peaks.get("api")).toBe(1);
+    });
+
+    it("rejects tools declaring an unconfigured concurrency group", () => {
+      const { track } = createTracker();
+
+      expect(
+        () =>
+          new Agent({
+            name: "MisconfiguredAgent",
+            opperClient: mockOpperClient,
+            tools: [track("fetch", [], { concurrencyGroup: "apii" })],
+            toolConcurrencyGroups: { api: 1 },
+          }),
+      ).toThrow(
+        'Tool "fetch" uses concurrency group "apii", which is not configured in toolConcurrencyGroups',
+      );
+    });
+
+    it("runs non-parallelizable tools on their own in parallel mode", async () => {
+      const { track, log } = createTracker();
+      const tools = [
+        track("read_a", []),
+        track("write", [], { parallelizable: false }),
+        track("read_b", []),
+        track("read_c", []),
+      ];
+      mockRunWithToolCalls(tools.map((tool) => ({ toolName: tool.name })));
+
+      const agent = new Agent({
+        name: "SerialWriteAgent",
+        opperClient: mockOpperClient,
+        tools,
+        parallelToolExecution: true,
+      });
+
+      const run = await agent.runDetailed("go");
+
+      expect(log).toEqual([
+        "start:read_a",
+        "end:read_a",
+        "start:write",
+        "end:write",
+        "start:read_b",
+        "start:read_c",
+        "end:read_b",
+        "end:read_c",
+      ]);
+      expect(run.iterations[0]?.toolCalls).toEqual([
+        "read_a",
+        "write",
+        "read_b",
+        "read_c",
+      ]);
+    });
+  });
+
+  describe("Tool result limits", () => {
+    it("truncates results over the limit unless the tool allows more", async () => {
+      const longText = "x".repeat(100);
+      const tools: Array<Tool<Record<string, never>, string>> = [
+        {
+          name: "dump",
+          execute: async () => ToolResultFactory.success("dump", longText),
+        },
+        {
+          name: "report",
+          maxResultChars: 1000,
+          execute: async () => ToolResultFactory.success("report", longText),
+        },
+      ];
+
+      vi.spyOn(mockOpperClient, "call")
+        .mockResolvedValueOnce({
+          jsonPayload: createMockDecision({
+            toolCalls: [
+              { id: "call-1", toolName: "dump", arguments: {} },
+              { id: "call-2", toolName: "report", arguments: {} },
+            ],
+          }),
+          spanId: "span-think-1",
+          usage: mockUsage(10, 5),
+        })
+        .mockResolvedValueOnce({
+          jsonPayload: createMockDecision({ isComplete: true }),
+          spanId: "span-think-2",
+          usage: mockUsage(10, 5),
+        })
+        .mockResolvedValueOnce({
+          message: "done",
+          spanId: "span-final",
+          usage: mockUsage(10, 5),
+        });
+
+      const agent = new Agent({
+        name: "LimitedAgent",
+        opperClient: mockOpperClient,
+        tools,
+        maxResultChars: 20,
+      });
+
+      const run = await agent.runDetailed("go");
+
+      const calls = (mockOpperClient.call as Mock).mock.calls;
+      const [dump, report] = calls[1]![0].input.execution_history[0].results;
+      expect(dump.result).toBe(`${"x".repeat(20)}… [truncated 80 chars]`);
+      expect(report.result).toBe(longText);
+      // Records, and so checkpoints and run reports, keep the limited output
+      expect(run.toolCalls[0]?.output).toBe(dump.result);
+      expect(run.toolCalls[1]?.output).toBe(longText);
+    });
+
+    it("offloads oversized results to the artifact store for read_artifact", async () => {
+      const rows = Array.from({ length: 50 }, (_, index) => ({
+        id: index,
+        title: `Issue ${index}`,
+      }));
+      const listIssues: Tool<Record<string, never>, unknown> = {
+        name: "list_issues",
+        execute: async () => ToolResultFactory.success("list_issues", rows),
+      };
+      const artifactStore = new InMemoryArtifactStore();
+
+      vi.spyOn(mockOpperClient, "call")
+        .mockResolvedValueOnce({
+          jsonPayload: createMockDecision({
+            toolCalls: [
+              { id: "call-1", toolName: "list_issues", arguments: {} },
+            ],
+          }),
+          spanId: "span-think-1",
+          usage: mockUsage(10, 5),
+        })
+        .mockImplementationOnce(async (options) => {
+          const { result } = (
+            options.input as {
+              execution_history: Array<{ results: Array<{ result: string }> }>;
+            }
+          ).execution_history[0]!.results[0]!;
+          const reference = JSON.parse(result) as { artifactId: string };
+          return {
+            jsonPayload: createMockDecision({
+              toolCalls: [
+                {
+                  id: "call-2",
+                  toolName: "read_artifact",
+                  arguments: { artifactId: reference.artifactId, offset: 40 },
+                },
+              ],
+            }),
+            spanId: "span-think-2",
+            usage: mockUsage(10, 5),
+          };
+        })
+        .mockResolvedValueOnce({
+          jsonPayload: createMockDecision({ isComplete: true }),
+          spanId: "span-think-3",
+          usage: mockUsage(10, 5),
+        })
+        .mockResolvedValueOnce({
+          message: "done",
+          spanId: "span-final",
+          usage: mockUsage(10, 5),
+        });
+
+      const agent = new Agent({
+        name: "ArtifactAgent",
+        opperClient: mockOpperClient,
+        tools: [listIssues],
+        maxResultTokens: 10,
+        artifactStore,
+      });
+
+      expect(agent.getTools().map((tool) => tool.name)).toContain(
+        "read_artifact",
+      );
+
+      const run = await agent.runDetailed("summarize issues");
+
+      const serialized = JSON.stringify(rows);
+      const calls = (mockOpperClient.call as Mock).mock.calls;
+      const [offloaded] = calls[1]![0].input.execution_history[0].results;
+      expect(JSON.parse(offloaded.result)).toMatchObject({
+        totalChars: serialized.length,
+        preview: serialized.slice(0, 40),
+      });
+      expect(artifactStore.size).toBe(1);
+      expect(run.toolCalls[0]?.output).toEqual(JSON.parse(offloaded.result));
+      expect(run.toolCalls[1]).toMatchObject({
+        toolName: "read_artifact",
+        success: true,
+        output: {
+          offset: 40,
+          content: serialized.slice(40, 80),
+          nextOffset: 80,
+        },
+      });
+    });
+  });
+
+  describe("Tool caching", () => {
+    const queueLookupRun = () => {
+      vi.spyOn(mockOpperClient, "call")
+        .mockResolvedValueOnce({
+          jsonPayload: createMockDecision({
+            toolCalls: [
+              {
+                id: "call-1",
+                toolName: "lookup",
+                arguments: { city: "Paris" },
+              },
+            ],
+          }),
+          spanId: "span-think-1",
+          usage: mockUsage(10, 5),
+        })
+        .mockResolvedValueOnce({
+          jsonPayload: createMockDecision({ isComplete: true }),
+          spanId: "span-think-2",
+          usage: mockUsage(10, 5),
+        })
+        .mockResolvedValueOnce({
+          message: "done",
+          spanId: "span-final",
+          usage: mockUsage(10, 5),
+        });
+    };
+
+    it("serves identical calls from the cache across runs", async () => {
+      const execute = vi.fn(async (input: { city: string }) =>
+        ToolResultFactory.success("lookup", `Sunny in ${input.city}`),
+      );
+      const lookup: Tool<{ city: string }, string> = {
+        name: "lookup",
+        schema: z.object({ city: z.string() }),
+        cache: { ttlMs: 60_000 },
+        execute,
+      };
+      const agent = new Agent({
+        name: "CachingAgent",
+        opperClient: mockOpperClient,
+        tools: [lookup],
+      });
+      const afterTool = vi.fn();
+      agent.registerHook(HookEvents.AfterTool, afterTool);
+      const updateSpanSpy = vi.spyOn(mockOpperClient, "updateSpan");
+
+      queueLookupRun();
+      const first = await agent.runDetailed("weather?");
+      queueLookupRun();
+      const second = await agent.runDetailed("weather?");
+
+      expect(execute).toHaveBeenCalledTimes(1);
+      expect(first.toolCalls[0]?.metadata["cached"]).toBeUndefined();
+      expect(second.toolCalls[0]).toMatchObject({
+        output: "Sunny in Paris",
+        success: true,
+        metadata: { cached: true, cacheKey: 'lookup:{"city":"Paris"}' },
+      });
+      expect(afterTool.mock.calls[0]?.[0].cached).toBeUndefined();
+      expect(afterTool.mock.calls[1]?.[0].cached).toBe(true);
+      expect(
+        updateSpanSpy.mock.calls.filter(
+          (call) => call[2]?.meta?.["cached"] === true,
+        ),
+      ).toHaveLength(1);
+    });
+
+    it("skips results rejected by the cacheable predicate", async () => {
+      const execute = vi.fn(async () =>
+        ToolResultFactory.success("lookup", "unavailable"),
+      );
+      const agent = new Agent({
+        name: "CachingAgent",
+        opperClient: mockOpperClient,
+        tools: [
+          {
+            name: "lookup",
+            cache: { cacheable: (output) => output !== "unavailable" },
+            execute,
+          } satisfies Tool<{ city: string }, string>,
+        ],
+        toolCache: new InMemoryToolCache(),
+      });
+
+      queueLookupRun();
+      await agent.runDetailed("weather?");
+      queueLookupRun();
+      await agent.runDetailed("weather?");
+
+      expect(execute).toHaveBeenCalledTimes(2);
+    });
+  });
 });
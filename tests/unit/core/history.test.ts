@@ -0,0 +1,149 @@
+import { describe, expect, it } from "vitest";
+
+import type { ExecutionCycle } from "@/base/context";
+import { ToolResultFactory } from "@/base/tool";
+import {
+  getCyclesToSummarize,
+  renderCycle,
+  renderExecutionHistory,
+} from "@/core/history";
+
+const createCycle = (iteration: number, output: unknown = "ok") =>
+  ({
+    iteration,
+    thought: { reasoning: `step ${iteration}` },
+    toolCalls: [],
+    results: [{ toolName: "search", success: true, output }],
+    timestamp: iteration,
+  }) as ExecutionCycle;
+
+const createCycles = (count: number) =>
+  Array.from({ length: count }, (_, index) => createCycle(index + 1));
+
+describe("renderCycle", () => {
+  it("renders successes, failures and nested tool results", () => {
+    const rendered = renderCycle({
+      iteration: 1,
+      thought: { reasoning: "look up" },
+      toolCalls: [],
+      results: [
+        {
+          toolName: "search",
+          success: true,
+          output: ToolResultFactory.success("search", { hits: 2 }),
+        },
+        { toolName: "fetch", success: false, error: "timeout" },
+      ],
+      timestamp: 1,
+    });
+
+    expect(rendered).toEqual({
+      iteration: 1,
+      thought: "look up",
+      actions_taken: ["search", "fetch"],
+      results: [
+        { tool: "search", success: true, result: '{"hits":2}' },
+        { tool: "fetch", success: false, error: "timeout" },
+      ],
+    });
+  });
+
+  it("truncates long results", () => {
+    const rendered = renderCycle(createCycle(1, "x".repeat(100)), 5);
+
+    expect(rendered.results[0]?.result).toBe(
+      `${"x".repeat(20)}… [truncated 80 chars]`,
+    );
+  });
+});
+
+describe("renderExecutionHistory", () => {
+  it("keeps everything with the full strategy", () => {
+    const history = renderExecutionHistory(createCycles(5), { type: "full" });
+
+    expect(history.cycles).toHaveLength(5);
+    expect(history.omittedCycles).toBe(0);
+    expect(history.summary).toBeNull();
+  });
+
+  it("keeps the most recent cycles with the window strategy", () => {
+    const history = renderExecutionHistory(createCycles(5), {
+      type: "window",
+      cycles: 2,
+    });
+
+    expect(history.cycles.map((cycle) => cycle.iteration)).toEqual([4, 5]);
+    expect(history.omittedCycles).toBe(3);
+  });
+
+  it("drops the oldest cycles beyond the token budget", () => {
+    const cycles = [
+      createCycle(1, "a".repeat(400)),
+      createCycle(2, "b".repeat(40)),
+      createCycle(3, "c".repeat(40)),
+    ];
+
+    const history = renderExecutionHistory(cycles, {
+      type: "token_budget",
+      maxTokens: 100,
+    });
+
+    expect(history.cycles.map((cycle) => cycle.iteration)).toEqual([2, 3]);
+    expect(history.omittedCycles).toBe(1);
+
+    const truncated = renderExecutionHistory(cycles, {
+      type: "token_budget",
+      maxTokens: 200,
+      maxResultTokens: 10,
+    });
+    expect(truncated.cycles).toHaveLength(3);
+  });
+
+  it("truncates the newest cycle when it alone exceeds the token budget", () => {
+    const cycles = [createCycle(1), createCycle(2, "z".repeat(4000))];
+
+    const history = renderExecutionHistory(cycles, {
+      type: "token_budget",
+      maxTokens: 100,
+    });
+
+    expect(history.cycles.map((cycle) => cycle.iteration)).toEqual([2]);
+    expect(history.omittedCycles).toBe(1);
+    expect(history.cycles[0]?.results[0]?.result).toBe(
+      `${"z".repeat(200)}… [truncated 3800 chars]`,
+    );
+  });
+
+  it("combines the running summary with unsummarized cycles", () => {
+    const history = renderExecutionHistory(
+      createCycles(5),
+      { type: "summarize" },
+      { text: "found three sources", throughIteration: 3 },
+    );
+
+    expect(history.summary).toBe("found three sources");
+    expect(history.cycles.map((cycle) => cycle.iteration)).toEqual([4, 5]);
+    expect(history.omittedCycles).toBe(3);
+  });
+});
+
+describe("getCyclesToSummarize", () => {
+  it("returns unsummarized cycles outside the recent window", () => {
+    const strategy = { type: "summarize" as const, keepRecent: 2 };
+
+    expect(getCyclesToSummarize(createCycles(2), strategy, null)).toHaveLength(
+      0,
+    );
+    expect(
+      getCyclesToSummarize(createCycles(5), strategy, null).map(
+        (cycle) => cycle.iteration,
+      ),
+    ).toEqual([1, 2, 3]);
+    expect(
+      getCyclesToSummarize(createCycles(6), strategy, {
+        text: "so far",
+        throughIteration: 3,
+      }).map((cycle) => cycle.iteration),
+    ).toEqual([4]);
+  });
+});
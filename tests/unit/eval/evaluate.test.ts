@@ -0,0 +1,213 @@
+import { mkdtemp, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import type { ToolProvider } from "@/base/tool";
+import { Agent } from "@/core/agent";
+import { evaluate, renderEvalReport } from "@/eval/evaluate";
+import { exactMatch, type Scorer } from "@/eval/scorers";
+import type { LlmCallOptions, LlmProvider } from "@/llm/provider";
+import { createFunctionTool } from "@/utils/tool-decorators";
+
+/**
+ * Completes every run in one think call by upper-casing the goal.
+ * Goals containing "fail" make the call reject, and goals containing "ponder"
+ * never complete.
+ */
+class EchoProvider implements LlmProvider {
+  public active = 0;
+
+  public maxActive = 0;
+
+  /**
+   * Names of the tools offered in each call
+   */
+  public offeredTools: string[][] = [];
+
+  public async call<TInput, TOutput>(options: LlmCallOptions<TInput, TOutput>) {
+    const { available_tools: tools = [] } = options.input as {
+      available_tools?: Array<{ name: string }>;
+    };
+    this.offeredTools.push(tools.map((tool) => tool.name));
+    this.active += 1;
+    this.maxActive = Math.max(this.maxActive, this.active);
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    this.active -= 1;
+
+    const { goal } = options.input as { goal: string };
+    if (goal.includes("fail")) {
+      throw new Error(`cannot handle ${goal}`);
+    }
+
+    return {
+      jsonPayload: {
+        reasoning: "Echo",
+        userMessage: "Done",
+        toolCalls: [],
+        memoryReads: [],
+        memoryUpdates: {},
+        isComplete: !goal.includes("ponder"),
+        finalResult: goal.toUpperCase(),
+      } as TOutput,
+      usage: {
+        inputTokens: 4,
+        outputTokens: 2,
+        totalTokens: 6,
+        cost: { generation: 0, platform: 0, total: 0 },
+      },
+    };
+  }
+}
+
+describe("evaluate", () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(path.join(tmpdir(), "eval-"));
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it("runs every case with bounded concurrency and scores the outputs", async () => {
+    const llm = new EchoProvider();
+    const agent = new Agent<string, string>({ name: "Echo", llm });
+    const dataset = ["a", "b", "c", "d", "e"].map((input) => ({
+      id: `case-${input}`,
+      input,
+      expected: input === "c" ? "nope" : input.toUpperCase(),
+    }));
+
+    const report = await evaluate(agent, dataset, [exactMatch()], {
+      concurrency: 2,
+    });
+
+    expect(llm.maxActive).toBe(2);
+    expect(report.cases.map((result) => result.id)).toEqual([
+      "case-a",
+      "case-b",
+      "case-c",
+      "case-d",
+      "case-e",
+    ]);
+    expect(report.cases[2]).toMatchObject({
+      output: "C",
+      passed: false,
+      scores: { exact_match: { score: 0, passed: false } },
+    });
+    expect(report.cases[0]).toMatchObject({
+      passed: true,
+      iterations: 1,
+      stopReason: "completed",
+      usage: { requests: 1, totalTokens: 6 },
+    });
+    expect(report.summary).toMatchObject({
+      total: 5,
+      passed: 4,
+      failed: 1,
+      errored: 0,
+      averageScores: { exact_match: 0.8 },
+      usage: { requests: 5, totalTokens: 30 },
+    });
+  });
+
+  it("keeps provider tools available to concurrent cases", async () => {
+    const llm = new EchoProvider();
+    const lookup = createFunctionTool(() => "found", { name: "lookup" });
+    const provider: ToolProvider = {
+      setup: vi.fn(async () => [lookup]),
+      teardown: vi.fn(async () => {}),
+    };
+    const agent = new Agent<string, string>({
+      name: "Echo",
+      llm,
+      tools: [provider],
+    });
+
+    const report = await evaluate(
+      agent,
+      ["a", "b", "c", "d", "e"].map((input) => ({ input })),
+      [],
+      { concurrency: 3 },
+    );
+
+    expect(report.summary.errored).toBe(0);
+    expect(llm.offeredTools).toHaveLength(5);
+    for (const tools of llm.offeredTools) {
+      expect(tools).toContain("lookup");
+    }
+    expect(provider.setup).toHaveBeenCalledTimes(1);
+    expect(provider.teardown).toHaveBeenCalledTimes(1);
+    expect(agent.getTools().map((tool) => tool.name)).not.toContain("lookup");
+  });
+
+  it("records run and scorer failures without stopping", async () => {
+    const agent = new Agent<string, string>({
+      name: "Echo",
+      llm: new EchoProvider(),
+    });
+    const flaky: Scorer<string, string> = {
+      name: "flaky",
+      score: ({ output }) => {
+        if (output === "B") {
+          throw new Error("scorer broke");
+        }
+        return true;
+      },
+    };
+
+    const report = await evaluate(
+      agent,
+      [{ input: "a" }, { input: "b" }, { input: "please fail" }],
+      [flaky],
+    );
+
+    expect(report.cases[0]).toMatchObject({ id: "0", passed: true });
+    expect(report.cases[1]?.scores["flaky"]).toEqual({
+      score: 0,
+      passed: false,
+      reason: "Scorer failed: scorer broke",
+    });
+    expect(report.cases[2]).toMatchObject({ passed: false, iterations: 0 });
+    expect(report.cases[2]?.error).toContain("cannot handle please fail");
+    expect(report.summary).toMatchObject({ passed: 1, errored: 1 });
+  });
+
+  it("reports the usage of runs stopped by the budget", async () => {
+    const agent = new Agent<string, string>({
+      name: "Echo",
+      llm: new EchoProvider(),
+      budget: { maxTotalTokens: 1 },
+    });
+
+    const report = await evaluate(agent, [{ input: "ponder" }], []);
+
+    expect(report.cases[0]?.error).toContain("budget");
+    expect(report.cases[0]?.usage).toMatchObject({ totalTokens: 6 });
+    expect(report.summary.usage).toMatchObject({ totalTokens: 6 });
+  });
+
+  it("writes JSON and Markdown reports", async () => {
+    const agent = new Agent<string, string>({
+      name: "Echo",
+      llm: new EchoProvider(),
+    });
+    const jsonPath = path.join(directory, "reports", "echo.json");
+    const markdownPath = path.join(directory, "reports", "echo.md");
+
+    const report = await evaluate(
+      agent,
+      [{ id: "greeting", input: "hi", expected: "HI" }],
+      [exactMatch()],
+      { report: { json: jsonPath, markdown: markdownPath } },
+    );
+
+    expect(JSON.parse(await readFile(jsonPath, "utf8"))).toEqual(report);
+    const markdown = await readFile(markdownPath, "utf8");
+    expect(markdown).toBe(renderEvalReport(report));
+    expect(markdown).toContain("# Evaluation: Echo");
+    expect(markdown).toContain("| greeting | yes | 1.00 | 1 | 6 |  |");
+  });
+});
@@ -0,0 +1,110 @@
+import { describe, expect, it, vi } from "vitest";
+import { z } from "zod";
+
+import type { AgentRunResult } from "@/base/run-result";
+import {
+  exactMatch,
+  llmJudge,
+  schemaValid,
+  toolCalled,
+  type ScorerInput,
+} from "@/eval/scorers";
+import type { LlmProvider } from "@/llm/provider";
+
+const scorerInput = (
+  output: unknown,
+  expected?: unknown,
+  toolCalls: AgentRunResult["toolCalls"] = [],
+): ScorerInput<unknown, unknown> => ({
+  evalCase: { input: "question", expected },
+  output,
+  run: { toolCalls } as AgentRunResult,
+});
+
+describe("scorers", () => {
+  it("exactMatch compares trimmed strings and structured values", async () => {
+    expect(await exactMatch().score(scorerInput(" Paris ", "Paris"))).toEqual({
+      score: 1,
+    });
+    expect(
+      await exactMatch({ caseSensitive: false }).score(
+        scorerInput("PARIS", "paris"),
+      ),
+    ).toEqual({ score: 1 });
+    expect(
+      await exactMatch().score(scorerInput({ b: 2, a: 1 }, { a: 1, b: 2 })),
+    ).toEqual({ score: 1 });
+    expect(await exactMatch().score(scorerInput("Lyon", "Paris"))).toEqual({
+      score: 0,
+      reason: 'Expected "Paris"',
+    });
+  });
+
+  it("schemaValid reports failing paths", async () => {
+    const scorer = schemaValid(z.object({ city: z.string() }));
+
+    expect(await scorer.score(scorerInput({ city: "Paris" }))).toEqual({
+      score: 1,
+    });
+    expect(await scorer.score(scorerInput({ city: 1 }))).toMatchObject({
+      score: 0,
+      reason: expect.stringContaining("city"),
+    });
+  });
+
+  it("toolCalled checks the run's tool call records", async () => {
+    const calls = [
+      { toolName: "search", success: false },
+      { toolName: "search", success: true },
+    ] as AgentRunResult["toolCalls"];
+
+    expect(
+      await toolCalled("search", { minTimes: 2 }).score(
+        scorerInput("x", undefined, calls),
+      ),
+    ).toEqual({ score: 1 });
+    expect(
+      await toolCalled("search", { minTimes: 2, requireSuccess: true }).score(
+        scorerInput("x", undefined, calls),
+      ),
+    ).toMatchObject({ score: 0 });
+    expect(
+      (await toolCalled("fetch").score(scorerInput("x"))) as { reason: string },
+    ).toMatchObject({
+      reason: '"fetch" called 0 time(s), expected at least 1',
+    });
+  });
+
+  it("llmJudge grades through the configured client", async () => {
+    const call = vi.fn().mockResolvedValue({
+      jsonPayload: { reasoning: "Mostly right", score: 0.8 },
+      usage: {
+        inputTokens: 1,
+        outputTokens: 1,
+        totalTokens: 2,
+        cost: { generation: 0, platform: 0, total: 0 },
+      },
+    });
+    const scorer = llmJudge({
+      criteria: "Names the capital of France",
+      client: { call } satisfies LlmProvider,
+      model: "judge-model",
+    });
+
+    expect(scorer.threshold).toBe(0.7);
+    expect(await scorer.score(scorerInput("Paris", "Paris"))).toEqual({
+      score: 0.8,
+      reason: "Mostly right",
+    });
+    expect(call.mock.calls[0]?.[0]).toMatchObject({
+      name: "llm_judge",
+      model: "judge-model",
+      input: {
+        criteria: "Names the capital of France",
+        input: "question",
+        output: "Paris",
+        expected: "Paris",
+      },
+    });
+  });
+});
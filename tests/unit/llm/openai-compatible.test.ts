@@ -0,0 +1,135 @@
+import { describe, expect, it, vi } from "vitest";
+import { z } from "zod";
+
+import { OpenAICompatibleProvider } from "@/llm/openai-compatible";
+
+const completion = (content: string, status = 200) =>
+  new Response(
+    JSON.stringify({
+      choices: [{ message: { role: "assistant", content } }],
+      usage: { prompt_tokens: 12, completion_tokens: 4 },
+    }),
+    { status, headers: { "Content-Type": "application/json" } },
+  );
+
+describe("OpenAICompatibleProvider", () => {
+  it("requests structured output with a JSON Schema response format", async () => {
+    const fetchMock = vi
+      .fn<typeof fetch>()
+      .mockResolvedValue(completion('{"answer":"42"}'));
+    const provider = new OpenAICompatibleProvider({
+      baseUrl: "http://127.0.0.1:8080/v1/",
+      apiKey: "local-key",
+      model: "llama-3",
+      fetch: fetchMock,
+    });
+
+    const response = await provider.call({
+      name: "think_my agent",
+      instructions: "Answer the question",
+      input: { question: "meaning of life" },
+      outputSchema: z.object({ answer: z.string() }),
+    });
+
+    expect(response).toEqual({
+      jsonPayload: { answer: "42" },
+      usage: {
+        inputTokens: 12,
+        outputTokens: 4,
+        totalTokens: 16,
+        cost: { generation: 0, platform: 0, total: 0 },
+      },
+    });
+
+    const [url, init] = fetchMock.mock.calls[0]!;
+    expect(url).toBe("http://127.0.0.1:8080/v1/chat/completions");
+    expect(init?.headers).toMatchObject({ Authorization: "Bearer local-key" });
+
+    const body = JSON.parse(String(init?.body)) as Record<string, unknown>;
+    expect(body).toMatchObject({
+      model: "llama-3",
+      messages: [
+        { role: "system", content: "Answer the question" },
+        { role: "user", content: '{"question":"meaning of life"}' },
+      ],
+      response_format: {
+        type: "json_schema",
+        json_schema: {
+          name: "think_my_agent",
+          schema: { type: "object", required: ["answer"] },
+        },
+      },
+    });
+  });
+
+  it("returns plain text without an output schema and prefers the call's model", async () => {
+    const fetchMock = vi.fn<typeof fetch>().mockResolvedValue(completion("Hi"));
+    const provider = new OpenAICompatibleProvider({
+      baseUrl: "http://localhost:8000/v1",
+      model: "default-model",
+      fetch: fetchMock,
+    });
+
+    const response = await provider.call({
+      name: "greet",
+      instructions: "Say hi",
+      input: "hello",
+      model: ["served-model", "fallback"],
+    });
+
+    expect(response.message).toBe("Hi");
+    expect(response.jsonPayload).toBeUndefined();
+    const body = JSON.parse(String(fetchMock.mock.calls[0]?.[1]?.body)) as {
+      model: string;
+      response_format?: unknown;
+    };
+    expect(body.model).toBe("served-model");
+    expect(body.response_format).toBeUndefined();
+  });
+
+  it("accepts JSON wrapped in markdown fences", async () => {
+    const provider = new OpenAICompatibleProvider({
+      baseUrl: "http://localhost:8000/v1",
+      model: "m",
+      fetch: vi
+        .fn<typeof fetch>()
+        .mockResolvedValue(completion('```json\n{"ok":true}\n```')),
+    });
+
+    const response = await provider.call({
+      name: "check",
+      instructions: "",
+      input: null,
+      outputSchema: { type: "object" },
+    });
+
+    expect(response.jsonPayload).toEqual({ ok: true });
+  });
+
+  it("surfaces HTTP failures with their status", async () => {
+    const provider = new OpenAICompatibleProvider({
+      baseUrl: "http://localhost:8000/v1",
+      model: "m",
+      fetch: vi
+        .fn<typeof fetch>()
+        .mockResolvedValue(new Response("overloaded", { status: 503 })),
+    });
+
+    await expect(
+      provider.call({ name: "busy", instructions: "", input: "x" }),
+    ).rejects.toThrow(
+      'OpenAI-compatible call "busy" failed with status 503: overloaded',
+    );
+  });
+
+  it("requires a model", async () => {
+    const provider = new OpenAICompatibleProvider({
+      baseUrl: "http://localhost:8000/v1",
+      fetch: vi.fn<typeof fetch>(),
+    });
+
+    await expect(
+      provider.call({ name: "anon", instructions: "", input: "x" }),
+    ).rejects.toThrow("has no model");
+  });
+});
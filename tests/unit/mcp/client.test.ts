@@ -1,12 +1,20 @@
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
 import { describe, expect, it, beforeEach, afterEach, vi } from "vitest";
 
-import { MCPClient } from "@/mcp/client";
+import { MCPClient, type MCPConnectionStateChange } from "@/mcp/client";
 import { MCPconfig } from "@/mcp/config";
 
 const connectMock = vi.fn();
 const closeMock = vi.fn();
 const listToolsMock = vi.fn();
 const callToolMock = vi.fn();
+const listResourcesMock = vi.fn();
+const listResourceTemplatesMock = vi.fn();
+const readResourceMock = vi.fn();
+const listPromptsMock = vi.fn();
+const getPromptMock = vi.fn();
+const getServerCapabilitiesMock = vi.fn();
+const pingMock = vi.fn();
 
 const streamableTransportMock = vi.hoisted(() => vi.fn());
 
@@ -16,6 +24,13 @@ vi.mock("@modelcontextprotocol/sdk/client/index.js", () => {
     close: closeMock,
     listTools: listToolsMock,
     callTool: callToolMock,
+    listResources: listResourcesMock,
+    listResourceTemplates: listResourceTemplatesMock,
+    readResource: readResourceMock,
+    listPrompts: listPromptsMock,
+    getPrompt: getPromptMock,
+    getServerCapabilities: getServerCapabilitiesMock,
+    ping: pingMock,
   }));
 
   return {
@@ -96,3 +111,306 @@ describe("MCPClient streamable HTTP", () => {
     await client.disconnect();
   });
 });
+
+describe("MCPClient resources and prompts", () => {
+  const config = MCPconfig({
+    name: "docs",
+    transport: "streamable-http",
+    url: "https://mcp.example.com",
+  });
+
+  beforeEach(() => {
+    streamableTransportMock.mockImplementation(() => ({
+      start: vi.fn().mockResolvedValue(undefined),
+      close: vi.fn().mockResolvedValue(undefined),
+      send: vi.fn().mockResolvedValue(undefined),
+    }));
+    connectMock.mockResolvedValue(undefined);
+    closeMock.mockResolvedValue(undefined);
+  });
+
+  afterEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("lists resources across pages and reads them", async () => {
+    listResourcesMock
+      .mockResolvedValueOnce({
+        resources: [
+          { uri: "file:///a.md", name: "a.md", mimeType: "text/markdown" },
+        ],
+        nextCursor: "page-2",
+      })
+      .mockResolvedValueOnce({
+        resources: [{ uri: "file:///b.png", name: "b.png" }],
+      });
+    listResourceTemplatesMock.mockResolvedValue({
+      resourceTemplates: [
+        { uriTemplate: "db://rows/{id}", name: "row", description: "A row" },
+      ],
+    });
+    readResourceMock.mockResolvedValue({
+      contents: [
+        { uri: "file:///a.md", mimeType: "text/markdown", text: "# A" },
+        { uri: "file:///b.png", blob: "aGk=" },
+      ],
+    });
+
+    const client = MCPClient.fromConfig(config);
+    await client.connect();
+
+    await expect(client.listResources()).resolves.toEqual([
+      { uri: "file:///a.md", name: "a.md", mimeType: "text/markdown" },
+      { uri: "file:///b.png", name: "b.png" },
+    ]);
+    expect(listResourcesMock).toHaveBeenLastCalledWith({ cursor: "page-2" });
+    await expect(client.listResourceTemplates()).resolves.toEqual([
+      { uriTemplate: "db://rows/{id}", name: "row", description: "A row" },
+    ]);
+    await expect(client.readResource("file:///a.md")).resolves.toEqual([
+      { uri: "file:///a.md", mimeType: "text/markdown", text: "# A" },
+      { uri: "file:///b.png", blob: "aGk=" },
+    ]);
+    expect(readResourceMock).toHaveBeenCalledWith(
+      { uri: "file:///a.md" },
+      undefined,
+    );
+
+    await client.disconnect();
+  });
+
+  it("lists and renders prompts", async () => {
+    const messages = [
+      { role: "user", content: { type: "text", text: "Review main.ts" } },
+    ];
+    listPromptsMock.mockResolvedValue({
+      prompts: [
+        {
+          name: "review",
+          arguments: [{ name: "file", description: "File to review" }],
+        },
+      ],
+    });
+    getPromptMock.mockResolvedValue({ description: "Code review", messages });
+
+    const client = MCPClient.fromConfig(config);
+    await client.connect();
+
+    await expect(client.listPrompts()).resolves.toEqual([
+      {
+        name: "review",
+        description: "",
+        arguments: [
+          { name: "file", description: "File to review", required: false },
+        ],
+      },
+    ]);
+    await expect(
+      client.getPrompt("review", { file: "main.ts" }),
+    ).resolves.toEqual({ description: "Code review", messages });
+    expect(getPromptMock).toHaveBeenCalledWith(
+      { name: "review", arguments: { file: "main.ts" } },
+      undefined,
+    );
+
+    await client.disconnect();
+  });
+
+  it("requires a connection", async () => {
+    const client = MCPClient.fromConfig(config);
+
+    await expect(client.listResources()).rejects.toThrow(
+      'MCP server "docs" is not connected',
+    );
+    expect(client.serverCapabilities).toBeUndefined();
+  });
+});
+
+describe("MCPClient reconnection", () => {
+  const config = MCPconfig({
+    name: "flaky",
+    transport: "streamable-http",
+    url: "https://mcp.example.com",
+  });
+
+  /**
+   * Simulate the transport closing under the most recently created session
+   */
+  const dropConnection = () => {
+    const session = vi.mocked(Client).mock.results.at(-1)!.value as {
+      onclose?: () => void;
+    };
+    session.onclose?.();
+  };
+
+  const createClient = (options: { maxAttempts?: number } = {}) => {
+    const changes: MCPConnectionStateChange[] = [];
+    const client = MCPClient.fromConfig(config, {
+      reconnect: { initialDelayMs: 1, ...options },
+      onStateChange: (change) => changes.push(change),
+    });
+    return { client, changes };
+  };
+
+  beforeEach(() => {
+    for (const mock of [
+      connectMock,
+      closeMock,
+      listToolsMock,
+      callToolMock,
+      pingMock,
+    ]) {
+      mock.mockReset();
+    }
+    streamableTransportMock.mockImplementation(() => ({
+      start: vi.fn().mockResolvedValue(undefined),
+      close: vi.fn().mockResolvedValue(undefined),
+      send: vi.fn().mockResolvedValue(undefined),
+    }));
+    connectMock.mockResolvedValue(undefined);
+    closeMock.mockResolvedValue(undefined);
+    listToolsMock.mockResolvedValue({ tools: [] });
+    callToolMock.mockResolvedValue({ content: [] });
+    pingMock.mockResolvedValue({});
+  });
+
+  afterEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("reconnects after the connection closes and refreshes the tool cache", async () => {
+    listToolsMock
+      .mockResolvedValueOnce({ tools: [{ name: "old", inputSchema: {} }] })
+      .mockResolvedValue({ tools: [{ name: "new", inputSchema: {} }] });
+    const { client, changes } = createClient();
+    await client.connect();
+    await client.listTools();
+
+    dropConnection();
+    const tools = await client.listTools();
+
+    expect(tools.map((tool) => tool.name)).toEqual(["new"]);
+    expect(client.connectionState).toBe("connected");
+    expect(streamableTransportMock).toHaveBeenCalledTimes(2);
+    expect(
+      changes.map(({ state, previousState, attempt }) => ({
+        state,
+        previousState,
+        attempt,
+      })),
+    ).toEqual([
+      { state: "connecting", previousState: "disconnected" },
+      { state: "connected", previousState: "connecting" },
+      { state: "reconnecting", previousState: "connected", attempt: 1 },
+      { state: "connected", previousState: "reconnecting" },
+    ]);
+    expect(changes[2]?.error?.message).toBe(
+      'MCP server "flaky" closed the connection',
+    );
+
+    await client.disconnect();
+  });
+
+  it("gives up after maxAttempts and recovers on the next request", async () => {
+    const { client, changes } = createClient({ maxAttempts: 2 });
+    await client.connect();
+    connectMock.mockRejectedValueOnce(new Error("refused"));
+    connectMock.mockRejectedValueOnce(new Error("refused"));
+
+    dropConnection();
+    await expect(client.callTool("search", {})).rejects.toThrow("refused");
+
+    expect(changes.at(-1)).toMatchObject({
+      state: "disconnected",
+      previousState: "reconnecting",
+      error: { message: "refused" },
+    });
+
+    await expect(client.callTool("search", {})).resolves.toEqual({
+      content: [],
+    });
+    expect(client.isConnected).toBe(true);
+
+    await client.disconnect();
+  });
+
+  it("reconnects when a request fails on a closed connection", async () => {
+    const { client } = createClient();
+    await client.connect();
+    callToolMock.mockRejectedValueOnce(
+      Object.assign(new Error("Connection closed"), { code: -32000 }),
+    );
+
+    await expect(client.callTool("search", {})).rejects.toThrow(
+      "Connection closed",
+    );
+    await expect(client.callTool("search", {})).resolves.toEqual({
+      content: [],
+    });
+    expect(streamableTransportMock).toHaveBeenCalledTimes(2);
+
+    await client.disconnect();
+  });
+
+  it("starts a new session after the server drops the configured one", async () => {
+    const client = MCPClient.fromConfig(
+      MCPconfig({
+        name: "flaky",
+        transport: "streamable-http",
+        url: "https://mcp.example.com",
+        sessionId: "stale-session",
+      }),
+      { reconnect: { initialDelayMs: 1 } },
+    );
+    await client.connect();
+    callToolMock.mockRejectedValueOnce(
+      Object.assign(new Error("Session not found"), { code: 404 }),
+    );
+
+    await expect(client.callTool("search", {})).rejects.toThrow(
+      "Session not found",
+    );
+    await expect(client.callTool("search", {})).resolves.toEqual({
+      content: [],
+    });
+
+    const [first, second] = streamableTransportMock.mock.calls;
+    expect(first?.[1]).toMatchObject({ sessionId: "stale-session" });
+    expect(second?.[1]).not.toHaveProperty("sessionId");
+
+    await client.disconnect();
+  });
+
+  it("reconnects when a periodic ping fails", async () => {
+    pingMock.mockRejectedValueOnce(new Error("timeout"));
+    const reconnected = new Promise<void>((resolve) => {
+      const client = MCPClient.fromConfig(config, {
+        reconnect: { initialDelayMs: 1 },
+        pingIntervalMs: 5,
+        onStateChange: (change) => {
+          if (change.previousState === "reconnecting") {
+            void client.disconnect().then(resolve);
+          }
+        },
+      });
+      void client.connect();
+    });
+
+    await reconnected;
+
+    expect(pingMock).toHaveBeenCalled();
+    expect(streamableTransportMock).toHaveBeenCalledTimes(2);
+  });
+
+  it("stays disconnected when reconnection is disabled", async () => {
+    const client = MCPClient.fromConfig(config, { reconnect: false });
+    await client.connect();
+
+    dropConnection();
+
+    expect(client.connectionState).toBe("disconnected");
+    await expect(client.callTool("search", {})).rejects.toThrow(
+      'MCP server "flaky" is not connected',
+    );
+  });
+});
@@ -1,3 +1,4 @@
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
 import { describe, expect, it, vi } from "vitest";
 
 import type { BaseAgent } from "@/base/agent";
@@ -14,6 +15,7 @@ import {
 class FakeMcpClient {
   public readonly connect = vi.fn().mockResolvedValue(undefined);
   public readonly disconnect = vi.fn().mockResolvedValue(undefined);
+  public readonly onStateChange = vi.fn();
   public readonly listTools = vi.fn<() => Promise<MCPTool[]>>();
   public readonly callTool =
     vi.fn<
@@ -39,6 +41,24 @@ class FakeMcpClient {
   }
 }
 
+class FakeResourceMcpClient extends FakeMcpClient {
+  public serverCapabilities: Record<string, unknown> | undefined = {
+    tools: {},
+    resources: {},
+  };
+  public readonly listResources = vi
+    .fn()
+    .mockResolvedValue([{ uri: "file:///notes.md", name: "notes.md" }]);
+  public readonly listResourceTemplates = vi
+    .fn()
+    .mockRejectedValue(new Error("Method not found"));
+  public readonly readResource = vi
+    .fn()
+    .mockResolvedValue([{ uri: "file:///notes.md", text: "hello" }]);
+  public readonly listPrompts = vi.fn().mockResolvedValue([]);
+  public readonly getPrompt = vi.fn();
+}
+
 const createContext = (): ToolExecutionContext => ({
   agentContext: new AgentContext({ agentName: "TestAgent" }),
 });
@@ -99,7 +119,7 @@ describe("MCPToolProvider", () => {
 
     expect(result.success).toBe(true);
     if (result.success) {
-      expect(result.output).toEqual(fakeResult);
+      expect(result.output).toBe("ok");
     }
 
     expect(clients[0]).toBeDefined();
@@ -144,4 +164,206 @@ describe("MCPToolProvider", () => {
       expect(message).toBe("boom");
     }
   });
+
+  it("returns failure ToolResult when the tool reports isError", async () => {
+    const config = MCPconfig({
+      name: "filesystem",
+      transport: "stdio",
+      command: "node",
+    });
+    const client = new FakeMcpClient([baseTool], {
+      content: [
+        { type: "text", text: "File not found" },
+        { type: "image", data: "aGk=", mimeType: "image/png" },
+      ],
+      isError: true,
+    });
+    const provider = new MCPToolProvider([config], {
+      clientFactory: () => client as unknown as MCPClient,
+    });
+
+    const tools = await provider.setup(
+      {} as unknown as BaseAgent<unknown, unknown>,
+    );
+    const result = await tools[0]!.execute(
+      { path: "/tmp/missing.txt" },
+      createContext(),
+    );
+
+    expect(result).toMatchObject({
+      success: false,
+      metadata: {
+        attachments: [{ type: "image", data: "aGk=", mimeType: "image/png" }],
+      },
+    });
+    expect(result.success ? undefined : String(result.error)).toBe(
+      "Error: File not found\n[image attachment: image/png]",
+    );
+  });
+
+  it("surfaces output schema validation errors from the SDK as failures", async () => {
+    const config = MCPconfig({
+      name: "filesystem",
+      transport: "stdio",
+      command: "node",
+    });
+    const validationError = new McpError(
+      ErrorCode.InvalidParams,
+      "Failed to validate structured content: data/size must be number",
+    );
+    const client = new FakeMcpClient([baseTool], validationError, true);
+    const provider = new MCPToolProvider([config], {
+      clientFactory: () => client as unknown as MCPClient,
+    });
+
+    const tools = await provider.setup(
+      {} as unknown as BaseAgent<unknown, unknown>,
+    );
+    const result = await tools[0]!.execute(
+      { path: "/tmp/demo.txt" },
+      createContext(),
+    );
+
+    expect(result.success ? undefined : result.error).toBe(validationError);
+  });
+
+  it("reports connection state changes", async () => {
+    const config = MCPconfig({
+      name: "filesystem",
+      transport: "stdio",
+      command: "node",
+    });
+    const client = new FakeMcpClient([baseTool], {});
+    const warn = vi.fn();
+    const onConnectionStateChange = vi.fn();
+    const provider = new MCPToolProvider([config], {
+      clientFactory: () => client as unknown as MCPClient,
+      logger: { warn },
+      onConnectionStateChange,
+    });
+    await provider.setup({} as unknown as BaseAgent<unknown, unknown>);
+
+    const change = {
+      server: "filesystem",
+      state: "reconnecting",
+      previousState: "connected",
+      attempt: 1,
+      error: new Error("closed"),
+    };
+    const listener = client.onStateChange.mock.calls[0]![0] as (
+      value: typeof change,
+    ) => void;
+    listener(change);
+
+    expect(onConnectionStateChange).toHaveBeenCalledWith(change);
+    expect(warn).toHaveBeenCalledWith("Reconnecting to MCP server", {
+      server: "filesystem",
+      state: "reconnecting",
+      attempt: 1,
+      error: "closed",
+    });
+  });
+
+  it("re-registers the tools of a reconnected server on the agent", async () => {
+    const config = MCPconfig({
+      name: "filesystem",
+      transport: "stdio",
+      command: "node",
+    });
+    const client = new FakeMcpClient([baseTool], {});
+    const provider = new MCPToolProvider([config], {
+      clientFactory: () => client as unknown as MCPClient,
+    });
+    const agent = { updateProviderTools: vi.fn() };
+    await provider.setup(agent as unknown as BaseAgent<unknown, unknown>);
+    client.listTools.mockResolvedValue([
+      baseTool,
+      { name: "write_file", description: "Write a file", parameters: {} },
+    ]);
+
+    const listener = client.onStateChange.mock.calls[0]![0] as (
+      value: Record<string, unknown>,
+    ) => void;
+    listener({
+      server: "filesystem",
+      state: "connected",
+      previousState: "reconnecting",
+    });
+    await vi.waitFor(() =>
+      expect(agent.updateProviderTools).toHaveBeenCalled(),
+    );
+
+    const [target, tools] = agent.updateProviderTools.mock.calls[0]!;
+    expect(target).toBe(provider);
+    expect((tools as Array<{ name: string }>).map((tool) => tool.name)).toEqual(
+      ["filesystem:read_file", "filesystem:write_file"],
+    );
+  });
+
+  it("surfaces resources as synthetic tools when enabled", async () => {
+    const config = MCPconfig({
+      name: "notes",
+      transport: "stdio",
+      command: "node",
+      resources: true,
+      prompts: true,
+    });
+    const client = new FakeResourceMcpClient([baseTool], {});
+    const provider = new MCPToolProvider([config], {
+      clientFactory: () => client as unknown as MCPClient,
+    });
+
+    const tools = await provider.setup(
+      {} as unknown as BaseAgent<unknown, unknown>,
+    );
+    const find = (name: string) => tools.find((tool) => tool.name === name)!;
+
+    // The server announced no prompts capability, so no prompt tools
+    expect(tools.map((tool) => tool.name)).toEqual([
+      "notes:read_file",
+      "notes:list_resources",
+      "notes:read_resource",
+    ]);
+
+    const listed = await find("notes:list_resources").execute(
+      {},
+      createContext(),
+    );
+    const read = await find("notes:read_resource").execute(
+      { uri: "file:///notes.md" },
+      createContext(),
+    );
+
+    expect(listed).toMatchObject({
+      success: true,
+      output: {
+        resources: [{ uri: "file:///notes.md", name: "notes.md" }],
+        templates: [],
+      },
+    });
+    expect(read).toMatchObject({
+      success: true,
+      output: [{ uri: "file:///notes.md", text: "hello" }],
+      metadata: { provider: "mcp", server: "notes", synthetic: true },
+    });
+    expect(client.readResource).toHaveBeenCalledWith("file:///notes.md", {});
+  });
+
+  it("does not add resource tools unless enabled", async () => {
+    const config = MCPconfig({
+      name: "notes",
+      transport: "stdio",
+      command: "node",
+    });
+    const provider = new MCPToolProvider([config], {
+      clientFactory: () =>
+        new FakeResourceMcpClient([baseTool], {}) as unknown as MCPClient,
+    });
+
+    const tools = await provider.setup(
+      {} as unknown as BaseAgent<unknown, unknown>,
+    );
+
+    expect(tools.map((tool) => tool.name)).toEqual(["notes:read_file"]);
+  });
 });
@@ -0,0 +1,91 @@
+import { describe, expect, it } from "vitest";
+
+import { parseMCPToolResult } from "@/mcp/result";
+
+describe("parseMCPToolResult", () => {
+  it("concatenates text content", () => {
+    expect(
+      parseMCPToolResult("search", {
+        content: [
+          { type: "text", text: "first" },
+          { type: "text", text: "second" },
+        ],
+      }),
+    ).toEqual({
+      isError: false,
+      output: "first\nsecond",
+      text: "first\nsecond",
+      attachments: [],
+    });
+  });
+
+  it("collects image, audio and resource content as attachments", () => {
+    const parsed = parseMCPToolResult("render", {
+      content: [
+        { type: "text", text: "Rendered" },
+        { type: "image", data: "aW1n", mimeType: "image/png" },
+        { type: "audio", data: "YXVk", mimeType: "audio/wav" },
+        {
+          type: "resource",
+          resource: { uri: "file:///notes.md", text: "# Notes" },
+        },
+        {
+          type: "resource",
+          resource: {
+            uri: "file:///logo.svg",
+            mimeType: "image/svg+xml",
+            blob: "c3Zn",
+          },
+        },
+      ],
+    });
+
+    expect(parsed).toEqual({
+      isError: false,
+      output:
+        "Rendered\n[image attachment: image/png]\n[audio attachment: audio/wav]\n# Notes\n[resource attachment: file:///logo.svg (image/svg+xml)]",
+      text: expect.any(String),
+      attachments: [
+        { type: "image", data: "aW1n", mimeType: "image/png" },
+        { type: "audio", data: "YXVk", mimeType: "audio/wav" },
+        { type: "resource", uri: "file:///notes.md", text: "# Notes" },
+        {
+          type: "resource",
+          uri: "file:///logo.svg",
+          mimeType: "image/svg+xml",
+          blob: "c3Zn",
+        },
+      ],
+    });
+  });
+
+  it("reports isError results as errors", () => {
+    expect(
+      parseMCPToolResult("search", { content: [], isError: true }),
+    ).toEqual({
+      isError: true,
+      message: 'MCP tool "search" failed',
+      attachments: [],
+    });
+  });
+
+  it("prefers structured content over the text", () => {
+    const parsed = parseMCPToolResult("weather", {
+      content: [{ type: "text", text: '{"city":"Oslo","temperature":4}' }],
+      structuredContent: { city: "Oslo", temperature: 4 },
+    });
+
+    expect(parsed).toMatchObject({
+      isError: false,
+      output: { city: "Oslo", temperature: 4 },
+      text: '{"city":"Oslo","temperature":4}',
+    });
+  });
+
+  it("passes through results without a content array", () => {
+    expect(parseMCPToolResult("legacy", { toolResult: 42 })).toMatchObject({
+      isError: false,
+      output: 42,
+    });
+  });
+});
@@ -0,0 +1,345 @@
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import type { Transport } from "@modelcontextprotocol/sdk/shared/transport.js";
+import { request } from "node:http";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { z } from "zod";
+
+import { BaseAgent, type BaseAgentConfig } from "@/base/agent";
+import { createEmptyUsage, type AgentContext } from "@/base/context";
+import { HookEvents } from "@/base/hooks";
+import {
+  createMCPAgentServer,
+  serveAgentAsMcp,
+  type MCPAgentServerOptions,
+} from "@/mcp/server";
+import { SilentLogger } from "@/utils/logger";
+import { createFunctionTool } from "@/utils/tool-decorators";
+
+const WeatherInput = z.object({ city: z.string() });
+const WeatherOutput = z.object({ city: z.string(), forecast: z.string() });
+
+class WeatherAgent extends BaseAgent<
+  z.infer<typeof WeatherInput>,
+  z.infer<typeof WeatherOutput>
+> {
+  protected override async runLoop(
+    input: z.infer<typeof WeatherInput>,
+    context: AgentContext,
+  ): Promise<z.infer<typeof WeatherOutput>> {
+    context.updateUsage({
+      ...createEmptyUsage(),
+      requests: 1,
+      inputTokens: 10,
+      outputTokens: 5,
+      totalTokens: 15,
+    });
+    if (input.city === "Atlantis") {
+      throw new Error("City not found");
+    }
+    return { city: input.city, forecast: "sunny" };
+  }
+}
+
+class EchoAgent extends BaseAgent<string, string> {
+  protected override async runLoop(input: string): Promise<string> {
+    return `Echo: ${input}`;
+  }
+}
+
+const connect = async <TInput, TOutput>(
+  agent: BaseAgent<TInput, TOutput>,
+  options: MCPAgentServerOptions = {},
+) => {
+  const [clientTransport, serverTransport] =
+    InMemoryTransport.createLinkedPair();
+  const server = createMCPAgentServer(agent, options);
+  const client = new Client({ name: "test-client", version: "0.0.0" });
+  await server.connect(serverTransport);
+  await client.connect(clientTransport);
+  return client;
+};
+
+const createWeatherAgent = (
+  tools: BaseAgentConfig<unknown, unknown>["tools"] = [],
+) =>
+  new WeatherAgent({
+    name: "weather",
+    description: "Forecasts the weather",
+    inputSchema: WeatherInput,
+    outputSchema: WeatherOutput,
+    tools,
+  });
+
+describe("createMCPAgentServer", () => {
+  it("exposes the agent with its schemas as JSON Schema", async () => {
+    const client = await connect(createWeatherAgent());
+
+    const { tools } = await client.listTools();
+
+    expect(tools).toHaveLength(1);
+    expect(tools[0]).toMatchObject({
+      name: "weather",
+      description: "Forecasts the weather",
+      inputSchema: {
+        type: "object",
+        properties: { city: { type: "string" } },
+        required: ["city"],
+      },
+      outputSchema: {
+        type: "object",
+        properties: { city: { type: "string" }, forecast: { type: "string" } },
+      },
+    });
+    await client.close();
+  });
+
+  it("returns structured results with nested usage", async () => {
+    const client = await connect(createWeatherAgent());
+
+    const result = await client.callTool({
+      name: "weather",
+      arguments: { city: "Oslo" },
+    });
+
+    expect(result).toMatchObject({
+      content: [{ type: "text", text: '{"city":"Oslo","forecast":"sunny"}' }],
+      structuredContent: { city: "Oslo", forecast: "sunny" },
+      _meta: { usage: { requests: 1, totalTokens: 15 } },
+    });
+    expect(result.isError).toBeFalsy();
+    await client.close();
+  });
+
+  it("maps agent errors and invalid input to error results", async () => {
+    const client = await connect(createWeatherAgent());
+
+    const failed = await client.callTool({
+      name: "weather",
+      arguments: { city: "Atlantis" },
+    });
+    const invalid = await client.callTool({
+      name: "weather",
+      arguments: { town: "Oslo" },
+    });
+
+    expect(failed).toMatchObject({
+      content: [{ type: "text", text: "City not found" }],
+      isError: true,
+    });
+    expect(invalid).toMatchObject({ isError: true });
+    expect((invalid.content as Array<{ text: string }>)[0]?.text).toContain(
+      'Invalid input for "weather"',
+    );
+    await client.close();
+  });
+
+  it("wraps non-object input in an input property", async () => {
+    const client = await connect(new EchoAgent({ name: "echo" }), {
+      toolName: "echo_agent",
+    });
+
+    const { tools } = await client.listTools();
+    const result = await client.callTool({
+      name: "echo_agent",
+      arguments: { input: "hi" },
+    });
+
+    expect(tools[0]?.inputSchema).toEqual({
+      type: "object",
+      properties: { input: {} },
+      required: ["input"],
+    });
+    expect(result.content).toEqual([{ type: "text", text: "Echo: hi" }]);
+    await client.close();
+  });
+
+  it("optionally exposes registered tools", async () => {
+    const add = createFunctionTool(
+      ({ a, b }: { a: number; b: number }) => a + b,
+      {
+        name: "add",
+        description: "Add two numbers",
+        schema: z.object({ a: z.number(), b: z.number() }),
+      },
+    );
+    const agent = createWeatherAgent([add]);
+
+    const hidden = await connect(agent);
+    const client = await connect(agent, { exposeTools: true });
+
+    const { tools } = await client.listTools();
+    const result = await client.callTool({
+      name: "add",
+      arguments: { a: 2, b: 3 },
+    });
+
+    expect((await hidden.listTools()).tools.map((tool) => tool.name)).toEqual([
+      "weather",
+    ]);
+    expect(tools.map((tool) => tool.name)).toEqual(["weather", "add"]);
+    expect(result.content).toEqual([{ type: "text", text: "5" }]);
+    await hidden.close();
+    await client.close();
+  });
+  it("runs exposed tools through the agent's hooks and timeouts", async () => {
+    const slow = createFunctionTool(
+      () => new Promise((resolve) => setTimeout(resolve, 1000)),
+      { name: "slow", schema: z.object({}), timeoutMs: 20 },
+    );
+    const remove = createFunctionTool(() => "removed", {
+      name: "remove",
+      schema: z.object({}),
+      requiresApproval: true,
+    });
+    const agent = createWeatherAgent([slow, remove]);
+    const beforeTool = vi.fn();
+    agent.registerHook(HookEvents.BeforeTool, beforeTool);
+    const client = await connect(agent, { exposeTools: true });
+
+    const { tools } = await client.listTools();
+    const result = await client.callTool({ name: "slow", arguments: {} });
+
+    expect(tools.map((tool) => tool.name)).toEqual(["weather", "slow"]);
+    expect(result.isError).toBe(true);
+    expect(beforeTool).toHaveBeenCalledWith(
+      expect.objectContaining({ tool: slow }),
+    );
+    await client.close();
+  });
+});
+
+/**
+ * Status of an MCP initialize request sent with the given headers
+ */
+const postStatus = (url: string, headers: Record<string, string>) =>
+  new Promise<number>((resolve, reject) => {
+    const body = JSON.stringify({
+      jsonrpc: "2.0",
+      id: 1,
+      method: "initialize",
+      params: {
+        protocolVersion: "2025-06-18",
+        capabilities: {},
+        clientInfo: { name: "test-client", version: "0.0.0" },
+      },
+    });
+    const req = request(
+      url,
+      {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Accept: "application/json, text/event-stream",
+          ...headers,
+        },
+      },
+      (res) => {
+        res.resume();
+        resolve(res.statusCode ?? 0);
+      },
+    );
+    req.on("error", reject);
+    req.end(body);
+  });
+
+describe("serveAgentAsMcp", () => {
+  let close: (() => Promise<void>) | undefined;
+
+  afterEach(async () => {
+    await close?.();
+    close = undefined;
+  });
+
+  it("serves the agent over streamable HTTP", async () => {
+    const served = await serveAgentAsMcp(createWeatherAgent(), {
+      transport: "streamable-http",
+      port: 0,
+    });
+    close = served.close;
+    const client = new Client({ name: "test-client", version: "0.0.0" });
+    await client.connect(
+      new StreamableHTTPClientTransport(new URL(served.url!)) as Transport,
+    );
+
+    const result = await client.callTool({
+      name: "weather",
+      arguments: { city: "Lima" },
+    });
+
+    expect(served.url).toMatch(/^http:\/\/127\.0\.0\.1:\d+\/mcp$/);
+    expect(result.structuredContent).toEqual({
+      city: "Lima",
+      forecast: "sunny",
+    });
+    await client.close();
+  });
+
+  it("rejects requests for other hosts or origins by default", async () => {
+    const served = await serveAgentAsMcp(createWeatherAgent(), {
+      transport: "streamable-http",
+      port: 0,
+    });
+    close = served.close;
+    const { port } = new URL(served.url!);
+
+    expect(await postStatus(served.url!, { Host: `localhost:${port}` })).toBe(
+      200,
+    );
+    expect(
+      await postStatus(served.url!, { Host: `evil.example:${port}` }),
+    ).toBe(403);
+    expect(
+      await postStatus(served.url!, { Origin: "http://evil.example" }),
+    ).toBe(403);
+  });
+
+  it("accepts any host when DNS rebinding protection is disabled", async () => {
+    const served = await serveAgentAsMcp(createWeatherAgent(), {
+      transport: "streamable-http",
+      port: 0,
+      dnsRebindingProtection: false,
+    });
+    close = served.close;
+
+    expect(await postStatus(served.url!, { Host: "evil.example" })).toBe(200);
+  });
+
+  it("logs failures to close per-request servers instead of rejecting", async () => {
+    const closeSpy = vi
+      .spyOn(StreamableHTTPServerTransport.prototype, "close")
+      .mockRejectedValue(new Error("socket gone"));
+    const logger = new SilentLogger();
+    vi.spyOn(logger, "warn");
+    try {
+      const served = await serveAgentAsMcp(createWeatherAgent(), {
+        transport: "streamable-http",
+        port: 0,
+        logger,
+      });
+      close = served.close;
+
+      expect(await postStatus(served.url!, {})).toBe(200);
+      await vi.waitFor(() =>
+        expect(logger.warn).toHaveBeenCalledWith(
+          "Failed to close MCP request server",
+          { error: "socket gone" },
+        ),
+      );
+    } finally {
+      closeSpy.mockRestore();
+    }
+  });
+
+  it("requires allowed hosts when serving on all interfaces", async () => {
+    await expect(
+      serveAgentAsMcp(createWeatherAgent(), {
+        transport: "streamable-http",
+        host: "0.0.0.0",
+        port: 0,
+      }),
+    ).rejects.toThrow("Set allowedHosts");
+  });
+});
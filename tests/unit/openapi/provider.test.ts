@@ -0,0 +1,256 @@
+import { createServer, type IncomingMessage, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+
+import { AgentContext } from "@/base/context";
+import type { Tool, ToolExecutionContext } from "@/base/tool";
+import { openApiTools, OpenApiToolProvider } from "@/openapi/provider";
+import type { OpenApiDocument } from "@/openapi/spec";
+
+interface RecordedRequest {
+  method: string;
+  url: string;
+  headers: IncomingMessage["headers"];
+  body: string;
+}
+
+const document: OpenApiDocument = {
+  openapi: "3.0.3",
+  info: { title: "Pets", version: "1.0.0" },
+  servers: [{ url: "http://pets.invalid/v1" }],
+  paths: {
+    "/pets": {
+      get: {
+        operationId: "listPets",
+        summary: "List pets",
+        parameters: [
+          { name: "tag", in: "query", schema: { type: "array" } },
+          { name: "limit", in: "query", schema: { type: "integer" } },
+        ],
+      },
+      post: {
+        operationId: "createPet",
+        requestBody: {
+          required: true,
+          content: {
+            "application/json": { schema: { type: "object" } },
+          },
+        },
+      },
+    },
+    "/pets/{petId}": {
+      get: {
+        operationId: "getPet",
+        parameters: [
+          { name: "petId", in: "path", schema: { type: "string" } },
+          { name: "X-Trace", in: "header", schema: { type: "string" } },
+        ],
+      },
+      delete: { operationId: "deletePet" },
+    },
+  },
+};
+
+const createContext = (): ToolExecutionContext => ({
+  agentContext: new AgentContext({ agentName: "TestAgent" }),
+});
+
+const findTool = (tools: Array<Tool<unknown, unknown>>, name: string) => {
+  const tool = tools.find((candidate) => candidate.name === name);
+  if (!tool) {
+    throw new Error(`Tool ${name} not created`);
+  }
+  return tool;
+};
+
+describe("OpenApiToolProvider", () => {
+  let server: Server;
+  let baseUrl: string;
+  const requests: RecordedRequest[] = [];
+
+  beforeAll(async () => {
+    server = createServer((request, response) => {
+      let body = "";
+      request.on("data", (chunk: Buffer) => {
+        body += chunk.toString();
+      });
+      request.on("end", () => {
+        requests.push({
+          method: request.method ?? "",
+          url: request.url ?? "",
+          headers: request.headers,
+          body,
+        });
+
+        if (request.url?.startsWith("/v1/pets/missing")) {
+          response.writeHead(404, { "Content-Type": "application/json" });
+          response.end(JSON.stringify({ message: "Pet not found" }));
+          return;
+        }
+        if (request.method === "DELETE") {
+          response.writeHead(204);
+          response.end();
+          return;
+        }
+        response.writeHead(200, { "Content-Type": "application/json" });
+        response.end(
+          JSON.stringify({
+            ok: true,
+            ...(body && { received: JSON.parse(body) as unknown }),
+          }),
+        );
+      });
+    });
+    await new Promise<void>((resolve) =>
+      server.listen(0, "127.0.0.1", resolve),
+    );
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`;
+  });
+
+  afterAll(async () => {
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  it("creates one tool per operation with JSON Schema parameters", async () => {
+    const tools = await openApiTools(document, { baseUrl }).setup();
+
+    expect(tools.map((tool) => tool.name)).toEqual([
+      "listPets",
+      "createPet",
+      "getPet",
+      "deletePet",
+    ]);
+    expect(findTool(tools, "listPets")).toMatchObject({
+      description: "List pets",
+      metadata: {
+        provider: "openapi",
+        method: "GET",
+        path: "/pets",
+        parameters: {
+          type: "object",
+          properties: { tag: { type: "array" }, limit: { type: "integer" } },
+        },
+      },
+    });
+    expect(findTool(tools, "deletePet").description).toBe(
+      "DELETE /pets/{petId}",
+    );
+  });
+
+  it("filters operations by id or route", async () => {
+    const tools = await openApiTools(document, {
+      baseUrl,
+      include: ["GET /pets*", "createPet"],
+      exclude: ["getPet"],
+      namePrefix: "pets",
+    }).setup();
+
+    expect(tools.map((tool) => tool.name)).toEqual([
+      "pets:listPets",
+      "pets:createPet",
+    ]);
+  });
+
+  it("sends path, query and header parameters with auth headers", async () => {
+    const tools = await openApiTools(document, {
+      baseUrl,
+      headers: async () => ({ Authorization: "Bearer secret" }),
+    }).setup();
+
+    const listed = await findTool(tools, "listPets").execute(
+      { tag: ["cat", "dog"], limit: 2 },
+      createContext(),
+    );
+    const fetched = await findTool(tools, "getPet").execute(
+      { petId: "a b", "X-Trace": "trace-1" },
+      createContext(),
+    );
+
+    expect(listed).toMatchObject({ success: true, output: { ok: true } });
+    expect(fetched).toMatchObject({
+      success: true,
+      metadata: { operationId: "getPet", status: 200 },
+    });
+    const [listRequest, getRequest] = requests.slice(-2);
+    expect(listRequest).toMatchObject({
+      method: "GET",
+      url: "/v1/pets?tag=cat&tag=dog&limit=2",
+    });
+    expect(listRequest?.headers["authorization"]).toBe("Bearer secret");
+    expect(getRequest?.url).toBe("/v1/pets/a%20b");
+    expect(getRequest?.headers["x-trace"]).toBe("trace-1");
+  });
+
+  it("sends JSON request bodies and handles empty responses", async () => {
+    const tools = await openApiTools(document, { baseUrl }).setup();
+
+    const created = await findTool(tools, "createPet").execute(
+      { body: { name: "Rex" } },
+      createContext(),
+    );
+    const deleted = await findTool(tools, "deletePet").execute(
+      { petId: "1" },
+      createContext(),
+    );
+
+    expect(created).toMatchObject({
+      success: true,
+      output: { ok: true, received: { name: "Rex" } },
+    });
+    expect(requests.at(-2)?.headers["content-type"]).toBe("application/json");
+    expect(deleted).toMatchObject({ success: true, output: null });
+  });
+
+  it("returns failures for error statuses and missing parameters", async () => {
+    const tools = await openApiTools(document, { baseUrl }).setup();
+    const getPet = findTool(tools, "getPet");
+
+    const notFound = await getPet.execute(
+      { petId: "missing" },
+      createContext(),
+    );
+    const missing = await getPet.execute({}, createContext());
+    const traversal = await getPet.execute({ petId: ".." }, createContext());
+
+    expect(notFound).toMatchObject({
+      success: false,
+      metadata: { status: 404 },
+    });
+    expect(notFound.success ? undefined : String(notFound.error)).toBe(
+      'Error: GET /pets/{petId} failed with status 404: {"message":"Pet not found"}',
+    );
+    expect(missing.success ? undefined : String(missing.error)).toBe(
+      'Error: Missing required path parameter "petId"',
+    );
+    expect(traversal.success ? undefined : String(traversal.error)).toBe(
+      'Error: Path parameter "petId" cannot be ".."',
+    );
+  });
+
+  it("uses the document server URL and an injected fetch", async () => {
+    const fetchMock = vi.fn<typeof fetch>(
+      async () =>
+        new Response("pong", { headers: { "Content-Type": "text/plain" } }),
+    );
+    const tools = await new OpenApiToolProvider(document, {
+      fetch: fetchMock,
+      include: ["listPets"],
+    }).setup();
+
+    const result = await tools[0]!.execute({}, createContext());
+
+    expect(result).toMatchObject({ success: true, output: "pong" });
+    expect(fetchMock).toHaveBeenCalledWith(
+      "http://pets.invalid/v1/pets",
+      expect.objectContaining({ method: "GET" }),
+    );
+  });
+
+  it("requires an absolute server URL", async () => {
+    await expect(
+      openApiTools({ ...document, servers: [{ url: "/v1" }] }).setup(),
+    ).rejects.toThrow(
+      'OpenAPI document "Pets" has no absolute server URL; pass the baseUrl option',
+    );
+  });
+});
@@ -0,0 +1,134 @@
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { describe, expect, it } from "vitest";
+
+import {
+  listOpenApiOperations,
+  loadOpenApiDocument,
+  type OpenApiDocument,
+} from "@/openapi/spec";
+
+const document: OpenApiDocument = {
+  openapi: "3.0.3",
+  info: { title: "Pets", version: "1.0.0" },
+  paths: {
+    "/pets/{petId}": {
+      parameters: [{ $ref: "#/components/parameters/PetId" }],
+      get: {
+        operationId: "getPet",
+        summary: "Get a pet",
+        parameters: [
+          { name: "fields", in: "query", schema: { type: "string" } },
+          { name: "fields", in: "header", schema: { type: "string" } },
+        ],
+      },
+      put: {
+        requestBody: {
+          required: true,
+          content: {
+            "application/json": {
+              schema: { $ref: "#/components/schemas/Pet" },
+            },
+          },
+        },
+      },
+    },
+  },
+  components: {
+    parameters: {
+      PetId: {
+        name: "petId",
+        in: "path",
+        description: "Pet identifier",
+        schema: { type: "integer" },
+      },
+    },
+    schemas: {
+      Pet: {
+        type: "object",
+        properties: {
+          name: { type: "string" },
+          parent: { $ref: "#/components/schemas/Pet" },
+        },
+      },
+    },
+  },
+};
+
+describe("listOpenApiOperations", () => {
+  it("builds input schemas from parameters and request bodies", () => {
+    const [getPet, putPet] = listOpenApiOperations(document);
+
+    expect(getPet).toMatchObject({
+      operationId: "getPet",
+      method: "get",
+      path: "/pets/{petId}",
+      summary: "Get a pet",
+      inputSchema: {
+        type: "object",
+        properties: {
+          petId: { type: "integer", description: "Pet identifier" },
+          query_fields: { type: "string" },
+          header_fields: { type: "string" },
+        },
+        required: ["petId"],
+      },
+    });
+    expect(getPet?.arguments).toContainEqual({
+      argument: "header_fields",
+      name: "fields",
+      in: "header",
+      required: false,
+    });
+
+    expect(putPet).toMatchObject({
+      operationId: "put_pets_petId",
+      bodyContentType: "application/json",
+      inputSchema: {
+        properties: {
+          body: {
+            type: "object",
+            properties: { name: { type: "string" }, parent: {} },
+          },
+        },
+        required: ["petId", "body"],
+      },
+    });
+  });
+
+  it("rejects remote references", () => {
+    expect(() =>
+      listOpenApiOperations({
+        openapi: "3.1.0",
+        paths: {
+          "/pets": {
+            get: { parameters: [{ $ref: "other.json#/Limit" }] },
+          },
+        },
+      }),
+    ).toThrow('Only local $ref values are supported, got "other.json#/Limit"');
+  });
+});
+
+describe("loadOpenApiDocument", () => {
+  it("reads JSON documents from disk", async () => {
+    const directory = await mkdtemp(path.join(tmpdir(), "opper-openapi-"));
+    try {
+      const file = path.join(directory, "pets.json");
+      await writeFile(file, JSON.stringify(document), "utf8");
+
+      await expect(loadOpenApiDocument(file)).resolves.toEqual(document);
+    } finally {
+      await rm(directory, { recursive: true, force: true });
+    }
+  });
+
+  it("rejects documents that are not OpenAPI 3.x", async () => {
+    await expect(
+      loadOpenApiDocument({ openapi: "2.0" } as OpenApiDocument),
+    ).rejects.toThrow(
+      'Unsupported OpenAPI document: expected an "openapi" version 3.x, got "2.0"',
+    );
+  });
+});
@@ -0,0 +1,167 @@
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { z } from "zod";
+
+import { ToolResultFactory, type Tool } from "@/base/tool";
+import { Agent } from "@/core/agent";
+import {
+  CassetteMismatchError,
+  RecordingOpperClient,
+  ReplayOpperClient,
+} from "@/opper/cassette";
+import { ScriptedLlm } from "@/testing";
+
+const lookupTool: Tool<{ id: string }, string> = {
+  name: "lookup",
+  schema: z.object({ id: z.string() }),
+  execute: async (input) =>
+    ToolResultFactory.success("lookup", `record ${input.id}`),
+};
+
+const scriptRun = () =>
+  new ScriptedLlm({ usage: { inputTokens: 7, outputTokens: 3 } })
+    .think({
+      reasoning: "Fetch the record",
+      toolCalls: [{ toolName: "lookup", arguments: { id: "42" } }],
+    })
+    .think({ reasoning: "Done" })
+    .finalResult("The record is 42");
+
+describe("Cassettes", () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(path.join(tmpdir(), "cassette-"));
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it("replays a recorded agent run offline", async () => {
+    const cassettePath = path.join(directory, "lookup.json");
+    const recorder = new RecordingOpperClient(scriptRun());
+    const recordingAgent = new Agent({
+      name: "Lookup",
+      tools: [lookupTool],
+      llm: recorder,
+      tracer: recorder,
+    });
+    const recorded = await recordingAgent.run("find 42");
+    await recorder.save(cassettePath);
+
+    expect(
+      recorder.toCassette().entries.map((entry) => entry.operation),
+    ).toEqual(expect.arrayContaining(["call", "createSpan", "updateSpan"]));
+
+    const replay = await ReplayOpperClient.fromFile(cassettePath);
+    const replayAgent = new Agent({
+      name: "Lookup",
+      tools: [lookupTool],
+      llm: replay,
+      tracer: replay,
+    });
+    const replayed = await replayAgent.run("find 42");
+
+    expect(replayed.result).toBe(recorded.result);
+    expect(replayed.usage).toEqual(recorded.usage);
+    expect(replay.remaining).toBe(0);
+  });
+
+  it("replays streamed chunks in recorded order", async () => {
+    const recorder = new RecordingOpperClient(
+      new ScriptedLlm({ chunkSize: 3 })
+        .think({ reasoning: "Streaming" })
+        .finalResult("Streamed answer"),
+    );
+    const options = { name: "Streamer", enableStreaming: true };
+    const recorded = await new Agent({
+      ...options,
+      llm: recorder,
+      tracer: recorder,
+    }).process("go");
+
+    const cassette = recorder.toCassette();
+    const streamed = cassette.entries.filter(
+      (entry) => entry.operation === "stream",
+    );
+    expect(streamed).toHaveLength(2);
+
+    const replay = new ReplayOpperClient(
+      JSON.parse(JSON.stringify(cassette)) as typeof cassette,
+    );
+    const deltas: unknown[] = [];
+    const agent = new Agent({ ...options, llm: replay, tracer: replay });
+    agent.on("stream:chunk", ({ callType, chunkData }) => {
+      if (callType === "final_result") {
+        deltas.push(chunkData.delta);
+      }
+    });
+
+    await expect(agent.process("go")).resolves.toBe(recorded);
+    expect(deltas).toEqual(["Str", "eam", "ed ", "ans", "wer"]);
+  });
+
+  it("records streams that are abandoned part-way", async () => {
+    const request = { name: "greet", instructions: "Say hi", input: "A" };
+    const recorder = new RecordingOpperClient(
+      new ScriptedLlm({ chunkSize: 2 }).on("greet", { message: "hello" }),
+    );
+    const recorded: unknown[] = [];
+    for await (const event of (await recorder.stream(request)).result) {
+      recorded.push(event);
+      break;
+    }
+    const [entry] = recorder.toCassette().entries;
+
+    expect(entry).toMatchObject({
+      operation: "stream",
+      events: recorded,
+      error: "Stream was not consumed to the end",
+    });
+
+    const replay = new ReplayOpperClient(recorder.toCassette());
+    const replayed: unknown[] = [];
+    await expect(
+      (async () => {
+        for await (const event of (await replay.stream(request)).result) {
+          replayed.push(event);
+        }
+      })(),
+    ).rejects.toThrow("Stream was not consumed to the end");
+    expect(replayed).toEqual(recorded);
+  });
+
+  it("fails loudly on requests that were never recorded", async () => {
+    const recorder = new RecordingOpperClient(
+      new ScriptedLlm().on("greet", { message: "hello" }),
+    );
+    await recorder.call({ name: "greet", instructions: "Say hi", input: "A" });
+
+    const replay = new ReplayOpperClient(recorder.toCassette());
+
+    await expect(
+      replay.call({ name: "greet", instructions: "Say hi", input: "B" }),
+    ).rejects.toBeInstanceOf(CassetteMismatchError);
+    await expect(
+      replay.call({ name: "greet", instructions: "Say hi", input: "A" }),
+    ).resolves.toMatchObject({ message: "hello" });
+  });
+
+  it("replays recorded failures", async () => {
+    const recorder = new RecordingOpperClient(
+      new ScriptedLlm().on("flaky", { error: "Rate limit 429" }),
+    );
+    await expect(
+      recorder.call({ name: "flaky", instructions: "", input: null }),
+    ).rejects.toThrow("Rate limit 429");
+
+    const replay = new ReplayOpperClient(recorder.toCassette());
+
+    await expect(
+      replay.call({ name: "flaky", instructions: "", input: null }),
+    ).rejects.toThrow("Rate limit 429");
+  });
+});
@@ -14,6 +14,8 @@ const mockCall = vi.fn();
 const mockStream = vi.fn();
 const mockSpansCreate = vi.fn();
 const mockSpansUpdate = vi.fn();
+const mockSpansGet = vi.fn();
+const mockTracesGet = vi.fn();
 const mockOpperConstructor = vi.fn();
 
 // Mock the opperai module
@@ -27,6 +29,10 @@ vi.mock("opperai", () => {
         spans: {
           create: mockSpansCreate,
           update: mockSpansUpdate,
+          get: mockSpansGet,
+        },
+        traces: {
+          get: mockTracesGet,
         },
       };
     }),
@@ -409,6 +415,35 @@ describe("OpperClient", () => {
     });
   });
 
+  describe("getStreamUsage", () => {
+    it("reads the total tokens of the span from its trace", async () => {
+      mockSpansGet.mockResolvedValue({ id: "span-1", traceId: "trace-1" });
+      mockTracesGet.mockResolvedValue({
+        spans: [
+          { id: "span-0", data: { totalTokens: 5 } },
+          { id: "span-1", data: { total_tokens: 42 } },
+        ],
+      });
+
+      const usage = await client.getStreamUsage("span-1");
+
+      expect(mockTracesGet).toHaveBeenCalledWith("trace-1");
+      expect(usage).toEqual({
+        inputTokens: 0,
+        outputTokens: 0,
+        totalTokens: 42,
+        cost: { generation: 0, platform: 0, total: 0 },
+      });
+    });
+
+    it("returns null when the trace has no usage for the span", async () => {
+      mockSpansGet.mockResolvedValue({ id: "span-1" });
+
+      expect(await client.getStreamUsage("span-1")).toBeNull();
+      expect(mockTracesGet).not.toHaveBeenCalled();
+    });
+  });
+
   describe("getClient", () => {
     it("returns underlying Opper client", () => {
       const underlyingClient = client.getClient();
@@ -0,0 +1,119 @@
+import { describe, expect, it } from "vitest";
+import { z } from "zod";
+
+import { HookEvents } from "@/base/hooks";
+import { ToolResultFactory, type Tool } from "@/base/tool";
+import { Agent } from "@/core/agent";
+import { ScriptedLlm } from "@/testing";
+
+const searchTool: Tool<{ query: string }, string[]> = {
+  name: "search",
+  schema: z.object({ query: z.string() }),
+  execute: async (input) =>
+    ToolResultFactory.success("search", [`result for ${input.query}`]),
+};
+
+describe("ScriptedLlm", () => {
+  it("drives an agent run and records every request and span", async () => {
+    const llm = new ScriptedLlm({ usage: { inputTokens: 10, outputTokens: 5 } })
+      .think({
+        reasoning: "Search first",
+        toolCalls: [{ toolName: "search", arguments: { query: "docs" } }],
+      })
+      .think({ reasoning: "Done" })
+      .finalResult("Found the docs");
+
+    const agent = new Agent({
+      name: "Scripted Agent",
+      tools: [searchTool],
+      llm,
+      tracer: llm,
+    });
+
+    const { result, usage } = await agent.run("find docs");
+
+    expect(result).toBe("Found the docs");
+    expect(usage).toMatchObject({ requests: 3, totalTokens: 45 });
+    expect(llm.requests.map((request) => request.kind)).toEqual([
+      "think",
+      "think",
+      "final_result",
+    ]);
+    expect(llm.requests[0]).toMatchObject({
+      name: "think_scripted_agent",
+      hasOutputSchema: true,
+      streamed: false,
+    });
+    expect(llm.requestsOf("final_result")[0]?.hasOutputSchema).toBe(false);
+    expect(llm.spans.map((span) => span.name)).toEqual(
+      expect.arrayContaining(["Scripted Agent_execution", "tool_search"]),
+    );
+    llm.assertExhausted();
+  });
+
+  it("returns structured final results for agents with an output schema", async () => {
+    const llm = new ScriptedLlm({
+      decisions: [{ reasoning: "Nothing to do" }],
+      finalResults: [{ answer: "42" }],
+    });
+
+    const agent = new Agent<string, { answer: string }>({
+      name: "Typed",
+      outputSchema: z.object({ answer: z.string() }),
+      llm,
+    });
+
+    await expect(agent.process("question")).resolves.toEqual({
+      answer: "42",
+    });
+  });
+
+  it("simulates streaming chunks from the scripted responses", async () => {
+    const llm = new ScriptedLlm({ chunkSize: 4 })
+      .think({ reasoning: "Streaming works" })
+      .finalResult("Streamed answer");
+
+    const agent = new Agent({ name: "Streamer", llm, enableStreaming: true });
+    const reasoningChunks: unknown[] = [];
+    agent.on(HookEvents.StreamChunk, ({ callType, chunkData }) => {
+      if (callType === "think" && chunkData.jsonPath === "reasoning") {
+        reasoningChunks.push(chunkData.delta);
+      }
+    });
+
+    const result = await agent.process("go");
+
+    expect(result).toBe("Streamed answer");
+    expect(reasoningChunks).toEqual(["Stre", "amin", "g wo", "rks"]);
+    expect(llm.requests.every((request) => request.streamed)).toBe(true);
+  });
+
+  it("matches other calls by name and can fail them", async () => {
+    const llm = new ScriptedLlm()
+      .on(/^summarize_history_/, { jsonPayload: { summary: "Earlier work" } })
+      .on("flaky_call", { error: "Rate limit 429" });
+
+    await expect(
+      llm.call({
+        name: "summarize_history_agent",
+        instructions: "",
+        input: {},
+      }),
+    ).resolves.toMatchObject({ jsonPayload: { summary: "Earlier work" } });
+    await expect(
+      llm.call({ name: "flaky_call", instructions: "", input: {} }),
+    ).rejects.toThrow("Rate limit 429");
+    await expect(
+      llm.call({ name: "think_agent", instructions: "", input: {} }),
+    ).rejects.toThrow(
+      'ScriptedLlm has no scripted response for call "think_agent"',
+    );
+  });
+
+  it("reports unused responses", () => {
+    const llm = new ScriptedLlm().think({ reasoning: "never used" });
+
+    expect(llm.pending).toBe(1);
+    expect(() => llm.assertExhausted()).toThrow("1 unused scripted response");
+  });
+});
@@ -0,0 +1,269 @@
+import {
+  mkdir,
+  mkdtemp,
+  readFile,
+  rm,
+  symlink,
+  writeFile,
+} from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+import { AgentContext } from "@/base/context";
+import type { Tool, ToolExecutionContext, ToolResult } from "@/base/tool";
+import { fileSystemTools, globToRegExp } from "@/toolkits/filesystem";
+
+const createContext = (): ToolExecutionContext => ({
+  agentContext: new AgentContext({ agentName: "TestAgent" }),
+});
+
+const errorOf = (result: ToolResult<unknown>): string | undefined =>
+  result.success ? undefined : String(result.error);
+
+describe("fileSystemTools", () => {
+  let base: string;
+  let root: string;
+  let tools: Array<Tool<unknown, unknown>>;
+
+  const run = (name: string, input: unknown) => {
+    const tool = tools.find((candidate) => candidate.name === name);
+    if (!tool) {
+      throw new Error(`Tool ${name} not created`);
+    }
+    // Defaults are applied by schema parsing, as the agent does before executing
+    return tool.execute(tool.schema!.parse(input), createContext());
+  };
+
+  beforeEach(async () => {
+    base = await mkdtemp(path.join(tmpdir(), "opper-fs-tools-"));
+    root = path.join(base, "workspace");
+    await mkdir(path.join(root, "src", "lib"), { recursive: true });
+    await writeFile(path.join(root, "README.md"), "# Demo\nHello world\n");
+    await writeFile(
+      path.join(root, "src", "index.ts"),
+      'export const greeting = "hello";\n',
+    );
+    await writeFile(
+      path.join(root, "src", "lib", "util.ts"),
+      "export const add = (a: number, b: number) => a + b;\n",
+    );
+    await writeFile(path.join(base, "secret.txt"), "top secret");
+    tools = fileSystemTools({ root, maxFileBytes: 100 });
+  });
+
+  afterEach(async () => {
+    await rm(base, { recursive: true, force: true });
+  });
+
+  it("creates write tools only when not read-only", () => {
+    expect(tools.map((tool) => tool.name)).toEqual([
+      "fs_list",
+      "fs_read",
+      "fs_search",
+      "fs_write",
+      "fs_patch",
+    ]);
+    expect(
+      fileSystemTools({ root, readOnly: true }).map((tool) => tool.name),
+    ).toEqual(["fs_list", "fs_read", "fs_search"]);
+    for (const tool of tools) {
+      expect(tool.schema).toBeDefined();
+      expect(tool.outputSchema).toBeDefined();
+    }
+  });
+
+  it("lists directories", async () => {
+    const shallow = await run("fs_list", {});
+    const recursive = await run("fs_list", { path: "src", recursive: true });
+
+    expect(shallow).toMatchObject({
+      success: true,
+      output: {
+        entries: [
+          { path: "README.md", type: "file", size: 19 },
+          { path: "src", type: "directory", size: 0 },
+        ],
+        truncated: false,
+      },
+    });
+    expect(
+      recursive.success
+        ? (
+            recursive.output as { entries: Array<{ path: string }> }
+          ).entries.map((entry) => entry.path)
+        : [],
+    ).toEqual(["src/index.ts", "src/lib", "src/lib/util.ts"]);
+  });
+
+  it("matches queries literally unless regex search is allowed", async () => {
+    const literal = await run("fs_search", {
+      query: "(a: number",
+      regex: true,
+    });
+
+    expect(literal).toMatchObject({
+      output: { matches: [{ path: "src/lib/util.ts", line: 1 }] },
+    });
+    expect(
+      tools.find((tool) => tool.name === "fs_search")?.schema?.safeParse({})
+        .data,
+    ).not.toHaveProperty("regex");
+  });
+
+  it("reads files and line ranges", async () => {
+    const whole = await run("fs_read", { path: "README.md" });
+    const line = await run("fs_read", {
+      path: "README.md",
+      startLine: 2,
+      endLine: 2,
+    });
+
+    expect(whole).toMatchObject({
+      output: { path: "README.md", content: "# Demo\nHello world\n", size: 19 },
+    });
+    expect(line).toMatchObject({
+      output: { content: "Hello world", totalLines: 3 },
+    });
+  });
+
+  it("searches by glob and content", async () => {
+    const files = await run("fs_search", { pattern: "**/*.ts" });
+    tools = fileSystemTools({
+      root,
+      maxFileBytes: 100,
+      allowRegexSearch: true,
+    });
+    const grep = await run("fs_search", {
+      pattern: "src/**",
+      query: "export const \\w+ = \\(",
+      regex: true,
+    });
+
+    expect(files).toMatchObject({
+      output: {
+        matches: [{ path: "src/index.ts" }, { path: "src/lib/util.ts" }],
+        truncated: false,
+      },
+    });
+    expect(grep).toMatchObject({
+      output: {
+        matches: [
+          {
+            path: "src/lib/util.ts",
+            line: 1,
+            text: "export const add = (a: number, b: number) => a + b;",
+          },
+        ],
+      },
+    });
+  });
+
+  it("writes and patches files", async () => {
+    const written = await run("fs_write", {
+      path: "notes/todo.md",
+      content: "- one\n- two\n",
+    });
+    const patched = await run("fs_patch", {
+      path: "notes/todo.md",
+      edits: [{ oldText: "- two", newText: "- three" }],
+    });
+    const ambiguous = await run("fs_patch", {
+      path: "notes/todo.md",
+      edits: [{ oldText: "- ", newText: "* " }],
+    });
+
+    expect(written).toMatchObject({
+      output: { path: "notes/todo.md", bytesWritten: 12, created: true },
+    });
+    expect(patched).toMatchObject({ output: { replacements: 1 } });
+    expect(errorOf(ambiguous)).toBe(
+      'Error: Edit 1: oldText occurs more than once in "notes/todo.md"; include more context',
+    );
+    await expect(
+      readFile(path.join(root, "notes", "todo.md"), "utf8"),
+    ).resolves.toBe("- one\n- three\n");
+  });
+
+  it("rejects paths outside the root, including through symlinks", async () => {
+    await symlink(base, path.join(root, "escape"));
+
+    const traversal = await run("fs_read", { path: "../secret.txt" });
+    const absolute = await run("fs_write", {
+      path: path.join(base, "pwned.txt"),
+      content: "x",
+    });
+    const linked = await run("fs_read", { path: "escape/secret.txt" });
+
+    expect(errorOf(traversal)).toBe(
+      'Error: Path "../secret.txt" is outside the root directory',
+    );
+    expect(errorOf(absolute)).toContain("is outside the root directory");
+    expect(errorOf(linked)).toBe(
+      'Error: Path "escape/secret.txt" is outside the root directory',
+    );
+  });
+
+  it("rejects dangling symlinks pointing outside the root", async () => {
+    await mkdir(path.join(base, "outside"));
+    await symlink(
+      path.join(base, "outside", "pwned.txt"),
+      path.join(root, "link.txt"),
+    );
+    await symlink("../outside", path.join(root, "dir-link"));
+
+    const written = await run("fs_write", { path: "link.txt", content: "x" });
+    const nested = await run("fs_write", {
+      path: "dir-link/new/file.txt",
+      content: "x",
+    });
+
+    expect(errorOf(written)).toBe(
+      'Error: Path "link.txt" is outside the root directory',
+    );
+    expect(errorOf(nested)).toBe(
+      'Error: Path "dir-link/new/file.txt" is outside the root directory',
+    );
+    await expect(
+      readFile(path.join(base, "outside", "pwned.txt")),
+    ).rejects.toThrow();
+  });
+
+  it("follows symlinks that stay inside the root", async () => {
+    await symlink("src", path.join(root, "source"));
+    await symlink("missing.txt", path.join(root, "pending.txt"));
+
+    const read = await run("fs_read", { path: "source/index.ts" });
+    const written = await run("fs_write", {
+      path: "pending.txt",
+      content: "now here",
+    });
+
+    expect(read).toMatchObject({ success: true });
+    expect(written).toMatchObject({ success: true });
+    await expect(
+      readFile(path.join(root, "missing.txt"), "utf8"),
+    ).resolves.toBe("now here");
+  });
+
+  it("enforces the file size limit", async () => {
+    const result = await run("fs_write", {
+      path: "big.txt",
+      content: "x".repeat(101),
+    });
+
+    expect(errorOf(result)).toBe(
+      'Error: File "big.txt" is 101 bytes, over the 100 byte limit',
+    );
+  });
+});
+
+describe("globToRegExp", () => {
+  it("matches within and across directories", () => {
+    expect(globToRegExp("*.ts").test("index.ts")).toBe(true);
+    expect(globToRegExp("*.ts").test("src/index.ts")).toBe(false);
+    expect(globToRegExp("**/*.ts").test("index.ts")).toBe(true);
+    expect(globToRegExp("src/**/*.ts").test("src/a/b/c.ts")).toBe(true);
+    expect(globToRegExp("file?.md").test("file1.md")).toBe(true);
+  });
+});
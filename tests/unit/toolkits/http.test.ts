@@ -0,0 +1,268 @@
+import { createServer, type IncomingMessage, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+
+import { AgentContext } from "@/base/context";
+import type { Tool, ToolExecutionContext } from "@/base/tool";
+import { htmlToText, httpTools, isHostAllowed } from "@/toolkits/http";
+
+const createContext = (): ToolExecutionContext => ({
+  agentContext: new AgentContext({ agentName: "TestAgent" }),
+});
+
+const findTool = (tools: Array<Tool<unknown, unknown>>, name: string) => {
+  const tool = tools.find((candidate) => candidate.name === name);
+  if (!tool) {
+    throw new Error(`Tool ${name} not created`);
+  }
+  return tool;
+};
+
+describe("httpTools", () => {
+  let server: Server;
+  let origin: string;
+  let lastRequest: { request: IncomingMessage; body: string } | undefined;
+
+  beforeAll(async () => {
+    server = createServer((request, response) => {
+      let body = "";
+      request.on("data", (chunk: Buffer) => {
+        body += chunk.toString();
+      });
+      request.on("end", () => {
+        lastRequest = { request, body };
+
+        switch (request.url) {
+          case "/json":
+            response.writeHead(200, { "Content-Type": "application/json" });
+            response.end(JSON.stringify({ items: [1, 2] }));
+            return;
+          case "/page":
+            response.writeHead(200, { "Content-Type": "text/html" });
+            response.end(
+              "<html><head><style>p{}</style></head><body><h1>Title</h1><p>Fish &amp; chips</p><script>alert(1)</script></body></html>",
+            );
+            return;
+          case "/large":
+            response.writeHead(200, { "Content-Type": "text/plain" });
+            response.end("x".repeat(100));
+            return;
+          case "/redirect":
+            response.writeHead(302, { Location: "/json" });
+            response.end();
+            return;
+          case "/escape":
+            response.writeHead(302, { Location: "http://example.com/" });
+            response.end();
+            return;
+          case "/cross-origin":
+            response.writeHead(307, {
+              Location: `http://localhost:${(server.address() as AddressInfo).port}/echo`,
+            });
+            response.end();
+            return;
+          default:
+            response.writeHead(200, { "Content-Type": "application/json" });
+            response.end(body || "null");
+        }
+      });
+    });
+    await new Promise<void>((resolve) =>
+      server.listen(0, "127.0.0.1", resolve),
+    );
+    origin = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  it("creates tools for the allowed methods", () => {
+    expect(
+      httpTools({ allowedHosts: ["127.0.0.1"] }).map((tool) => tool.name),
+    ).toEqual(["http_get", "http_post"]);
+    expect(
+      httpTools({ allowedHosts: ["127.0.0.1"], allowedMethods: ["GET"] }).map(
+        (tool) => tool.name,
+      ),
+    ).toEqual(["http_get"]);
+  });
+
+  it("parses JSON and converts HTML to text", async () => {
+    const get = findTool(
+      httpTools({ allowedHosts: ["127.0.0.1"] }),
+      "http_get",
+    );
+
+    const json = await get.execute({ url: `${origin}/json` }, createContext());
+    const page = await get.execute({ url: `${origin}/page` }, createContext());
+
+    expect(json).toMatchObject({
+      success: true,
+      output: {
+        status: 200,
+        ok: true,
+        contentType: "application/json",
+        body: { items: [1, 2] },
+        truncated: false,
+      },
+    });
+    expect(page).toMatchObject({
+      success: true,
+      output: { body: "Title\nFish & chips" },
+    });
+  });
+
+  it("caps the response body", async () => {
+    const get = findTool(
+      httpTools({ allowedHosts: ["127.0.0.1"], maxBodyBytes: 10 }),
+      "http_get",
+    );
+
+    const result = await get.execute(
+      { url: `${origin}/large` },
+      createContext(),
+    );
+
+    expect(result).toMatchObject({
+      success: true,
+      output: { body: "x".repeat(10), truncated: true },
+    });
+  });
+
+  it("sends POST bodies with configured headers", async () => {
+    const post = findTool(
+      httpTools({
+        allowedHosts: ["127.0.0.1"],
+        headers: { Authorization: "Bearer secret" },
+      }),
+      "http_post",
+    );
+
+    const result = await post.execute(
+      {
+        url: `${origin}/echo`,
+        body: { name: "Rex" },
+        headers: {
+          authorization: "Bearer forged",
+          "content-type": "application/json; charset=utf-8",
+        },
+      },
+      createContext(),
+    );
+
+    expect(result).toMatchObject({
+      success: true,
+      output: { body: { name: "Rex" } },
+    });
+    expect(lastRequest?.request.method).toBe("POST");
+    expect(lastRequest?.request.headers["authorization"]).toBe("Bearer secret");
+    expect(lastRequest?.request.headers["content-type"]).toBe(
+      "application/json; charset=utf-8",
+    );
+  });
+
+  it("rejects hosts outside the allowlist, including redirect targets", async () => {
+    const get = findTool(
+      httpTools({ allowedHosts: ["127.0.0.1"] }),
+      "http_get",
+    );
+
+    const followed = await get.execute(
+      { url: `${origin}/redirect` },
+      createContext(),
+    );
+    const blocked = await get.execute(
+      { url: "http://example.com/" },
+      createContext(),
+    );
+    const escaped = await get.execute(
+      { url: `${origin}/escape` },
+      createContext(),
+    );
+
+    expect(followed).toMatchObject({
+      success: true,
+      output: { url: `${origin}/json`, body: { items: [1, 2] } },
+    });
+    for (const result of [blocked, escaped]) {
+      expect(result.success ? undefined : String(result.error)).toBe(
+        'Error: Host "example.com" is not allowed. Allowed hosts: 127.0.0.1',
+      );
+    }
+  });
+
+  it("drops configured and credential headers on cross-origin redirects", async () => {
+    const post = findTool(
+      httpTools({
+        allowedHosts: ["127.0.0.1", "localhost"],
+        headers: { "X-Api-Key": "secret" },
+      }),
+      "http_post",
+    );
+
+    const result = await post.execute(
+      {
+        url: `${origin}/cross-origin`,
+        body: { name: "Rex" },
+        headers: { Cookie: "session=1", Accept: "application/json" },
+      },
+      createContext(),
+    );
+
+    expect(result).toMatchObject({
+      success: true,
+      output: { body: { name: "Rex" } },
+    });
+    expect(lastRequest?.request.headers.host).toMatch(/^localhost:/);
+    expect(lastRequest?.request.headers["x-api-key"]).toBeUndefined();
+    expect(lastRequest?.request.headers["cookie"]).toBeUndefined();
+    expect(lastRequest?.request.headers["accept"]).toBe("application/json");
+  });
+
+  it("switches to GET without a body on 302 after a POST", async () => {
+    const post = findTool(
+      httpTools({
+        allowedHosts: ["127.0.0.1"],
+        headers: { Authorization: "Bearer secret" },
+      }),
+      "http_post",
+    );
+
+    const result = await post.execute(
+      { url: `${origin}/redirect`, body: { name: "Rex" } },
+      createContext(),
+    );
+
+    expect(result).toMatchObject({
+      success: true,
+      output: { url: `${origin}/json`, body: { items: [1, 2] } },
+    });
+    expect(lastRequest?.request.method).toBe("GET");
+    expect(lastRequest?.body).toBe("");
+    expect(lastRequest?.request.headers["content-type"]).toBeUndefined();
+    expect(lastRequest?.request.headers["authorization"]).toBe("Bearer secret");
+  });
+});
+
+describe("isHostAllowed", () => {
+  it("matches exact hosts and subdomain wildcards", () => {
+    const allowed = ["api.example.com", "*.internal.dev"];
+
+    expect(isHostAllowed(allowed, "API.example.com")).toBe(true);
+    expect(isHostAllowed(allowed, "docs.internal.dev")).toBe(true);
+    expect(isHostAllowed(allowed, "internal.dev")).toBe(false);
+    expect(isHostAllowed(allowed, "example.com")).toBe(false);
+    expect(isHostAllowed(allowed, "evilinternal.dev")).toBe(false);
+  });
+});
+
+describe("htmlToText", () => {
+  it("keeps block structure and decodes entities", () => {
+    expect(
+      htmlToText(
+        "<ul><li>One&nbsp;&lt;1&gt;</li><li>Two &#39;2&#x27;</li></ul><!-- note -->",
+      ),
+    ).toBe("One <1>\nTwo '2'");
+  });
+});
@@ -0,0 +1,159 @@
+import { readFileSync } from "node:fs";
+import { describe, expect, it } from "vitest";
+
+import { AgentContext } from "@/base/context";
+import type { ToolExecutionContext, ToolResult } from "@/base/tool";
+import { shellTool, type ShellOutput } from "@/toolkits/shell";
+
+const node = process.execPath;
+
+const createContext = (signal?: AbortSignal): ToolExecutionContext => ({
+  agentContext: new AgentContext({ agentName: "TestAgent" }),
+  ...(signal && { signal }),
+});
+
+const outputOf = (result: ToolResult<unknown>): ShellOutput => {
+  if (!result.success) {
+    throw new Error(`Expected success, got ${String(result.error)}`);
+  }
+  return result.output as ShellOutput;
+};
+
+/**
+ * Whether a process is alive (zombies count as gone)
+ */
+const isRunning = (pid: number): boolean => {
+  try {
+    process.kill(pid, 0);
+  } catch {
+    return false;
+  }
+  try {
+    return !/^\d+ \(.*\) Z/.test(readFileSync(`/proc/${pid}/stat`, "utf8"));
+  } catch {
+    return true;
+  }
+};
+
+// Starts a long-running grandchild, prints its pid and waits
+const spawnGrandchildScript = `
+const child = require("child_process").spawn(process.execPath, ["-e", "setInterval(() => {}, 1000)"], { stdio: "ignore" });
+console.log(child.pid);
+setInterval(() => {}, 1000);
+`;
+
+describe("shellTool", () => {
+  it("captures stdout, stderr and the exit code", async () => {
+    const tool = shellTool({
+      allowedCommands: [node],
+      env: { GREETING: "hello" },
+    });
+
+    const result = await tool.execute(
+      {
+        command: node,
+        args: [
+          "-e",
+          "console.log(process.env.GREETING + ' ' + process.argv[1]); console.error('oops'); process.exit(3)",
+          "$HOME; rm -rf /",
+        ],
+      },
+      createContext(),
+    );
+
+    expect(outputOf(result)).toMatchObject({
+      exitCode: 3,
+      signal: null,
+      stdout: "hello $HOME; rm -rf /\n",
+      stderr: "oops\n",
+      timedOut: false,
+      truncated: false,
+    });
+  });
+
+  it("hides the host environment unless inheritEnv is set", async () => {
+    process.env["SHELL_TOOL_SECRET"] = "hunter2";
+    try {
+      const script =
+        "console.log(JSON.stringify([process.env.SHELL_TOOL_SECRET ?? null, Boolean(process.env.PATH)]))";
+      const run = (inheritEnv: boolean) =>
+        shellTool({ allowedCommands: [node], inheritEnv }).execute(
+          { command: node, args: ["-e", script] },
+          createContext(),
+        );
+
+      expect(JSON.parse(outputOf(await run(false)).stdout)).toEqual([
+        null,
+        true,
+      ]);
+      expect(JSON.parse(outputOf(await run(true)).stdout)).toEqual([
+        "hunter2",
+        true,
+      ]);
+    } finally {
+      delete process.env["SHELL_TOOL_SECRET"];
+    }
+  });
+
+  it("rejects commands that are not on the allowlist", async () => {
+    const tool = shellTool({ allowedCommands: ["git"] });
+
+    const result = await tool.execute(
+      { command: "rm", args: ["-rf", "/"] },
+      createContext(),
+    );
+
+    expect(result.success ? undefined : String(result.error)).toBe(
+      'Error: Command "rm" is not allowed. Allowed commands: git',
+    );
+  });
+
+  it("caps the captured output", async () => {
+    const tool = shellTool({ allowedCommands: [node], maxOutputBytes: 5 });
+
+    const result = await tool.execute(
+      { command: node, args: ["-e", "process.stdout.write('x'.repeat(50))"] },
+      createContext(),
+    );
+
+    expect(outputOf(result)).toMatchObject({
+      exitCode: 0,
+      stdout: "xxxxx",
+      truncated: true,
+    });
+  });
+
+  it("kills the process tree on timeout", async () => {
+    const tool = shellTool({ allowedCommands: [node], timeoutMs: 1000 });
+
+    const output = outputOf(
+      await tool.execute(
+        { command: node, args: ["-e", spawnGrandchildScript] },
+        createContext(),
+      ),
+    );
+    await new Promise((resolve) => setTimeout(resolve, 100));
+
+    expect(output).toMatchObject({
+      exitCode: null,
+      signal: "SIGKILL",
+      timedOut: true,
+    });
+    expect(isRunning(Number(output.stdout.trim()))).toBe(false);
+  });
+
+  it("kills the process tree when the signal aborts", async () => {
+    const tool = shellTool({ allowedCommands: [node] });
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(), 500);
+
+    const result = await tool.execute(
+      { command: node, args: ["-e", "setInterval(() => {}, 1000)"] },
+      createContext(controller.signal),
+    );
+
+    expect(result.success ? undefined : String(result.error)).toBe(
+      `Error: Command "${node}" was aborted`,
+    );
+  });
+});
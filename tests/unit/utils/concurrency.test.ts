@@ -0,0 +1,75 @@
+import { describe, expect, it } from "vitest";
+
+import { matchesToolPattern, Semaphore } from "@/utils/concurrency";
+
+describe("Semaphore", () => {
+  it("runs at most `limit` tasks at a time, in arrival order", async () => {
+    const semaphore = new Semaphore(2);
+    const started: number[] = [];
+    let active = 0;
+    let peak = 0;
+
+    await Promise.all(
+      [0, 1, 2, 3, 4].map((index) =>
+        semaphore.run(async () => {
+          started.push(index);
+          active += 1;
+          peak = Math.max(peak, active);
+          await new Promise((resolve) => setTimeout(resolve, 5));
+          active -= 1;
+        }),
+      ),
+    );
+
+    expect(peak).toBe(2);
+    expect(started).toEqual([0, 1, 2, 3, 4]);
+  });
+
+  it("releases the slot when a task throws", async () => {
+    const semaphore = new Semaphore(1);
+
+    await expect(
+      semaphore.run(async () => {
+        throw new Error("boom");
+      }),
+    ).rejects.toThrow("boom");
+    await expect(semaphore.run(async () => "next")).resolves.toBe("next");
+  });
+
+  it("stops waiting for a slot when the signal aborts", async () => {
+    const semaphore = new Semaphore(1);
+    const release = await semaphore.acquire();
+    const controller = new AbortController();
+
+    const waiting = semaphore.acquire(controller.signal);
+    const next = semaphore.acquire();
+    controller.abort();
+
+    await expect(waiting).rejects.toThrow(
+      "Waiting for a concurrency slot was aborted",
+    );
+    await expect(semaphore.acquire(controller.signal)).rejects.toThrow(
+      "Waiting for a concurrency slot was aborted",
+    );
+    // The aborted waiter gave up its place in the queue
+    release();
+    await expect(next).resolves.toBeTypeOf("function");
+  });
+
+  it("rejects limits below one", () => {
+    expect(() => new Semaphore(0)).toThrow(
+      "Concurrency limit must be a positive integer, got 0",
+    );
+  });
+});
+
+describe("matchesToolPattern", () => {
+  it("matches wildcards and exact names", () => {
+    expect(matchesToolPattern("github:*", "github:create_issue")).toBe(true);
+    expect(matchesToolPattern("github:*", "gitlab:create_issue")).toBe(false);
+    expect(matchesToolPattern("search", "search")).toBe(true);
+    expect(matchesToolPattern("search", "search_docs")).toBe(false);
+    expect(matchesToolPattern("*.read", "fs.read")).toBe(true);
+    expect(matchesToolPattern("*.read", "fs_read")).toBe(false);
+  });
+});
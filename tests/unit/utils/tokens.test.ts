@@ -0,0 +1,19 @@
+import { describe, expect, it } from "vitest";
+
+import { estimateTokens } from "@/utils/tokens";
+
+describe("estimateTokens", () => {
+  it("approximates four characters per token", () => {
+    expect(estimateTokens("abcd")).toBe(1);
+    expect(estimateTokens("abcde")).toBe(2);
+  });
+
+  it("measures serialized objects", () => {
+    expect(estimateTokens({ a: 1 })).toBe(Math.ceil('{"a":1}'.length / 4));
+  });
+
+  it("treats missing values as empty", () => {
+    expect(estimateTokens(undefined)).toBe(0);
+    expect(estimateTokens(null)).toBe(0);
+  });
+});
@@ -519,6 +519,21 @@ describe("@tool decorator", () => {
 
       expect(result).toBe("Hello, Alice!");
     });
+
+    it("carries the retry policy onto the extracted tool", () => {
+      const retry = { maxAttempts: 3, backoffMs: 50 };
+
+      class HttpTools {
+        @tool({ name: "fetch_status", retry })
+        fetchStatus(): string {
+          return "ok";
+        }
+      }
+
+      const tools = extractTools(new HttpTools());
+
+      expect(tools[0]?.retry).toBe(retry);
+    });
   });
 
   describe("Tool execution", () => {
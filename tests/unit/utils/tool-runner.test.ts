@@ -2,6 +2,7 @@ import { describe, expect, it } from "vitest";
 import { z } from "zod";
 
 import { AgentContext } from "@/base/context";
+import { ToolInputValidationError, ToolTimeoutError } from "@/base/errors";
 import type { Tool, ToolExecutionContext, ToolResult } from "@/base/tool";
 import { ToolResultFactory } from "@/base/tool";
 import { ToolRunner } from "@/utils/tool-runner";
@@ -410,6 +411,180 @@ describe("ToolRunner", () => {
     });
   });
 
+  describe("validateInput", () => {
+    it("returns parsed input with schema defaults applied", () => {
+      const tool: Tool<{ limit: number }, string> = {
+        name: "test",
+        schema: z.object({ limit: z.number().default(10) }),
+        execute: async () => ToolResultFactory.success("test", "ok"),
+      };
+
+      expect(ToolRunner.validateInput(tool, {})).toEqual({
+        success: true,
+        data: { limit: 10 },
+      });
+    });
+
+    it("lists every issue with its argument path", () => {
+      const tool: Tool<{ user: { name: string }; age: number }, string> = {
+        name: "profile",
+        schema: z.object({
+          user: z.object({ name: z.string() }),
+          age: z.number(),
+        }),
+        execute: async () => ToolResultFactory.success("profile", "ok"),
+      };
+
+      const validation = ToolRunner.validateInput(tool, {
+        user: { name: 1 },
+        age: "old",
+      });
+
+      expect(validation.success).toBe(false);
+      if (!validation.success) {
+        expect(validation.error).toBeInstanceOf(ToolInputValidationError);
+        expect(validation.error.issues.map((issue) => issue.path)).toEqual([
+          "user.name",
+          "age",
+        ]);
+        expect(validation.error.message).toMatch(
+          /^Invalid input for tool "profile": user\.name: .+; age: .+\. Fix these arguments and call the tool again\.$/,
+        );
+      }
+    });
+  });
+
+  describe("invoke", () => {
+    it("aborts the tool signal when the timeout elapses", async () => {
+      let toolSignal: AbortSignal | undefined;
+      const tool: Tool<Record<string, never>, string> = {
+        name: "hanging",
+        execute: (_input, executionContext) => {
+          toolSignal = executionContext.signal;
+          return new Promise(() => {});
+        },
+      };
+
+      const context = new AgentContext({ agentName: "test", goal: "test" });
+      await expect(
+        ToolRunner.invoke(
+          tool,
+          {},
+          { agentContext: context },
+          { timeoutMs: 20 },
+        ),
+      ).rejects.toBeInstanceOf(ToolTimeoutError);
+      expect(toolSignal?.aborted).toBe(true);
+    });
+
+    it("rejects as soon as the caller signal aborts", async () => {
+      const controller = new AbortController();
+      const tool: Tool<Record<string, never>, string> = {
+        name: "hanging",
+        execute: () => {
+          setTimeout(() => controller.abort(), 10);
+          return new Promise(() => {});
+        },
+      };
+
+      const context = new AgentContext({ agentName: "test", goal: "test" });
+      await expect(
+        ToolRunner.invoke(
+          tool,
+          {},
+          { agentContext: context },
+          { signal: controller.signal },
+        ),
+      ).rejects.toThrow('Tool "hanging" execution was aborted');
+    });
+  });
+
+  describe("invokeWithRetry", () => {
+    it("retries failed attempts with exponential backoff", async () => {
+      let calls = 0;
+      const tool: Tool<Record<string, never>, string> = {
+        name: "flaky",
+        retry: { maxAttempts: 3, backoffMs: 5 },
+        execute: async () => {
+          calls += 1;
+          if (calls < 3) {
+            throw new Error(`HTTP 503 (call ${calls})`);
+          }
+          return ToolResultFactory.success("flaky", "ok");
+        },
+      };
+
+      const context = new AgentContext({ agentName: "test", goal: "test" });
+      const retries: Array<{ attempt: number; delayMs: number }> = [];
+      const { result, attempts } = await ToolRunner.invokeWithRetry(
+        tool,
+        {},
+        { agentContext: context },
+        {
+          onRetry: ({ attempt, delayMs }) => {
+            retries.push({ attempt, delayMs });
+          },
+        },
+      );
+
+      expect(result).toMatchObject({ success: true, output: "ok" });
+      expect(retries).toEqual([
+        { attempt: 1, delayMs: 5 },
+        { attempt: 2, delayMs: 10 },
+      ]);
+      expect(attempts).toMatchObject([
+        { attempt: 1, success: false, error: "HTTP 503 (call 1)" },
+        { attempt: 2, success: false, error: "HTTP 503 (call 2)" },
+        { attempt: 3, success: true },
+      ]);
+    });
+
+    it("stops when retryOn rejects the error", async () => {
+      const execute = async () =>
+        ToolResultFactory.failure("lookup", new Error("HTTP 404"));
+      const tool: Tool<Record<string, never>, string> = {
+        name: "lookup",
+        retry: {
+          maxAttempts: 5,
+          backoffMs: 0,
+          retryOn: (error) => !String(error).includes("404"),
+        },
+        execute,
+      };
+
+      const context = new AgentContext({ agentName: "test", goal: "test" });
+      const { result, attempts } = await ToolRunner.invokeWithRetry(
+        tool,
+        {},
+        { agentContext: context },
+      );
+
+      expect(result.success).toBe(false);
+      expect(attempts).toHaveLength(1);
+    });
+
+    it("makes a single attempt for tools without a policy", async () => {
+      let calls = 0;
+      const tool: Tool<Record<string, never>, string> = {
+        name: "once",
+        execute: async () => {
+          calls += 1;
+          throw new Error("boom");
+        },
+      };
+
+      const context = new AgentContext({ agentName: "test", goal: "test" });
+      const { result } = await ToolRunner.invokeWithRetry(
+        tool,
+        {},
+        { agentContext: context },
+      );
+
+      expect(calls).toBe(1);
+      expect(result.success).toBe(false);
+    });
+  });
+
   describe("isSuccess", () => {
     it("returns true for successful results", () => {
       const result: ToolResult<string> = ToolResultFactory.success(
@@ -1,7 +1,10 @@
 import { defineConfig } from "tsup";
 
 export default defineConfig({
-  entry: ["src/index.ts"],
+  entry: {
+    index: "src/index.ts",
+    testing: "src/testing/index.ts",
+  },
   format: ["esm", "cjs"],
   sourcemap: true,
   dts: true,